@@ -1,12 +1,18 @@
-import { useState, useRef, useEffect, useCallback } from "react";
-import type { Canvas as FabricCanvasType } from "fabric";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import type {
+  Canvas as FabricCanvasType,
+  FabricObject,
+  Path,
+  TMat2D,
+  TPointerEventInfo,
+  Transform,
+} from "fabric";
 import {
   Circle,
   Rect,
   FabricImage,
   loadSVGFromURL,
   util as fabricUtil,
-  PencilBrush,
   ActiveSelection,
   Point,
 } from "fabric";
@@ -20,24 +26,95 @@ import {
   Circle as CircleIcon,
   FileUp,
   PenTool,
+  Spline,
   Undo2,
   Redo2,
 } from "lucide-react";
 import { VarioBrush } from "./brushes/VarioBrush";
+import { SymmetricPencilBrush } from "./brushes/SymmetricPencilBrush";
+import { EraserBrush } from "./brushes/EraserBrush";
+import { PenTool as BezierPenTool } from "./brushes/PenTool";
 import { UndoRedoManager } from "./core/UndoRedoManager";
 import { useUndoRedo } from "./hooks/useUndoRedo";
-import { CreateCommand } from "./core/commands/CreateCommand";
+import {
+  CreateCommand,
+  type DuplicateSource,
+} from "./core/commands/CreateCommand";
+import { DeleteCommand } from "./core/commands/DeleteCommand";
+import { TransformCommand } from "./core/commands/TransformCommand";
 import { MergeCommand } from "./core/commands/MergeCommand";
+import { EraseCommand } from "./core/commands/EraseCommand";
+import { PathEditCommand } from "./core/commands/PathEditCommand";
+import { BooleanCommand } from "./core/commands/BooleanCommand";
+import { BatchCommand } from "./core/commands/BatchCommand";
+import {
+  PropertyCommand,
+  MultiPropertyCommand,
+} from "./core/commands/PropertyCommand";
+import { RecolorCommand } from "./core/commands/RecolorCommand";
+import {
+  EntityGroupCommand,
+  captureEntityGroupState,
+} from "./core/commands/EntityGroupCommand";
+import {
+  deserializeHistory,
+  serializeHistory,
+} from "./core/commands/serialization";
+import {
+  captureObjectSnapshot,
+  hasTransformChanged,
+} from "./core/commands/utils";
+import type {
+  ObjectSnapshot,
+  SerializedHistory,
+} from "./core/commands/types";
+import {
+  ClipMaskCommand,
+  type ClipMaskChange,
+} from "./core/commands/ClipMaskCommand";
+import { eraseObject } from "./core/VectorEraser";
+import { NodeEditor } from "./core/NodeEditor";
+import { isSmoothNode } from "./core/PathNodes";
+import { GradientEditor } from "./core/GradientEditor";
+import type { PaintProperty } from "./core/Gradients";
+import {
+  collectPaletteColors,
+  normalizePaletteColor,
+  planRecolor,
+  replacePaletteColor,
+} from "./core/Palette";
+import { applyColorway, type Colorway } from "./core/Colorways";
+import { createSnapshot, type Snapshot } from "./core/Snapshots";
+import {
+  MacroRecorder,
+  orderSelection,
+  replayMacro,
+  type Macro,
+} from "./core/Macros";
+import {
+  performBooleanOperation,
+  type BooleanOperation,
+} from "./core/BooleanOperations";
+import { canConvertToPath } from "./lib/svgo/convertShapeToPath";
+import type { MultiPolygon } from "./utils/strokePolygon";
 import { mergePaths, extractPathData, canMergePaths } from "./utils/pathMerge";
 import { FabricCanvas } from "./components/Canvas/FabricCanvas";
 import { GridOverlay } from "./components/Canvas/GridOverlay";
 import { ZoomView } from "./components/Canvas/ZoomView";
 import { CanvasZoomSlider } from "./components/Canvas/CanvasZoomSlider";
+import { NodeEditToolbar } from "./components/Canvas/NodeEditToolbar";
+import { GradientEditToolbar } from "./components/Canvas/GradientEditToolbar";
 import { EntityPanel } from "./components/Panels/EntityPanel";
 import { LayerPanel } from "./components/Panels/LayerPanel";
 import { PlacementPanel } from "./components/Panels/PlacementPanel";
 import { PropertiesPanel } from "./components/Panels/PropertiesPanel";
+import { PalettePanel } from "./components/Panels/PalettePanel";
 import { CollapsiblePanel } from "./components/Panels/CollapsiblePanel";
+import { PatternPanel } from "./components/Panels/PatternPanel";
+import { RadialPanel } from "./components/Panels/RadialPanel";
+import { HistoryPanel } from "./components/Panels/HistoryPanel";
+import { SnapshotPanel } from "./components/Panels/SnapshotPanel";
+import { MacroPanel } from "./components/Panels/MacroPanel";
 import { ImportDialog } from "./components/ImportDialog/ImportDialog";
 import { SVGCodeDialog } from "./components/SVGCodeDialog/SVGCodeDialog";
 import { SVGEditDialog } from "./components/SVGEditDialog/SVGEditDialog";
@@ -46,15 +123,38 @@ import { ProjectExportDialog } from "./components/ProjectExportDialog/ProjectExp
 import { RecoveryDialog } from "./components/RecoveryDialog/RecoveryDialog";
 import { useTilingEngine } from "./hooks/useTilingEngine";
 import { usePlacementControls } from "./hooks/usePlacementControls";
-import { LayerManager } from "./core/LayerManager";
+import { LayerManager, holdsObjects } from "./core/LayerManager";
 import { EntityGroupManager } from "./core/EntityGroupManager";
+import { ClipMaskManager, isClipMaskShape } from "./core/ClipMaskManager";
 import type { ExtendedFabricObject } from "./types/FabricExtensions";
+import type { TileSize } from "./types/TileSize";
+import type { ProjectData } from "./types/ProjectFormat";
+import {
+  getRepeatSize,
+  isHexagonalLayout,
+  multiplyMatrices,
+  normalizeRepeatLayout,
+  supportsRectangularTile,
+  wrapToCenterCell,
+  STRAIGHT_REPEAT,
+  type RepeatLayout,
+  type WallpaperGroup,
+} from "./core/WallpaperSymmetry";
+import {
+  getRadialSettingsMatrices,
+  DEFAULT_RADIAL_SETTINGS,
+  type RadialSettings,
+} from "./core/RadialSymmetry";
 import type {
   VirtualTilingContext,
   LayerBackground,
 } from "./hooks/useFabricCanvas";
 import type { Layer } from "./core/LayerManager";
-import { exportProjectAsJSON, serializeProject } from "./utils/projectExport";
+import {
+  downloadProjectData,
+  exportProjectAsJSON,
+  serializeProject,
+} from "./utils/projectExport";
 import {
   importProjectFromFile,
   deserializeProject,
@@ -65,6 +165,19 @@ import {
   saveToLocalStorage,
   clearAutosave,
 } from "./utils/autoSave";
+import { loadMacros, saveMacros } from "./utils/macroStorage";
+import {
+  PALETTE_FILE_FORMATS,
+  parsePaletteFile,
+  writePaletteFile,
+  type NamedColor,
+  type PaletteFileFormat,
+} from "./utils/paletteFormats";
+import {
+  downloadFile,
+  generateCenterTileSVG,
+  rasterizeSVG,
+} from "./utils/svgExport";
 
 type Tool =
   | "brush"
@@ -73,10 +186,11 @@ type Tool =
   | "select"
   | "rectangle"
   | "circle"
+  | "path"
   | "svg";
 
-// Fixed tile size for drawing - resolution setting only affects export quality
-const DRAWING_TILE_SIZE = 256;
+// Default tile size for drawing - resolution setting only affects export quality
+const DEFAULT_TILE_SIZE: TileSize = { width: 256, height: 256 };
 
 function App() {
   const tileCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -89,7 +203,39 @@ function App() {
   );
   const [virtualTilingContext, setVirtualTilingContext] =
     useState<VirtualTilingContext | null>(null);
-  const tilingEngine = useTilingEngine(fabricCanvas, DRAWING_TILE_SIZE);
+  const [tileSize, setTileSize] = useState<TileSize>(DEFAULT_TILE_SIZE);
+  const tilingEngine = useTilingEngine(fabricCanvas, tileSize);
+  const [symmetryGroup, setSymmetryGroup] = useState<WallpaperGroup>("p1");
+  const [repeatLayout, setRepeatLayout] =
+    useState<RepeatLayout>(STRAIGHT_REPEAT);
+  // Saved palette swatches - the palette panel adds the colours in use
+  const [palette, setPalette] = useState<string[]>([]);
+  // Named colour variants of the project, and the one shown on the canvas (null for the base colours)
+  const [colorways, setColorways] = useState<Colorway[]>([]);
+  const [activeColorwayId, setActiveColorwayId] = useState<string | null>(null);
+  // Swatches read from palette files, shown with the colour presets
+  const [importedSwatches, setImportedSwatches] = useState<NamedColor[]>([]);
+  const activeColorway = useMemo(
+    () => colorways.find(({ id }) => id === activeColorwayId) ?? null,
+    [colorways, activeColorwayId]
+  );
+  // Named versions of the project, oldest first
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  // Snapshots as last loaded or saved, so loading a project doesn't make it dirty
+  const savedSnapshotsRef = useRef<Snapshot[]>(snapshots);
+  // Saved macros, kept across projects, and the one being recorded
+  const [macros, setMacros] = useState<Macro[]>(loadMacros);
+  const macroRecordingRef = useRef<{
+    recorder: MacroRecorder;
+    unsubscribe: () => void;
+  } | null>(null);
+  const [macroRecording, setMacroRecording] = useState<{
+    steps: number;
+    skipped: number;
+  } | null>(null);
+  const [radialSettings, setRadialSettings] = useState<RadialSettings>(
+    DEFAULT_RADIAL_SETTINGS
+  );
   const [isDrawingShape, setIsDrawingShape] = useState(false);
   const [shapeStart, setShapeStart] = useState<{ x: number; y: number } | null>(
     null
@@ -98,6 +244,7 @@ function App() {
   const [layerManager, setLayerManager] = useState<LayerManager | null>(null);
   const [entityGroupManager, setEntityGroupManager] =
     useState<EntityGroupManager | null>(null);
+  const [clipMaskManager] = useState(() => new ClipMaskManager());
   const [currentLayerId, setCurrentLayerId] = useState<string>("");
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [isSVGCodeDialogOpen, setIsSVGCodeDialogOpen] = useState(false);
@@ -114,9 +261,12 @@ function App() {
     useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const projectFileInputRef = useRef<HTMLInputElement>(null);
+  const paletteFileInputRef = useRef<HTMLInputElement>(null);
   const [isDirty, setIsDirty] = useState(false);
   const [showRecoveryDialog, setShowRecoveryDialog] = useState(false);
   const autoSaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Whether the user was told reference images don't fit in the autosave
+  const referenceImagesWarnedRef = useRef(false);
   const [objectUpdateCounter, setObjectUpdateCounter] = useState(0);
 
   // Advanced placement state
@@ -135,6 +285,8 @@ function App() {
   // Canvas zoom state (for the main 3x3 grid)
   const [canvasZoom, setCanvasZoom] = useState(1);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
+  const penToolRef = useRef<BezierPenTool | null>(null);
+  const nodeEditorRef = useRef<NodeEditor | null>(null);
 
   // Handle Ctrl+wheel zoom on canvas - use native event for passive: false
   useEffect(() => {
@@ -206,6 +358,22 @@ function App() {
 
   // Drag selection state
   const [isDragSelecting, setIsDragSelecting] = useState(false);
+
+  // Node editing: the path being edited and the copy it was selected at
+  const [nodeEditTarget, setNodeEditTarget] = useState<{
+    mirrorGroupId: string;
+    copyMatrix: TMat2D;
+  } | null>(null);
+  // Gradient editing: the object whose fill or stroke gradient has handles on the canvas
+  const [gradientEditTarget, setGradientEditTarget] = useState<{
+    mirrorGroupId: string;
+    property: PaintProperty;
+    copyMatrix: TMat2D;
+  } | null>(null);
+  // Whether the selected node is smooth (null when no node is selected)
+  const [selectedNodeSmooth, setSelectedNodeSmooth] = useState<boolean | null>(
+    null
+  );
   const [dragSelectStart, setDragSelectStart] = useState<{
     x: number;
     y: number;
@@ -222,13 +390,30 @@ function App() {
 
   // Derive layer backgrounds for canvas rendering
   const layerBackgrounds: LayerBackground[] = layers
-    .filter((layer) => layer.backgroundColor)
+    .filter((layer) => layer.backgroundColor && !layer.reference)
     .map((layer) => ({
       order: layer.order,
       backgroundColor: layer.backgroundColor!,
       backgroundAlpha: layer.backgroundAlpha ?? 1,
     }));
 
+  // Small picture of the tile for the history and snapshot panels, drawn like the export
+  const getTileThumbnail = async (size = 64): Promise<string | null> => {
+    if (!fabricCanvas) return null;
+    const svgString = await generateCenterTileSVG(
+      fabricCanvas,
+      tileSize,
+      layerBackgrounds,
+      symmetryGroup,
+      repeatLayout,
+      activeColorway,
+      layers,
+      clipMaskManager
+    );
+    const { width, height } = getRepeatSize(symmetryGroup, tileSize, repeatLayout);
+    return rasterizeSVG(svgString, size, Math.round((size * height) / width));
+  };
+
   // Handle canvas ready callback
   const handleCanvasReady = useCallback(
     (canvas: FabricCanvasType, vtContext: VirtualTilingContext) => {
@@ -249,11 +434,16 @@ function App() {
     const groupManager = new EntityGroupManager(
       fabricCanvas,
       manager,
-      DRAWING_TILE_SIZE
+      DEFAULT_TILE_SIZE
     );
     setEntityGroupManager(groupManager);
   }, [fabricCanvas, layerManager]);
 
+  // Keep group bounds calculations in sync with the tile size
+  useEffect(() => {
+    entityGroupManager?.setTileSize(tileSize);
+  }, [entityGroupManager, tileSize]);
+
   // Enable virtual tiling on TilingEngine and LayerManager when context is ready
   useEffect(() => {
     if (!tilingEngine || !virtualTilingContext?.selectionProxyManager) return;
@@ -268,8 +458,34 @@ function App() {
     if (layerManager) {
       layerManager.setCanonicalStore(canonicalStore);
       hitTestInterceptor.setLayerManager(layerManager);
+      virtualTilingContext.virtualRenderer.setLayerManager(layerManager);
     }
-  }, [tilingEngine, virtualTilingContext, layerManager]);
+    virtualTilingContext.virtualRenderer.setClipMaskManager(clipMaskManager);
+  }, [tilingEngine, virtualTilingContext, layerManager, clipMaskManager]);
+
+  // Keep TilingEngine in sync with the wallpaper group and repeat layout, and drop
+  // proxies created for the previous instances (also when the tile size changes)
+  useEffect(() => {
+    tilingEngine?.setSymmetryGroup(symmetryGroup);
+    tilingEngine?.setRepeatLayout(repeatLayout);
+
+    if (!fabricCanvas || !virtualTilingContext?.selectionProxyManager) return;
+    fabricCanvas.discardActiveObject();
+    virtualTilingContext.selectionProxyManager.clearAll();
+    fabricCanvas.requestRenderAll();
+  }, [
+    symmetryGroup,
+    repeatLayout,
+    tileSize,
+    tilingEngine,
+    virtualTilingContext,
+    fabricCanvas,
+  ]);
+
+  // Keep TilingEngine in sync with the radial drawing mode (applies to new objects only)
+  useEffect(() => {
+    tilingEngine?.setRadialSettings(radialSettings);
+  }, [radialSettings, tilingEngine]);
 
   // Update VirtualRenderingEngine highlighted objects when hover changes
   useEffect(() => {
@@ -321,19 +537,63 @@ function App() {
 
     // Set new timeout (2 seconds debounce)
     autoSaveTimeoutRef.current = setTimeout(() => {
-      const projectData = serializeProject(
-        fabricCanvas,
-        layerManager,
-        DRAWING_TILE_SIZE,
-        entityGroupManager
-      );
-      const success = saveToLocalStorage(projectData);
+      const projectData = serializeProject(fabricCanvas, layerManager, {
+        tileSize,
+        entityGroupManager,
+        symmetryGroup,
+        repeatLayout,
+        palette,
+        colorways,
+        clipMaskManager,
+        history: undoRedoManager
+          ? serializeHistory(undoRedoManager.getHistory())
+          : undefined,
+        snapshots,
+      });
+      const { success, leftOut } = saveToLocalStorage(projectData);
 
       if (!success) {
         console.warn("Auto-save failed - project may be too large");
+      } else if (
+        leftOut.includes("referenceImages") &&
+        !referenceImagesWarnedRef.current
+      ) {
+        // Once a session - a recovered session would have empty reference layers
+        referenceImagesWarnedRef.current = true;
+        alert(
+          "The project is too large to autosave with its reference images, so they are left out of the autosave. Export the project to keep them."
+        );
       }
     }, 2000);
-  }, [fabricCanvas, layerManager, entityGroupManager]);
+  }, [
+    fabricCanvas,
+    layerManager,
+    entityGroupManager,
+    tileSize,
+    symmetryGroup,
+    repeatLayout,
+    palette,
+    colorways,
+    clipMaskManager,
+    undoRedoManager,
+    snapshots,
+  ]);
+
+  // Keep the macros for other projects and sessions
+  useEffect(() => {
+    saveMacros(macros);
+  }, [macros]);
+
+  // Stop recording when the app goes away
+  useEffect(() => () => macroRecordingRef.current?.unsubscribe(), []);
+
+  // Save snapshot changes like any other change
+  useEffect(() => {
+    if (snapshots === savedSnapshotsRef.current) return;
+    savedSnapshotsRef.current = snapshots;
+    setIsDirty(true);
+    triggerAutoSave();
+  }, [snapshots, triggerAutoSave]);
 
   // Use placement controls hook
   const { updatePosition, updateRotation, updateScale, updateFlip } =
@@ -345,17 +605,92 @@ function App() {
       enabled: tool === "select",
     });
 
+  // Cut an eraser stroke out of the paths and shapes on the current layer, at whichever
+  // rendered copy it was drawn over, as one undoable command
+  const handleErase = useCallback(
+    async (eraser: MultiPolygon) => {
+      if (!virtualTilingContext || !undoRedoManager || !currentLayerId) return;
+
+      if (
+        layerManager?.getLayer(currentLayerId) &&
+        (layerManager.isLayerLocked(currentLayerId) ||
+          !layerManager.isLayerVisible(currentLayerId))
+      )
+        return;
+
+      const { canonicalStore, virtualRenderer } = virtualTilingContext;
+      const results = canonicalStore
+        .getByLayer(currentLayerId)
+        .filter((obj) => obj.visible !== false)
+        .flatMap((obj) => {
+          const result = eraseObject(
+            obj,
+            eraser,
+            virtualRenderer.getObjectCopyMatrices(obj)
+          );
+          return result ? [result] : [];
+        });
+      if (results.length === 0) return;
+
+      // Cut-down paths start at their bounding box - keep them in the center cell
+      for (const { replacement } of results) {
+        if (!replacement) continue;
+        const { x, y } = wrapToCenterCell(
+          { x: replacement.left, y: replacement.top },
+          symmetryGroup,
+          tileSize,
+          repeatLayout
+        );
+        replacement.set({ left: x, top: y });
+      }
+
+      // The brush doesn't wait for the erase, so failures end here
+      try {
+        await undoRedoManager.execute(
+          new EraseCommand(results, undoRedoManager.getDependencies())
+        );
+      } catch (error) {
+        console.error("Failed to erase:", error);
+      }
+    },
+    [
+      virtualTilingContext,
+      undoRedoManager,
+      currentLayerId,
+      layerManager,
+      symmetryGroup,
+      tileSize,
+      repeatLayout,
+    ]
+  );
+
+  // Brushes and the pen preview in-progress strokes at every repeat/symmetry instance,
+  // and at every radial copy while radial drawing is on
+  const getRepeatMatrices = useCallback(
+    () =>
+      virtualTilingContext?.virtualRenderer
+        .getInstances()
+        .map(({ matrix }) => matrix) ?? [],
+    [virtualTilingContext]
+  );
+  const getInstanceMatrices = useCallback(() => {
+    const radialMatrices = getRadialSettingsMatrices(radialSettings, tileSize);
+    return getRepeatMatrices().flatMap((matrix) =>
+      radialMatrices.map((radial) => multiplyMatrices(matrix, radial))
+    );
+  }, [getRepeatMatrices, radialSettings, tileSize]);
+
   // Setup drawing mode based on tool
   useEffect(() => {
     if (!fabricCanvas) return;
 
     console.log("Setting up tool:", tool);
 
-    if (tool === "brush" || tool === "eraser") {
-      // Create a new PencilBrush and assign it
-      const brush = new PencilBrush(fabricCanvas);
+    if (tool === "brush") {
+      // Create a new SymmetricPencilBrush and assign it
+      const brush = new SymmetricPencilBrush(fabricCanvas, getInstanceMatrices);
       brush.width = brushSize;
-      brush.color = tool === "eraser" ? "#1a1a25" : color;
+      brush.color = color;
 
       fabricCanvas.freeDrawingBrush = brush;
       fabricCanvas.isDrawingMode = true;
@@ -365,7 +700,11 @@ function App() {
       console.log("Brush - width:", brushSize, "color:", brush.color);
     } else if (tool === "varioBrush") {
       // Create VarioBrush - width varies inversely with movement speed
-      const varioBrush = new VarioBrush(fabricCanvas, brushSize);
+      const varioBrush = new VarioBrush(
+        fabricCanvas,
+        brushSize,
+        getInstanceMatrices
+      );
       varioBrush.color = color;
 
       fabricCanvas.freeDrawingBrush = varioBrush;
@@ -373,6 +712,18 @@ function App() {
       fabricCanvas.selection = false;
 
       console.log("Vario brush mode enabled, sizeFactor:", brushSize);
+    } else if (tool === "eraser") {
+      // Eraser cuts existing objects, so it previews at the repeat instances only
+      const eraser = new EraserBrush(
+        fabricCanvas,
+        handleErase,
+        getRepeatMatrices
+      );
+      eraser.width = brushSize;
+
+      fabricCanvas.freeDrawingBrush = eraser;
+      fabricCanvas.isDrawingMode = true;
+      fabricCanvas.selection = false;
     } else if (tool === "select") {
       fabricCanvas.isDrawingMode = false;
       fabricCanvas.selection = true;
@@ -382,7 +733,71 @@ function App() {
       fabricCanvas.selection = false;
       console.log("Shape drawing mode enabled for:", tool);
     }
-  }, [fabricCanvas, tool, brushSize, color]);
+  }, [
+    fabricCanvas,
+    tool,
+    brushSize,
+    color,
+    getRepeatMatrices,
+    getInstanceMatrices,
+    handleErase,
+  ]);
+
+  // Handle pen tool (bezier paths)
+  useEffect(() => {
+    if (!fabricCanvas || tool !== "path") return;
+
+    const pen = new BezierPenTool(fabricCanvas, getInstanceMatrices);
+    penToolRef.current = pen;
+
+    const handleMouseDown = (e: TPointerEventInfo) => {
+      pen.onMouseDown(fabricCanvas.getScenePoint(e.e));
+    };
+    const handleMouseMove = (e: TPointerEventInfo) => {
+      pen.onMouseMove(fabricCanvas.getScenePoint(e.e));
+    };
+    const handleMouseUp = () => pen.onMouseUp();
+    // Redraw after pans and zooms
+    const handleAfterRender = () => pen.render();
+
+    // Escape (or Enter) finishes an open path
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+      if ((e.key === "Escape" || e.key === "Enter") && pen.isDrawing()) {
+        e.preventDefault();
+        pen.finish();
+      }
+    };
+
+    fabricCanvas.on("mouse:down", handleMouseDown);
+    fabricCanvas.on("mouse:move", handleMouseMove);
+    fabricCanvas.on("mouse:up", handleMouseUp);
+    fabricCanvas.on("after:render", handleAfterRender);
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      fabricCanvas.off("mouse:down", handleMouseDown);
+      fabricCanvas.off("mouse:move", handleMouseMove);
+      fabricCanvas.off("mouse:up", handleMouseUp);
+      fabricCanvas.off("after:render", handleAfterRender);
+      window.removeEventListener("keydown", handleKeyDown);
+      pen.cancel();
+      penToolRef.current = null;
+    };
+  }, [fabricCanvas, tool, getInstanceMatrices]);
+
+  // Keep the pen style in sync without dropping the path being drawn
+  useEffect(() => {
+    const pen = penToolRef.current;
+    if (!pen) return;
+    pen.color = color;
+    pen.width = brushSize;
+  }, [tool, color, brushSize]);
 
   // Handle path creation (brush strokes)
   useEffect(() => {
@@ -390,7 +805,7 @@ function App() {
 
     const handlePathCreated = async (e: any) => {
       // Skip if we're in the middle of undo/redo
-      if (undoRedoManager?.isInTransaction()) return;
+      if (undoRedoManager?.isApplyingHistory()) return;
 
       console.log("Path created event fired:", e);
       const path = e.path;
@@ -689,6 +1104,68 @@ function App() {
     };
   }, [fabricCanvas]);
 
+  // Record moving, scaling and rotating selected entities on the canvas - a multi-selection
+  // as one undo step. Proxies are synced to their canonical objects before this runs.
+  useEffect(() => {
+    if (!fabricCanvas || !undoRedoManager || !virtualTilingContext) return;
+
+    const { canonicalStore, selectionProxyManager } = virtualTilingContext;
+    let before: ObjectSnapshot[] = [];
+
+    const getCanonicals = (target: FabricObject | undefined) =>
+      (target instanceof ActiveSelection ? target.getObjects() : target ? [target] : [])
+        .filter((obj) => selectionProxyManager?.isProxy(obj))
+        .map((proxy) =>
+          canonicalStore.get((proxy as ExtendedFabricObject).proxyMetadata!.mirrorGroupId)
+        )
+        .filter((obj): obj is ExtendedFabricObject => !!obj);
+
+    const handleBeforeTransform = ({ transform }: { transform?: Transform }) => {
+      before = getCanonicals(transform?.target).map((obj) =>
+        captureObjectSnapshot(obj, canonicalStore)
+      );
+    };
+
+    const handleObjectModified = () => {
+      const snapshots = before;
+      before = [];
+      if (snapshots.length === 0 || undoRedoManager.isApplyingHistory()) return;
+
+      const changes = snapshots
+        .map((snapshot): [ObjectSnapshot, ObjectSnapshot | null] => {
+          const canonical = canonicalStore.get(snapshot.mirrorGroupId);
+          return [snapshot, canonical ? captureObjectSnapshot(canonical, canonicalStore) : null];
+        })
+        .filter((change): change is [ObjectSnapshot, ObjectSnapshot] =>
+          !!change[1] && hasTransformChanged(change[0], change[1])
+        );
+      if (changes.length === 0) return;
+
+      const commands = changes.map(
+        ([beforeState, afterState]) =>
+          new TransformCommand(
+            beforeState.mirrorGroupId,
+            beforeState,
+            afterState,
+            undoRedoManager.getDependencies()
+          )
+      );
+      undoRedoManager.record(
+        commands.length === 1
+          ? commands[0]
+          : new BatchCommand(`Transform ${commands.length} objects`, commands)
+      );
+    };
+
+    fabricCanvas.on("before:transform", handleBeforeTransform);
+    fabricCanvas.on("object:modified", handleObjectModified);
+
+    return () => {
+      fabricCanvas.off("before:transform", handleBeforeTransform);
+      fabricCanvas.off("object:modified", handleObjectModified);
+    };
+  }, [fabricCanvas, undoRedoManager, virtualTilingContext]);
+
   // Virtual tiling hit testing - intercept clicks on canvas to select canonical objects via proxies
   useEffect(() => {
     if (
@@ -697,7 +1174,7 @@ function App() {
       !virtualTilingContext?.selectionProxyManager
     )
       return;
-    if (tool !== "select") return;
+    if (tool !== "select" || nodeEditTarget || gradientEditTarget) return;
 
     const { hitTestInterceptor, selectionProxyManager } = virtualTilingContext;
 
@@ -715,7 +1192,8 @@ function App() {
       const hitResult = hitTestInterceptor.findCanonicalObjectAtPoint(pointer);
 
       if (hitResult) {
-        const { canonicalObject, tileOffset } = hitResult;
+        const { canonicalObject, tileOffset, operationIndex, radialIndex } =
+          hitResult;
         const mirrorGroupId = canonicalObject.tiledMetadata?.mirrorGroupId;
 
         if (isMultiSelect) {
@@ -758,7 +1236,9 @@ function App() {
 
             const proxy = selectionProxyManager.createProxy(
               canonicalObject,
-              tileOffset
+              tileOffset,
+              operationIndex,
+              radialIndex
             );
 
             if (existingProxies.length > 0) {
@@ -780,7 +1260,9 @@ function App() {
           // Create proxy at the clicked tile offset
           const proxy = selectionProxyManager.createProxy(
             canonicalObject,
-            tileOffset
+            tileOffset,
+            operationIndex,
+            radialIndex
           );
 
           // Select the proxy
@@ -863,8 +1345,14 @@ function App() {
         selectionProxyManager.clearAll();
 
         // Create proxies for all selected objects
-        const proxies = hitResults.map(({ canonicalObject, tileOffset }) =>
-          selectionProxyManager.createProxy(canonicalObject, tileOffset)
+        const proxies = hitResults.map(
+          ({ canonicalObject, tileOffset, operationIndex, radialIndex }) =>
+            selectionProxyManager.createProxy(
+              canonicalObject,
+              tileOffset,
+              operationIndex,
+              radialIndex
+            )
         );
 
         if (proxies.length === 1) {
@@ -896,6 +1384,8 @@ function App() {
     isDragSelecting,
     dragSelectStart,
     dragSelectRect,
+    nodeEditTarget,
+    gradientEditTarget,
   ]);
 
   // Handle shape drawing (rectangle, circle)
@@ -1087,24 +1577,25 @@ function App() {
     // Account for devicePixelRatio - Fabric.js scales the canvas buffer
     // for retina displays, so we need to scale our extraction coordinates
     const retinaScaling = fabricCanvas.getRetinaScaling();
-    const scaledTileSize = DRAWING_TILE_SIZE * retinaScaling;
+    const scaledTileWidth = tileSize.width * retinaScaling;
+    const scaledTileHeight = tileSize.height * retinaScaling;
 
     // Extract center tile from the canvas
-    // Center tile is at (tileSize, tileSize) to (2*tileSize, 2*tileSize) in logical coords
+    // Center tile is at (width, height) to (2*width, 2*height) in logical coords
     // But the canvas buffer is scaled by retinaScaling
-    tileCtx.clearRect(0, 0, DRAWING_TILE_SIZE, DRAWING_TILE_SIZE);
+    tileCtx.clearRect(0, 0, tileSize.width, tileSize.height);
     tileCtx.drawImage(
       sourceCanvas,
-      scaledTileSize,
-      scaledTileSize, // Source x, y (scaled for retina)
-      scaledTileSize,
-      scaledTileSize, // Source width, height (scaled for retina)
+      scaledTileWidth,
+      scaledTileHeight, // Source x, y (scaled for retina)
+      scaledTileWidth,
+      scaledTileHeight, // Source width, height (scaled for retina)
       0,
       0, // Dest x, y
-      DRAWING_TILE_SIZE,
-      DRAWING_TILE_SIZE // Dest width, height
+      tileSize.width,
+      tileSize.height // Dest width, height
     );
-  }, [fabricCanvas]);
+  }, [fabricCanvas, tileSize]);
 
   // Check for auto-save on mount
   useEffect(() => {
@@ -1128,14 +1619,17 @@ function App() {
     fabricCanvas.on("object:added", handleChange);
     fabricCanvas.on("object:removed", handleChange);
     fabricCanvas.on("path:created", handleChange);
+    // The undo history is saved too, and some commands only change layers or groups
+    const unsubscribe = undoRedoManager?.onChanged(handleChange);
 
     return () => {
       fabricCanvas.off("object:modified", handleChange);
       fabricCanvas.off("object:added", handleChange);
       fabricCanvas.off("object:removed", handleChange);
       fabricCanvas.off("path:created", handleChange);
+      unsubscribe?.();
     };
-  }, [fabricCanvas, triggerAutoSave]);
+  }, [fabricCanvas, undoRedoManager, triggerAutoSave]);
 
   // Page unload warning
   useEffect(() => {
@@ -1187,10 +1681,11 @@ function App() {
       virtualTilingContext.selectionProxyManager.clearAll();
     }
 
-    // Clear entity groups
+    // Clear entity groups and clipping masks
     if (entityGroupManager) {
       entityGroupManager.clear();
     }
+    clipMaskManager.clear();
 
     // Remove all objects except grid lines
     const objects = fabricCanvas
@@ -1205,7 +1700,7 @@ function App() {
       const ctx = tileCanvas.getContext("2d");
       if (ctx) {
         ctx.fillStyle = "#1a1a25";
-        ctx.fillRect(0, 0, DRAWING_TILE_SIZE, DRAWING_TILE_SIZE);
+        ctx.fillRect(0, 0, tileSize.width, tileSize.height);
       }
     }
 
@@ -1218,28 +1713,63 @@ function App() {
     setIsExportDialogOpen(true);
   };
 
-  const updateObjectProperties = (properties: Record<string, unknown>) => {
-    if (!selectedObject || !layerManager) return;
-
-    // Update the selected object
-    selectedObject.set(properties);
-    selectedObject.setCoords();
+  // Change properties of the selected entity as an undoable command - changes made
+  // one after the other, e.g. while dragging a slider, are undone together
+  const updateObjectProperties = async (
+    properties: Record<string, unknown>
+  ) => {
+    if (!selectedObject || !undoRedoManager || !virtualTilingContext) return;
 
-    // Get the mirror group ID and update all tiled copies
     const mirrorGroupId = selectedObject.tiledMetadata?.mirrorGroupId;
-    if (mirrorGroupId) {
-      const objects = layerManager.getObjectsByMirrorGroup(mirrorGroupId);
-      objects.forEach((obj) => {
-        if (obj !== selectedObject) {
-          obj.set(properties);
-          obj.setCoords();
-        }
-      });
-    }
+    const canonical = mirrorGroupId
+      ? virtualTilingContext.canonicalStore.get(mirrorGroupId)
+      : null;
+    if (!mirrorGroupId || !canonical) return;
 
-    fabricCanvas?.requestRenderAll();
+    const before = Object.fromEntries(
+      Object.keys(properties).map((key) => [key, canonical.get(key)])
+    );
+    try {
+      await undoRedoManager.execute(
+        new MultiPropertyCommand(
+          mirrorGroupId,
+          before,
+          properties,
+          undoRedoManager.getDependencies()
+        )
+      );
+    } catch (error) {
+      console.error("Failed to change properties:", error);
+    }
+    setObjectUpdateCounter((prev) => prev + 1);
   };
 
+  // Record an entity that was just created, so undo removes it again
+  const recordCreation = useCallback(
+    (
+      mirrorGroupId: string,
+      description: string,
+      duplicateOf?: DuplicateSource
+    ) => {
+      const canonicalStore = virtualTilingContext?.canonicalStore;
+      const created = canonicalStore?.get(mirrorGroupId);
+      if (!undoRedoManager || !canonicalStore || !created) return;
+
+      undoRedoManager.record(
+        new CreateCommand(
+          mirrorGroupId,
+          created.layerId || "",
+          canonicalStore.getZOrderIndex(mirrorGroupId),
+          created,
+          undoRedoManager.getDependencies(),
+          description,
+          duplicateOf
+        )
+      );
+    },
+    [undoRedoManager, virtualTilingContext]
+  );
+
   const handleSVGCodeImport = async (svgCode: string) => {
     if (!fabricCanvas || !tilingEngine) return;
 
@@ -1258,15 +1788,28 @@ function App() {
     }
   };
 
+  // Import SVG objects as one undo step
+  const importSVGObjects = async (
+    ...args: Parameters<typeof createSVGEntities>
+  ) => {
+    if (undoRedoManager) {
+      await undoRedoManager.transaction("Import SVG", () =>
+        createSVGEntities(...args)
+      );
+    } else {
+      await createSVGEntities(...args);
+    }
+  };
+
   // Helper to import SVG objects - creates separate entities for multi-element SVGs
-  const importSVGObjects = async (objects: any[], options: any) => {
+  const createSVGEntities = async (objects: any[], options: any) => {
     if (!fabricCanvas || !tilingEngine) return;
 
     const basePosition = {
-      x: DRAWING_TILE_SIZE * 1.5,
-      y: DRAWING_TILE_SIZE * 1.5,
+      x: tileSize.width * 1.5,
+      y: tileSize.height * 1.5,
     };
-    const maxSize = DRAWING_TILE_SIZE * 0.8;
+    const maxSize = Math.min(tileSize.width, tileSize.height) * 0.8;
 
     // If only one object or no objects, use existing single-group behavior
     if (objects.length <= 1) {
@@ -1276,11 +1819,12 @@ function App() {
         svgGroup.scale(scale);
       }
       if (tilingEngine.isVirtualTilingEnabled()) {
-        await tilingEngine.createCanonicalObject(
+        const mirrorGroupId = await tilingEngine.createCanonicalObject(
           svgGroup,
           basePosition,
           currentLayerId
         );
+        recordCreation(mirrorGroupId, "Import SVG");
       } else {
         await tilingEngine.createTiledObject(
           svgGroup,
@@ -1333,6 +1877,7 @@ function App() {
           position,
           currentLayerId
         );
+        recordCreation(mirrorGroupId, "Import SVG element");
         createdMirrorGroupIds.push(mirrorGroupId);
       } else {
         const tiledObjects = await tilingEngine.createTiledObject(
@@ -1353,11 +1898,26 @@ function App() {
 
     // Auto-group if multiple entities were created
     if (createdMirrorGroupIds.length > 1 && entityGroupManager) {
+      const canonicalStore = virtualTilingContext?.canonicalStore;
+      const before =
+        canonicalStore &&
+        captureEntityGroupState(entityGroupManager, canonicalStore, [], createdMirrorGroupIds);
       const group = entityGroupManager.createGroup(
         createdMirrorGroupIds,
         "SVG Import"
       );
       if (group) {
+        if (undoRedoManager && canonicalStore && before) {
+          const after = captureEntityGroupState(
+            entityGroupManager,
+            canonicalStore,
+            [group.id],
+            createdMirrorGroupIds
+          );
+          undoRedoManager.record(
+            new EntityGroupCommand("Group entities", before, after, entityGroupManager, undoRedoManager.getDependencies())
+          );
+        }
         // Select the new group to update UI
         setSelectedEntityIds(new Set(group.memberMirrorGroupIds));
       }
@@ -1384,7 +1944,7 @@ function App() {
         // Handle images (PNG, JPEG)
         FabricImage.fromURL(dataUrl).then(async (img) => {
           // Scale down if too large
-          const maxSize = DRAWING_TILE_SIZE * 0.8;
+          const maxSize = Math.min(tileSize.width, tileSize.height) * 0.8;
           if (img.width! > maxSize || img.height! > maxSize) {
             const scale = maxSize / Math.max(img.width!, img.height!);
             img.scale(scale);
@@ -1392,8 +1952,8 @@ function App() {
 
           // Position at center of center tile
           const position = {
-            x: DRAWING_TILE_SIZE * 1.5,
-            y: DRAWING_TILE_SIZE * 1.5,
+            x: tileSize.width * 1.5,
+            y: tileSize.height * 1.5,
           };
           if (tilingEngine.isVirtualTilingEnabled()) {
             await tilingEngine.createCanonicalObject(
@@ -1423,36 +1983,104 @@ function App() {
     e.target.value = ""; // Reset input
   };
 
-  const handleDuplicateEntity = async (mirrorGroupId: string) => {
-    if (!layerManager || !tilingEngine || !fabricCanvas) return;
+  // Returns the copy's mirrorGroupId, when it can be undone
+  const handleDuplicateEntity = async (
+    mirrorGroupId: string,
+    offset = { x: 20, y: 20 }
+  ): Promise<string | null> => {
+    if (!layerManager || !tilingEngine || !fabricCanvas) return null;
 
     const objects = layerManager.getObjectsByMirrorGroup(mirrorGroupId);
-    if (objects.length === 0) return;
+    if (objects.length === 0) return null;
 
     // Get the first object to clone
     const firstObj = objects[0] as ExtendedFabricObject;
 
-    // Clone the first object
+    // Clone the first object, keeping its radial symmetry
     const cloned = await firstObj.clone();
+    (cloned as ExtendedFabricObject).tiledMetadata = firstObj.tiledMetadata;
 
     // Offset the position slightly so it's visible
-    const offset = 20;
     const position = {
-      x: (firstObj.left || 0) + offset,
-      y: (firstObj.top || 0) + offset,
+      x: (firstObj.left || 0) + offset.x,
+      y: (firstObj.top || 0) + offset.y,
     };
 
     // Create tiled version with the same layer
+    let duplicateId: string | null = null;
     if (tilingEngine.isVirtualTilingEnabled()) {
-      await tilingEngine.createCanonicalObject(
+      duplicateId = await tilingEngine.createCanonicalObject(
         cloned,
         position,
         firstObj.layerId
       );
+      recordCreation(duplicateId, `Duplicate ${cloned.type || "object"}`, {
+        mirrorGroupId,
+        offset,
+      });
     } else {
       await tilingEngine.createTiledObject(cloned, position, firstObj.layerId);
     }
     fabricCanvas.requestRenderAll();
+    return duplicateId;
+  };
+
+  // Record what is done to the selected entities from now on, until the macro is saved
+  const handleStartMacroRecording = () => {
+    if (!undoRedoManager || !virtualTilingContext) return;
+
+    const recorder = new MacroRecorder(
+      orderSelection(selectedEntityIds, virtualTilingContext.canonicalStore)
+    );
+    const unsubscribe = undoRedoManager.onCommandAdded((command) => {
+      recorder.add(command);
+      setMacroRecording({
+        steps: recorder.getSteps().length,
+        skipped: recorder.getSkipped().length,
+      });
+    });
+    macroRecordingRef.current = { recorder, unsubscribe };
+    setMacroRecording({ steps: 0, skipped: 0 });
+  };
+
+  const stopMacroRecording = () => {
+    const recording = macroRecordingRef.current;
+    recording?.unsubscribe();
+    macroRecordingRef.current = null;
+    setMacroRecording(null);
+    return recording?.recorder ?? null;
+  };
+
+  const handleStopMacroRecording = (name: string) => {
+    const recorder = stopMacroRecording();
+    if (!recorder) return;
+    setMacros((prev) => [
+      ...prev,
+      recorder.finish(name.trim() || `Macro ${prev.length + 1}`),
+    ]);
+  };
+
+  // Replay a macro on the selection as one undo step, then select what it worked on
+  const handlePlayMacro = async (macro: Macro) => {
+    if (!undoRedoManager) return;
+
+    try {
+      const result = await replayMacro(macro, Array.from(selectedEntityIds), {
+        undoRedoManager,
+        duplicate: handleDuplicateEntity,
+        palette,
+        setPalette,
+      });
+      setSelectedEntityIds(new Set(result));
+      setObjectUpdateCounter((prev) => prev + 1);
+    } catch (error) {
+      console.error("Failed to play macro:", error);
+      alert(
+        `Failed to play macro: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
   };
 
   const handleEditSVG = (mirrorGroupId: string, svgCode: string) => {
@@ -1462,32 +2090,624 @@ function App() {
 
   // Group selected entities
   const handleGroupSelected = useCallback(() => {
-    if (!entityGroupManager || selectedEntityIds.size < 2) return;
+    if (!entityGroupManager || !undoRedoManager || selectedEntityIds.size < 2) return;
 
+    const { canonicalStore } = undoRedoManager.getDependencies();
     const mirrorGroupIds = Array.from(selectedEntityIds);
+    // Grouping brings the members together in z-order
+    const before = captureEntityGroupState(entityGroupManager, canonicalStore, [], mirrorGroupIds);
     const group = entityGroupManager.createGroup(mirrorGroupIds);
 
     if (group) {
+      const after = captureEntityGroupState(entityGroupManager, canonicalStore, [group.id], mirrorGroupIds);
+      undoRedoManager.record(
+        new EntityGroupCommand("Group entities", before, after, entityGroupManager, undoRedoManager.getDependencies())
+      );
       // Update selection to reflect the group - this triggers EntityPanel refresh
       setSelectedEntityIds(new Set(group.memberMirrorGroupIds));
     }
-  }, [entityGroupManager, selectedEntityIds]);
+  }, [entityGroupManager, undoRedoManager, selectedEntityIds]);
 
-  // Ungroup selected entity group
+  // Ungroup every entity group with a selected member, as one undo step
   const handleUngroupSelected = useCallback(() => {
-    if (!entityGroupManager || selectedEntityIds.size === 0) return;
+    if (!entityGroupManager || !undoRedoManager || selectedEntityIds.size === 0) return;
+
+    const groups = Array.from(
+      new Set(
+        Array.from(selectedEntityIds).flatMap(
+          (id) => entityGroupManager.getGroupByMirrorGroupId(id) ?? []
+        )
+      )
+    );
+    if (groups.length === 0) return;
+
+    const { canonicalStore } = undoRedoManager.getDependencies();
+    const groupIds = groups.map((group) => group.id);
+    const members = groups.flatMap((group) => group.memberMirrorGroupIds);
+    const before = captureEntityGroupState(entityGroupManager, canonicalStore, groupIds, members);
+    const memberIds = groupIds.flatMap((id) => entityGroupManager.ungroup(id));
+    const after = captureEntityGroupState(entityGroupManager, canonicalStore, groupIds, members);
+    undoRedoManager.record(
+      new EntityGroupCommand("Ungroup entities", before, after, entityGroupManager, undoRedoManager.getDependencies())
+    );
+    // Keep the same entities selected after ungrouping
+    setSelectedEntityIds(new Set(memberIds));
+  }, [entityGroupManager, undoRedoManager, selectedEntityIds]);
+
+  // Clip the selected entities by the topmost selected path - the entity group as a whole
+  // when the other selected entities make up a group. With only the path selected, clip
+  // the current layer by it.
+  const handleMakeClippingMask = useCallback(async () => {
+    if (!virtualTilingContext || !undoRedoManager) return;
+
+    const { canonicalStore } = virtualTilingContext;
+    const mask = Array.from(selectedEntityIds)
+      .map((id) => canonicalStore.get(id))
+      .filter((obj): obj is ExtendedFabricObject => !!obj && isClipMaskShape(obj))
+      .sort(
+        (a, b) =>
+          canonicalStore.getZOrderIndex(b.tiledMetadata!.mirrorGroupId) -
+          canonicalStore.getZOrderIndex(a.tiledMetadata!.mirrorGroupId)
+      )[0];
+    if (!mask) return;
+
+    const maskId = mask.tiledMetadata!.mirrorGroupId;
+    const targetIds = Array.from(selectedEntityIds).filter((id) => id !== maskId);
+    const group = targetIds[0]
+      ? entityGroupManager?.getGroupByMirrorGroupId(targetIds[0])
+      : undefined;
+    const isWholeGroup =
+      !!group &&
+      group.memberMirrorGroupIds.every(
+        (id) => id === maskId || targetIds.includes(id)
+      ) &&
+      targetIds.every((id) => group.memberMirrorGroupIds.includes(id));
+
+    const targets: Omit<ClipMaskChange, "before" | "after">[] =
+      targetIds.length === 0
+        ? currentLayerId
+          ? [{ targetType: "layer", targetId: currentLayerId }]
+          : []
+        : isWholeGroup
+          ? [{ targetType: "entityGroup", targetId: group.id }]
+          : targetIds.map((id) => ({ targetType: "entity", targetId: id }));
+    if (targets.length === 0) return;
+
+    const changes = targets.map((target) => ({
+      ...target,
+      before: clipMaskManager.getClipMask(target.targetType, target.targetId),
+      after: maskId,
+    }));
+    try {
+      await undoRedoManager.execute(
+        new ClipMaskCommand(
+          changes,
+          clipMaskManager,
+          undoRedoManager.getDependencies()
+        )
+      );
+    } catch (error) {
+      console.error("Failed to make clipping mask:", error);
+      return;
+    }
+    setIsDirty(true);
+    triggerAutoSave();
+  }, [
+    virtualTilingContext,
+    undoRedoManager,
+    entityGroupManager,
+    clipMaskManager,
+    selectedEntityIds,
+    currentLayerId,
+    triggerAutoSave,
+  ]);
 
-    // Find the first selected entity that is in a group
-    for (const mirrorGroupId of selectedEntityIds) {
-      const group = entityGroupManager.getGroupByMirrorGroupId(mirrorGroupId);
-      if (group) {
-        const memberIds = entityGroupManager.ungroup(group.id);
-        // Keep the same entities selected after ungrouping
-        setSelectedEntityIds(new Set(memberIds));
+  // Release every clip involving the selected entities: clips of the entities and their
+  // entity groups, and clips using them as the mask
+  const handleReleaseClippingMask = useCallback(async () => {
+    if (!virtualTilingContext || !undoRedoManager) return;
+
+    const groupIds = new Set(
+      Array.from(selectedEntityIds).flatMap(
+        (id) =>
+          virtualTilingContext.canonicalStore.get(id)?.tiledMetadata
+            ?.entityGroupId ?? []
+      )
+    );
+    const changes = clipMaskManager
+      .getClipMasks()
+      .filter(
+        ({ targetType, targetId, maskId }) =>
+          selectedEntityIds.has(maskId) ||
+          (targetType === "entity" && selectedEntityIds.has(targetId)) ||
+          (targetType === "entityGroup" && groupIds.has(targetId))
+      )
+      .map(({ targetType, targetId, maskId }) => ({
+        targetType,
+        targetId,
+        before: maskId,
+        after: undefined,
+      }));
+    if (changes.length === 0) return;
+
+    try {
+      await undoRedoManager.execute(
+        new ClipMaskCommand(
+          changes,
+          clipMaskManager,
+          undoRedoManager.getDependencies()
+        )
+      );
+    } catch (error) {
+      console.error("Failed to release clipping mask:", error);
+      return;
+    }
+    setIsDirty(true);
+    triggerAutoSave();
+  }, [
+    virtualTilingContext,
+    undoRedoManager,
+    clipMaskManager,
+    selectedEntityIds,
+    triggerAutoSave,
+  ]);
+
+  // Turn the radial copies of the selected objects into regular entity groups, as one
+  // undo step: each object is replaced by itself without radial symmetry and its copies
+  const handleExpandRadialSelected = useCallback(async () => {
+    if (!tilingEngine || !entityGroupManager || !fabricCanvas) return;
+    if (!undoRedoManager || !virtualTilingContext) return;
+
+    fabricCanvas.discardActiveObject();
+    virtualTilingContext.selectionProxyManager?.clearAll();
+
+    const { canonicalStore } = virtualTilingContext;
+    const expandedIds: string[] = [];
+    await undoRedoManager.transaction("Expand radial copies", async () => {
+      for (const mirrorGroupId of selectedEntityIds) {
+        const obj = canonicalStore.get(mirrorGroupId);
+        if (!obj?.tiledMetadata?.radialSymmetry) continue;
+
+        const removal = new DeleteCommand(
+          mirrorGroupId,
+          obj,
+          undoRedoManager.getDependencies()
+        );
+        const memberIds = await tilingEngine.expandRadialCopies(mirrorGroupId);
+        if (memberIds.length === 0) continue;
+
+        // Objects already in a group take their copies along into that group
+        const existing = entityGroupManager.getGroupByMirrorGroupId(mirrorGroupId);
+        const before = captureEntityGroupState(
+          entityGroupManager,
+          canonicalStore,
+          existing ? [existing.id] : [],
+          memberIds
+        );
+        let groupId = existing?.id;
+        if (existing) {
+          memberIds
+            .slice(1)
+            .forEach((id) => entityGroupManager.addToGroup(existing.id, id));
+        } else {
+          groupId = entityGroupManager.createGroup(memberIds)?.id;
+        }
+        const after = captureEntityGroupState(
+          entityGroupManager,
+          canonicalStore,
+          groupId ? [groupId] : [],
+          memberIds
+        );
+
+        undoRedoManager.record(removal);
+        memberIds.forEach((id) => recordCreation(id, "Expand radial copy"));
+        undoRedoManager.record(
+          new EntityGroupCommand(
+            "Group radial copies",
+            before,
+            after,
+            entityGroupManager,
+            undoRedoManager.getDependencies()
+          )
+        );
+        expandedIds.push(...memberIds);
+      }
+    });
+
+    if (expandedIds.length > 0) {
+      setSelectedEntityIds(new Set(expandedIds));
+    }
+    fabricCanvas.requestRenderAll();
+  }, [
+    tilingEngine,
+    entityGroupManager,
+    fabricCanvas,
+    undoRedoManager,
+    virtualTilingContext,
+    selectedEntityIds,
+    recordCreation,
+  ]);
+
+  // Combine the selected shapes geometrically, as one undoable command
+  const handleBooleanOperation = useCallback(
+    async (operation: BooleanOperation) => {
+      if (!fabricCanvas || !virtualTilingContext || !undoRedoManager) return;
+      if (selectedEntityIds.size < 2) return;
+
+      // Back to front
+      const { canonicalStore } = virtualTilingContext;
+      const objects = Array.from(selectedEntityIds)
+        .map((id) => canonicalStore.get(id))
+        .filter((obj): obj is ExtendedFabricObject => obj !== null)
+        .sort(
+          (a, b) =>
+            canonicalStore.getZOrderIndex(a.tiledMetadata?.mirrorGroupId || "") -
+            canonicalStore.getZOrderIndex(b.tiledMetadata?.mirrorGroupId || "")
+        );
+      if (!objects.every((obj) => canConvertToPath(obj.type || ""))) return;
+
+      const results = performBooleanOperation(operation, objects);
+      if (results.length === 0) {
+        console.warn(`[Boolean] ${operation} left nothing, keeping the shapes`);
+        return;
+      }
+
+      virtualTilingContext.selectionProxyManager?.clearAll();
+      fabricCanvas.discardActiveObject();
+
+      const command = new BooleanCommand(
+        operation,
+        objects,
+        results,
+        undoRedoManager.getDependencies()
+      );
+      try {
+        await undoRedoManager.execute(command);
+      } catch (error) {
+        // Put back the shapes already removed
+        console.error(`[Boolean] ${operation} failed:`, error);
+        await command.undo();
+      }
+
+      setSelectedEntityIds(new Set());
+      setSelectedObject(null);
+      fabricCanvas.requestRenderAll();
+    },
+    [fabricCanvas, virtualTilingContext, undoRedoManager, selectedEntityIds]
+  );
+
+  // Edit the nodes of a path, at the copy it is selected at
+  const startNodeEditing = useCallback(
+    (mirrorGroupId: string) => {
+      if (!fabricCanvas || !virtualTilingContext) return;
+
+      const { canonicalStore, selectionProxyManager } = virtualTilingContext;
+      const canonical = canonicalStore.get(mirrorGroupId);
+      if (canonical?.type !== "path") return;
+      if (canonical.layerId && layerManager?.isLayerLocked(canonical.layerId))
+        return;
+
+      const copyMatrix: TMat2D = selectionProxyManager?.getProxyCopyMatrix(
+        mirrorGroupId
+      ) ?? [1, 0, 0, 1, 0, 0];
+      fabricCanvas.discardActiveObject();
+      selectionProxyManager?.clearAll();
+      setGradientEditTarget(null);
+      setNodeEditTarget({ mirrorGroupId, copyMatrix });
+    },
+    [fabricCanvas, virtualTilingContext, layerManager]
+  );
+
+  const handleEditNodes = useCallback(() => {
+    if (selectedEntityIds.size !== 1) return;
+    const [mirrorGroupId] = selectedEntityIds;
+    startNodeEditing(mirrorGroupId);
+  }, [selectedEntityIds, startNodeEditing]);
+
+  // Leave node and gradient editing when switching tools
+  useEffect(() => {
+    if (tool !== "select") {
+      setNodeEditTarget(null);
+      setGradientEditTarget(null);
+    }
+  }, [tool]);
+
+  // Double-clicking a selected path enters node editing
+  useEffect(() => {
+    if (!fabricCanvas || !virtualTilingContext?.selectionProxyManager) return;
+    if (tool !== "select" || nodeEditTarget || gradientEditTarget) return;
+
+    const { selectionProxyManager } = virtualTilingContext;
+    const handleDoubleClick = (e: TPointerEventInfo) => {
+      if (selectionProxyManager.isProxy(e.target)) {
+        startNodeEditing(e.target.proxyMetadata.mirrorGroupId);
+      }
+    };
+
+    fabricCanvas.on("mouse:dblclick", handleDoubleClick);
+    return () => {
+      fabricCanvas.off("mouse:dblclick", handleDoubleClick);
+    };
+  }, [
+    fabricCanvas,
+    virtualTilingContext,
+    tool,
+    nodeEditTarget,
+    gradientEditTarget,
+    startNodeEditing,
+  ]);
+
+  // Node editing mode - edits are recorded as undoable commands
+  useEffect(() => {
+    if (!fabricCanvas || !nodeEditTarget || !undoRedoManager) return;
+    if (!virtualTilingContext || tool !== "select") return;
+
+    const { canonicalStore } = virtualTilingContext;
+    const { mirrorGroupId, copyMatrix } = nodeEditTarget;
+    const target = canonicalStore.get(mirrorGroupId);
+    if (target?.type !== "path") return;
+
+    const editor = new NodeEditor(
+      fabricCanvas,
+      target as Path & ExtendedFabricObject,
+      copyMatrix,
+      {
+        onCommit: (before, after, description) => {
+          undoRedoManager.record(
+            new PathEditCommand(
+              mirrorGroupId,
+              before,
+              after,
+              undoRedoManager.getDependencies(),
+              description
+            )
+          );
+        },
+        onSelectionChange: (node) =>
+          setSelectedNodeSmooth(node ? isSmoothNode(node) : null),
+      }
+    );
+    nodeEditorRef.current = editor;
+    fabricCanvas.selection = false;
+
+    const handleMouseDown = (e: TPointerEventInfo) => {
+      editor.onMouseDown(fabricCanvas.getScenePoint(e.e));
+    };
+    const handleMouseMove = (e: TPointerEventInfo) => {
+      editor.onMouseMove(fabricCanvas.getScenePoint(e.e));
+    };
+    const handleMouseUp = () => editor.onMouseUp();
+    const handleAfterRender = () => {
+      // The path may be gone after undo
+      if (!canonicalStore.get(mirrorGroupId)) {
+        setNodeEditTarget(null);
+        return;
+      }
+      editor.render();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+      if (e.key === "Escape" || e.key === "Enter") {
+        e.preventDefault();
+        setNodeEditTarget(null);
+      } else if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        editor.deleteSelected();
+      }
+    };
+
+    fabricCanvas.on("mouse:down", handleMouseDown);
+    fabricCanvas.on("mouse:move", handleMouseMove);
+    fabricCanvas.on("mouse:up", handleMouseUp);
+    fabricCanvas.on("after:render", handleAfterRender);
+    window.addEventListener("keydown", handleKeyDown);
+    fabricCanvas.requestRenderAll();
+
+    return () => {
+      fabricCanvas.off("mouse:down", handleMouseDown);
+      fabricCanvas.off("mouse:move", handleMouseMove);
+      fabricCanvas.off("mouse:up", handleMouseUp);
+      fabricCanvas.off("after:render", handleAfterRender);
+      window.removeEventListener("keydown", handleKeyDown);
+      editor.dispose();
+      nodeEditorRef.current = null;
+      setSelectedNodeSmooth(null);
+      fabricCanvas.selection = true;
+      fabricCanvas.requestRenderAll();
+    };
+  }, [
+    fabricCanvas,
+    nodeEditTarget,
+    undoRedoManager,
+    virtualTilingContext,
+    tool,
+  ]);
+
+  // Show the handles of the selected object's fill or stroke gradient on the canvas
+  const handleEditGradient = useCallback(
+    (property: PaintProperty) => {
+      if (!fabricCanvas || !virtualTilingContext || !selectedObject) return;
+
+      const mirrorGroupId = selectedObject.tiledMetadata?.mirrorGroupId;
+      if (!mirrorGroupId) return;
+
+      const { selectionProxyManager } = virtualTilingContext;
+      const copyMatrix: TMat2D = selectionProxyManager?.getProxyCopyMatrix(
+        mirrorGroupId
+      ) ?? [1, 0, 0, 1, 0, 0];
+      fabricCanvas.discardActiveObject();
+      selectionProxyManager?.clearAll();
+      setNodeEditTarget(null);
+      setGradientEditTarget({ mirrorGroupId, property, copyMatrix });
+      // Keep the object in the properties panel to edit the stops while the handles show
+      setSelectedObject(selectedObject);
+    },
+    [fabricCanvas, virtualTilingContext, selectedObject]
+  );
+
+  // Gradient editing mode - drags are recorded as undoable property changes
+  useEffect(() => {
+    if (!fabricCanvas || !gradientEditTarget || !undoRedoManager) return;
+    if (!virtualTilingContext || tool !== "select") return;
+
+    const { canonicalStore } = virtualTilingContext;
+    const { mirrorGroupId, property, copyMatrix } = gradientEditTarget;
+    const target = canonicalStore.get(mirrorGroupId);
+    if (!target) return;
+
+    const editor = new GradientEditor(
+      fabricCanvas,
+      target,
+      property,
+      copyMatrix,
+      {
+        onCommit: (before, after, description) => {
+          undoRedoManager.record(
+            new PropertyCommand(
+              mirrorGroupId,
+              property,
+              before,
+              after,
+              undoRedoManager.getDependencies(),
+              description
+            )
+          );
+          setObjectUpdateCounter((prev) => prev + 1);
+        },
+      }
+    );
+    fabricCanvas.selection = false;
+
+    const handleMouseDown = (e: TPointerEventInfo) => {
+      editor.onMouseDown(fabricCanvas.getScenePoint(e.e));
+    };
+    const handleMouseMove = (e: TPointerEventInfo) => {
+      editor.onMouseMove(fabricCanvas.getScenePoint(e.e));
+    };
+    const handleMouseUp = () => editor.onMouseUp();
+    const handleAfterRender = () => {
+      // The object may be gone after undo
+      if (!canonicalStore.get(mirrorGroupId)) {
+        setGradientEditTarget(null);
+        return;
+      }
+      editor.render();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
         return;
       }
+      if (e.key === "Escape" || e.key === "Enter") {
+        e.preventDefault();
+        setGradientEditTarget(null);
+      } else if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        editor.deleteSelected();
+      }
+    };
+
+    fabricCanvas.on("mouse:down", handleMouseDown);
+    fabricCanvas.on("mouse:move", handleMouseMove);
+    fabricCanvas.on("mouse:up", handleMouseUp);
+    fabricCanvas.on("after:render", handleAfterRender);
+    window.addEventListener("keydown", handleKeyDown);
+    fabricCanvas.requestRenderAll();
+
+    return () => {
+      fabricCanvas.off("mouse:down", handleMouseDown);
+      fabricCanvas.off("mouse:move", handleMouseMove);
+      fabricCanvas.off("mouse:up", handleMouseUp);
+      fabricCanvas.off("after:render", handleAfterRender);
+      window.removeEventListener("keydown", handleKeyDown);
+      editor.dispose();
+      fabricCanvas.selection = true;
+      fabricCanvas.requestRenderAll();
+    };
+  }, [
+    fabricCanvas,
+    gradientEditTarget,
+    undoRedoManager,
+    virtualTilingContext,
+    tool,
+  ]);
+
+  // Leave gradient editing when another object gets selected
+  useEffect(() => {
+    if (
+      gradientEditTarget &&
+      selectedObject?.tiledMetadata?.mirrorGroupId !==
+        gradientEditTarget.mirrorGroupId
+    ) {
+      setGradientEditTarget(null);
     }
-  }, [entityGroupManager, selectedEntityIds]);
+  }, [selectedObject, gradientEditTarget]);
+
+  // Replace a palette colour on every entity using it, as one undoable step
+  const handleRecolor = useCallback(
+    async (from: string, to: string) => {
+      if (!virtualTilingContext || !undoRedoManager) return;
+
+      const changes = planRecolor(
+        virtualTilingContext.canonicalStore.getAll(),
+        from,
+        to
+      );
+      const command = new RecolorCommand(
+        from,
+        to,
+        changes,
+        palette,
+        replacePaletteColor(palette, from, to),
+        setPalette,
+        undoRedoManager.getDependencies()
+      );
+      try {
+        await undoRedoManager.execute(command);
+      } catch (error) {
+        console.error("Failed to replace colour:", error);
+      }
+      setObjectUpdateCounter((prev) => prev + 1);
+    },
+    [virtualTilingContext, undoRedoManager, palette]
+  );
+
+  // Show the active colourway by recolouring the canonical objects while the canvas renders
+  // them and their virtual copies - the base colours are restored after every frame
+  useEffect(() => {
+    if (!fabricCanvas || !virtualTilingContext || !activeColorway) return;
+
+    let restoreColors: (() => void) | null = null;
+    const handleBeforeRender = () => {
+      restoreColors = applyColorway(
+        virtualTilingContext.canonicalStore.getAll(),
+        activeColorway
+      );
+    };
+    const handleAfterRender = () => {
+      restoreColors?.();
+      restoreColors = null;
+    };
+
+    fabricCanvas.on("before:render", handleBeforeRender);
+    fabricCanvas.on("after:render", handleAfterRender);
+    fabricCanvas.requestRenderAll();
+
+    return () => {
+      fabricCanvas.off("before:render", handleBeforeRender);
+      fabricCanvas.off("after:render", handleAfterRender);
+      fabricCanvas.requestRenderAll();
+    };
+  }, [fabricCanvas, virtualTilingContext, activeColorway]);
 
   // Merge selected path objects into one
   const handleMergePaths = useCallback(async () => {
@@ -1732,7 +2952,9 @@ function App() {
             result.options
           );
 
-          // Position at the same location as the old one
+          // Position at the same location as the old one, keeping its radial symmetry
+          (svgGroup as ExtendedFabricObject).tiledMetadata =
+            oldObjects[0].tiledMetadata;
           if (tilingEngine.isVirtualTilingEnabled()) {
             await tilingEngine.createCanonicalObject(
               svgGroup,
@@ -1754,17 +2976,24 @@ function App() {
   };
 
   // Project import/export handlers
-  const handleExportProject = (filename: string) => {
+  const handleExportProject = (filename: string, includeHistory: boolean) => {
     if (!fabricCanvas || !layerManager) return;
 
     try {
-      exportProjectAsJSON(
-        fabricCanvas,
-        layerManager,
-        DRAWING_TILE_SIZE,
-        filename,
-        entityGroupManager
-      );
+      exportProjectAsJSON(fabricCanvas, layerManager, filename, {
+        tileSize,
+        entityGroupManager,
+        symmetryGroup,
+        repeatLayout,
+        palette,
+        colorways,
+        clipMaskManager,
+        history:
+          includeHistory && undoRedoManager
+            ? serializeHistory(undoRedoManager.getHistory())
+            : undefined,
+        snapshots,
+      });
       setIsProjectExportDialogOpen(false);
       // Clear dirty state and autosave after successful export
       setIsDirty(false);
@@ -1775,6 +3004,154 @@ function App() {
     }
   };
 
+  // Read a .gpl, .ase or .css palette into the colour presets and the saved palette
+  const handlePaletteFileUpload = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Reset input
+    if (!file) return;
+
+    try {
+      const swatches = parsePaletteFile(file.name, await file.arrayBuffer());
+      setImportedSwatches(swatches);
+      setPalette((prev) => {
+        const saved = prev.map(normalizePaletteColor);
+        return [
+          ...prev,
+          ...swatches
+            .map(({ color }) => color)
+            .filter((color) => !saved.includes(color)),
+        ];
+      });
+    } catch (error) {
+      console.error("Failed to import palette:", error);
+      alert(
+        `Failed to import palette: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  };
+
+  // Write the colours used by the project, named like the imported swatches
+  const handleExportPalette = (format: PaletteFileFormat) => {
+    if (!virtualTilingContext) return;
+
+    const colors = collectPaletteColors(
+      virtualTilingContext.canonicalStore.getAll()
+    ).map(({ color }) => ({
+      name:
+        importedSwatches.find((swatch) => swatch.color === color)?.name ?? "",
+      color,
+    }));
+    if (colors.length === 0) {
+      alert("The project doesn't use any colours yet");
+      return;
+    }
+
+    downloadFile(
+      writePaletteFile(format, colors, "Seamless Patterns"),
+      `palette.${format}`,
+      PALETTE_FILE_FORMATS[format].mimeType
+    );
+  };
+
+  // Replace the undo history with one saved in a project or autosave - or clear it, as
+  // the commands so far worked on the objects that were just replaced
+  const restoreSavedHistory = (history: SerializedHistory | undefined) => {
+    if (!undoRedoManager) return;
+    const { done, undone } = deserializeHistory(history, {
+      deps: undoRedoManager.getDependencies(),
+      entityGroupManager,
+      clipMaskManager,
+      setPalette,
+    });
+    undoRedoManager.restoreHistory(done, undone);
+  };
+
+  // Take over the settings of a project just loaded onto the canvas
+  const applyLoadedProject = (projectData: ProjectData) => {
+    restoreSavedHistory(projectData.history);
+    setTileSize(projectData.metadata.tileSize);
+    setSymmetryGroup(projectData.metadata.symmetryGroup ?? "p1");
+    setPalette(projectData.palette ?? []);
+    setColorways(projectData.colorways ?? []);
+    setActiveColorwayId(null);
+    setRepeatLayout(
+      normalizeRepeatLayout(
+        projectData.metadata.repeatLayout ?? STRAIGHT_REPEAT
+      )
+    );
+
+    // Update current layer to first imported layer (not a folder or reference layer)
+    const firstLayer = layerManager?.getLayers().find(holdsObjects);
+    if (firstLayer) {
+      setCurrentLayerId(firstLayer.id);
+    }
+  };
+
+  // The project as it is now, without the history and with a thumbnail
+  const getCurrentVersion = async () => {
+    if (!fabricCanvas || !layerManager) return null;
+    const project = serializeProject(fabricCanvas, layerManager, {
+      tileSize,
+      entityGroupManager,
+      symmetryGroup,
+      repeatLayout,
+      palette,
+      colorways,
+      clipMaskManager,
+    });
+    const thumbnail = await getTileThumbnail(160).catch(() => null);
+    return {
+      name: "Current project",
+      project,
+      thumbnail: thumbnail ?? undefined,
+    };
+  };
+
+  const handleCreateSnapshot = async (name?: string) => {
+    const current = await getCurrentVersion();
+    if (!current) return;
+    setSnapshots((prev) => [
+      ...prev,
+      createSnapshot(prev, current.project, name, current.thumbnail),
+    ]);
+  };
+
+  // Load a snapshot in place of the project, keeping the snapshots. The project as it
+  // was is snapshotted first, as the undo history is cleared.
+  const handleRestoreSnapshot = async (snapshot: Snapshot) => {
+    if (!fabricCanvas || !layerManager || !tilingEngine) return;
+
+    try {
+      await handleCreateSnapshot(`Before restoring “${snapshot.name}”`);
+      const projectData = await deserializeProject(
+        snapshot.project,
+        fabricCanvas,
+        layerManager,
+        tilingEngine,
+        entityGroupManager,
+        clipMaskManager
+      );
+      applyLoadedProject(projectData);
+    } catch (error) {
+      console.error("Failed to restore snapshot:", error);
+      alert("Failed to restore snapshot");
+    }
+  };
+
+  // Save a snapshot as a project of its own, named after it
+  const handleBranchSnapshot = (snapshot: Snapshot) => {
+    const filename =
+      snapshot.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "") || "snapshot";
+    downloadProjectData(snapshot.project, filename);
+  };
+
   const handleImportProjectClick = () => {
     projectFileInputRef.current?.click();
   };
@@ -1788,19 +3165,17 @@ function App() {
     setIsImporting(true);
 
     try {
-      await importProjectFromFile(
+      const projectData = await importProjectFromFile(
         file,
         fabricCanvas,
         layerManager,
         tilingEngine,
-        entityGroupManager
+        entityGroupManager,
+        clipMaskManager
       );
-
-      // Update current layer to first imported layer
-      const layers = layerManager.getLayers();
-      if (layers.length > 0) {
-        setCurrentLayerId(layers[0].id);
-      }
+      applyLoadedProject(projectData);
+      savedSnapshotsRef.current = projectData.snapshots ?? [];
+      setSnapshots(savedSnapshotsRef.current);
 
       // Clear dirty state after successful import
       setIsDirty(false);
@@ -1820,6 +3195,19 @@ function App() {
     }
   };
 
+  // Rectangular tiles only support groups without 90° rotations and layouts without
+  // a hexagonal lattice
+  const handleTileSizeChange = (size: TileSize) => {
+    setTileSize(size);
+    if (size.width === size.height) return;
+    if (!supportsRectangularTile(symmetryGroup)) {
+      setSymmetryGroup("p1");
+    }
+    if (isHexagonalLayout(repeatLayout)) {
+      setRepeatLayout(STRAIGHT_REPEAT);
+    }
+  };
+
   // Recovery dialog handlers
   const handleRecover = async () => {
     if (!fabricCanvas || !layerManager || !tilingEngine) return;
@@ -1832,19 +3220,18 @@ function App() {
     }
 
     try {
-      await deserializeProject(
+      // Older autosaves are migrated while deserializing
+      const recoveredData = await deserializeProject(
         projectData,
         fabricCanvas,
         layerManager,
         tilingEngine,
-        entityGroupManager
+        entityGroupManager,
+        clipMaskManager
       );
-
-      // Update current layer to first imported layer
-      const layers = layerManager.getLayers();
-      if (layers.length > 0) {
-        setCurrentLayerId(layers[0].id);
-      }
+      applyLoadedProject(recoveredData);
+      savedSnapshotsRef.current = recoveredData.snapshots ?? [];
+      setSnapshots(savedSnapshotsRef.current);
 
       setShowRecoveryDialog(false);
       setIsDirty(false);
@@ -1917,6 +3304,10 @@ function App() {
                 </Button>
               </Tooltip>
             </div>
+            <HistoryPanel
+              undoRedoManager={undoRedoManager}
+              getThumbnail={getTileThumbnail}
+            />
           </div>
 
           <div className="flex flex-col gap-2">
@@ -1976,6 +3367,19 @@ function App() {
                   <Eraser size={20} />
                 </Button>
               </Tooltip>
+              <Tooltip content="Pen tool - click for corners, drag for curves">
+                <Button
+                  className={`p-3 rounded-lg transition-all ${
+                    tool === "path"
+                      ? "bg-primary/20 text-primary shadow-[0_0_10px_rgba(45,212,168,0.2)]"
+                      : "bg-white/5 text-text-muted hover:bg-white/10 hover:text-white"
+                  }`}
+                  onPress={() => setTool("path")}
+                  aria-label="Pen tool"
+                >
+                  <Spline size={20} />
+                </Button>
+              </Tooltip>
               <Tooltip content="Rectangle tool (R)">
                 <Button
                   className={`p-3 rounded-lg transition-all ${
@@ -2079,7 +3483,58 @@ function App() {
                   onClick={() => setColor(c)}
                 />
               ))}
+              {importedSwatches.map(({ name, color: swatchColor }) => {
+                // The colour input has no transparency
+                const c = swatchColor.slice(0, 7);
+                return (
+                  <button
+                    key={swatchColor}
+                    title={name ? `${name} (${swatchColor})` : swatchColor}
+                    className={`w-8 h-8 rounded-lg transition-all ${
+                      color === c
+                        ? "ring-2 ring-primary scale-110 shadow-[0_0_10px_rgba(45,212,168,0.3)]"
+                        : "hover:scale-110"
+                    }`}
+                    style={{ background: swatchColor }}
+                    onClick={() => setColor(c)}
+                  />
+                );
+              })}
+            </div>
+            <div className="flex gap-1">
+              <Tooltip content="Import .gpl, .ase or .css palette">
+                <Button
+                  className="flex-1 px-2 py-1 bg-white/5 hover:bg-white/10 rounded-lg text-xs transition-all text-text-muted hover:text-white"
+                  onPress={() => paletteFileInputRef.current?.click()}
+                  aria-label="Import palette file"
+                >
+                  Import
+                </Button>
+              </Tooltip>
+              {(Object.keys(PALETTE_FILE_FORMATS) as PaletteFileFormat[]).map(
+                (format) => (
+                  <Tooltip
+                    key={format}
+                    content={`Export project colours as ${PALETTE_FILE_FORMATS[format].label}`}
+                  >
+                    <Button
+                      className="px-2 py-1 bg-white/5 hover:bg-white/10 rounded-lg text-xs font-mono transition-all text-text-muted hover:text-white"
+                      onPress={() => handleExportPalette(format)}
+                      aria-label={`Export palette as .${format}`}
+                    >
+                      .{format}
+                    </Button>
+                  </Tooltip>
+                )
+              )}
             </div>
+            <input
+              ref={paletteFileInputRef}
+              type="file"
+              accept=".gpl,.ase,.css"
+              className="hidden"
+              onChange={handlePaletteFileUpload}
+            />
           </div>
 
           <div className="flex flex-col gap-2">
@@ -2162,6 +3617,23 @@ function App() {
                 Draw on 3x3 Grid
               </span>
 
+              {nodeEditTarget && (
+                <NodeEditToolbar
+                  isSmooth={selectedNodeSmooth}
+                  onSetSmooth={(smooth) =>
+                    nodeEditorRef.current?.setSelectedSmooth(smooth)
+                  }
+                  onDelete={() => nodeEditorRef.current?.deleteSelected()}
+                  onDone={() => setNodeEditTarget(null)}
+                />
+              )}
+
+              {gradientEditTarget && (
+                <GradientEditToolbar
+                  onDone={() => setGradientEditTarget(null)}
+                />
+              )}
+
               {/* Scrollable container when zoomed */}
               <div
                 ref={canvasContainerRef}
@@ -2175,14 +3647,18 @@ function App() {
                   {/* Grid overlay for Fabric canvas */}
                   <GridOverlay
                     fabricCanvas={fabricCanvas}
-                    tileSize={DRAWING_TILE_SIZE}
+                    tileSize={tileSize}
+                    symmetryGroup={symmetryGroup}
+                    repeatLayout={repeatLayout}
                   />
 
                   {/* Fabric.js canvas - HD rendering at zoom level */}
                   <FabricCanvas
                     className="block"
                     visible={true}
-                    tileSize={DRAWING_TILE_SIZE}
+                    tileSize={tileSize}
+                    symmetryGroup={symmetryGroup}
+                    repeatLayout={repeatLayout}
                     zoom={canvasZoom}
                     onCanvasReady={handleCanvasReady}
                     onAfterRender={updateTilePreview}
@@ -2217,8 +3693,8 @@ function App() {
                 <div className="relative">
                   <canvas
                     ref={tileCanvasRef}
-                    width={DRAWING_TILE_SIZE}
-                    height={DRAWING_TILE_SIZE}
+                    width={tileSize.width}
+                    height={tileSize.height}
                     className="block rounded-lg border-2 border-primary/30 shadow-lg shadow-primary/10"
                   />
                 </div>
@@ -2233,12 +3709,32 @@ function App() {
             currentLayerId={currentLayerId}
             onLayerChange={setCurrentLayerId}
             onLayersChange={setLayers}
+            entityGroupManager={entityGroupManager}
+            clipMaskManager={clipMaskManager}
+            undoRedoManager={undoRedoManager}
           />
+          <CollapsiblePanel title="Pattern" defaultCollapsed={false}>
+            <PatternPanel
+              tileSize={tileSize}
+              onTileSizeChange={handleTileSizeChange}
+              symmetryGroup={symmetryGroup}
+              onSymmetryGroupChange={setSymmetryGroup}
+              repeatLayout={repeatLayout}
+              onRepeatLayoutChange={setRepeatLayout}
+            />
+          </CollapsiblePanel>
+          <CollapsiblePanel title="Radial Symmetry" defaultCollapsed={false}>
+            <RadialPanel
+              radialSettings={radialSettings}
+              onRadialSettingsChange={setRadialSettings}
+            />
+          </CollapsiblePanel>
           <CollapsiblePanel title="Objects" defaultCollapsed={false}>
             <EntityPanel
               fabricCanvas={fabricCanvas}
               layerManager={layerManager}
               entityGroupManager={entityGroupManager}
+              clipMaskManager={clipMaskManager}
               currentLayerId={currentLayerId}
               selectedEntityIds={selectedEntityIds}
               hoveredEntityIds={hoveredEntityIds}
@@ -2250,6 +3746,11 @@ function App() {
               onGroupSelected={handleGroupSelected}
               onUngroupSelected={handleUngroupSelected}
               onMergePaths={handleMergePaths}
+              onExpandRadialSelected={handleExpandRadialSelected}
+              onEditNodes={handleEditNodes}
+              onBooleanOperation={handleBooleanOperation}
+              onMakeClippingMask={handleMakeClippingMask}
+              onReleaseClippingMask={handleReleaseClippingMask}
             />
           </CollapsiblePanel>
           <CollapsiblePanel title="Advanced Placement" defaultCollapsed={false}>
@@ -2270,6 +3771,45 @@ function App() {
             <PropertiesPanel
               selectedObject={selectedObject}
               onUpdateProperties={updateObjectProperties}
+              onEditGradient={handleEditGradient}
+              updateCounter={objectUpdateCounter}
+            />
+          </CollapsiblePanel>
+          <CollapsiblePanel title="Palette" defaultCollapsed={false}>
+            <PalettePanel
+              fabricCanvas={fabricCanvas}
+              canonicalStore={virtualTilingContext?.canonicalStore ?? null}
+              undoRedoManager={undoRedoManager}
+              palette={palette}
+              onPaletteChange={setPalette}
+              onRecolor={handleRecolor}
+              colorways={colorways}
+              onColorwaysChange={setColorways}
+              activeColorwayId={activeColorway?.id ?? null}
+              onActiveColorwayChange={setActiveColorwayId}
+              refreshKey={objectUpdateCounter}
+            />
+          </CollapsiblePanel>
+          <CollapsiblePanel title="Macros" defaultCollapsed={false}>
+            <MacroPanel
+              macros={macros}
+              onMacrosChange={setMacros}
+              selectionSize={selectedEntityIds.size}
+              recording={macroRecording}
+              onStartRecording={handleStartMacroRecording}
+              onStopRecording={handleStopMacroRecording}
+              onCancelRecording={stopMacroRecording}
+              onPlay={handlePlayMacro}
+            />
+          </CollapsiblePanel>
+          <CollapsiblePanel title="Snapshots" defaultCollapsed={false}>
+            <SnapshotPanel
+              snapshots={snapshots}
+              onSnapshotsChange={setSnapshots}
+              onCreate={handleCreateSnapshot}
+              onRestore={handleRestoreSnapshot}
+              onBranch={handleBranchSnapshot}
+              getCurrentVersion={getCurrentVersion}
             />
           </CollapsiblePanel>
         </aside>
@@ -2330,8 +3870,14 @@ function App() {
         isOpen={isExportDialogOpen}
         onClose={() => setIsExportDialogOpen(false)}
         fabricCanvas={fabricCanvas}
-        tileSize={DRAWING_TILE_SIZE}
+        tileSize={tileSize}
         layerBackgrounds={layerBackgrounds}
+        layers={layers}
+        symmetryGroup={symmetryGroup}
+        repeatLayout={repeatLayout}
+        colorways={colorways}
+        activeColorway={activeColorway}
+        clipMaskManager={clipMaskManager}
       />
 
       <ProjectExportDialog
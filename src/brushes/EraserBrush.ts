@@ -0,0 +1,36 @@
+import type { Canvas } from 'fabric'
+import { SymmetricPencilBrush } from './SymmetricPencilBrush'
+import { NO_INSTANCES, type InstanceMatrixSource } from './symmetryPreview'
+import { strokeToPolygon, type MultiPolygon } from '../utils/strokePolygon'
+
+/**
+ * EraserBrush - previews like SymmetricPencilBrush, but instead of adding a path it turns
+ * the stroke into a polygon (scene coordinates) and hands it to onErase, which cuts it
+ * out of the geometry underneath.
+ */
+export class EraserBrush extends SymmetricPencilBrush {
+  private onErase: (eraser: MultiPolygon) => void
+
+  constructor(
+    canvas: Canvas,
+    onErase: (eraser: MultiPolygon) => void,
+    getInstanceMatrices: InstanceMatrixSource = NO_INSTANCES
+  ) {
+    super(canvas, getInstanceMatrices)
+    this.onErase = onErase
+    this.color = 'rgba(255, 255, 255, 0.35)'
+  }
+
+  _finalizeAndAddPath(): void {
+    this.canvas.clearContext(this.canvas.contextTop)
+
+    const points = this.decimate ? this.decimatePoints(this._points, this.decimate) : this._points
+    const eraser = strokeToPolygon(points.map(({ x, y }) => ({ x, y, width: this.width })))
+    this._reset()
+
+    if (eraser.length > 0) {
+      this.onErase(eraser)
+    }
+    this.canvas.requestRenderAll()
+  }
+}
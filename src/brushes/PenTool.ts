@@ -0,0 +1,162 @@
+import { Path, type Canvas } from 'fabric'
+import { NO_INSTANCES, type InstanceMatrixSource } from './symmetryPreview'
+import {
+  createSmoothAnchor,
+  penPathToPathData,
+  shouldClosePath,
+  type PenAnchor,
+  type PenPoint,
+} from '../core/PenPath'
+
+// Click radius around the first anchor that closes the path (screen pixels)
+const CLOSE_RADIUS = 8
+// Size of the anchor and handle markers (screen pixels)
+const MARKER_SIZE = 6
+const MARKER_COLOR = '#2dd4a8'
+
+/**
+ * PenTool - Illustrator-style pen for bezier paths.
+ *
+ * Clicks add corner points, dragging out of a click pulls smooth bezier handles, clicking
+ * the first anchor closes the path and finish() (Escape) ends an open path. The path lives
+ * in scene coordinates, so it can run across a tile edge; the finished path is announced
+ * with `path:created` like brush strokes and becomes a single canonical object.
+ *
+ * The in-progress path is previewed at every repeat instance on the top context.
+ */
+export class PenTool {
+  color = '#000000'
+  width = 2
+
+  private anchors: PenAnchor[] = []
+  private dragStart: PenPoint | null = null // Anchor whose handles are being dragged out
+  private hoverPoint: PenPoint | null = null
+
+  constructor(
+    private canvas: Canvas,
+    private getInstanceMatrices: InstanceMatrixSource = NO_INSTANCES
+  ) {}
+
+  isDrawing(): boolean {
+    return this.anchors.length > 0
+  }
+
+  onMouseDown(point: PenPoint): void {
+    if (shouldClosePath(this.anchors, point, CLOSE_RADIUS / this.canvas.getZoom())) {
+      this.finish(true)
+      return
+    }
+
+    this.anchors.push({ x: point.x, y: point.y })
+    this.dragStart = { x: point.x, y: point.y }
+    this.render()
+  }
+
+  onMouseMove(point: PenPoint): void {
+    this.hoverPoint = { x: point.x, y: point.y }
+    if (this.dragStart) {
+      this.anchors[this.anchors.length - 1] = createSmoothAnchor(this.dragStart, point)
+    }
+    if (this.isDrawing()) {
+      this.render()
+    }
+  }
+
+  onMouseUp(): void {
+    this.dragStart = null
+  }
+
+  /**
+   * Add the path to the canvas. Open paths need at least two anchors, anything shorter
+   * is dropped.
+   */
+  finish(closed = false): void {
+    const anchors = this.anchors
+    this.reset()
+
+    if (anchors.length >= 2) {
+      const path = new Path(penPathToPathData(anchors, closed), {
+        fill: closed ? this.color : null,
+        stroke: this.color,
+        strokeWidth: this.width,
+        strokeLineCap: 'round',
+        strokeLineJoin: 'round',
+      })
+      this.canvas.add(path)
+      this.canvas.fire('path:created', { path })
+    }
+    this.render()
+  }
+
+  /**
+   * Drop the path being drawn
+   */
+  cancel(): void {
+    this.reset()
+    this.render()
+  }
+
+  /**
+   * Draw the path being drawn on the top context: the path and the rubber band to the
+   * cursor at every repeat instance, the anchors and handles where they were placed.
+   */
+  render(): void {
+    const ctx = this.canvas.contextTop
+    if (!ctx) return
+
+    this.canvas.clearContext(ctx)
+    if (this.anchors.length === 0) return
+
+    const preview = [...this.anchors]
+    if (!this.dragStart && this.hoverPoint) {
+      preview.push(this.hoverPoint)
+    }
+    const path = new Path2D(penPathToPathData(preview, false))
+    const vpt = this.canvas.viewportTransform
+    const zoom = this.canvas.getZoom()
+
+    const matrices = this.getInstanceMatrices()
+    for (const matrix of matrices.length > 0 ? matrices : [null]) {
+      ctx.save()
+      ctx.transform(...vpt)
+      if (matrix) {
+        ctx.transform(...matrix)
+      }
+      ctx.strokeStyle = this.color
+      ctx.lineWidth = this.width
+      ctx.lineCap = 'round'
+      ctx.lineJoin = 'round'
+      ctx.stroke(path)
+      ctx.restore()
+    }
+
+    ctx.save()
+    ctx.transform(...vpt)
+    ctx.strokeStyle = MARKER_COLOR
+    ctx.fillStyle = '#ffffff'
+    ctx.lineWidth = 1 / zoom
+    const size = MARKER_SIZE / zoom
+    for (const anchor of this.anchors) {
+      for (const handle of [anchor.handleIn, anchor.handleOut]) {
+        if (!handle) continue
+        ctx.beginPath()
+        ctx.moveTo(anchor.x, anchor.y)
+        ctx.lineTo(handle.x, handle.y)
+        ctx.stroke()
+        ctx.beginPath()
+        ctx.arc(handle.x, handle.y, size / 2, 0, Math.PI * 2)
+        ctx.fill()
+        ctx.stroke()
+      }
+      ctx.fillRect(anchor.x - size / 2, anchor.y - size / 2, size, size)
+      ctx.strokeRect(anchor.x - size / 2, anchor.y - size / 2, size, size)
+    }
+    ctx.restore()
+  }
+
+  private reset(): void {
+    this.anchors = []
+    this.dragStart = null
+    this.hoverPoint = null
+  }
+}
@@ -0,0 +1,48 @@
+import { PencilBrush, type Canvas, type TMat2D } from 'fabric'
+import { NO_INSTANCES, type InstanceMatrixSource } from './symmetryPreview'
+
+/**
+ * SymmetricPencilBrush - PencilBrush that draws the in-progress stroke at every repeat
+ * instance, including rotated and mirrored copies, so seams can be checked while drawing.
+ *
+ * PencilBrush normally extends the preview one segment at a time. With several instances
+ * every move clears the top context and redraws the whole stroke once per instance matrix.
+ * The finished path is still a single object - tiling it is left to `path:created`.
+ */
+export class SymmetricPencilBrush extends PencilBrush {
+  private getInstanceMatrices: InstanceMatrixSource
+  private instanceMatrix: TMat2D | null = null
+
+  constructor(canvas: Canvas, getInstanceMatrices: InstanceMatrixSource = NO_INSTANCES) {
+    super(canvas)
+    this.getInstanceMatrices = getInstanceMatrices
+  }
+
+  needsFullRender(): boolean {
+    return super.needsFullRender() || this.getInstanceMatrices().length > 1
+  }
+
+  /**
+   * Apply the viewport transform, then the instance being drawn (in scene coordinates)
+   */
+  protected _saveAndTransform(ctx: CanvasRenderingContext2D): void {
+    super._saveAndTransform(ctx)
+    if (this.instanceMatrix) {
+      ctx.transform(...this.instanceMatrix)
+    }
+  }
+
+  _render(ctx: CanvasRenderingContext2D = this.canvas.contextTop): void {
+    const matrices = this.getInstanceMatrices()
+    if (matrices.length < 2) {
+      super._render(ctx)
+      return
+    }
+
+    for (const matrix of matrices) {
+      this.instanceMatrix = matrix
+      super._render(ctx)
+    }
+    this.instanceMatrix = null
+  }
+}
@@ -1,23 +1,14 @@
 import { Canvas, BaseBrush, Path, Point, TBrushEventData } from 'fabric'
-import polygonClipping from 'polygon-clipping'
 import simplify from 'simplify-js'
 import fitCurve from 'fit-curve'
-
-interface StrokePoint {
-  x: number
-  y: number
-  width: number
-}
+import { NO_INSTANCES, type InstanceMatrixSource } from './symmetryPreview'
+import { strokeToPolygon, type StrokePoint } from '../utils/strokePolygon'
 
 interface SimplePoint {
   x: number
   y: number
 }
 
-type Ring = [number, number][]
-type Polygon = Ring[]
-type MultiPolygon = Polygon[]
-
 /**
  * VarioBrush - A brush where stroke width varies inversely with movement speed.
  *
@@ -28,6 +19,9 @@ type MultiPolygon = Polygon[]
  *
  * Uses polygon-clipping for union, simplify-js for point reduction,
  * and fit-curve for smooth Bezier output.
+ *
+ * The preview is drawn at every repeat instance supplied by getInstanceMatrices,
+ * so the stroke is visible across seams and in every symmetry copy while drawing.
  */
 export class VarioBrush extends BaseBrush {
   private points: StrokePoint[] = []
@@ -36,13 +30,15 @@ export class VarioBrush extends BaseBrush {
   private smoothedWidth: number
   private sizeFactor: number
   private strokeStartTime: number = 0
+  private getInstanceMatrices: InstanceMatrixSource
 
   declare color: string
   declare canvas: Canvas
 
-  constructor(canvas: Canvas, sizeFactor: number = 10) {
+  constructor(canvas: Canvas, sizeFactor: number = 10, getInstanceMatrices: InstanceMatrixSource = NO_INSTANCES) {
     super(canvas)
     this.sizeFactor = sizeFactor
+    this.getInstanceMatrices = getInstanceMatrices
     this.smoothedWidth = sizeFactor
     this.color = '#000000'
   }
@@ -141,7 +137,7 @@ export class VarioBrush extends BaseBrush {
   }
 
   /**
-   * Render the stroke preview on the top canvas context.
+   * Render the stroke preview on the top canvas context, once per repeat instance.
    * Uses simple overlapping shapes for performance (no union during preview).
    */
   _render(): void {
@@ -149,20 +145,30 @@ export class VarioBrush extends BaseBrush {
     if (!ctx) return
 
     this.canvas.clearContext(ctx)
-    ctx.save()
+    if (this.points.length < 1) return
 
-    const vpt = this.canvas.viewportTransform
-    if (vpt) {
-      ctx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5])
-    }
+    const matrices = this.getInstanceMatrices()
+    for (const matrix of matrices.length > 0 ? matrices : [null]) {
+      ctx.save()
 
-    ctx.fillStyle = this.color
+      const vpt = this.canvas.viewportTransform
+      if (vpt) {
+        ctx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5])
+      }
+      if (matrix) {
+        ctx.transform(...matrix)
+      }
 
-    if (this.points.length < 1) {
+      ctx.fillStyle = this.color
+      this._drawStrokePreview(ctx)
       ctx.restore()
-      return
     }
+  }
 
+  /**
+   * Draw the stroke as circles joined by quads in scene coordinates
+   */
+  private _drawStrokePreview(ctx: CanvasRenderingContext2D): void {
     // Draw circles at each point
     for (const p of this.points) {
       ctx.beginPath()
@@ -195,8 +201,6 @@ export class VarioBrush extends BaseBrush {
       ctx.closePath()
       ctx.fill()
     }
-
-    ctx.restore()
   }
 
   /**
@@ -232,18 +236,6 @@ export class VarioBrush extends BaseBrush {
     return result
   }
 
-  /**
-   * Create a circle polygon with specified center, radius, and segments
-   */
-  private _createCircle(cx: number, cy: number, r: number, segments: number): Ring {
-    const points: Ring = []
-    for (let i = 0; i <= segments; i++) {
-      const angle = (i / segments) * Math.PI * 2
-      points.push([cx + Math.cos(angle) * r, cy + Math.sin(angle) * r])
-    }
-    return points
-  }
-
   /**
    * Build polygon by unioning quads and circles.
    * This handles self-intersections cleanly.
@@ -253,50 +245,8 @@ export class VarioBrush extends BaseBrush {
     const resampledPoints = this._resamplePoints(this.points, 3)
     if (resampledPoints.length < 2) return []
 
-    const allPolygons: Ring[] = []
-
-    // Create quads for each segment
-    for (let i = 0; i < resampledPoints.length - 1; i++) {
-      const p1 = resampledPoints[i]
-      const p2 = resampledPoints[i + 1]
-
-      const dx = p2.x - p1.x
-      const dy = p2.y - p1.y
-      const len = Math.hypot(dx, dy)
-      if (len < 0.001) continue
-
-      // Perpendicular unit vector
-      const nx = -dy / len
-      const ny = dx / len
-
-      const w1 = p1.width / 2
-      const w2 = p2.width / 2
-
-      // Quad corners - must be in counter-clockwise order for polygon-clipping
-      const quad: Ring = [
-        [p1.x + nx * w1, p1.y + ny * w1],
-        [p2.x + nx * w2, p2.y + ny * w2],
-        [p2.x - nx * w2, p2.y - ny * w2],
-        [p1.x - nx * w1, p1.y - ny * w1],
-        [p1.x + nx * w1, p1.y + ny * w1], // close
-      ]
-      allPolygons.push(quad)
-    }
-
-    // Create circles at each point for round joins (use more segments for smoother look)
-    for (const p of resampledPoints) {
-      const circle = this._createCircle(p.x, p.y, p.width / 2, 24)
-      allPolygons.push(circle)
-    }
-
-    // Union all polygons
-    if (allPolygons.length === 0) return []
-
     try {
-      let result: MultiPolygon = [[allPolygons[0]]]
-      for (let i = 1; i < allPolygons.length; i++) {
-        result = polygonClipping.union(result, [[allPolygons[i]]])
-      }
+      const result = strokeToPolygon(resampledPoints)
 
       // Convert to SimplePoint[] - take the outer ring of the first polygon
       if (result.length > 0 && result[0].length > 0) {
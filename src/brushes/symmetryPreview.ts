@@ -0,0 +1,10 @@
+import type { TMat2D } from 'fabric'
+
+/**
+ * Supplies the scene-space transforms of every repeat instance (identity first), so a
+ * brush can preview the in-progress stroke wherever the tiled path will appear.
+ * An empty list (or only the identity) previews the stroke under the cursor alone.
+ */
+export type InstanceMatrixSource = () => TMat2D[]
+
+export const NO_INSTANCES: InstanceMatrixSource = () => []
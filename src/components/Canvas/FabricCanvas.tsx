@@ -1,10 +1,16 @@
 import { useRef, useEffect } from 'react'
 import { useFabricCanvas, type VirtualTilingContext, type LayerBackground } from '../../hooks/useFabricCanvas'
+import { STRAIGHT_REPEAT, type RepeatLayout, type WallpaperGroup } from '../../core/WallpaperSymmetry'
+import type { TileSize } from '../../types/TileSize'
+
+const DEFAULT_TILE_SIZE: TileSize = { width: 256, height: 256 }
 
 interface FabricCanvasProps {
   className?: string
   visible?: boolean
-  tileSize?: number
+  tileSize?: TileSize
+  symmetryGroup?: WallpaperGroup
+  repeatLayout?: RepeatLayout
   zoom?: number
   onCanvasReady?: (canvas: import('fabric').Canvas, virtualTilingContext: VirtualTilingContext) => void
   onAfterRender?: () => void
@@ -14,7 +20,9 @@ interface FabricCanvasProps {
 export function FabricCanvas({
   className,
   visible = true,
-  tileSize = 256,
+  tileSize = DEFAULT_TILE_SIZE,
+  symmetryGroup = 'p1',
+  repeatLayout = STRAIGHT_REPEAT,
   zoom = 1,
   onCanvasReady,
   onAfterRender,
@@ -23,6 +31,8 @@ export function FabricCanvas({
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const { fabricCanvas, virtualTilingContext } = useFabricCanvas(canvasRef, {
     tileSize,
+    symmetryGroup,
+    repeatLayout,
     onAfterRender,
     layerBackgrounds
   })
@@ -38,11 +48,12 @@ export function FabricCanvas({
   useEffect(() => {
     if (!fabricCanvas) return
 
-    const baseSize = tileSize * 3 // 768 for 256 tile size
-    const zoomedSize = baseSize * zoom
+    // 768 for 256 tile size
+    const baseWidth = tileSize.width * 3
+    const baseHeight = tileSize.height * 3
 
     // Resize canvas to zoomed dimensions (both backstore and CSS)
-    fabricCanvas.setDimensions({ width: zoomedSize, height: zoomedSize })
+    fabricCanvas.setDimensions({ width: baseWidth * zoom, height: baseHeight * zoom })
 
     // Set Fabric's zoom level - this scales all object rendering
     fabricCanvas.setZoom(zoom)
@@ -0,0 +1,29 @@
+import { Button } from 'react-aria-components'
+import { Tooltip } from '../ui/Tooltip'
+import { Check } from 'lucide-react'
+
+interface GradientEditToolbarProps {
+  onDone: () => void
+}
+
+/**
+ * Hint and exit button while the gradient handles are on the canvas
+ */
+export function GradientEditToolbar({ onDone }: GradientEditToolbarProps) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-xs text-text-muted">
+        Editing gradient - drag the end points to set the direction, click the line to add a stop
+      </span>
+      <Tooltip content="Done (Esc)">
+        <Button
+          onPress={onDone}
+          className="px-2 py-1 text-xs rounded-lg transition-all bg-white/5 text-text-muted hover:bg-white/10 hover:text-white"
+          aria-label="Finish editing gradient"
+        >
+          <Check size={14} />
+        </Button>
+      </Tooltip>
+    </div>
+  )
+}
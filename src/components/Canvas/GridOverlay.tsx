@@ -1,13 +1,31 @@
 import { useEffect } from 'react'
 import type { Canvas } from 'fabric'
 import { Line } from 'fabric'
+import {
+  getCellOutline,
+  getLatticeBasis,
+  getLayoutShift,
+  isHexagonalLayout,
+  resolveRepeatLayout,
+  STRAIGHT_REPEAT,
+  type RepeatLayout,
+  type WallpaperGroup,
+} from '../../core/WallpaperSymmetry'
+import type { TileSize } from '../../types/TileSize'
 
 interface GridOverlayProps {
   fabricCanvas: Canvas | null
-  tileSize: number
+  tileSize: TileSize
+  symmetryGroup?: WallpaperGroup
+  repeatLayout?: RepeatLayout // Tile boundaries are staggered for offset layouts, hexagons or triangles otherwise
 }
 
-export function GridOverlay({ fabricCanvas, tileSize }: GridOverlayProps) {
+export function GridOverlay({
+  fabricCanvas,
+  tileSize,
+  symmetryGroup = 'p1',
+  repeatLayout = STRAIGHT_REPEAT,
+}: GridOverlayProps) {
   useEffect(() => {
     if (!fabricCanvas) return
 
@@ -17,9 +35,13 @@ export function GridOverlay({ fabricCanvas, tileSize }: GridOverlayProps) {
     )
     existingLines.forEach((line) => fabricCanvas.remove(line))
 
-    // Draw vertical lines
-    for (let x = 1; x < 3; x++) {
-      const line = new Line([x * tileSize, 0, x * tileSize, tileSize * 3], {
+    const layout = resolveRepeatLayout(symmetryGroup, repeatLayout)
+    const { width, height } = tileSize
+    const gridWidth = width * 3
+    const gridHeight = height * 3
+
+    const addLine = (points: [number, number, number, number]) => {
+      const line = new Line(points, {
         stroke: '#ffffff',
         strokeWidth: 1,
         strokeDashArray: [5, 5],
@@ -30,22 +52,63 @@ export function GridOverlay({ fabricCanvas, tileSize }: GridOverlayProps) {
       fabricCanvas.add(line)
     }
 
-    // Draw horizontal lines
-    for (let y = 1; y < 3; y++) {
-      const line = new Line([0, y * tileSize, tileSize * 3, y * tileSize], {
-        stroke: '#ffffff',
-        strokeWidth: 1,
-        strokeDashArray: [5, 5],
-        selectable: false,
-        evented: false,
-      }) as any
-      line.gridLine = true
-      fabricCanvas.add(line)
+    if (isHexagonalLayout(layout)) {
+      // Every edge of the grid is a lattice translate of one of the first three cell edges:
+      // opposite hexagon edges are translates of each other, and the triangle has only three
+      const outline = getCellOutline(symmetryGroup, tileSize, layout)
+      const edges = [0, 1, 2].map((k) => [
+        outline[k],
+        outline[(k + 1) % outline.length],
+      ])
+      const basis = getLatticeBasis(symmetryGroup, tileSize, layout)
+      const range = Math.ceil((gridWidth + gridHeight) / width)
+
+      for (let j = -range; j <= range; j++) {
+        for (let i = -range; i <= range; i++) {
+          const dx = i * basis[0] + j * basis[2]
+          const dy = i * basis[1] + j * basis[3]
+          // Skip translates that land well outside the 3x3 canvas
+          if (Math.abs(dx) > gridWidth / 2 + width || Math.abs(dy) > gridHeight / 2 + width) continue
+
+          for (const [start, end] of edges) {
+            addLine([start.x + dx, start.y + dy, end.x + dx, end.y + dy])
+          }
+        }
+      }
+
+      fabricCanvas.requestRenderAll()
+      return
+    }
+
+    const { direction, offset } = getLayoutShift(layout)
+
+    // Boundaries along the shifted axis are continuous lines
+    for (let i = 1; i < 3; i++) {
+      if (direction === 'drop') {
+        addLine([i * width, 0, i * width, gridHeight])
+      } else {
+        addLine([0, i * height, gridWidth, i * height])
+      }
+    }
+
+    // Boundaries across it are staggered per column (drop) or row (brick),
+    // relative to the center tile
+    for (let i = 0; i < 3; i++) {
+      const shift = ((((i - 1) * offset) % 1) + 1) % 1
+      if (direction === 'drop') {
+        for (let y = shift * height; y < gridHeight; y += height) {
+          if (y > 0) addLine([i * width, y, (i + 1) * width, y])
+        }
+      } else {
+        for (let x = shift * width; x < gridWidth; x += width) {
+          if (x > 0) addLine([x, i * height, x, (i + 1) * height])
+        }
+      }
     }
 
     // Initial render
     fabricCanvas.requestRenderAll()
-  }, [fabricCanvas, tileSize])
+  }, [fabricCanvas, tileSize, symmetryGroup, repeatLayout])
 
   // Keep grid lines on top whenever objects are added/modified
   useEffect(() => {
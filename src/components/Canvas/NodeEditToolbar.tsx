@@ -0,0 +1,73 @@
+import { Button } from 'react-aria-components'
+import { Tooltip } from '../ui/Tooltip'
+import { Check, Spline, Trash2, TriangleRight } from 'lucide-react'
+
+interface NodeEditToolbarProps {
+  isSmooth: boolean | null // null when no node is selected
+  onSetSmooth: (smooth: boolean) => void
+  onDelete: () => void
+  onDone: () => void
+}
+
+const buttonClass = (selected: boolean) =>
+  `px-2 py-1 text-xs rounded-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+    selected
+      ? 'bg-primary/20 text-primary shadow-[0_0_8px_rgba(45,212,168,0.2)]'
+      : 'bg-white/5 text-text-muted hover:bg-white/10 hover:text-white'
+  }`
+
+/**
+ * Actions for the selected node while editing path nodes
+ */
+export function NodeEditToolbar({ isSmooth, onSetSmooth, onDelete, onDone }: NodeEditToolbarProps) {
+  const hasNode = isSmooth !== null
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-xs text-text-muted">
+        Editing nodes - click a segment to add a node
+      </span>
+      <div className="flex items-center gap-1">
+        <Tooltip content="Corner node">
+          <Button
+            onPress={() => onSetSmooth(false)}
+            isDisabled={!hasNode}
+            className={buttonClass(isSmooth === false)}
+            aria-label="Make node a corner"
+          >
+            <TriangleRight size={14} />
+          </Button>
+        </Tooltip>
+        <Tooltip content="Smooth node">
+          <Button
+            onPress={() => onSetSmooth(true)}
+            isDisabled={!hasNode}
+            className={buttonClass(isSmooth === true)}
+            aria-label="Make node smooth"
+          >
+            <Spline size={14} />
+          </Button>
+        </Tooltip>
+        <Tooltip content="Delete node (Delete)">
+          <Button
+            onPress={onDelete}
+            isDisabled={!hasNode}
+            className={buttonClass(false)}
+            aria-label="Delete node"
+          >
+            <Trash2 size={14} />
+          </Button>
+        </Tooltip>
+        <Tooltip content="Done (Esc)">
+          <Button
+            onPress={onDone}
+            className={buttonClass(false)}
+            aria-label="Finish editing nodes"
+          >
+            <Check size={14} />
+          </Button>
+        </Tooltip>
+      </div>
+    </div>
+  )
+}
@@ -3,21 +3,52 @@ import { Modal, Dialog, Heading, Button, Label, Slider, SliderTrack, SliderThumb
 import { X } from 'lucide-react'
 import { Tooltip } from '../ui/Tooltip'
 import type { Canvas as FabricCanvasType } from 'fabric'
+import type { TileSize } from '../../types/TileSize'
 import { generateCenterTileSVG, rasterizeSVG, convertFormat, downloadFile, type LayerBackground } from '../../utils/svgExport'
+import {
+  getRepeatMultiple,
+  getRepeatSize,
+  isHexagonalLayout,
+  resolveRepeatLayout,
+  STRAIGHT_REPEAT,
+  type RepeatLayout,
+  type WallpaperGroup,
+} from '../../core/WallpaperSymmetry'
+import { getColorwayFileNames, type Colorway } from '../../core/Colorways'
+import type { Layer } from '../../core/LayerManager'
+import type { ClipMaskManager } from '../../core/ClipMaskManager'
 
 interface ExportDialogProps {
   isOpen: boolean
   onClose: () => void
   fabricCanvas: FabricCanvasType | null
-  tileSize: number
+  tileSize: TileSize
   layerBackgrounds?: LayerBackground[]
+  layers?: Layer[] // For layer opacity and blend modes
+  symmetryGroup?: WallpaperGroup
+  repeatLayout?: RepeatLayout
+  colorways?: Colorway[]
+  activeColorway?: Colorway | null // Shown in the preview and used for single exports
+  clipMaskManager?: ClipMaskManager | null
 }
 
 type ExportFormat = 'png' | 'jpeg' | 'bmp' | 'svg'
 
 const RESOLUTION_OPTIONS = [128, 256, 512, 1024, 2048, 4096]
 
-export function ExportDialog({ isOpen, onClose, fabricCanvas, tileSize, layerBackgrounds = [] }: ExportDialogProps) {
+export function ExportDialog({
+  isOpen,
+  onClose,
+  fabricCanvas,
+  tileSize,
+  layerBackgrounds = [],
+  layers = [],
+  symmetryGroup = 'p1',
+  repeatLayout = STRAIGHT_REPEAT,
+  colorways = [],
+  activeColorway = null,
+  clipMaskManager = null,
+}: ExportDialogProps) {
   const [resolution, setResolution] = useState(1024)
   const [format, setFormat] = useState<ExportFormat>('png')
   const [jpegQuality, setJpegQuality] = useState(95)
@@ -25,6 +56,15 @@ export function ExportDialog({ isOpen, onClose, fabricCanvas, tileSize, layerBac
   const [enableRetinaScaling, setEnableRetinaScaling] = useState(false)
   const [previewDataUrl, setPreviewDataUrl] = useState('')
   const [isExporting, setIsExporting] = useState(false)
+  const [exportAllColorways, setExportAllColorways] = useState(false)
+  const isBatchExport = exportAllColorways && colorways.length > 0
+
+  // Hexagonal lattices and offset layouts repeat in a non-square rectangle, so keep its aspect ratio
+  const repeatSize = getRepeatSize(symmetryGroup, tileSize, repeatLayout)
+  const effectiveLayout = resolveRepeatLayout(symmetryGroup, repeatLayout)
+  // Offset layouts are exported as the smallest straight repeat, which spans several tiles
+  const repeatMultiple = getRepeatMultiple(effectiveLayout)
+  const outputHeight = Math.round(resolution * repeatSize.height / repeatSize.width)
 
   // Update preview when options change
   const updatePreview = useCallback(async () => {
@@ -33,19 +73,24 @@ export function ExportDialog({ isOpen, onClose, fabricCanvas, tileSize, layerBac
 
     try {
       // Generate SVG from center tile with layer backgrounds
-      const svgString = await generateCenterTileSVG(fabricCanvas, tileSize, layerBackgrounds)
+      const svgString = await generateCenterTileSVG(fabricCanvas, tileSize, layerBackgrounds, symmetryGroup, repeatLayout, activeColorway, layers, clipMaskManager)
       console.log('[ExportDialog] SVG generated, length:', svgString.length)
 
       if (format === 'svg') {
         // For SVG preview, rasterize at fixed preview size (256px)
-        const previewDataUrl = await rasterizeSVG(svgString, 256, 256, true)
+        const previewDataUrl = await rasterizeSVG(
+          svgString,
+          256,
+          Math.round(256 * repeatSize.height / repeatSize.width),
+          true
+        )
         setPreviewDataUrl(previewDataUrl)
       } else {
         // For raster formats, generate at target resolution
         const pngDataUrl = await rasterizeSVG(
           svgString,
           resolution,
-          resolution,
+          outputHeight,
           imageSmoothingEnabled
         )
 
@@ -66,7 +111,7 @@ export function ExportDialog({ isOpen, onClose, fabricCanvas, tileSize, layerBac
     } catch (error) {
       console.error('[ExportDialog] Failed to generate preview:', error)
     }
-  }, [fabricCanvas, resolution, format, jpegQuality, imageSmoothingEnabled, tileSize, layerBackgrounds])
+  }, [fabricCanvas, resolution, outputHeight, repeatSize.width, repeatSize.height, format, jpegQuality, imageSmoothingEnabled, tileSize, layerBackgrounds, symmetryGroup, repeatLayout, activeColorway, layers, clipMaskManager])
 
   // Debounced preview update
   useEffect(() => {
@@ -80,7 +125,7 @@ export function ExportDialog({ isOpen, onClose, fabricCanvas, tileSize, layerBac
   }, [isOpen, updatePreview])
 
   // Generate filename
-  const generateFileName = () => {
+  const generateBaseFileName = () => {
     if (format === 'svg') {
       return `tile.svg`
     }
@@ -88,44 +133,48 @@ export function ExportDialog({ isOpen, onClose, fabricCanvas, tileSize, layerBac
     return `tile-${resolution}.${extension}`
   }
 
+  // Colourway exports carry the colourway name
+  const generateFileName = () =>
+    activeColorway ? getColorwayFileNames(generateBaseFileName(), [activeColorway])[0] : generateBaseFileName()
+
   // Handle SVG export
-  const handleSVGExport = async () => {
+  const handleSVGExport = async (colorway: Colorway | null, fileName: string) => {
     if (!fabricCanvas) return
 
     try {
-      const svgString = await generateCenterTileSVG(fabricCanvas, tileSize, layerBackgrounds)
-      downloadFile(svgString, generateFileName(), 'image/svg+xml')
+      const svgString = await generateCenterTileSVG(fabricCanvas, tileSize, layerBackgrounds, symmetryGroup, repeatLayout, colorway, layers, clipMaskManager)
+      downloadFile(svgString, fileName, 'image/svg+xml')
     } catch (error) {
       console.error('SVG export failed:', error)
     }
   }
 
   // Handle raster export (PNG, JPEG, BMP)
-  const handleRasterExport = async () => {
+  const handleRasterExport = async (colorway: Colorway | null, fileName: string) => {
     if (!fabricCanvas) return
 
     try {
       // Generate SVG first with layer backgrounds
-      const svgString = await generateCenterTileSVG(fabricCanvas, tileSize, layerBackgrounds)
+      const svgString = await generateCenterTileSVG(fabricCanvas, tileSize, layerBackgrounds, symmetryGroup, repeatLayout, colorway, layers, clipMaskManager)
 
       // Rasterize at target resolution
       const pngDataUrl = await rasterizeSVG(
         svgString,
         resolution,
-        resolution,
+        outputHeight,
         imageSmoothingEnabled
       )
 
       // Convert to target format if needed
       if (format === 'png') {
-        downloadFile(pngDataUrl, generateFileName())
+        downloadFile(pngDataUrl, fileName)
       } else if (format === 'jpeg' || format === 'bmp') {
         const finalDataUrl = await convertFormat(
           pngDataUrl,
           format,
           format === 'jpeg' ? jpegQuality / 100 : 1
         )
-        downloadFile(finalDataUrl, generateFileName())
+        downloadFile(finalDataUrl, fileName)
       }
     } catch (error) {
       console.error('Raster export failed:', error)
@@ -139,10 +188,18 @@ export function ExportDialog({ isOpen, onClose, fabricCanvas, tileSize, layerBac
     setIsExporting(true)
 
     try {
-      if (format === 'svg') {
-        await handleSVGExport()
-      } else {
-        await handleRasterExport()
+      // One file per colourway, or the current colours only
+      const colorwayFileNames = getColorwayFileNames(generateBaseFileName(), colorways)
+      const exports: [Colorway | null, string][] = isBatchExport
+        ? colorways.map((colorway, i) => [colorway, colorwayFileNames[i]])
+        : [[activeColorway, generateFileName()]]
+
+      for (const [colorway, fileName] of exports) {
+        if (format === 'svg') {
+          await handleSVGExport(colorway, fileName)
+        } else {
+          await handleRasterExport(colorway, fileName)
+        }
       }
       onClose()
     } catch (error) {
@@ -301,6 +358,25 @@ export function ExportDialog({ isOpen, onClose, fabricCanvas, tileSize, layerBac
                     <Label className="text-sm text-white cursor-pointer">Enable Retina Scaling</Label>
                   </Switch>
                 </div>
+
+                {/* Colourways */}
+                {colorways.length > 0 && (
+                  <div className="flex flex-col gap-2">
+                    <Label className="text-sm font-medium text-text-muted">Colourways</Label>
+                    <Switch
+                      isSelected={exportAllColorways}
+                      onChange={setExportAllColorways}
+                      className="group flex items-center gap-2"
+                    >
+                      <div className="flex h-5 w-9 items-center rounded-full bg-white/10 px-0.5 transition-all group-data-selected:bg-primary group-data-selected:shadow-[0_0_10px_rgba(45,212,168,0.3)]">
+                        <span className="h-4 w-4 rounded-full bg-white transition group-data-selected:translate-x-4" />
+                      </div>
+                      <Label className="text-sm text-white cursor-pointer">
+                        Export all {colorways.length} colourways
+                      </Label>
+                    </Switch>
+                  </div>
+                )}
               </div>
 
               {/* Preview Panel */}
@@ -320,9 +396,23 @@ export function ExportDialog({ isOpen, onClose, fabricCanvas, tileSize, layerBac
                   )}
                 </div>
                 <div className="flex flex-col gap-1 text-xs text-text-muted">
-                  <div>{resolution} × {resolution}</div>
+                  <div>{resolution} × {outputHeight}</div>
+                  {repeatMultiple > 1 && (
+                    <div>
+                      Offset repeat exported as its {repeatSize.width / tileSize.width} × {repeatSize.height / tileSize.height} tile straight repeat
+                    </div>
+                  )}
+                  {isHexagonalLayout(effectiveLayout) && (
+                    <div>Hexagonal lattice exported as its {'1 × √3'} rectangular repeat</div>
+                  )}
                   <div>{format.toUpperCase()}</div>
-                  <div className="font-mono truncate">{generateFileName()}</div>
+                  {isBatchExport ? (
+                    getColorwayFileNames(generateBaseFileName(), colorways).map((fileName) => (
+                      <div key={fileName} className="font-mono truncate">{fileName}</div>
+                    ))
+                  ) : (
+                    <div className="font-mono truncate">{generateFileName()}</div>
+                  )}
                 </div>
               </div>
             </div>
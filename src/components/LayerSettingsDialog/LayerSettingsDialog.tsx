@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react'
 import { Modal, Dialog, Heading, Button, Label, Slider, SliderTrack, SliderThumb, SliderOutput } from 'react-aria-components'
 import { X } from 'lucide-react'
 import { Tooltip } from '../ui/Tooltip'
-import type { Layer } from '../../core/LayerManager'
+import { BLEND_MODES, type BlendMode, type Layer } from '../../core/LayerManager'
 
 interface LayerSettingsDialogProps {
   isOpen: boolean
@@ -15,6 +15,9 @@ export function LayerSettingsDialog({ isOpen, onClose, layer, onUpdate }: LayerS
   const [backgroundColor, setBackgroundColor] = useState<string>('#000000')
   const [backgroundAlpha, setBackgroundAlpha] = useState<number>(100)
   const [hasBackground, setHasBackground] = useState<boolean>(false)
+  const [opacity, setOpacity] = useState<number>(100)
+  const [blendMode, setBlendMode] = useState<BlendMode>('normal')
+  const [referenceTiled, setReferenceTiled] = useState<boolean>(false)
 
   // Sync state when layer changes or dialog opens
   useEffect(() => {
@@ -27,15 +30,31 @@ export function LayerSettingsDialog({ isOpen, onClose, layer, onUpdate }: LayerS
         setHasBackground(false)
       }
       setBackgroundAlpha(Math.round((layer.backgroundAlpha ?? 1) * 100))
+      setOpacity(Math.round((layer.opacity ?? 1) * 100))
+      setBlendMode(layer.blendMode ?? 'normal')
+      setReferenceTiled(layer.reference?.tiled ?? false)
     }
   }, [layer, isOpen])
 
   const handleApply = () => {
     if (!layer) return
 
+    // Reference layers show their image instead of a background
+    if (layer.reference) {
+      onUpdate(layer.id, {
+        opacity: opacity / 100,
+        blendMode,
+        reference: { ...layer.reference, tiled: referenceTiled },
+      })
+      onClose()
+      return
+    }
+
     onUpdate(layer.id, {
       backgroundColor: hasBackground ? backgroundColor : undefined,
       backgroundAlpha: hasBackground ? backgroundAlpha / 100 : undefined,
+      opacity: opacity / 100,
+      blendMode,
     })
     onClose()
   }
@@ -97,102 +116,165 @@ export function LayerSettingsDialog({ isOpen, onClose, layer, onUpdate }: LayerS
                 Layer: <span className="text-white">{layer.name}</span>
               </div>
 
-              {/* Background toggle */}
-              <div className="flex items-center gap-3">
-                <label className="flex items-center gap-2 cursor-pointer">
-                  <input
-                    type="checkbox"
-                    checked={hasBackground}
-                    onChange={(e) => setHasBackground(e.target.checked)}
-                    className="w-4 h-4 rounded border-primary/30 bg-white/10 text-primary focus:ring-primary focus:ring-offset-0"
-                  />
-                  <span className="text-sm text-white">Enable background color</span>
-                </label>
+              {/* Layer opacity */}
+              <Slider
+                value={[opacity]}
+                onChange={(val) => setOpacity(val[0])}
+                minValue={0}
+                maxValue={100}
+                step={1}
+                className="flex flex-col gap-2"
+                aria-label="Layer Opacity"
+              >
+                <div className="flex justify-between items-center">
+                  <Label className="text-sm font-medium text-text-muted">Layer Opacity</Label>
+                  <SliderOutput className="text-sm text-text-muted">
+                    {({state}) => `${state.values[0]}%`}
+                  </SliderOutput>
+                </div>
+                <SliderTrack className="relative w-full h-2 bg-white/10 rounded-lg">
+                  <SliderThumb className="h-4 w-4 bg-primary rounded-full top-1/2 -translate-y-1/2 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary shadow-[0_0_10px_rgba(45,212,168,0.4)] transition-all hover:scale-110" />
+                </SliderTrack>
+              </Slider>
+
+              {/* Blend mode */}
+              <div className="flex flex-col gap-2">
+                <Label className="text-sm font-medium text-text-muted">Blend Mode</Label>
+                <div className="grid grid-cols-4 gap-1">
+                  {BLEND_MODES.map((mode) => (
+                    <Button
+                      key={mode}
+                      onPress={() => setBlendMode(mode)}
+                      className={`px-1 py-1 rounded-lg text-xs capitalize transition-all ${
+                        blendMode === mode
+                          ? 'bg-primary/20 text-primary shadow-[0_0_8px_rgba(45,212,168,0.2)]'
+                          : 'bg-white/5 text-text-muted hover:bg-white/10 hover:text-white'
+                      }`}
+                      aria-label={`Blend mode ${mode}`}
+                      aria-pressed={blendMode === mode}
+                    >
+                      {mode.replace('-', ' ')}
+                    </Button>
+                  ))}
+                </div>
               </div>
 
-              {/* Color picker */}
-              <div className={`flex flex-col gap-2 ${!hasBackground ? 'opacity-40 pointer-events-none' : ''}`}>
-                <Label className="text-sm font-medium text-text-muted">Background Color</Label>
+              {/* Reference image repeat */}
+              {layer.reference && (
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={referenceTiled}
+                      onChange={(e) => setReferenceTiled(e.target.checked)}
+                      className="w-4 h-4 rounded border-primary/30 bg-white/10 text-primary focus:ring-primary focus:ring-offset-0"
+                    />
+                    <span className="text-sm text-white">Repeat reference image in every tile</span>
+                  </label>
+                </div>
+              )}
+
+              {!layer.reference && (
+                <>
+                {/* Background toggle */}
                 <div className="flex items-center gap-3">
-                  <div className="relative">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={hasBackground}
+                      onChange={(e) => setHasBackground(e.target.checked)}
+                      className="w-4 h-4 rounded border-primary/30 bg-white/10 text-primary focus:ring-primary focus:ring-offset-0"
+                    />
+                    <span className="text-sm text-white">Enable background color</span>
+                  </label>
+                </div>
+
+                {/* Color picker */}
+                <div className={`flex flex-col gap-2 ${!hasBackground ? 'opacity-40 pointer-events-none' : ''}`}>
+                  <Label className="text-sm font-medium text-text-muted">Background Color</Label>
+                  <div className="flex items-center gap-3">
+                    <div className="relative">
+                      <input
+                        type="color"
+                        value={backgroundColor}
+                        onChange={(e) => setBackgroundColor(e.target.value)}
+                        className="w-12 h-12 rounded-lg cursor-pointer border-2 border-primary/20 bg-transparent"
+                      />
+                    </div>
                     <input
-                      type="color"
+                      type="text"
                       value={backgroundColor}
-                      onChange={(e) => setBackgroundColor(e.target.value)}
-                      className="w-12 h-12 rounded-lg cursor-pointer border-2 border-primary/20 bg-transparent"
+                      onChange={(e) => {
+                        const val = e.target.value
+                        if (/^#[0-9A-Fa-f]{0,6}$/.test(val)) {
+                          setBackgroundColor(val)
+                        }
+                      }}
+                      className="flex-1 px-3 py-2 bg-white/5 border border-primary/20 rounded-lg text-sm text-white font-mono focus:ring-2 focus:ring-primary outline-none"
+                      placeholder="#000000"
                     />
                   </div>
-                  <input
-                    type="text"
-                    value={backgroundColor}
-                    onChange={(e) => {
-                      const val = e.target.value
-                      if (/^#[0-9A-Fa-f]{0,6}$/.test(val)) {
-                        setBackgroundColor(val)
-                      }
-                    }}
-                    className="flex-1 px-3 py-2 bg-white/5 border border-primary/20 rounded-lg text-sm text-white font-mono focus:ring-2 focus:ring-primary outline-none"
-                    placeholder="#000000"
-                  />
                 </div>
-              </div>
 
-              {/* Alpha slider */}
-              <div className={`flex flex-col gap-2 ${!hasBackground ? 'opacity-40 pointer-events-none' : ''}`}>
-                <Slider
-                  value={[backgroundAlpha]}
-                  onChange={(val) => setBackgroundAlpha(val[0])}
-                  minValue={0}
-                  maxValue={100}
-                  step={1}
-                  className="flex flex-col gap-2"
-                  aria-label="Background Opacity"
-                >
-                  <div className="flex justify-between items-center">
-                    <Label className="text-sm font-medium text-text-muted">Opacity</Label>
-                    <SliderOutput className="text-sm text-text-muted">
-                      {({state}) => `${state.values[0]}%`}
-                    </SliderOutput>
-                  </div>
-                  <SliderTrack className="relative w-full h-2 bg-white/10 rounded-lg">
-                    <SliderThumb className="h-4 w-4 bg-primary rounded-full top-1/2 -translate-y-1/2 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary shadow-[0_0_10px_rgba(45,212,168,0.4)] transition-all hover:scale-110" />
-                  </SliderTrack>
-                </Slider>
-              </div>
+                {/* Alpha slider */}
+                <div className={`flex flex-col gap-2 ${!hasBackground ? 'opacity-40 pointer-events-none' : ''}`}>
+                  <Slider
+                    value={[backgroundAlpha]}
+                    onChange={(val) => setBackgroundAlpha(val[0])}
+                    minValue={0}
+                    maxValue={100}
+                    step={1}
+                    className="flex flex-col gap-2"
+                    aria-label="Background Opacity"
+                  >
+                    <div className="flex justify-between items-center">
+                      <Label className="text-sm font-medium text-text-muted">Opacity</Label>
+                      <SliderOutput className="text-sm text-text-muted">
+                        {({state}) => `${state.values[0]}%`}
+                      </SliderOutput>
+                    </div>
+                    <SliderTrack className="relative w-full h-2 bg-white/10 rounded-lg">
+                      <SliderThumb className="h-4 w-4 bg-primary rounded-full top-1/2 -translate-y-1/2 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary shadow-[0_0_10px_rgba(45,212,168,0.4)] transition-all hover:scale-110" />
+                    </SliderTrack>
+                  </Slider>
+                </div>
 
-              {/* Preview */}
-              <div className="flex flex-col gap-2">
-                <Label className="text-sm font-medium text-text-muted">Preview</Label>
-                <div
-                  className="h-16 rounded-lg border border-primary/20 overflow-hidden"
-                  style={{
-                    backgroundImage: hasBackground
-                      ? `linear-gradient(45deg, #808080 25%, transparent 25%),
-                         linear-gradient(-45deg, #808080 25%, transparent 25%),
-                         linear-gradient(45deg, transparent 75%, #808080 75%),
-                         linear-gradient(-45deg, transparent 75%, #808080 75%)`
-                      : 'none',
-                    backgroundSize: '16px 16px',
-                    backgroundPosition: '0 0, 0 8px, 8px -8px, -8px 0px',
-                    backgroundColor: '#404040',
-                  }}
-                >
+                {/* Preview */}
+                <div className="flex flex-col gap-2">
+                  <Label className="text-sm font-medium text-text-muted">Preview</Label>
                   <div
-                    className="w-full h-full"
+                    className="h-16 rounded-lg border border-primary/20 overflow-hidden"
                     style={{
-                      backgroundColor: hasBackground ? backgroundColor : 'transparent',
-                      opacity: hasBackground ? backgroundAlpha / 100 : 0,
+                      backgroundImage: hasBackground
+                        ? `linear-gradient(45deg, #808080 25%, transparent 25%),
+                           linear-gradient(-45deg, #808080 25%, transparent 25%),
+                           linear-gradient(45deg, transparent 75%, #808080 75%),
+                           linear-gradient(-45deg, transparent 75%, #808080 75%)`
+                        : 'none',
+                      backgroundSize: '16px 16px',
+                      backgroundPosition: '0 0, 0 8px, 8px -8px, -8px 0px',
+                      backgroundColor: '#404040',
                     }}
-                  />
+                  >
+                    <div
+                      className="w-full h-full"
+                      style={{
+                        backgroundColor: hasBackground ? backgroundColor : 'transparent',
+                        opacity: hasBackground ? backgroundAlpha / 100 : 0,
+                      }}
+                    />
+                  </div>
                 </div>
-              </div>
+                </>
+              )}
             </div>
 
             <div className="flex flex-col gap-2 px-6 py-4 border-t border-primary/10">
               <div className="flex items-center justify-between gap-2">
                 <Button
                   onPress={handleClear}
-                  className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-sm transition-all hover:text-white border border-transparent hover:border-primary/20"
+                  isDisabled={!!layer.reference}
+                  className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-sm transition-all hover:text-white border border-transparent hover:border-primary/20 disabled:opacity-30 disabled:cursor-not-allowed"
                   aria-label="Clear background"
                 >
                   Clear
@@ -1,12 +1,14 @@
 import { useEffect, useState, useRef } from 'react'
-import { Button, Menu, MenuItem, MenuTrigger, Popover, Separator } from 'react-aria-components'
+import { Button, Input, Menu, MenuItem, MenuTrigger, Popover, Separator, TextField } from 'react-aria-components'
 import { Tooltip } from '../ui/Tooltip'
 import {
   Square, Circle, Pencil, Image, Package, Diamond,
   Eye, Filter, MoreVertical, ChevronsUp, ChevronUp,
   ChevronDown, ChevronsDown, FileCode, Copy, Trash2,
   Group, Ungroup, ChevronRight, FolderOpen, GripVertical,
-  Merge
+  Merge, Flower2, Spline, Combine, SquaresUnite, SquaresSubtract,
+  SquaresIntersect, SquaresExclude, SquareSplitHorizontal,
+  Crop, SquareDashed
 } from 'lucide-react'
 import type { Canvas } from 'fabric'
 import type { ExtendedFabricObject } from '../../types/FabricExtensions'
@@ -16,29 +18,50 @@ import type { EntityGroup } from '../../types/FabricExtensions'
 import type { UndoRedoManager } from '../../core/UndoRedoManager'
 import type { VirtualTilingContext } from '../../hooks/useFabricCanvas'
 import { DeleteCommand } from '../../core/commands/DeleteCommand'
-import { ZOrderCommand, type ZOrderOperation } from '../../core/commands/ZOrderCommand'
+import { ZOrderCommand, reorderEntities, type ZOrderOperation } from '../../core/commands/ZOrderCommand'
+import {
+  EntityGroupCommand,
+  EntityGroupDeleteCommand,
+  captureEntityGroupState,
+} from '../../core/commands/EntityGroupCommand'
 import { canConvertToPath } from '../../lib/svgo/convertShapeToPath'
+import { BOOLEAN_OPERATION_LABELS, type BooleanOperation } from '../../core/BooleanOperations'
+import type { ClipMaskManager } from '../../core/ClipMaskManager'
 
 interface EntityPanelProps {
   fabricCanvas: Canvas | null
   layerManager: LayerManager | null
   entityGroupManager: EntityGroupManager | null
+  clipMaskManager?: ClipMaskManager | null
   currentLayerId?: string
   selectedEntityIds: Set<string>
   hoveredEntityIds?: Set<string>
   onSelectEntity?: (mirrorGroupId: string) => void
   onSelectionChange?: (selectedIds: Set<string>) => void
   onHoverEntity?: (hoveredIds: Set<string>) => void
-  onDuplicateEntity?: (mirrorGroupId: string) => void
+  onDuplicateEntity?: (mirrorGroupId: string) => void | Promise<unknown>
   onEditSVG?: (mirrorGroupId: string, svgCode: string) => void
   onGroupSelected?: () => void
   onUngroupSelected?: () => void
   onMergePaths?: () => void
+  onExpandRadialSelected?: () => void
+  onEditNodes?: () => void
+  onBooleanOperation?: (operation: BooleanOperation) => void
   onDuplicateGroup?: (groupId: string) => void
+  onMakeClippingMask?: () => void
+  onReleaseClippingMask?: () => void
   undoRedoManager?: UndoRedoManager | null
   virtualTilingContext?: VirtualTilingContext | null
 }
 
+const BOOLEAN_OPERATION_ICONS: Record<BooleanOperation, typeof SquaresUnite> = {
+  union: SquaresUnite,
+  subtract: SquaresSubtract,
+  intersect: SquaresIntersect,
+  exclude: SquaresExclude,
+  divide: SquareSplitHorizontal,
+}
+
 interface EntityDisplayItem {
   mirrorGroupId: string
   name: string
@@ -65,6 +88,7 @@ export function EntityPanel({
   fabricCanvas,
   layerManager,
   entityGroupManager,
+  clipMaskManager,
   currentLayerId,
   selectedEntityIds,
   hoveredEntityIds,
@@ -76,7 +100,12 @@ export function EntityPanel({
   onGroupSelected,
   onUngroupSelected,
   onMergePaths,
+  onExpandRadialSelected,
+  onEditNodes,
+  onBooleanOperation,
   onDuplicateGroup,
+  onMakeClippingMask,
+  onReleaseClippingMask,
   undoRedoManager,
   virtualTilingContext,
 }: EntityPanelProps) {
@@ -85,6 +114,8 @@ export function EntityPanel({
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set())
   const [showOnlyCurrentLayer, setShowOnlyCurrentLayer] = useState(true)
   const [refreshKey, setRefreshKey] = useState(0)
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null)
+  const [editingGroupName, setEditingGroupName] = useState('')
 
   // Drag-and-drop state
   const [draggedEntityId, setDraggedEntityId] = useState<string | null>(null)
@@ -97,6 +128,9 @@ export function EntityPanel({
     setRefreshKey(prev => prev + 1)
   }, [selectedEntityIds])
 
+  // Undo and redo create, remove and rename groups
+  useEffect(() => undoRedoManager?.onChanged(() => setRefreshKey(prev => prev + 1)), [undoRedoManager])
+
   const refreshEntities = () => {
     if (!fabricCanvas || !layerManager) return
 
@@ -254,115 +288,115 @@ export function EntityPanel({
     }
   }
 
-  const handleDelete = (mirrorGroupId: string) => {
-    if (!layerManager) return
-
-    // Create undo command before deleting
-    if (undoRedoManager && virtualTilingContext?.canonicalStore) {
-      const canonical = virtualTilingContext.canonicalStore.get(mirrorGroupId)
-      if (canonical) {
-        const command = new DeleteCommand(
-          mirrorGroupId,
-          canonical,
-          undoRedoManager.getDependencies()
-        )
-        undoRedoManager.execute(command)
-        return // Command's execute will do the delete
-      }
-    }
-
-    // Fallback if no undo system
-    layerManager.deleteMirrorGroup(mirrorGroupId)
-  }
-
-  const handleDuplicate = (mirrorGroupId: string) => {
-    if (!onDuplicateEntity) return
-    onDuplicateEntity(mirrorGroupId)
+  const handleStartRenameGroup = (group: EntityGroup) => {
+    setEditingGroupId(group.id)
+    setEditingGroupName(group.name)
   }
 
-  const handleEditSVG = (mirrorGroupId: string) => {
-    if (!layerManager || !onEditSVG) return
-    const svgCode = layerManager.getSVGCode(mirrorGroupId)
-    if (svgCode) {
-      onEditSVG(mirrorGroupId, svgCode)
-    }
-  }
-
-  const createZOrderCommand = (mirrorGroupId: string, operation: ZOrderOperation, getNewIndex: () => number) => {
-    if (!undoRedoManager || !virtualTilingContext?.canonicalStore) return false
-
-    const beforeIndex = virtualTilingContext.canonicalStore.getZOrderIndex(mirrorGroupId)
-    if (beforeIndex === -1) return false
-
-    // Calculate what the new index will be after the operation
-    const afterIndex = getNewIndex()
-
-    const command = new ZOrderCommand(
-      mirrorGroupId,
-      beforeIndex,
-      afterIndex,
-      operation,
-      undoRedoManager.getDependencies()
+  const handleFinishRenameGroup = () => {
+    const group = editingGroupId ? entityGroupManager?.getGroup(editingGroupId) : undefined
+    setEditingGroupId(null)
+    if (!entityGroupManager || !undoRedoManager || !group || group.name === editingGroupName) return
+
+    const { canonicalStore } = undoRedoManager.getDependencies()
+    const before = captureEntityGroupState(entityGroupManager, canonicalStore, [group.id], [])
+    entityGroupManager.renameGroup(group.id, editingGroupName)
+    const after = captureEntityGroupState(entityGroupManager, canonicalStore, [group.id], [])
+    undoRedoManager.record(
+      new EntityGroupCommand('Rename group', before, after, entityGroupManager, undoRedoManager.getDependencies())
     )
-    undoRedoManager.execute(command)
-    return true
+    setRefreshKey(prev => prev + 1)
   }
 
-  const moveEntityForward = (mirrorGroupId: string) => {
-    if (!layerManager || !virtualTilingContext?.canonicalStore) return
-
-    const store = virtualTilingContext.canonicalStore
-    const currentIndex = store.getZOrderIndex(mirrorGroupId)
-    const total = store.getAll().length
-
-    if (createZOrderCommand(mirrorGroupId, 'forward', () => Math.min(currentIndex + 1, total - 1))) {
-      refreshEntities()
+  const handleDeleteGroup = async (groupId: string) => {
+    if (!entityGroupManager || !undoRedoManager) return
+    try {
+      await undoRedoManager.execute(
+        new EntityGroupDeleteCommand(groupId, entityGroupManager, undoRedoManager.getDependencies())
+      )
+    } catch (error) {
+      console.error('Cannot delete group:', error)
       return
     }
-
-    layerManager.bringMirrorGroupForward(mirrorGroupId)
-    refreshEntities()
+    onSelectionChange?.(new Set())
   }
 
-  const moveEntityBackward = (mirrorGroupId: string) => {
-    if (!layerManager || !virtualTilingContext?.canonicalStore) return
+  // Menu actions on a selected entity apply to the whole selection
+  const getActionTargets = (mirrorGroupId: string) =>
+    selectedEntityIds.has(mirrorGroupId) ? Array.from(selectedEntityIds) : [mirrorGroupId]
 
-    const store = virtualTilingContext.canonicalStore
-    const currentIndex = store.getZOrderIndex(mirrorGroupId)
+  const handleDelete = async (mirrorGroupId: string) => {
+    if (!layerManager) return
+    const targetIds = getActionTargets(mirrorGroupId)
 
-    if (createZOrderCommand(mirrorGroupId, 'backward', () => Math.max(currentIndex - 1, 0))) {
-      refreshEntities()
+    // Delete them as one undo step
+    if (undoRedoManager && virtualTilingContext?.canonicalStore) {
+      const store = virtualTilingContext.canonicalStore
+      await undoRedoManager.transaction(`Delete ${targetIds.length} entities`, async () => {
+        for (const id of targetIds) {
+          const canonical = store.get(id)
+          if (canonical) {
+            await undoRedoManager.execute(new DeleteCommand(id, canonical, undoRedoManager.getDependencies()))
+          }
+        }
+      })
+      if (targetIds.length > 1) onSelectionChange?.(new Set())
       return
     }
 
-    layerManager.sendMirrorGroupBackward(mirrorGroupId)
-    refreshEntities()
+    // Fallback if no undo system
+    targetIds.forEach((id) => layerManager.deleteMirrorGroup(id))
   }
 
-  const moveEntityToFront = (mirrorGroupId: string) => {
-    if (!layerManager || !virtualTilingContext?.canonicalStore) return
-
-    const store = virtualTilingContext.canonicalStore
-    const total = store.getAll().length
+  const handleDuplicate = async (mirrorGroupId: string) => {
+    if (!onDuplicateEntity) return
+    const targetIds = getActionTargets(mirrorGroupId)
+    const duplicateAll = async () => {
+      for (const id of targetIds) {
+        await onDuplicateEntity(id)
+      }
+    }
 
-    if (createZOrderCommand(mirrorGroupId, 'front', () => total - 1)) {
-      refreshEntities()
-      return
+    if (undoRedoManager) {
+      await undoRedoManager.transaction(`Duplicate ${targetIds.length} entities`, duplicateAll)
+    } else {
+      await duplicateAll()
     }
+  }
 
-    layerManager.bringMirrorGroupToFront(mirrorGroupId)
-    refreshEntities()
+  const handleEditSVG = (mirrorGroupId: string) => {
+    if (!layerManager || !onEditSVG) return
+    const svgCode = layerManager.getSVGCode(mirrorGroupId)
+    if (svgCode) {
+      onEditSVG(mirrorGroupId, svgCode)
+    }
   }
 
-  const moveEntityToBack = (mirrorGroupId: string) => {
+  /**
+   * Change the z-order of an entity, or of the whole selection as one undo step,
+   * keeping the order of the selected entities (see reorderEntities)
+   */
+  const moveEntities = async (mirrorGroupId: string, operation: ZOrderOperation) => {
     if (!layerManager || !virtualTilingContext?.canonicalStore) return
 
-    if (createZOrderCommand(mirrorGroupId, 'back', () => 0)) {
+    if (!undoRedoManager) {
+      const fallbacks: Record<ZOrderOperation, (id: string) => void> = {
+        front: (id) => layerManager.bringMirrorGroupToFront(id),
+        back: (id) => layerManager.sendMirrorGroupToBack(id),
+        forward: (id) => layerManager.bringMirrorGroupForward(id),
+        backward: (id) => layerManager.sendMirrorGroupBackward(id),
+      }
+      fallbacks[operation](mirrorGroupId)
       refreshEntities()
       return
     }
 
-    layerManager.sendMirrorGroupToBack(mirrorGroupId)
+    const targetIds = getActionTargets(mirrorGroupId)
+    await undoRedoManager.transaction(`Reorder ${targetIds.length} entities`, () =>
+      reorderEntities(targetIds, operation, undoRedoManager.getDependencies(), (command) =>
+        undoRedoManager.execute(command)
+      )
+    )
     refreshEntities()
   }
 
@@ -379,6 +413,33 @@ export function EntityPanel({
       return entity?.type && canConvertToPath(entity.type)
     })
 
+  // Check if any selected entity has radial copies that can become a group
+  const hasSelectedRadial = Array.from(selectedEntityIds).some((id) => {
+    const entity = entities.find((e) => e.mirrorGroupId === id)
+    return entity?.objects[0]?.tiledMetadata?.radialSymmetry !== undefined
+  })
+
+  // Node editing works on a single path
+  const canEditNodes = selectedEntityIds.size === 1 &&
+    entities.find((e) => selectedEntityIds.has(e.mirrorGroupId))?.type === 'path'
+
+  // Clipping needs a path among the selected entities to clip by
+  const canClip = Array.from(selectedEntityIds).some((id) =>
+    entities.find((e) => e.mirrorGroupId === id)?.type === 'path'
+  )
+
+  const clips = clipMaskManager?.getClipMasks() ?? []
+  const isClipped = (entity: EntityDisplayItem) =>
+    entity.objects[0] ? (clipMaskManager?.getObjectMaskIds(entity.objects[0]).length ?? 0) > 0 : false
+  const isMask = (entity: EntityDisplayItem) => clips.some(({ maskId }) => maskId === entity.mirrorGroupId)
+
+  const hasSelectedClip = clips.some(({ targetType, targetId, maskId }) =>
+    selectedEntityIds.has(maskId) ||
+    (targetType === 'entity' && selectedEntityIds.has(targetId)) ||
+    (targetType === 'entityGroup' &&
+      entities.some((e) => selectedEntityIds.has(e.mirrorGroupId) && e.entityGroupId === targetId))
+  )
+
   // Drag-and-drop handlers
   const handleDragStart = (e: React.DragEvent, mirrorGroupId: string) => {
     setDraggedEntityId(mirrorGroupId)
@@ -482,7 +543,7 @@ export function EntityPanel({
         'forward', // Generic operation type
         undoRedoManager.getDependencies()
       )
-      undoRedoManager.execute(command)
+      undoRedoManager.execute(command).catch((error) => console.error('Cannot reorder entity:', error))
       refreshEntities()
     }
 
@@ -529,6 +590,16 @@ export function EntityPanel({
           <span className={isSelected ? 'text-primary' : 'text-text-muted'}>{getEntityIcon(entity.type)}</span>
           <span className="text-sm text-white truncate">{entity.name}</span>
           <span className="text-xs text-text-muted">{entity.objects.length}</span>
+          {isMask(entity) && (
+            <span className="text-accent-coral" title="Clipping mask" aria-label="Clipping mask">
+              <SquareDashed size={12} />
+            </span>
+          )}
+          {isClipped(entity) && (
+            <span className="text-primary" title="Clipped" aria-label="Clipped">
+              <Crop size={12} />
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
@@ -548,16 +619,16 @@ export function EntityPanel({
                 onAction={(key) => {
                   switch (key) {
                     case 'bring-to-front':
-                      moveEntityToFront(entity.mirrorGroupId)
+                      moveEntities(entity.mirrorGroupId, 'front')
                       break
                     case 'bring-forward':
-                      moveEntityForward(entity.mirrorGroupId)
+                      moveEntities(entity.mirrorGroupId, 'forward')
                       break
                     case 'send-backward':
-                      moveEntityBackward(entity.mirrorGroupId)
+                      moveEntities(entity.mirrorGroupId, 'backward')
                       break
                     case 'send-to-back':
-                      moveEntityToBack(entity.mirrorGroupId)
+                      moveEntities(entity.mirrorGroupId, 'back')
                       break
                     case 'edit-svg':
                       handleEditSVG(entity.mirrorGroupId)
@@ -658,7 +729,35 @@ export function EntityPanel({
             <span className="text-primary">
               <FolderOpen size={16} />
             </span>
-            <span className="text-sm text-white truncate">{group.name}</span>
+            {editingGroupId === group.id ? (
+              <TextField
+                value={editingGroupName}
+                onChange={setEditingGroupName}
+                onBlur={handleFinishRenameGroup}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleFinishRenameGroup()
+                  if (e.key === 'Escape') setEditingGroupId(null)
+                }}
+                autoFocus
+                className="flex-1 min-w-0"
+                aria-label="Group name"
+              >
+                <Input
+                  className="w-full px-2 py-0.5 bg-white/10 border border-primary/20 rounded-lg text-sm focus:ring-2 focus:ring-primary outline-none"
+                  onClick={(e) => e.stopPropagation()}
+                />
+              </TextField>
+            ) : (
+              <span
+                className="text-sm text-white truncate"
+                onDoubleClick={(e) => {
+                  e.stopPropagation()
+                  handleStartRenameGroup(group)
+                }}
+              >
+                {group.name}
+              </span>
+            )}
             <span className="text-xs text-text-muted">({members.length})</span>
           </div>
 
@@ -681,13 +780,13 @@ export function EntityPanel({
                       // Select the group first, then ungroup
                       onSelectionChange?.(new Set(group.memberMirrorGroupIds))
                       onUngroupSelected?.()
+                    } else if (key === 'rename') {
+                      handleStartRenameGroup(group)
                     } else if (key === 'duplicate') {
                       onDuplicateGroup?.(group.id)
                     } else if (key === 'delete') {
                       // Delete the group and all its children
-                      if (entityGroupManager) {
-                        entityGroupManager.deleteGroup(group.id, true)
-                      }
+                      handleDeleteGroup(group.id)
                     }
                   }}
                 >
@@ -697,6 +796,12 @@ export function EntityPanel({
                   >
                     <Ungroup size={16} /> Ungroup
                   </MenuItem>
+                  <MenuItem
+                    id="rename"
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-white outline-none cursor-pointer rounded-lg hover:bg-white/10 transition-all"
+                  >
+                    <Pencil size={16} /> Rename
+                  </MenuItem>
                   <MenuItem
                     id="duplicate"
                     className="flex items-center gap-2 px-3 py-2 text-sm text-white outline-none cursor-pointer rounded-lg hover:bg-white/10 transition-all"
@@ -761,6 +866,97 @@ export function EntityPanel({
               <Merge size={14} />
             </Button>
           </Tooltip>
+          <MenuTrigger>
+            <Tooltip content="Boolean operations">
+              <Button
+                isDisabled={!canMerge}
+                className="px-2 py-1 text-xs rounded-lg transition-all bg-white/5 text-text-muted hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Boolean operations"
+              >
+                <Combine size={14} />
+              </Button>
+            </Tooltip>
+            <Popover
+              placement="bottom end"
+              className="bg-bg-panel border border-primary/20 rounded-xl shadow-xl min-w-40 overflow-hidden panel-glow"
+            >
+              <Menu
+                className="outline-none p-1"
+                onAction={(key) => onBooleanOperation?.(key as BooleanOperation)}
+              >
+                {(Object.keys(BOOLEAN_OPERATION_LABELS) as BooleanOperation[]).map((operation) => {
+                  const Icon = BOOLEAN_OPERATION_ICONS[operation]
+                  return (
+                    <MenuItem
+                      key={operation}
+                      id={operation}
+                      className="flex items-center gap-2 px-3 py-2 text-sm text-white outline-none cursor-pointer rounded-lg hover:bg-white/10 transition-all"
+                    >
+                      <Icon size={16} /> {BOOLEAN_OPERATION_LABELS[operation]}
+                    </MenuItem>
+                  )
+                })}
+              </Menu>
+            </Popover>
+          </MenuTrigger>
+          <MenuTrigger>
+            <Tooltip content="Clipping mask">
+              <Button
+                isDisabled={!canClip && !hasSelectedClip}
+                className="px-2 py-1 text-xs rounded-lg transition-all bg-white/5 text-text-muted hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Clipping mask"
+              >
+                <Crop size={14} />
+              </Button>
+            </Tooltip>
+            <Popover
+              placement="bottom end"
+              className="bg-bg-panel border border-primary/20 rounded-xl shadow-xl min-w-40 overflow-hidden panel-glow"
+            >
+              <Menu
+                className="outline-none p-1"
+                disabledKeys={[...(canClip ? [] : ['make']), ...(hasSelectedClip ? [] : ['release'])]}
+                onAction={(key) => (key === 'make' ? onMakeClippingMask?.() : onReleaseClippingMask?.())}
+              >
+                <MenuItem
+                  id="make"
+                  className={({ isDisabled }) => `flex items-center gap-2 px-3 py-2 text-sm text-white outline-none rounded-lg transition-all ${
+                    isDisabled ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer hover:bg-white/10'
+                  }`}
+                >
+                  <Crop size={16} /> {selectedEntityIds.size > 1 ? 'Clip by top path' : 'Clip layer by path'}
+                </MenuItem>
+                <MenuItem
+                  id="release"
+                  className={({ isDisabled }) => `flex items-center gap-2 px-3 py-2 text-sm text-white outline-none rounded-lg transition-all ${
+                    isDisabled ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer hover:bg-white/10'
+                  }`}
+                >
+                  <SquareDashed size={16} /> Release clipping mask
+                </MenuItem>
+              </Menu>
+            </Popover>
+          </MenuTrigger>
+          <Tooltip content="Convert radial copies to a group">
+            <Button
+              onPress={onExpandRadialSelected}
+              isDisabled={!hasSelectedRadial}
+              className="px-2 py-1 text-xs rounded-lg transition-all bg-white/5 text-text-muted hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label="Convert radial copies to a group"
+            >
+              <Flower2 size={14} />
+            </Button>
+          </Tooltip>
+          <Tooltip content="Edit path nodes (double-click)">
+            <Button
+              onPress={onEditNodes}
+              isDisabled={!canEditNodes}
+              className="px-2 py-1 text-xs rounded-lg transition-all bg-white/5 text-text-muted hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label="Edit path nodes"
+            >
+              <Spline size={14} />
+            </Button>
+          </Tooltip>
           <Tooltip content={showOnlyCurrentLayer ? 'Show all layers' : 'Show current layer only'}>
             <Button
               onPress={() => setShowOnlyCurrentLayer(!showOnlyCurrentLayer)}
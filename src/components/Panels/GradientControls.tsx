@@ -0,0 +1,131 @@
+import { useState } from 'react'
+import { Button, NumberField, Label, Input } from 'react-aria-components'
+import { Tooltip } from '../ui/Tooltip'
+import { Move, Trash2 } from 'lucide-react'
+import {
+  addGradientStop,
+  getGradientAngle,
+  getGradientPreviewCSS,
+  removeGradientStop,
+  setGradientAngle,
+  toHexColor,
+  updateGradientStop,
+  type GradientSpec,
+} from '../../core/Gradients'
+
+interface GradientControlsProps {
+  gradient: GradientSpec
+  label: string // e.g. "Fill", used in aria labels
+  onChange: (gradient: GradientSpec) => void
+  onEditOnCanvas?: () => void
+}
+
+const inputClass = 'px-3 py-2 bg-white/5 border border-primary/20 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary/40 outline-none text-sm transition-all'
+const buttonClass = 'flex items-center justify-center gap-1 px-2 py-1 text-xs rounded-lg transition-all bg-white/5 text-text-muted hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed'
+
+/**
+ * Gradient stops and direction. Clicking the preview bar adds a stop there.
+ */
+export function GradientControls({ gradient, label, onChange, onEditOnCanvas }: GradientControlsProps) {
+  const [selectedStop, setSelectedStop] = useState(0)
+  const stopIndex = Math.min(selectedStop, gradient.stops.length - 1)
+  const stop = gradient.stops[stopIndex]
+
+  const handleBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect()
+    const offset = Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width))
+    const { spec, index } = addGradientStop(gradient, offset)
+    setSelectedStop(index)
+    onChange(spec)
+  }
+
+  const handleStopChange = (changes: { offset?: number; color?: string }) => {
+    const { spec, index } = updateGradientStop(gradient, stopIndex, changes)
+    setSelectedStop(index)
+    onChange(spec)
+  }
+
+  const handleRemoveStop = () => {
+    setSelectedStop(Math.max(0, stopIndex - 1))
+    onChange(removeGradientStop(gradient, stopIndex))
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {/* Stop bar */}
+      <div className="relative pb-3">
+        <div
+          className="h-6 w-full rounded-lg border border-primary/20 cursor-copy"
+          style={{ background: getGradientPreviewCSS(gradient.stops) }}
+          onClick={handleBarClick}
+          aria-label={`${label} gradient - click to add a stop`}
+        />
+        {gradient.stops.map((gradientStop, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => setSelectedStop(index)}
+            className={`absolute bottom-0 h-4 w-4 -translate-x-1/2 rounded-full border-2 transition-all ${
+              index === stopIndex ? 'border-primary shadow-[0_0_8px_rgba(45,212,168,0.4)]' : 'border-white/60'
+            }`}
+            style={{ left: `${gradientStop.offset * 100}%`, background: gradientStop.color }}
+            aria-label={`${label} gradient stop ${index + 1}`}
+          />
+        ))}
+      </div>
+
+      {/* Selected stop */}
+      {stop && (
+        <div className="flex items-end gap-2">
+          <input
+            type="color"
+            value={toHexColor(stop.color)}
+            onChange={(e) => handleStopChange({ color: e.target.value })}
+            className="h-9 w-12 rounded-lg cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary"
+            aria-label={`${label} gradient stop color`}
+          />
+          <NumberField
+            value={Math.round(stop.offset * 100)}
+            onChange={(val) => handleStopChange({ offset: val / 100 })}
+            minValue={0}
+            maxValue={100}
+            className="flex flex-col gap-1 flex-1 min-w-0"
+            aria-label={`${label} gradient stop position`}
+          >
+            <Label className="text-xs font-medium text-text-muted">Position %</Label>
+            <Input className={inputClass} />
+          </NumberField>
+          <Tooltip content="Remove stop">
+            <Button
+              onPress={handleRemoveStop}
+              isDisabled={gradient.stops.length <= 2}
+              className={`${buttonClass} h-9`}
+              aria-label={`Remove ${label.toLowerCase()} gradient stop`}
+            >
+              <Trash2 size={14} />
+            </Button>
+          </Tooltip>
+        </div>
+      )}
+
+      {gradient.type === 'linear' && (
+        <NumberField
+          value={Math.round(getGradientAngle(gradient))}
+          onChange={(val) => onChange(setGradientAngle(gradient, val))}
+          className="flex flex-col gap-1"
+          aria-label={`${label} gradient angle`}
+        >
+          <Label className="text-xs font-medium text-text-muted">Angle (degrees)</Label>
+          <Input className={inputClass} />
+        </NumberField>
+      )}
+
+      {onEditOnCanvas && (
+        <Button onPress={onEditOnCanvas} className={buttonClass}>
+          <Move size={14} />
+          Edit on canvas
+        </Button>
+      )}
+    </div>
+  )
+}
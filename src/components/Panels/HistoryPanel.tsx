@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from 'react'
+import { Button } from 'react-aria-components'
+import type { UndoRedoManager } from '../../core/UndoRedoManager'
+import type { Command } from '../../core/commands/types'
+
+interface HistoryPanelProps {
+  undoRedoManager: UndoRedoManager | null
+  /** Thumbnail of the tile as it is now, as a data URL */
+  getThumbnail?: () => Promise<string | null>
+}
+
+// Every how many commands a thumbnail is kept
+const CHECKPOINT_INTERVAL = 5
+// Wait for the canvas to settle (and async commands to finish) before taking a thumbnail
+const THUMBNAIL_DELAY = 300
+
+interface HistoryItem {
+  command: Command | null // null for the state before any command
+  position: number
+  isUndone: boolean
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+/**
+ * Every command on the undo and redo stacks, oldest first. Clicking an entry undoes or
+ * redoes everything up to it in one step. Every few commands the tile is kept as a
+ * thumbnail, so earlier states are easy to find.
+ */
+export function HistoryPanel({ undoRedoManager, getThumbnail }: HistoryPanelProps) {
+  const [history, setHistory] = useState<{ done: readonly Command[]; undone: readonly Command[] }>({
+    done: [],
+    undone: [],
+  })
+  const [thumbnails, setThumbnails] = useState<Map<Command, string>>(new Map())
+  const [isJumping, setIsJumping] = useState(false)
+
+  const getThumbnailRef = useRef(getThumbnail)
+  getThumbnailRef.current = getThumbnail
+  const listRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!undoRedoManager) return
+    let thumbnailTimeout: ReturnType<typeof setTimeout> | undefined
+
+    const handleChanged = () => {
+      const current = undoRedoManager.getHistory()
+      setHistory(current)
+
+      // Forget thumbnails of commands that left the history
+      const commands = new Set([...current.done, ...current.undone])
+      setThumbnails((prev) => new Map([...prev].filter(([command]) => commands.has(command))))
+
+      // Take a thumbnail when a checkpoint command has just been done
+      clearTimeout(thumbnailTimeout)
+      const latest = current.done[current.done.length - 1]
+      if (!latest || current.done.length % CHECKPOINT_INTERVAL !== 0) return
+      thumbnailTimeout = setTimeout(async () => {
+        const thumbnail = await getThumbnailRef.current?.().catch(() => null)
+        if (!thumbnail) return
+        setThumbnails((prev) => (prev.has(latest) ? prev : new Map(prev).set(latest, thumbnail)))
+      }, THUMBNAIL_DELAY)
+    }
+
+    handleChanged()
+    const unsubscribe = undoRedoManager.onChanged(handleChanged)
+    return () => {
+      unsubscribe()
+      clearTimeout(thumbnailTimeout)
+    }
+  }, [undoRedoManager])
+
+  // Keep the current state in view
+  useEffect(() => {
+    const current = listRef.current?.querySelector('[data-current="true"]')
+    current?.scrollIntoView({ block: 'nearest' })
+  }, [history])
+
+  const handleJump = async (position: number) => {
+    if (!undoRedoManager || isJumping) return
+    setIsJumping(true)
+    try {
+      await undoRedoManager.goTo(position)
+    } finally {
+      setIsJumping(false)
+    }
+  }
+
+  const items: HistoryItem[] = [
+    { command: null, position: 0, isUndone: false },
+    ...history.done.map((command, i) => ({ command, position: i + 1, isUndone: false })),
+    ...history.undone.map((command, i) => ({ command, position: history.done.length + i + 1, isUndone: true })),
+  ]
+
+  return (
+    <div ref={listRef} className="flex flex-col gap-0.5 max-h-64 overflow-y-auto">
+      {items.map(({ command, position, isUndone }) => {
+        const isCurrent = position === history.done.length
+        const thumbnail = command ? thumbnails.get(command) : undefined
+
+        return (
+          <Button
+            key={position}
+            data-current={isCurrent}
+            onPress={() => handleJump(position)}
+            isDisabled={isJumping}
+            className={`flex items-center gap-2 px-2 py-1 rounded-lg text-left transition-all outline-none focus-visible:ring-2 focus-visible:ring-primary ${
+              isCurrent
+                ? 'bg-primary/20 text-white'
+                : isUndone
+                  ? 'text-text-muted/50 hover:bg-white/5'
+                  : 'text-text-muted hover:bg-white/5 hover:text-white'
+            }`}
+            aria-label={`${isUndone ? 'Redo' : 'Undo'} to ${command?.description ?? 'start'}`}
+          >
+            {thumbnail && (
+              <img src={thumbnail} alt="" className="w-8 h-8 rounded border border-primary/20 object-cover shrink-0" />
+            )}
+            <span className={`flex-1 min-w-0 text-xs truncate ${isUndone ? 'italic' : ''}`}>
+              {command?.description ?? 'Start'}
+            </span>
+            {command && <span className="text-[10px] text-text-muted/60 shrink-0">{formatTime(command.timestamp)}</span>}
+          </Button>
+        )
+      })}
+    </div>
+  )
+}
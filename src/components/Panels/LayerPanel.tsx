@@ -1,8 +1,41 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Button, ListBox, ListBoxItem, TextField, Input } from 'react-aria-components'
-import { Eye, EyeOff, Lock, Unlock, ChevronUp, ChevronDown, Trash2, Plus, Settings } from 'lucide-react'
+import {
+  Eye,
+  EyeOff,
+  Lock,
+  Unlock,
+  ChevronUp,
+  ChevronDown,
+  ChevronRight,
+  Trash2,
+  Plus,
+  Settings,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  IndentIncrease,
+  IndentDecrease,
+  Copy,
+  Merge,
+  Image as ImageIcon,
+  ImageOff,
+  ImagePlus,
+} from 'lucide-react'
 import { Tooltip } from '../ui/Tooltip'
-import type { LayerManager, Layer } from '../../core/LayerManager'
+import { holdsObjects, type LayerManager, type Layer } from '../../core/LayerManager'
+import type { EntityGroupManager } from '../../core/EntityGroupManager'
+import type { ClipMaskManager } from '../../core/ClipMaskManager'
+import type { UndoRedoManager } from '../../core/UndoRedoManager'
+import {
+  LayerCreateCommand,
+  LayerDeleteCommand,
+  LayerDuplicateCommand,
+  LayerMergeDownCommand,
+  LayerReorderCommand,
+  LayerUpdateCommand,
+  getLayerChange,
+} from '../../core/commands/LayerCommand'
 import { LayerSettingsDialog } from '../LayerSettingsDialog/LayerSettingsDialog'
 
 interface LayerPanelProps {
@@ -10,53 +43,153 @@ interface LayerPanelProps {
   currentLayerId: string
   onLayerChange: (layerId: string) => void
   onLayersChange?: (layers: Layer[]) => void
+  entityGroupManager?: EntityGroupManager | null
+  clipMaskManager?: ClipMaskManager | null
+  undoRedoManager?: UndoRedoManager | null
 }
 
-export function LayerPanel({ layerManager, currentLayerId, onLayerChange, onLayersChange }: LayerPanelProps) {
+export function LayerPanel({
+  layerManager,
+  currentLayerId,
+  onLayerChange,
+  onLayersChange,
+  entityGroupManager,
+  clipMaskManager,
+  undoRedoManager,
+}: LayerPanelProps) {
   const [layers, setLayers] = useState<Layer[]>([])
   const [editingLayerId, setEditingLayerId] = useState<string | null>(null)
   const [editingName, setEditingName] = useState('')
   const [settingsLayerId, setSettingsLayerId] = useState<string | null>(null)
 
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const referenceFileInputRef = useRef<HTMLInputElement>(null)
+
   const refreshLayers = () => {
     if (!layerManager) return
     const updatedLayers = layerManager.getLayers()
     setLayers(updatedLayers)
     onLayersChange?.(updatedLayers)
+
+    // Keep drawing on a layer that still exists
+    if (!updatedLayers.some((layer) => layer.id === currentLayerId && holdsObjects(layer))) {
+      const firstLayer = updatedLayers.find(holdsObjects)
+      if (firstLayer) onLayerChange(firstLayer.id)
+    }
   }
 
+  // Undo and redo add, remove and change layers
+  useEffect(() => undoRedoManager?.onChanged(() => setHistoryVersion((version) => version + 1)), [undoRedoManager])
+
   useEffect(() => {
     refreshLayers()
-  }, [layerManager])
+  }, [layerManager, historyVersion])
+
+  // Layers are created here, then recorded so undo removes them again
+  const recordCreate = (layer: Layer) => {
+    undoRedoManager?.record(new LayerCreateCommand(layer, undoRedoManager.getDependencies()))
+    refreshLayers()
+  }
+
+  // Changes to layer properties go through undo - collapsing folders is only a view change
+  const updateLayers = async (updates: [layer: Layer, updates: Partial<Omit<Layer, 'id'>>][]) => {
+    if (!undoRedoManager || updates.length === 0) return
+    const changes = updates.map(([layer, layerUpdates]) => getLayerChange(layer, layerUpdates))
+    try {
+      await undoRedoManager.execute(new LayerUpdateCommand(changes, undoRedoManager.getDependencies()))
+    } catch (error) {
+      console.error('Cannot update layers:', error)
+    }
+    refreshLayers()
+  }
+
+  // Moves are recorded as the arrangement of all layers before and after them
+  const rearrange = (move: () => void) => {
+    if (!layerManager) return
+    const before = layerManager.getArrangement()
+    move()
+    const after = layerManager.getArrangement()
+    if (undoRedoManager && JSON.stringify(after) !== JSON.stringify(before)) {
+      undoRedoManager.record(new LayerReorderCommand(before, after, undoRedoManager.getDependencies()))
+    }
+    refreshLayers()
+  }
 
   const handleCreateLayer = () => {
     if (!layerManager) return
     const newLayer = layerManager.createLayer()
-    refreshLayers()
+    recordCreate(newLayer)
     onLayerChange(newLayer.id)
   }
 
-  const handleDeleteLayer = (layerId: string) => {
+  const handleCreateFolder = () => {
     if (!layerManager) return
+    recordCreate(layerManager.createFolder())
+  }
+
+  const handleDeleteLayer = async (layerId: string) => {
+    if (!layerManager || !undoRedoManager || !entityGroupManager || !clipMaskManager) return
     try {
-      layerManager.deleteLayer(layerId)
+      const command = new LayerDeleteCommand(layerId, entityGroupManager, clipMaskManager, undoRedoManager.getDependencies())
+      await undoRedoManager.execute(command)
       refreshLayers()
-      // Switch to first available layer
-      const remainingLayers = layerManager.getLayers()
-      if (remainingLayers.length > 0) {
-        onLayerChange(remainingLayers[0].id)
+      // Switch to first available layer (folders and reference layers hold no objects)
+      const firstLayer = layerManager.getLayers().find(holdsObjects)
+      if (firstLayer) {
+        onLayerChange(firstLayer.id)
       }
     } catch (error) {
       console.error('Cannot delete layer:', error)
     }
   }
 
+  // Reference images are kept in the project as data URLs
+  const handleReferenceFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !layerManager) return
+
+    const reader = new FileReader()
+    reader.onload = () => {
+      recordCreate(layerManager.createReferenceLayer(reader.result as string, file.name.replace(/\.[^.]+$/, '')))
+    }
+    reader.readAsDataURL(file)
+  }
+
+  // Hide all reference layers while any is shown, otherwise show them all
+  const referenceLayers = layers.filter((layer) => layer.reference)
+  const referencesShown = referenceLayers.some((layer) => layer.visible)
+  const handleToggleReferences = () => {
+    updateLayers(referenceLayers.map((layer) => [layer, { visible: !referencesShown }]))
+  }
+
+  const handleDuplicateLayer = async (layerId: string) => {
+    if (!undoRedoManager || !entityGroupManager || !clipMaskManager) return
+    try {
+      const command = new LayerDuplicateCommand(layerId, entityGroupManager, clipMaskManager, undoRedoManager.getDependencies())
+      await undoRedoManager.execute(command)
+      onLayerChange(command.getLayerId())
+    } catch (error) {
+      console.error('Cannot duplicate layer:', error)
+    }
+  }
+
+  const handleMergeDown = async (layerId: string) => {
+    if (!undoRedoManager || !entityGroupManager || !clipMaskManager) return
+    try {
+      const command = new LayerMergeDownCommand(layerId, entityGroupManager, clipMaskManager, undoRedoManager.getDependencies())
+      await undoRedoManager.execute(command)
+      onLayerChange(command.getTargetLayerId())
+    } catch (error) {
+      console.error('Cannot merge layer down:', error)
+    }
+  }
+
   const handleToggleVisibility = (layerId: string) => {
     if (!layerManager) return
     const layer = layerManager.getLayer(layerId)
     if (layer) {
-      layerManager.updateLayer(layerId, { visible: !layer.visible })
-      refreshLayers()
+      updateLayers([[layer, { visible: !layer.visible }]])
     }
   }
 
@@ -64,8 +197,7 @@ export function LayerPanel({ layerManager, currentLayerId, onLayerChange, onLaye
     if (!layerManager) return
     const layer = layerManager.getLayer(layerId)
     if (layer) {
-      layerManager.updateLayer(layerId, { locked: !layer.locked })
-      refreshLayers()
+      updateLayers([[layer, { locked: !layer.locked }]])
     }
   }
 
@@ -76,36 +208,101 @@ export function LayerPanel({ layerManager, currentLayerId, onLayerChange, onLaye
 
   const handleFinishRename = () => {
     if (!layerManager || !editingLayerId) return
-    layerManager.updateLayer(editingLayerId, { name: editingName })
+    const layer = layerManager.getLayer(editingLayerId)
     setEditingLayerId(null)
-    refreshLayers()
+    if (layer && layer.name !== editingName) {
+      updateLayers([[layer, { name: editingName }]])
+    }
   }
 
-  const handleMoveUp = (index: number) => {
-    if (!layerManager || index === 0) return
-    layerManager.reorderLayers(index, index - 1)
-    refreshLayers()
+  const handleToggleCollapsed = (folderId: string) => {
+    if (!layerManager) return
+    const folder = layerManager.getLayer(folderId)
+    if (folder) {
+      layerManager.updateLayer(folderId, { collapsed: !folder.collapsed })
+      refreshLayers()
+    }
   }
 
-  const handleMoveDown = (index: number) => {
-    if (!layerManager || index === layers.length - 1) return
-    layerManager.reorderLayers(index, index + 1)
-    refreshLayers()
+  // Layers move among the layers in the same folder, folders with everything inside them
+  const handleMove = (layerId: string, direction: -1 | 1) => {
+    rearrange(() => layerManager?.moveLayer(layerId, direction))
+  }
+
+  // Indent into the folder just above, outdent to just below the containing folder
+  const handleIndent = (layerId: string, folderId: string) => {
+    rearrange(() => layerManager?.moveLayerToFolder(layerId, folderId))
+  }
+
+  const handleOutdent = (layerId: string, parent: Layer) => {
+    rearrange(() => layerManager?.moveLayerToFolder(layerId, parent.parentId ?? null, parent.id))
   }
 
+  // Rows with their depth and neighbours in the same folder, without the contents of
+  // collapsed folders
+  const rows = layers.flatMap((layer) => {
+    if (!layerManager) return []
+    const ancestors = layerManager.getAncestors(layer.id)
+    if (ancestors.some((folder) => folder.collapsed)) return []
+
+    const parent = ancestors[0] ?? null
+    const siblings = layerManager.getChildren(parent?.id ?? null)
+    const index = siblings.findIndex(({ id }) => id === layer.id)
+    return [{
+      layer,
+      depth: ancestors.length,
+      parent,
+      previous: siblings[index - 1] ?? null,
+      isLast: index === siblings.length - 1,
+      isLocked: layerManager.isLayerLocked(layer.id),
+      mergeTarget: layerManager.getMergeTarget(layer.id) ?? null,
+    }]
+  })
+
   return (
     <div className="flex flex-col gap-3">
       <div className="flex items-center justify-between">
         <span className="text-sm font-medium text-white">Layers</span>
-        <Tooltip content="Create new layer">
-          <Button
-            onPress={handleCreateLayer}
-            className="p-1.5 bg-primary hover:bg-primary-light rounded-lg transition-all text-bg-dark shadow-[0_0_10px_rgba(45,212,168,0.2)] hover:shadow-[0_0_15px_rgba(45,212,168,0.4)]"
-            aria-label="Create new layer"
-          >
-            <Plus size={16} />
-          </Button>
-        </Tooltip>
+        <div className="flex items-center gap-1">
+          {referenceLayers.length > 0 && (
+            <Tooltip content={referencesShown ? 'Hide reference layers' : 'Show reference layers'}>
+              <Button
+                onPress={handleToggleReferences}
+                className={`p-1.5 hover:bg-white/10 rounded-lg transition-all ${referencesShown ? 'text-primary' : 'text-white opacity-50'}`}
+                aria-label={referencesShown ? 'Hide reference layers' : 'Show reference layers'}
+              >
+                {referencesShown ? <ImageIcon size={16} /> : <ImageOff size={16} />}
+              </Button>
+            </Tooltip>
+          )}
+          <Tooltip content="Add reference image">
+            <Button
+              onPress={() => referenceFileInputRef.current?.click()}
+              className="p-1.5 hover:bg-white/10 rounded-lg transition-all text-white"
+              aria-label="Add reference image"
+            >
+              <ImagePlus size={16} />
+            </Button>
+          </Tooltip>
+          <Tooltip content="Create new folder">
+            <Button
+              onPress={handleCreateFolder}
+              className="p-1.5 hover:bg-white/10 rounded-lg transition-all text-white"
+              aria-label="Create new folder"
+            >
+              <FolderPlus size={16} />
+            </Button>
+          </Tooltip>
+          <Tooltip content="Create new layer">
+            <Button
+              onPress={handleCreateLayer}
+              className="p-1.5 bg-primary hover:bg-primary-light rounded-lg transition-all text-bg-dark shadow-[0_0_10px_rgba(45,212,168,0.2)] hover:shadow-[0_0_15px_rgba(45,212,168,0.4)]"
+              aria-label="Create new layer"
+            >
+              <Plus size={16} />
+            </Button>
+          </Tooltip>
+        </div>
       </div>
 
       <ListBox
@@ -114,11 +311,13 @@ export function LayerPanel({ layerManager, currentLayerId, onLayerChange, onLaye
         selectedKeys={[currentLayerId]}
         onSelectionChange={(keys) => {
           const key = Array.from(keys)[0]
-          if (key) onLayerChange(key.toString())
+          // Folders and reference layers hold no objects, so they can't be drawn on
+          const layer = key ? layerManager?.getLayer(key.toString()) : undefined
+          if (layer && holdsObjects(layer)) onLayerChange(layer.id)
         }}
         className="flex flex-col gap-1"
       >
-        {layers.map((layer, index) => (
+        {rows.map(({ layer, depth, parent, previous, isLast, isLocked, mergeTarget }) => (
           <ListBoxItem
             key={layer.id}
             id={layer.id}
@@ -128,9 +327,23 @@ export function LayerPanel({ layerManager, currentLayerId, onLayerChange, onLaye
               transition-all cursor-pointer
               ${isSelected ? 'bg-primary/20 shadow-[0_0_10px_rgba(45,212,168,0.1)]' : 'hover:bg-white/5'}
               ${isFocusVisible ? 'ring-2 ring-primary' : ''}
-              ${layer.locked ? 'opacity-60' : ''}
+              ${isLocked ? 'opacity-60' : ''}
             `}
+            style={{ paddingLeft: `${0.75 + depth}rem` }}
           >
+            {layer.isFolder && (
+              <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                <Button
+                  onPress={() => handleToggleCollapsed(layer.id)}
+                  className="p-0.5 hover:bg-white/10 rounded-lg transition-all"
+                  aria-label={layer.collapsed ? 'Expand folder' : 'Collapse folder'}
+                >
+                  {layer.collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                </Button>
+                {layer.collapsed ? <Folder size={14} className="text-white/70" /> : <FolderOpen size={14} className="text-white/70" />}
+              </div>
+            )}
+            {layer.reference && <ImageIcon size={14} className="text-white/70 shrink-0" aria-label="Reference layer" />}
             <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
               <Tooltip content={layer.visible ? 'Hide layer' : 'Show layer'}>
                 <Button
@@ -187,10 +400,32 @@ export function LayerPanel({ layerManager, currentLayerId, onLayerChange, onLaye
             </div>
 
             <div className="flex items-center gap-0.5" onClick={(e) => e.stopPropagation()}>
+              {previous?.isFolder && (
+                <Tooltip content="Move into folder above">
+                  <Button
+                    onPress={() => handleIndent(layer.id, previous.id)}
+                    className="p-1 hover:bg-white/10 rounded-lg transition-all"
+                    aria-label="Move into folder above"
+                  >
+                    <IndentIncrease size={14} />
+                  </Button>
+                </Tooltip>
+              )}
+              {parent && (
+                <Tooltip content="Move out of folder">
+                  <Button
+                    onPress={() => handleOutdent(layer.id, parent)}
+                    className="p-1 hover:bg-white/10 rounded-lg transition-all"
+                    aria-label="Move out of folder"
+                  >
+                    <IndentDecrease size={14} />
+                  </Button>
+                </Tooltip>
+              )}
               <Tooltip content="Move layer up">
                 <Button
-                  onPress={() => handleMoveUp(index)}
-                  isDisabled={index === 0}
+                  onPress={() => handleMove(layer.id, -1)}
+                  isDisabled={!previous}
                   className="p-1 hover:bg-white/10 rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed"
                   aria-label="Move layer up"
                 >
@@ -199,23 +434,47 @@ export function LayerPanel({ layerManager, currentLayerId, onLayerChange, onLaye
               </Tooltip>
               <Tooltip content="Move layer down">
                 <Button
-                  onPress={() => handleMoveDown(index)}
-                  isDisabled={index === layers.length - 1}
+                  onPress={() => handleMove(layer.id, 1)}
+                  isDisabled={isLast}
                   className="p-1 hover:bg-white/10 rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed"
                   aria-label="Move layer down"
                 >
                   <ChevronDown size={14} />
                 </Button>
               </Tooltip>
-              <Tooltip content="Layer settings">
-                <Button
-                  onPress={() => setSettingsLayerId(layer.id)}
-                  className="p-1 hover:bg-white/10 rounded-lg transition-all"
-                  aria-label="Layer settings"
-                >
-                  <Settings size={14} />
-                </Button>
-              </Tooltip>
+              {!layer.isFolder && undoRedoManager && (
+                <Tooltip content="Duplicate layer">
+                  <Button
+                    onPress={() => handleDuplicateLayer(layer.id)}
+                    className="p-1 hover:bg-white/10 rounded-lg transition-all"
+                    aria-label="Duplicate layer"
+                  >
+                    <Copy size={14} />
+                  </Button>
+                </Tooltip>
+              )}
+              {mergeTarget && undoRedoManager && (
+                <Tooltip content={`Merge down into ${mergeTarget.name}`}>
+                  <Button
+                    onPress={() => handleMergeDown(layer.id)}
+                    className="p-1 hover:bg-white/10 rounded-lg transition-all"
+                    aria-label="Merge down"
+                  >
+                    <Merge size={14} />
+                  </Button>
+                </Tooltip>
+              )}
+              {!layer.isFolder && (
+                <Tooltip content="Layer settings">
+                  <Button
+                    onPress={() => setSettingsLayerId(layer.id)}
+                    className="p-1 hover:bg-white/10 rounded-lg transition-all"
+                    aria-label="Layer settings"
+                  >
+                    <Settings size={14} />
+                  </Button>
+                </Tooltip>
+              )}
               <Tooltip content="Delete layer">
                 <Button
                   onPress={() => handleDeleteLayer(layer.id)}
@@ -230,14 +489,21 @@ export function LayerPanel({ layerManager, currentLayerId, onLayerChange, onLaye
         ))}
       </ListBox>
 
+      <input
+        ref={referenceFileInputRef}
+        type="file"
+        accept="image/png,image/jpeg,image/webp,image/gif"
+        className="hidden"
+        onChange={handleReferenceFileUpload}
+      />
+
       <LayerSettingsDialog
         isOpen={settingsLayerId !== null}
         onClose={() => setSettingsLayerId(null)}
         layer={settingsLayerId ? layers.find(l => l.id === settingsLayerId) ?? null : null}
         onUpdate={(layerId, updates) => {
-          if (!layerManager) return
-          layerManager.updateLayer(layerId, updates)
-          refreshLayers()
+          const layer = layerManager?.getLayer(layerId)
+          if (layer) updateLayers([[layer, updates]])
         }}
       />
     </div>
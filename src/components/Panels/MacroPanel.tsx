@@ -0,0 +1,172 @@
+import { useState } from 'react'
+import { Button, Input, TextField } from 'react-aria-components'
+import { Circle, Play, Square, Trash2, X } from 'lucide-react'
+import { Tooltip } from '../ui/Tooltip'
+import type { Macro } from '../../core/Macros'
+
+interface MacroPanelProps {
+  macros: Macro[]
+  onMacrosChange: (macros: Macro[]) => void
+  selectionSize: number
+  /** Steps recorded so far and commands left out, or null when not recording */
+  recording: { steps: number; skipped: number } | null
+  onStartRecording: () => void
+  onStopRecording: (name: string) => void
+  onCancelRecording: () => void
+  onPlay: (macro: Macro) => void
+}
+
+const buttonClass = 'flex items-center justify-center gap-1 px-2 py-1 text-xs rounded-lg transition-all bg-white/5 text-text-muted hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed'
+
+// A macro recorded on one entity is replayed on each selected one
+const canPlay = (macro: Macro, selectionSize: number) =>
+  macro.selectionSize === 1 ? selectionSize > 0 : selectionSize === macro.selectionSize
+
+const describeMacro = ({ steps, selectionSize }: Macro) =>
+  `${steps.length} ${steps.length === 1 ? 'step' : 'steps'} · ${
+    selectionSize === 1 ? 'each selected entity' : `${selectionSize} entities`
+  }`
+
+/**
+ * Record editing steps on the selected entities and replay them on another selection
+ */
+export function MacroPanel({
+  macros,
+  onMacrosChange,
+  selectionSize,
+  recording,
+  onStartRecording,
+  onStopRecording,
+  onCancelRecording,
+  onPlay,
+}: MacroPanelProps) {
+  const [name, setName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+
+  const handleStop = () => {
+    onStopRecording(name)
+    setName('')
+  }
+
+  const handleFinishRename = () => {
+    const trimmed = editingName.trim()
+    if (editingId && trimmed) {
+      onMacrosChange(macros.map((macro) => (macro.id === editingId ? { ...macro, name: trimmed } : macro)))
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {recording ? (
+        <div className="flex flex-col gap-2 p-2 rounded-lg bg-accent-coral/10 border border-accent-coral/30">
+          <div className="flex items-center gap-2 text-xs text-white">
+            <Circle size={10} className="fill-accent-coral text-accent-coral animate-pulse" />
+            <span>
+              Recording · {recording.steps} {recording.steps === 1 ? 'step' : 'steps'}
+            </span>
+            {recording.skipped > 0 && (
+              <Tooltip content="Only changes to the selected entities and their duplicates are recorded">
+                <span className="ml-auto text-text-muted">{recording.skipped} left out</span>
+              </Tooltip>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <TextField
+              value={name}
+              onChange={setName}
+              onKeyDown={(e) => e.key === 'Enter' && recording.steps > 0 && handleStop()}
+              className="flex-1 min-w-0"
+              aria-label="Macro name"
+            >
+              <Input
+                placeholder={`Macro ${macros.length + 1}`}
+                className="w-full px-2 py-1 bg-white/10 border border-primary/20 rounded-lg text-sm focus:ring-2 focus:ring-primary outline-none"
+              />
+            </TextField>
+            <Tooltip content="Stop and save macro">
+              <Button
+                onPress={handleStop}
+                isDisabled={recording.steps === 0}
+                className={buttonClass}
+                aria-label="Stop and save macro"
+              >
+                <Square size={14} />
+              </Button>
+            </Tooltip>
+            <Tooltip content="Cancel recording">
+              <Button onPress={onCancelRecording} className={buttonClass} aria-label="Cancel recording">
+                <X size={14} />
+              </Button>
+            </Tooltip>
+          </div>
+        </div>
+      ) : (
+        <Tooltip content={selectionSize > 0 ? 'Record steps on the selection' : 'Select entities to record on'}>
+          <Button onPress={onStartRecording} isDisabled={selectionSize === 0} className={buttonClass}>
+            <Circle size={12} className="fill-accent-coral text-accent-coral" /> Record macro
+          </Button>
+        </Tooltip>
+      )}
+
+      {macros.length === 0 ? (
+        <div className="py-2 text-center text-sm text-text-muted">No macros yet</div>
+      ) : (
+        <div className="flex flex-col gap-1 max-h-64 overflow-y-auto">
+          {macros.map((macro) => (
+            <div key={macro.id} className="flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-white/5">
+              <div className="flex-1 min-w-0 flex flex-col">
+                {editingId === macro.id ? (
+                  <TextField
+                    value={editingName}
+                    onChange={setEditingName}
+                    onBlur={handleFinishRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleFinishRename()
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    autoFocus
+                    aria-label="Macro name"
+                  >
+                    <Input className="w-full px-2 py-0.5 bg-white/10 border border-primary/20 rounded-lg text-sm focus:ring-2 focus:ring-primary outline-none" />
+                  </TextField>
+                ) : (
+                  <span
+                    className="text-sm text-white truncate"
+                    onDoubleClick={() => {
+                      setEditingId(macro.id)
+                      setEditingName(macro.name)
+                    }}
+                  >
+                    {macro.name}
+                  </span>
+                )}
+                <span className="text-[10px] text-text-muted/60">{describeMacro(macro)}</span>
+              </div>
+              <Tooltip content="Play on selection">
+                <Button
+                  onPress={() => onPlay(macro)}
+                  isDisabled={!canPlay(macro, selectionSize)}
+                  className="p-1 hover:bg-white/10 rounded-lg text-text-muted hover:text-white transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                  aria-label={`Play ${macro.name}`}
+                >
+                  <Play size={16} />
+                </Button>
+              </Tooltip>
+              <Tooltip content="Delete macro">
+                <Button
+                  onPress={() => onMacrosChange(macros.filter(({ id }) => id !== macro.id))}
+                  className="p-1 hover:bg-white/10 rounded-lg text-text-muted hover:text-red-400 transition-all"
+                  aria-label={`Delete ${macro.name}`}
+                >
+                  <Trash2 size={16} />
+                </Button>
+              </Tooltip>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react'
+import { Button, TextField, Input } from 'react-aria-components'
+import { Tooltip } from '../ui/Tooltip'
+import { CopyPlus, Paintbrush, Plus, Trash2 } from 'lucide-react'
+import type { Canvas } from 'fabric'
+import type { CanonicalObjectStore } from '../../core/CanonicalObjectStore'
+import type { UndoRedoManager } from '../../core/UndoRedoManager'
+import { collectPaletteColors, mergePalette, normalizePaletteColor, type PaletteSwatch } from '../../core/Palette'
+import { createColorway, getColorwayColor, setColorwayColor, type Colorway } from '../../core/Colorways'
+
+interface PalettePanelProps {
+  fabricCanvas: Canvas | null
+  canonicalStore: CanonicalObjectStore | null
+  undoRedoManager?: UndoRedoManager | null
+  palette: string[] // Saved swatches
+  onPaletteChange: (palette: string[]) => void
+  onRecolor: (from: string, to: string) => void
+  colorways: Colorway[]
+  onColorwaysChange: (colorways: Colorway[]) => void
+  activeColorwayId: string | null // null shows the base colours
+  onActiveColorwayChange: (id: string | null) => void
+  refreshKey?: number
+}
+
+const buttonClass = 'flex items-center justify-center gap-1 px-2 py-1 text-xs rounded-lg transition-all bg-white/5 text-text-muted hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed'
+
+/**
+ * Project palette: the saved swatches and every colour in use, with usage counts.
+ * Changing a swatch recolours every entity using it - or, while a colourway is shown,
+ * only changes what the colourway replaces it with.
+ */
+export function PalettePanel({
+  fabricCanvas,
+  canonicalStore,
+  undoRedoManager,
+  palette,
+  onPaletteChange,
+  onRecolor,
+  colorways,
+  onColorwaysChange,
+  activeColorwayId,
+  onActiveColorwayChange,
+  refreshKey,
+}: PalettePanelProps) {
+  const [usedColors, setUsedColors] = useState<PaletteSwatch[]>([])
+  const [selectedColor, setSelectedColor] = useState<string | null>(null)
+  const [draftColor, setDraftColor] = useState('#000000')
+
+  // Collect the colours in use whenever entities change
+  useEffect(() => {
+    if (!canonicalStore) return
+
+    const refresh = () => setUsedColors(collectPaletteColors(canonicalStore.getAll()))
+    refresh()
+
+    const unsubscribeStore = canonicalStore.onChanged(refresh)
+    const unsubscribeHistory = undoRedoManager?.onChanged(refresh)
+    fabricCanvas?.on('object:modified', refresh)
+    return () => {
+      unsubscribeStore()
+      unsubscribeHistory?.()
+      fabricCanvas?.off('object:modified', refresh)
+    }
+  }, [fabricCanvas, canonicalStore, undoRedoManager, refreshKey])
+
+  const swatches = mergePalette(palette, usedColors)
+  const selected = swatches.find((swatch) => swatch.color === selectedColor) ?? null
+  const activeColorway = colorways.find(({ id }) => id === activeColorwayId) ?? null
+  const selectedDisplayColor = selected && normalizePaletteColor(getColorwayColor(activeColorway, selected.color))
+
+  const selectSwatch = (swatch: PaletteSwatch) => {
+    setSelectedColor(swatch.color)
+    setDraftColor(getColorwayColor(activeColorway, swatch.color).slice(0, 7))
+  }
+
+  const handleRecolor = () => {
+    if (!selected) return
+    const to = normalizePaletteColor(draftColor)
+    if (!to) return
+
+    if (activeColorway) {
+      onColorwaysChange(colorways.map((colorway) =>
+        colorway.id === activeColorway.id ? setColorwayColor(colorway, selected.color, to) : colorway
+      ))
+      return
+    }
+    onRecolor(selected.color, to)
+    setSelectedColor(to)
+  }
+
+  const handleAddColorway = () => {
+    const colorway = createColorway(colorways, activeColorway)
+    onColorwaysChange([...colorways, colorway])
+    onActiveColorwayChange(colorway.id)
+  }
+
+  const handleRenameColorway = (name: string) => {
+    if (!activeColorway) return
+    onColorwaysChange(colorways.map((colorway) => (colorway.id === activeColorway.id ? { ...colorway, name } : colorway)))
+  }
+
+  const handleRemoveColorway = () => {
+    if (!activeColorway) return
+    onColorwaysChange(colorways.filter(({ id }) => id !== activeColorway.id))
+    onActiveColorwayChange(null)
+  }
+
+  const colorwayButtonClass = (isActive: boolean) =>
+    `px-2 py-1 text-xs rounded-lg transition-all truncate max-w-full ${
+      isActive
+        ? 'bg-primary/20 text-primary shadow-[0_0_8px_rgba(45,212,168,0.2)]'
+        : 'bg-white/5 text-text-muted hover:bg-white/10 hover:text-white'
+    }`
+
+  const handleAddSwatch = () => {
+    const color = normalizePaletteColor(draftColor)
+    if (!color) return
+    onPaletteChange(palette.includes(color) ? palette : [...palette, color])
+    setSelectedColor(color)
+  }
+
+  const handleRemoveSwatch = () => {
+    if (!selected) return
+    onPaletteChange(palette.filter((color) => normalizePaletteColor(color) !== selected.color))
+    setSelectedColor(null)
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {/* Colourway switcher */}
+      <div className="flex flex-wrap items-center gap-1.5" role="group" aria-label="Colourways">
+        <Button
+          onPress={() => onActiveColorwayChange(null)}
+          className={colorwayButtonClass(!activeColorway)}
+          aria-pressed={!activeColorway}
+        >
+          Base
+        </Button>
+        {colorways.map((colorway) => (
+          <Button
+            key={colorway.id}
+            onPress={() => onActiveColorwayChange(colorway.id)}
+            className={colorwayButtonClass(colorway.id === activeColorwayId)}
+            aria-pressed={colorway.id === activeColorwayId}
+          >
+            {colorway.name || 'Untitled'}
+          </Button>
+        ))}
+        <Tooltip content={activeColorway ? 'Duplicate colourway' : 'New colourway'}>
+          <Button onPress={handleAddColorway} className={buttonClass} aria-label="Add colourway">
+            <CopyPlus size={14} />
+          </Button>
+        </Tooltip>
+      </div>
+
+      {activeColorway && (
+        <div className="flex items-center gap-2">
+          <TextField
+            value={activeColorway.name}
+            onChange={handleRenameColorway}
+            className="flex-1 min-w-0"
+            aria-label="Colourway name"
+          >
+            <Input className="w-full px-2 py-1 bg-white/10 border border-primary/20 rounded-lg text-sm focus:ring-2 focus:ring-primary outline-none" />
+          </TextField>
+          <Tooltip content="Delete colourway">
+            <Button onPress={handleRemoveColorway} className={buttonClass} aria-label="Delete colourway">
+              <Trash2 size={14} />
+            </Button>
+          </Tooltip>
+        </div>
+      )}
+
+      {swatches.length === 0 ? (
+        <div className="py-2 text-center text-sm text-text-muted">
+          No colours in use yet
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-1.5" role="listbox" aria-label="Palette swatches">
+          {swatches.map((swatch) => (
+            <button
+              key={swatch.color}
+              type="button"
+              role="option"
+              aria-selected={swatch.color === selectedColor}
+              onClick={() => selectSwatch(swatch)}
+              title={`${swatch.color}${
+                activeColorway ? ` → ${getColorwayColor(activeColorway, swatch.color)}` : ''
+              } - used ${swatch.count} ${swatch.count === 1 ? 'time' : 'times'}`}
+              className={`relative h-8 w-8 rounded-lg border-2 transition-all ${
+                swatch.color === selectedColor
+                  ? 'border-primary shadow-[0_0_8px_rgba(45,212,168,0.4)]'
+                  : 'border-white/10 hover:border-white/40'
+              }`}
+              style={{ background: getColorwayColor(activeColorway, swatch.color) }}
+            >
+              <span className="absolute -bottom-1 -right-1 min-w-4 rounded-full bg-bg-panel px-1 text-[10px] leading-4 text-text-muted">
+                {swatch.count}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={draftColor}
+          onChange={(e) => setDraftColor(e.target.value)}
+          className="h-8 w-12 rounded-lg cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary"
+          aria-label="Swatch color"
+        />
+        <Tooltip
+          content={
+            !selected
+              ? 'Select a swatch to recolour'
+              : activeColorway
+                ? `Replace ${selected.color} in ${activeColorway.name || 'this colourway'}`
+                : `Recolour ${selected.count} uses of ${selected.color}`
+          }
+        >
+          <Button
+            onPress={handleRecolor}
+            isDisabled={!selected || normalizePaletteColor(draftColor) === selectedDisplayColor}
+            className={`${buttonClass} flex-1`}
+          >
+            <Paintbrush size={14} />
+            Recolour
+          </Button>
+        </Tooltip>
+        <Tooltip content="Add swatch">
+          <Button onPress={handleAddSwatch} className={buttonClass} aria-label="Add swatch">
+            <Plus size={14} />
+          </Button>
+        </Tooltip>
+        <Tooltip content="Remove unused swatch">
+          <Button
+            onPress={handleRemoveSwatch}
+            isDisabled={!selected || selected.count > 0}
+            className={buttonClass}
+            aria-label="Remove swatch"
+          >
+            <Trash2 size={14} />
+          </Button>
+        </Tooltip>
+      </div>
+    </div>
+  )
+}
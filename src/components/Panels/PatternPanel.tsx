@@ -0,0 +1,179 @@
+import { Button, Label, NumberField, Input } from 'react-aria-components'
+import { Tooltip } from '../ui/Tooltip'
+import {
+  WALLPAPER_GROUPS,
+  getWallpaperGroupInfo,
+  isHexagonalLayout,
+  normalizeRepeatLayout,
+  resolveRepeatLayout,
+  supportsLayoutType,
+  supportsRectangularTile,
+  supportsRepeatLayout,
+  type RepeatLayout,
+  type RepeatLayoutType,
+  type WallpaperGroup,
+} from '../../core/WallpaperSymmetry'
+import type { TileSize } from '../../types/TileSize'
+
+interface PatternPanelProps {
+  tileSize: TileSize
+  onTileSizeChange: (tileSize: TileSize) => void
+  symmetryGroup: WallpaperGroup
+  onSymmetryGroupChange: (group: WallpaperGroup) => void
+  repeatLayout: RepeatLayout
+  onRepeatLayoutChange: (layout: RepeatLayout) => void
+}
+
+const REPEAT_LAYOUTS: Array<{ type: RepeatLayoutType; label: string; description: string }> = [
+  { type: 'straight', label: 'Straight', description: 'Tiles repeat in a plain grid' },
+  { type: 'half-drop', label: 'Half-drop', description: 'Every other column drops by half a tile' },
+  { type: 'brick', label: 'Brick', description: 'Every other row shifts by half a tile' },
+  { type: 'custom', label: 'Custom', description: 'Columns or rows shift by any fraction of a tile' },
+  { type: 'hexagonal', label: 'Hexagonal', description: 'Hexagonal cells on a 60° lattice' },
+  { type: 'triangular', label: 'Triangular', description: 'Triangular cells, neighbours rotated or mirrored' },
+]
+
+const MIN_TILE_DIMENSION = 32
+const MAX_TILE_DIMENSION = 1024
+
+const selectedClass = 'bg-primary/20 text-primary shadow-[0_0_8px_rgba(45,212,168,0.2)]'
+const unselectedClass = 'bg-white/5 text-text-muted hover:bg-white/10 hover:text-white'
+
+export function PatternPanel({
+  tileSize,
+  onTileSizeChange,
+  symmetryGroup,
+  onSymmetryGroupChange,
+  repeatLayout,
+  onRepeatLayoutChange,
+}: PatternPanelProps) {
+  const selectedInfo = getWallpaperGroupInfo(symmetryGroup)
+  const canOffset = supportsRepeatLayout(symmetryGroup)
+  const isSquareTile = tileSize.width === tileSize.height
+  const effectiveLayout = resolveRepeatLayout(symmetryGroup, repeatLayout)
+
+  const updateLayout = (changes: Partial<RepeatLayout>) => {
+    onRepeatLayoutChange(normalizeRepeatLayout({ ...repeatLayout, ...changes }))
+  }
+
+  const updateTileSize = (changes: Partial<TileSize>) => {
+    const next = { ...tileSize, ...changes }
+    if (!(next.width > 0) || !(next.height > 0)) return
+    onTileSizeChange(next)
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-3">
+        <Label className="text-xs font-medium text-text-muted">Tile Size</Label>
+        <div className="flex gap-2">
+          {(['width', 'height'] as const).map((dimension) => (
+            <NumberField
+              key={dimension}
+              value={tileSize[dimension]}
+              onChange={(value) => updateTileSize({ [dimension]: value })}
+              minValue={MIN_TILE_DIMENSION}
+              maxValue={MAX_TILE_DIMENSION}
+              step={8}
+              className="flex-1 flex flex-col gap-1"
+              aria-label={`Tile ${dimension}`}
+            >
+              <Label className="text-xs text-text-muted">{dimension === 'width' ? 'Width' : 'Height'}</Label>
+              <Input className="px-3 py-2 bg-white/5 border border-primary/20 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary/40 outline-none text-sm transition-all" />
+            </NumberField>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <Label className="text-xs font-medium text-text-muted">Symmetry Group</Label>
+        <div className="grid grid-cols-4 gap-2">
+          {WALLPAPER_GROUPS.map(({ id, description }) => (
+            <Tooltip key={id} content={description}>
+              <Button
+                onPress={() => onSymmetryGroupChange(id)}
+                isDisabled={!isSquareTile && !supportsRectangularTile(id)}
+                className={`px-2 py-1.5 rounded-lg text-xs font-mono transition-all ${
+                  symmetryGroup === id ? selectedClass : unselectedClass
+                } disabled:opacity-30 disabled:cursor-not-allowed`}
+                aria-label={`Use ${id} symmetry: ${description}`}
+              >
+                {id}
+              </Button>
+            </Tooltip>
+          ))}
+        </div>
+        <div className="text-xs text-text-muted bg-white/5 p-2 rounded-lg border border-primary/10">
+          <span className="font-mono text-white">{selectedInfo.id}</span> – {selectedInfo.description}
+          {isHexagonalLayout(effectiveLayout) && (
+            <div className="mt-1">Hexagonal lattice: exports repeat as a {'1 × √3'} rectangle</div>
+          )}
+          {!isSquareTile && (
+            <div className="mt-1">Groups with 90° rotations or a hexagonal lattice need a square tile</div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <Label className="text-xs font-medium text-text-muted">Repeat Layout</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {REPEAT_LAYOUTS.map(({ type, label, description }) => (
+            <Tooltip key={type} content={description}>
+              <Button
+                onPress={() => updateLayout({ type })}
+                isDisabled={
+                  !supportsLayoutType(symmetryGroup, type) ||
+                  (!isSquareTile && (type === 'hexagonal' || type === 'triangular'))
+                }
+                className={`px-3 py-1.5 rounded-lg text-xs transition-all ${
+                  effectiveLayout.type === type ? selectedClass : unselectedClass
+                } disabled:opacity-30 disabled:cursor-not-allowed`}
+                aria-label={`${label} repeat: ${description}`}
+              >
+                {label}
+              </Button>
+            </Tooltip>
+          ))}
+        </div>
+
+        {effectiveLayout.type === 'custom' && (
+          <div className="flex flex-col gap-2">
+            <div className="flex gap-2">
+              {(['drop', 'brick'] as const).map((direction) => (
+                <Button
+                  key={direction}
+                  onPress={() => updateLayout({ direction })}
+                  className={`flex-1 px-3 py-1.5 rounded-lg text-xs transition-all ${
+                    repeatLayout.direction === direction ? selectedClass : unselectedClass
+                  }`}
+                  aria-label={direction === 'drop' ? 'Shift columns vertically' : 'Shift rows horizontally'}
+                >
+                  {direction === 'drop' ? 'Shift columns' : 'Shift rows'}
+                </Button>
+              ))}
+            </div>
+            <NumberField
+              value={repeatLayout.offset}
+              onChange={(offset) => updateLayout({ offset: Number.isNaN(offset) ? 0 : offset })}
+              minValue={0}
+              maxValue={0.99}
+              step={0.01}
+              formatOptions={{ style: 'percent', maximumFractionDigits: 1 }}
+              className="flex flex-col gap-1"
+              aria-label="Offset"
+            >
+              <Label className="text-xs text-text-muted">Offset (fraction of a tile)</Label>
+              <Input className="px-3 py-2 bg-white/5 border border-primary/20 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary/40 outline-none text-sm transition-all" />
+            </NumberField>
+          </div>
+        )}
+
+        {!canOffset && (
+          <div className="text-xs text-text-muted">
+            Offset layouts are only available for p1 and p2 - other groups need a straight or hexagonal lattice
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
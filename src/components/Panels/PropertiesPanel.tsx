@@ -1,14 +1,33 @@
 import { useState, useEffect } from 'react'
 import { NumberField, Label, Input, Slider, SliderOutput, SliderTrack, SliderThumb } from 'react-aria-components'
 import type { ExtendedFabricObject } from '../../types/FabricExtensions'
-import type { Circle } from 'fabric'
+import type { Circle, GradientType } from 'fabric'
+import {
+  createDefaultGradient,
+  gradientToSpec,
+  isGradient,
+  setGradientType,
+  specToGradient,
+  type GradientSpec,
+  type PaintProperty,
+} from '../../core/Gradients'
+import { GradientControls } from './GradientControls'
 
 interface PropertiesPanelProps {
   selectedObject: ExtendedFabricObject | null
   onUpdateProperties: (properties: Record<string, unknown>) => void
+  onEditGradient?: (property: PaintProperty) => void
   updateCounter?: number
 }
 
+type PaintMode = 'solid' | GradientType
+
+const PAINT_MODES: { mode: PaintMode; label: string }[] = [
+  { mode: 'solid', label: 'Solid' },
+  { mode: 'linear', label: 'Linear' },
+  { mode: 'radial', label: 'Radial' },
+]
+
 // Helper to convert any color format to hex for HTML color input
 const toHexColor = (color: unknown): string => {
   if (!color || color === 'transparent' || color === null) return '#000000'
@@ -37,7 +56,7 @@ const toHexColor = (color: unknown): string => {
   return color.startsWith('#') ? color : '#000000'
 }
 
-export function PropertiesPanel({ selectedObject, onUpdateProperties, updateCounter }: PropertiesPanelProps) {
+export function PropertiesPanel({ selectedObject, onUpdateProperties, onEditGradient, updateCounter }: PropertiesPanelProps) {
   const [properties, setProperties] = useState<Record<string, unknown>>({})
 
   useEffect(() => {
@@ -50,21 +69,29 @@ export function PropertiesPanel({ selectedObject, onUpdateProperties, updateCoun
     const extracted: Record<string, unknown> = {}
 
     // Helper to extract fill/stroke enabled state
+    // Gradients are kept as specs; the flat colour falls back to their first stop
     const extractFillStroke = () => {
       const fillColor = selectedObject.fill
       const strokeColor = selectedObject.stroke
+      const size = { width: selectedObject.width || 0, height: selectedObject.height || 0 }
 
       const hasFill = fillColor &&
                       fillColor !== 'transparent' &&
                       fillColor !== null
       extracted.fillEnabled = !!hasFill
-      extracted.fill = hasFill ? toHexColor(fillColor) : '#000000'
+      extracted.fillGradient = isGradient(fillColor) ? gradientToSpec(fillColor, size) : null
+      extracted.fill = hasFill
+        ? toHexColor(isGradient(fillColor) ? fillColor.colorStops[0]?.color : fillColor)
+        : '#000000'
 
       const hasStroke = strokeColor &&
                         strokeColor !== 'transparent' &&
                         strokeColor !== null
       extracted.strokeEnabled = !!hasStroke
-      extracted.stroke = hasStroke ? toHexColor(strokeColor) : '#000000'
+      extracted.strokeGradient = isGradient(strokeColor) ? gradientToSpec(strokeColor, size) : null
+      extracted.stroke = hasStroke
+        ? toHexColor(isGradient(strokeColor) ? strokeColor.colorStops[0]?.color : strokeColor)
+        : '#000000'
       extracted.strokeWidth = selectedObject.strokeWidth || 1
     }
 
@@ -122,7 +149,7 @@ export function PropertiesPanel({ selectedObject, onUpdateProperties, updateCoun
   const handleFillToggle = (enabled: boolean) => {
     const currentFill = toHexColor(properties.fill)
     const newFill = enabled ? currentFill : 'transparent'
-    setProperties(prev => ({ ...prev, fillEnabled: enabled, fill: currentFill }))
+    setProperties(prev => ({ ...prev, fillEnabled: enabled, fill: currentFill, fillGradient: null }))
     onUpdateProperties({ fill: newFill })
   }
 
@@ -130,10 +157,77 @@ export function PropertiesPanel({ selectedObject, onUpdateProperties, updateCoun
   const handleStrokeToggle = (enabled: boolean) => {
     const currentStroke = toHexColor(properties.stroke)
     const newStroke = enabled ? currentStroke : 'transparent'
-    setProperties(prev => ({ ...prev, strokeEnabled: enabled, stroke: currentStroke }))
+    setProperties(prev => ({ ...prev, strokeEnabled: enabled, stroke: currentStroke, strokeGradient: null }))
     onUpdateProperties({ stroke: newStroke })
   }
 
+  const handleGradientChange = (property: PaintProperty, gradient: GradientSpec) => {
+    setProperties(prev => ({ ...prev, [`${property}Gradient`]: gradient }))
+    onUpdateProperties({ [property]: specToGradient(gradient) })
+  }
+
+  // Switch a fill or stroke between a flat colour and a gradient
+  const handlePaintModeChange = (property: PaintProperty, mode: PaintMode) => {
+    const color = toHexColor(properties[property])
+    const gradient = properties[`${property}Gradient`] as GradientSpec | null
+
+    if (mode === 'solid') {
+      setProperties(prev => ({ ...prev, [`${property}Gradient`]: null }))
+      onUpdateProperties({ [property]: color })
+      return
+    }
+
+    const size = { width: selectedObject.width || 0, height: selectedObject.height || 0 }
+    handleGradientChange(
+      property,
+      gradient ? setGradientType(gradient, mode) : createDefaultGradient(mode, size, color)
+    )
+  }
+
+  // Solid colour or gradient controls for the fill or the stroke
+  const renderPaintControls = (property: PaintProperty, label: string) => {
+    const gradient = properties[`${property}Gradient`] as GradientSpec | null
+    const mode: PaintMode = gradient?.type ?? 'solid'
+
+    return (
+      <>
+        <div className="flex gap-1" role="group" aria-label={`${label} type`}>
+          {PAINT_MODES.map((option) => (
+            <button
+              key={option.mode}
+              type="button"
+              onClick={() => handlePaintModeChange(property, option.mode)}
+              className={`flex-1 px-2 py-1 text-xs rounded-lg transition-all ${
+                mode === option.mode
+                  ? 'bg-primary/20 text-primary'
+                  : 'bg-white/5 text-text-muted hover:bg-white/10 hover:text-white'
+              }`}
+              aria-pressed={mode === option.mode}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {gradient ? (
+          <GradientControls
+            gradient={gradient}
+            label={label}
+            onChange={(spec) => handleGradientChange(property, spec)}
+            onEditOnCanvas={onEditGradient && (() => onEditGradient(property))}
+          />
+        ) : (
+          <input
+            type="color"
+            value={properties[property] as string || '#000000'}
+            onChange={(e) => handleChange(property, e.target.value)}
+            className="h-10 w-full rounded-lg cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary"
+            aria-label={`${label} color`}
+          />
+        )}
+      </>
+    )
+  }
+
   // Reusable fill/stroke controls with toggle
   const renderFillStrokeControls = () => (
     <>
@@ -149,15 +243,7 @@ export function PropertiesPanel({ selectedObject, onUpdateProperties, updateCoun
           />
           <Label htmlFor="fillEnabled" className="text-xs font-medium text-text-muted cursor-pointer">Fill</Label>
         </div>
-        {(properties.fillEnabled as boolean) && (
-          <input
-            type="color"
-            value={properties.fill as string || '#000000'}
-            onChange={(e) => handleChange('fill', e.target.value)}
-            className="h-10 w-full rounded-lg cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary"
-            aria-label="Fill color"
-          />
-        )}
+        {(properties.fillEnabled as boolean) && renderPaintControls('fill', 'Fill')}
       </div>
 
       {/* Stroke Checkbox + Color + Width */}
@@ -174,13 +260,7 @@ export function PropertiesPanel({ selectedObject, onUpdateProperties, updateCoun
         </div>
         {(properties.strokeEnabled as boolean) && (
           <>
-            <input
-              type="color"
-              value={properties.stroke as string || '#000000'}
-              onChange={(e) => handleChange('stroke', e.target.value)}
-              className="h-10 w-full rounded-lg cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary"
-              aria-label="Stroke color"
-            />
+            {renderPaintControls('stroke', 'Stroke')}
             <NumberField
               value={properties.strokeWidth as number || 1}
               onChange={(val) => handleChange('strokeWidth', val)}
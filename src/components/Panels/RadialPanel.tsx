@@ -0,0 +1,108 @@
+import { Button, Label, NumberField, Input } from 'react-aria-components'
+import {
+  DEFAULT_RADIAL_SETTINGS,
+  MAX_RADIAL_SEGMENTS,
+  MIN_RADIAL_SEGMENTS,
+  type RadialSettings,
+} from '../../core/RadialSymmetry'
+
+interface RadialPanelProps {
+  radialSettings: RadialSettings
+  onRadialSettingsChange: (settings: RadialSettings) => void
+}
+
+const selectedClass = 'bg-primary/20 text-primary shadow-[0_0_8px_rgba(45,212,168,0.2)]'
+const unselectedClass = 'bg-white/5 text-text-muted hover:bg-white/10 hover:text-white'
+const inputClass = 'px-3 py-2 bg-white/5 border border-primary/20 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary/40 outline-none text-sm transition-all'
+
+export function RadialPanel({ radialSettings, onRadialSettingsChange }: RadialPanelProps) {
+  const { enabled, segments, mirror, center } = radialSettings
+
+  const update = (changes: Partial<RadialSettings>) => {
+    onRadialSettingsChange({ ...radialSettings, ...changes })
+  }
+
+  const updateCenter = (axis: 'x' | 'y', value: number) => {
+    if (Number.isNaN(value)) return
+    update({ center: { ...center, [axis]: value } })
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex gap-2">
+        <Button
+          onPress={() => update({ enabled: !enabled })}
+          className={`flex-1 px-3 py-1.5 rounded-lg text-xs transition-all ${enabled ? selectedClass : unselectedClass}`}
+          aria-label={enabled ? 'Turn radial drawing off' : 'Turn radial drawing on'}
+        >
+          {enabled ? 'Radial drawing on' : 'Radial drawing off'}
+        </Button>
+        <Button
+          onPress={() => update({ mirror: !mirror })}
+          isDisabled={!enabled}
+          className={`flex-1 px-3 py-1.5 rounded-lg text-xs transition-all ${
+            mirror ? selectedClass : unselectedClass
+          } disabled:opacity-30 disabled:cursor-not-allowed`}
+          aria-label={mirror ? 'Turn segment mirroring off' : 'Turn segment mirroring on'}
+        >
+          {mirror ? 'Mirrored' : 'Rotated only'}
+        </Button>
+      </div>
+
+      <NumberField
+        value={segments}
+        onChange={(value) => {
+          if (!Number.isNaN(value)) update({ segments: value })
+        }}
+        minValue={MIN_RADIAL_SEGMENTS}
+        maxValue={MAX_RADIAL_SEGMENTS}
+        step={1}
+        isDisabled={!enabled}
+        className="flex flex-col gap-1"
+        aria-label="Segments"
+      >
+        <Label className="text-xs text-text-muted">Segments</Label>
+        <Input className={`${inputClass} disabled:opacity-30`} />
+      </NumberField>
+
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs font-medium text-text-muted">Centre (fraction of the tile)</Label>
+          <Button
+            onPress={() => update({ center: DEFAULT_RADIAL_SETTINGS.center })}
+            isDisabled={!enabled}
+            className={`px-2 py-1 rounded-lg text-xs transition-all ${unselectedClass} disabled:opacity-30 disabled:cursor-not-allowed`}
+            aria-label="Move the centre to the middle of the tile"
+          >
+            Reset
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          {(['x', 'y'] as const).map((axis) => (
+            <NumberField
+              key={axis}
+              value={center[axis]}
+              onChange={(value) => updateCenter(axis, value)}
+              minValue={0}
+              maxValue={1}
+              step={0.01}
+              formatOptions={{ style: 'percent', maximumFractionDigits: 1 }}
+              isDisabled={!enabled}
+              className="flex-1 flex flex-col gap-1"
+              aria-label={`Centre ${axis}`}
+            >
+              <Label className="text-xs text-text-muted">{axis.toUpperCase()}</Label>
+              <Input className={`${inputClass} disabled:opacity-30`} />
+            </NumberField>
+          ))}
+        </div>
+      </div>
+
+      <div className="text-xs text-text-muted bg-white/5 p-2 rounded-lg border border-primary/10">
+        {enabled
+          ? `New strokes, shapes and SVGs repeat ${segments}× around the centre${mirror ? ', mirrored between segments' : ''}. Select any copy to edit the whole motif.`
+          : 'Turn on to repeat new objects around a centre point inside the tile.'}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+import { useState } from 'react'
+import { Button, Input, Menu, MenuItem, MenuTrigger, Popover, Separator, TextField } from 'react-aria-components'
+import { Camera, GitBranch, GitCompare, MoreVertical, Pencil, RotateCcw, Trash2 } from 'lucide-react'
+import { Tooltip } from '../ui/Tooltip'
+import type { Snapshot } from '../../core/Snapshots'
+import { SnapshotCompareDialog, type ComparedVersion } from '../SnapshotCompareDialog/SnapshotCompareDialog'
+
+interface SnapshotPanelProps {
+  snapshots: Snapshot[]
+  onSnapshotsChange: (snapshots: Snapshot[]) => void
+  /** Snapshot the project as it is now */
+  onCreate: (name?: string) => void | Promise<void>
+  onRestore: (snapshot: Snapshot) => void
+  /** Save a snapshot as a project file of its own */
+  onBranch: (snapshot: Snapshot) => void
+  /** The project as it is now, to compare with the snapshots */
+  getCurrentVersion: () => Promise<Omit<ComparedVersion, 'id'> | null>
+}
+
+const CURRENT_VERSION_ID = 'current'
+
+const buttonClass = 'flex items-center justify-center gap-1 px-2 py-1 text-xs rounded-lg transition-all bg-white/5 text-text-muted hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed'
+const menuItemClass = 'flex items-center gap-2 px-3 py-2 text-sm text-white outline-none cursor-pointer rounded-lg hover:bg-white/10 transition-all'
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })
+
+/**
+ * Named snapshots of the project, newest first. Each can be compared with another
+ * snapshot or the current project, restored, or saved as a project file of its own.
+ */
+export function SnapshotPanel({
+  snapshots,
+  onSnapshotsChange,
+  onCreate,
+  onRestore,
+  onBranch,
+  getCurrentVersion,
+}: SnapshotPanelProps) {
+  const [name, setName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [comparison, setComparison] = useState<{ versions: ComparedVersion[]; beforeId?: string } | null>(null)
+
+  const handleCreate = async () => {
+    if (isCreating) return
+    setIsCreating(true)
+    try {
+      await onCreate(name)
+      setName('')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleFinishRename = () => {
+    const trimmed = editingName.trim()
+    if (editingId && trimmed) {
+      onSnapshotsChange(snapshots.map((snapshot) => (snapshot.id === editingId ? { ...snapshot, name: trimmed } : snapshot)))
+    }
+    setEditingId(null)
+  }
+
+  // Compare a snapshot (the latest by default) with the current project
+  const handleCompare = async (beforeId?: string) => {
+    const current = await getCurrentVersion()
+    const versions: ComparedVersion[] = [
+      ...snapshots,
+      ...(current ? [{ ...current, id: CURRENT_VERSION_ID }] : []),
+    ]
+    setComparison({ versions, beforeId: beforeId ?? snapshots[snapshots.length - 1]?.id })
+  }
+
+  const handleAction = (snapshot: Snapshot, action: string) => {
+    switch (action) {
+      case 'restore':
+        onRestore(snapshot)
+        break
+      case 'branch':
+        onBranch(snapshot)
+        break
+      case 'compare':
+        handleCompare(snapshot.id)
+        break
+      case 'rename':
+        setEditingId(snapshot.id)
+        setEditingName(snapshot.name)
+        break
+      case 'delete':
+        onSnapshotsChange(snapshots.filter(({ id }) => id !== snapshot.id))
+        break
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <TextField
+          value={name}
+          onChange={setName}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          className="flex-1 min-w-0"
+          aria-label="Snapshot name"
+        >
+          <Input
+            placeholder={`Snapshot ${snapshots.length + 1}`}
+            className="w-full px-2 py-1 bg-white/10 border border-primary/20 rounded-lg text-sm focus:ring-2 focus:ring-primary outline-none"
+          />
+        </TextField>
+        <Tooltip content="Save snapshot">
+          <Button onPress={handleCreate} isDisabled={isCreating} className={buttonClass} aria-label="Save snapshot">
+            <Camera size={14} />
+          </Button>
+        </Tooltip>
+        <Tooltip content="Compare snapshots">
+          <Button
+            onPress={() => handleCompare()}
+            isDisabled={snapshots.length === 0}
+            className={buttonClass}
+            aria-label="Compare snapshots"
+          >
+            <GitCompare size={14} />
+          </Button>
+        </Tooltip>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <div className="py-2 text-center text-sm text-text-muted">No snapshots yet</div>
+      ) : (
+        <div className="flex flex-col gap-1 max-h-64 overflow-y-auto">
+          {[...snapshots].reverse().map((snapshot) => (
+            <div key={snapshot.id} className="flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-white/5">
+              {snapshot.thumbnail ? (
+                <img src={snapshot.thumbnail} alt="" className="w-10 h-10 rounded border border-primary/20 object-cover shrink-0" />
+              ) : (
+                <div className="w-10 h-10 rounded border border-primary/20 bg-bg-dark shrink-0" />
+              )}
+              <div className="flex-1 min-w-0 flex flex-col">
+                {editingId === snapshot.id ? (
+                  <TextField
+                    value={editingName}
+                    onChange={setEditingName}
+                    onBlur={handleFinishRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleFinishRename()
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    autoFocus
+                    aria-label="Snapshot name"
+                  >
+                    <Input className="w-full px-2 py-0.5 bg-white/10 border border-primary/20 rounded-lg text-sm focus:ring-2 focus:ring-primary outline-none" />
+                  </TextField>
+                ) : (
+                  <span
+                    className="text-sm text-white truncate"
+                    onDoubleClick={() => handleAction(snapshot, 'rename')}
+                  >
+                    {snapshot.name}
+                  </span>
+                )}
+                <span className="text-[10px] text-text-muted/60">{formatDate(snapshot.createdAt)}</span>
+              </div>
+
+              <MenuTrigger>
+                <Button
+                  className="p-1 hover:bg-white/10 rounded-lg text-text-muted hover:text-white transition-all"
+                  aria-label="Snapshot actions"
+                >
+                  <MoreVertical size={16} />
+                </Button>
+                <Popover
+                  placement="bottom end"
+                  className="bg-bg-panel border border-primary/20 rounded-xl shadow-xl min-w-40 overflow-hidden panel-glow"
+                >
+                  <Menu className="outline-none p-1" onAction={(key) => handleAction(snapshot, String(key))}>
+                    <MenuItem id="restore" className={menuItemClass}>
+                      <RotateCcw size={16} /> Restore
+                    </MenuItem>
+                    <MenuItem id="branch" className={menuItemClass}>
+                      <GitBranch size={16} /> Branch to New File
+                    </MenuItem>
+                    <MenuItem id="compare" className={menuItemClass}>
+                      <GitCompare size={16} /> Compare with Current
+                    </MenuItem>
+                    <Separator className="my-1 h-px bg-primary/10" />
+                    <MenuItem id="rename" className={menuItemClass}>
+                      <Pencil size={16} /> Rename
+                    </MenuItem>
+                    <MenuItem id="delete" className={`${menuItemClass} text-red-400`}>
+                      <Trash2 size={16} /> Delete
+                    </MenuItem>
+                  </Menu>
+                </Popover>
+              </MenuTrigger>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <SnapshotCompareDialog
+        isOpen={comparison !== null}
+        onClose={() => setComparison(null)}
+        versions={comparison?.versions ?? []}
+        initialBeforeId={comparison?.beforeId}
+        initialAfterId={CURRENT_VERSION_ID}
+      />
+    </div>
+  )
+}
@@ -6,11 +6,12 @@ import { Tooltip } from '../ui/Tooltip'
 interface ProjectExportDialogProps {
   isOpen: boolean
   onClose: () => void
-  onExport: (filename: string) => void
+  onExport: (filename: string, includeHistory: boolean) => void
 }
 
 export function ProjectExportDialog({ isOpen, onClose, onExport }: ProjectExportDialogProps) {
   const [filename, setFilename] = useState('')
+  const [includeHistory, setIncludeHistory] = useState(false)
 
   // Generate default filename when dialog opens
   useEffect(() => {
@@ -22,7 +23,7 @@ export function ProjectExportDialog({ isOpen, onClose, onExport }: ProjectExport
 
   const handleExport = () => {
     if (filename.trim()) {
-      onExport(filename.trim())
+      onExport(filename.trim(), includeHistory)
     }
   }
 
@@ -87,6 +88,16 @@ export function ProjectExportDialog({ isOpen, onClose, onExport }: ProjectExport
                   <li>Layer visibility and lock states</li>
                 </ul>
               </div>
+
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeHistory}
+                  onChange={(e) => setIncludeHistory(e.target.checked)}
+                  className="w-4 h-4 rounded border-primary/30 bg-white/10 text-primary focus:ring-primary focus:ring-offset-0"
+                />
+                <span className="text-sm text-white">Include undo history, so changes can be undone after reopening</span>
+              </label>
             </div>
 
             <div className="flex flex-col gap-2 px-6 py-4 border-t border-primary/10">
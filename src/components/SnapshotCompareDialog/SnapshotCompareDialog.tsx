@@ -0,0 +1,259 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Modal, Dialog, Heading, Button } from 'react-aria-components'
+import { X } from 'lucide-react'
+import { Tooltip } from '../ui/Tooltip'
+import type { ProjectData } from '../../types/ProjectFormat'
+import {
+  diffSnapshots,
+  getSnapshotEntityBounds,
+  getSnapshotViewBox,
+  type SnapshotEntity,
+  type ViewBox,
+} from '../../core/Snapshots'
+
+/**
+ * A version of the project to compare: a snapshot, or the project as it is now
+ */
+export interface ComparedVersion {
+  id: string
+  name: string
+  project: ProjectData
+  thumbnail?: string
+}
+
+interface SnapshotCompareDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  versions: ComparedVersion[]
+  initialBeforeId?: string
+  initialAfterId?: string
+}
+
+type ChangeKind = 'added' | 'removed' | 'changed'
+
+interface Marker {
+  id: string
+  kind: ChangeKind
+  entity: SnapshotEntity
+}
+
+const KIND_STYLES: Record<ChangeKind, { label: string; sign: string; text: string; border: string }> = {
+  added: { label: 'Added', sign: '+', text: 'text-primary', border: 'border-primary' },
+  removed: { label: 'Removed', sign: '−', text: 'text-accent-coral', border: 'border-accent-coral' },
+  changed: { label: 'Changed', sign: '~', text: 'text-amber-400', border: 'border-amber-400' },
+}
+
+const entityLabel = ({ fabricObject, mirrorGroupId }: SnapshotEntity) =>
+  `${fabricObject?.type ?? 'object'} ${mirrorGroupId.slice(-6)}`
+
+/**
+ * Two versions of the project side by side. Entities removed from the first version are
+ * outlined on it, entities added in the second on that one, and changed entities on both.
+ */
+export function SnapshotCompareDialog({
+  isOpen,
+  onClose,
+  versions,
+  initialBeforeId,
+  initialAfterId,
+}: SnapshotCompareDialogProps) {
+  const [beforeId, setBeforeId] = useState<string | undefined>(initialBeforeId)
+  const [afterId, setAfterId] = useState<string | undefined>(initialAfterId)
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setBeforeId(initialBeforeId ?? versions[0]?.id)
+    setAfterId(initialAfterId ?? versions[versions.length - 1]?.id)
+  }, [isOpen, initialBeforeId, initialAfterId, versions])
+
+  const before = versions.find(({ id }) => id === beforeId)
+  const after = versions.find(({ id }) => id === afterId)
+
+  const diff = useMemo(
+    () => (before && after ? diffSnapshots(before.project, after.project) : null),
+    [before, after]
+  )
+
+  const { beforeMarkers, afterMarkers } = useMemo(() => {
+    const removed = (diff?.removed ?? []).map((entity): Marker => ({ id: entity.mirrorGroupId, kind: 'removed', entity }))
+    const added = (diff?.added ?? []).map((entity): Marker => ({ id: entity.mirrorGroupId, kind: 'added', entity }))
+    const changed = (side: 'before' | 'after') =>
+      (diff?.changed ?? []).map((change): Marker => ({ id: change[side].mirrorGroupId, kind: 'changed', entity: change[side] }))
+    return {
+      beforeMarkers: [...removed, ...changed('before')],
+      afterMarkers: [...added, ...changed('after')],
+    }
+  }, [diff])
+  // Changes listed as they are in the version they show up in
+  const changes = [
+    ...afterMarkers.filter(({ kind }) => kind === 'added').map((marker) => ({ ...marker, version: after })),
+    ...beforeMarkers.filter(({ kind }) => kind === 'removed').map((marker) => ({ ...marker, version: before })),
+    ...afterMarkers.filter(({ kind }) => kind === 'changed').map((marker) => ({ ...marker, version: after })),
+  ]
+
+  const versionButtonClass = (isActive: boolean) =>
+    `px-2 py-1 rounded-lg text-xs truncate max-w-40 transition-all ${
+      isActive ? 'bg-primary/20 text-white ring-1 ring-primary/40' : 'bg-white/5 text-text-muted hover:bg-white/10 hover:text-white'
+    }`
+
+  const renderPicker = (label: string, selectedId: string | undefined, onSelect: (id: string) => void) => (
+    <div className="flex items-center gap-2 flex-wrap" role="group" aria-label={label}>
+      <span className="text-xs font-medium text-text-muted uppercase tracking-wide w-14">{label}</span>
+      {versions.map((version) => (
+        <Button
+          key={version.id}
+          onPress={() => onSelect(version.id)}
+          className={versionButtonClass(version.id === selectedId)}
+          aria-pressed={version.id === selectedId}
+        >
+          {version.name}
+        </Button>
+      ))}
+    </div>
+  )
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onOpenChange={(open) => !open && onClose()}
+      isDismissable
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+    >
+      <Dialog
+        className="relative w-full max-w-3xl max-h-[90vh] bg-bg-elevated border border-primary/20 rounded-xl shadow-2xl flex flex-col panel-glow outline-none"
+        aria-label="Compare Snapshots"
+      >
+        {({ close }) => (
+          <>
+            <div className="flex items-center justify-between px-6 py-4 border-b border-primary/10">
+              <Heading className="text-lg font-semibold text-white">Compare Snapshots</Heading>
+              <Tooltip content="Close">
+                <Button
+                  onPress={close}
+                  className="p-1.5 hover:bg-white/10 rounded-lg transition-all text-text-muted hover:text-white"
+                  aria-label="Close dialog"
+                >
+                  <X size={18} />
+                </Button>
+              </Tooltip>
+            </div>
+
+            <div className="px-6 py-4 flex flex-col gap-4 overflow-y-auto">
+              <div className="flex flex-col gap-2">
+                {renderPicker('Before', beforeId, setBeforeId)}
+                {renderPicker('After', afterId, setAfterId)}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {[
+                  { version: before, markers: beforeMarkers },
+                  { version: after, markers: afterMarkers },
+                ].map(({ version, markers }, index) => (
+                  <div key={index} className="flex flex-col gap-1 min-w-0">
+                    <span className="text-sm text-white truncate">{version?.name ?? '—'}</span>
+                    {version && (
+                      <VersionPreview version={version} markers={markers} hoveredId={hoveredId} />
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {diff && (
+                <div className="flex flex-col gap-2">
+                  <div className="flex gap-4 text-xs">
+                    <span className={KIND_STYLES.added.text}>{diff.added.length} added</span>
+                    <span className={KIND_STYLES.removed.text}>{diff.removed.length} removed</span>
+                    <span className={KIND_STYLES.changed.text}>{diff.changed.length} changed</span>
+                    <span className="text-text-muted">{diff.unchanged} unchanged</span>
+                  </div>
+                  {changes.length > 0 ? (
+                    <ul className="flex flex-col max-h-48 overflow-y-auto rounded-lg bg-white/5 p-1">
+                      {changes.map(({ id, kind, entity, version }) => (
+                        <li
+                          key={`${kind}-${id}`}
+                          onMouseEnter={() => setHoveredId(id)}
+                          onMouseLeave={() => setHoveredId(null)}
+                          className="flex items-center gap-2 px-2 py-1 rounded text-xs hover:bg-white/5"
+                        >
+                          <span className={`w-3 font-semibold ${KIND_STYLES[kind].text}`} aria-label={KIND_STYLES[kind].label}>
+                            {KIND_STYLES[kind].sign}
+                          </span>
+                          <span className="text-white truncate">{entityLabel(entity)}</span>
+                          <span className="ml-auto text-text-muted truncate">
+                            {version?.project.layers.find((layer) => layer.id === entity.layerId)?.name}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <div className="py-2 text-center text-sm text-text-muted">No differences</div>
+                  )}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </Dialog>
+    </Modal>
+  )
+}
+
+/**
+ * Thumbnail of a version with the changed entities outlined
+ */
+function VersionPreview({
+  version,
+  markers,
+  hoveredId,
+}: {
+  version: ComparedVersion
+  markers: Marker[]
+  hoveredId: string | null
+}) {
+  const [bounds, setBounds] = useState<Map<string, ViewBox>>(new Map())
+  const viewBox = getSnapshotViewBox(version.project)
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all(
+      markers.map(async ({ id, entity }) => [id, await getSnapshotEntityBounds(entity)] as const)
+    ).then((results) => {
+      if (cancelled) return
+      setBounds(new Map(results.filter((result): result is [string, ViewBox] => !!result[1])))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [markers])
+
+  return (
+    <div
+      className="relative w-full overflow-hidden rounded-lg border border-primary/20 bg-bg-dark"
+      style={{ aspectRatio: `${viewBox.width} / ${viewBox.height}` }}
+    >
+      {version.thumbnail ? (
+        <img src={version.thumbnail} alt="" className="absolute inset-0 w-full h-full" />
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center text-xs text-text-muted">No thumbnail</div>
+      )}
+      {markers.map(({ id, kind }) => {
+        const box = bounds.get(id)
+        if (!box) return null
+        return (
+          <div
+            key={id}
+            className={`absolute rounded-sm ${KIND_STYLES[kind].border} ${hoveredId === id ? 'border-2 bg-white/10' : 'border'}`}
+            style={{
+              left: `${((box.x - viewBox.x) / viewBox.width) * 100}%`,
+              top: `${((box.y - viewBox.y) / viewBox.height) * 100}%`,
+              width: `${(box.width / viewBox.width) * 100}%`,
+              height: `${(box.height / viewBox.height) * 100}%`,
+            }}
+            title={KIND_STYLES[kind].label}
+          />
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Circle, Rect, util } from 'fabric'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import type { MultiPolygon } from '../utils/strokePolygon'
+import { computeBooleanPieces, fitRegionPathData, performBooleanOperation } from './BooleanOperations'
+import { getObjectRegion } from './VectorEraser'
+
+// extractPathData logs every step
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+const square = (x: number, y: number, size: number): MultiPolygon => [[[
+  [x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y],
+]]]
+
+const area = (multiPolygon: MultiPolygon): number =>
+  multiPolygon.reduce((total, polygon) => total + polygon.reduce((sum, ring, i) => {
+    let twice = 0
+    for (let k = 0; k < ring.length - 1; k++) {
+      twice += ring[k][0] * ring[k + 1][1] - ring[k + 1][0] * ring[k][1]
+    }
+    return sum + (i === 0 ? 1 : -1) * Math.abs(twice / 2)
+  }, 0), 0)
+
+// Two 100x100 squares overlapping by 50x100
+const regions = [square(0, 0, 100), square(50, 0, 100)]
+
+describe('computeBooleanPieces', () => {
+  it('should union into one piece styled like the front object', () => {
+    const pieces = computeBooleanPieces('union', regions)
+    expect(pieces).toHaveLength(1)
+    expect(pieces[0].source).toBe(1)
+    expect(area(pieces[0].region)).toBeCloseTo(15000)
+  })
+
+  it('should subtract the front objects from the back object', () => {
+    const [piece] = computeBooleanPieces('subtract', regions)
+    expect(piece.source).toBe(0)
+    expect(area(piece.region)).toBeCloseTo(5000)
+  })
+
+  it('should intersect and exclude', () => {
+    expect(area(computeBooleanPieces('intersect', regions)[0].region)).toBeCloseTo(5000)
+    expect(area(computeBooleanPieces('exclude', regions)[0].region)).toBeCloseTo(10000)
+  })
+
+  it('should divide overlapping regions into separate pieces', () => {
+    const pieces = computeBooleanPieces('divide', regions)
+    expect(pieces.map(({ region, source }) => [Math.round(area(region)), source]).sort()).toEqual([
+      [5000, 0],
+      [5000, 1],
+      [5000, 1],
+    ])
+  })
+
+  it('should drop empty results', () => {
+    expect(computeBooleanPieces('intersect', [square(0, 0, 10), square(50, 50, 10)])).toEqual([])
+  })
+})
+
+describe('fitRegionPathData', () => {
+  it('should keep the corners of polygons', () => {
+    expect(fitRegionPathData(square(0, 0, 10))).toBe(
+      'M 0.00 0.00 L 10.00 0.00 L 10.00 10.00 L 0.00 10.00 L 0.00 0.00 Z'
+    )
+  })
+
+  it('should refit flattened curves with bezier curves', () => {
+    const circle = new Circle({ left: 0, top: 0, radius: 50, fill: '#000000', strokeWidth: 0 })
+    const pathData = fitRegionPathData(getObjectRegion(circle))
+    const commands = util.parsePath(pathData).map(([command]) => command)
+    expect(commands).toContain('C')
+    expect(commands.filter((command) => command === 'C').length).toBeLessThan(20)
+  })
+})
+
+describe('performBooleanOperation', () => {
+  it('should create styled paths from the source objects', () => {
+    const back = new Rect({ left: 0, top: 0, width: 100, height: 100, fill: '#ff0000', strokeWidth: 0 })
+    const front = new Rect({ left: 50, top: 0, width: 100, height: 100, fill: '#0000ff', strokeWidth: 0 })
+    Object.assign(back, { layerId: 'layer-1' })
+
+    const [result] = performBooleanOperation('subtract', [back, front] as ExtendedFabricObject[])
+    expect(result.fill).toBe('#ff0000')
+    expect((result as typeof result & ExtendedFabricObject).layerId).toBe('layer-1')
+    expect(area(getObjectRegion(result))).toBeCloseTo(5000, -1)
+  })
+})
@@ -0,0 +1,164 @@
+import { Path } from 'fabric'
+import polygonClipping from 'polygon-clipping'
+import fitCurve from 'fit-curve'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import type { MultiPolygon, Ring } from '../utils/strokePolygon'
+import { getObjectRegion, getRegionStyle } from './VectorEraser'
+
+/**
+ * Boolean shape operations - geometric union, subtraction, intersection, exclusion and
+ * division of paths and shapes.
+ *
+ * Objects are flattened to polygons (their fill, or the outline of their stroke, see
+ * getObjectRegion), combined with polygon-clipping, and the resulting outlines are refit
+ * with bezier curves. Sharp corners are kept as corners.
+ */
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude' | 'divide'
+
+export const BOOLEAN_OPERATION_LABELS: Record<BooleanOperation, string> = {
+  union: 'Union',
+  subtract: 'Subtract front',
+  intersect: 'Intersect',
+  exclude: 'Exclude',
+  divide: 'Divide',
+}
+
+/**
+ * One resulting region, styled like one of the source objects
+ */
+export interface BooleanPiece {
+  region: MultiPolygon
+  source: number // Index of the source object that gives the piece its style
+}
+
+// Squared error allowed when refitting curves (as VarioBrush)
+const FIT_TOLERANCE = 2
+// Turns sharper than this between flattened segments are kept as corners
+const CORNER_ANGLE = Math.PI / 4
+
+/**
+ * Combine the regions of objects ordered back to front.
+ * Subtract keeps the back object's style, divide gives each piece the style of the
+ * frontmost object covering it, the others take the frontmost object's style.
+ */
+export function computeBooleanPieces(operation: BooleanOperation, regions: MultiPolygon[]): BooleanPiece[] {
+  if (regions.length === 0) return []
+  const [first, ...rest] = regions
+  const front = regions.length - 1
+
+  let pieces: BooleanPiece[]
+  switch (operation) {
+    case 'union':
+      pieces = [{ region: polygonClipping.union(first, ...rest), source: front }]
+      break
+    case 'subtract':
+      pieces = [{ region: polygonClipping.difference(first, ...rest), source: 0 }]
+      break
+    case 'intersect':
+      pieces = [{ region: polygonClipping.intersection(first, ...rest), source: front }]
+      break
+    case 'exclude':
+      pieces = [{ region: polygonClipping.xor(first, ...rest), source: front }]
+      break
+    case 'divide':
+      pieces = divideRegions(regions)
+      break
+  }
+
+  return pieces.filter(({ region }) => region.length > 0)
+}
+
+/**
+ * Split overlapping regions into every separate piece they form
+ */
+function divideRegions(regions: MultiPolygon[]): BooleanPiece[] {
+  let pieces: BooleanPiece[] = []
+
+  regions.forEach((region, source) => {
+    const next: BooleanPiece[] = []
+    for (const piece of pieces) {
+      next.push(
+        { region: polygonClipping.intersection(piece.region, region), source },
+        { region: polygonClipping.difference(piece.region, region), source: piece.source }
+      )
+    }
+    const [first, ...rest] = pieces.map((piece) => piece.region)
+    next.push({ region: first ? polygonClipping.difference(region, first, ...rest) : region, source })
+    pieces = next.filter((piece) => piece.region.length > 0)
+  })
+
+  // Disconnected parts become separate pieces
+  return pieces.flatMap(({ region, source }) => region.map((polygon) => ({ region: [polygon], source })))
+}
+
+const formatPoint = ([x, y]: [number, number]): string => `${x.toFixed(2)} ${y.toFixed(2)}`
+
+function isCorner(prev: [number, number], point: [number, number], next: [number, number]): boolean {
+  const ax = point[0] - prev[0]
+  const ay = point[1] - prev[1]
+  const bx = next[0] - point[0]
+  const by = next[1] - point[1]
+  return Math.abs(Math.atan2(ax * by - ay * bx, ax * bx + ay * by)) > CORNER_ANGLE
+}
+
+function fitRun(run: [number, number][]): string {
+  if (run.length === 2) return `L ${formatPoint(run[1])}`
+  return fitCurve(run, FIT_TOLERANCE)
+    .map(([, c1, c2, end]) => `C ${formatPoint(c1)} ${formatPoint(c2)} ${formatPoint(end)}`)
+    .join(' ')
+}
+
+/**
+ * Refit a closed ring with bezier curves, split at its corners
+ */
+function fitRing(ring: Ring): string {
+  // polygon-clipping repeats the first point at the end
+  const points = ring.slice(0, -1)
+  const count = points.length
+  if (count < 3) return ''
+
+  const corners = points
+    .map((point, i) => (isCorner(points[(i - 1 + count) % count], point, points[(i + 1) % count]) ? i : -1))
+    .filter((i) => i >= 0)
+
+  if (corners.length === 0) {
+    return `M ${formatPoint(points[0])} ${fitRun([...points, points[0]])} Z`
+  }
+
+  // Fit each run between two corners
+  const runs = corners.map((start, i) => {
+    const end = corners[(i + 1) % corners.length]
+    const length = ((end - start + count - 1) % count) + 1
+    return Array.from({ length: length + 1 }, (_, k) => points[(start + k) % count])
+  })
+  return `M ${formatPoint(points[corners[0]])} ${runs.map(fitRun).join(' ')} Z`
+}
+
+/**
+ * SVG path data for a region, with curves refit
+ */
+export function fitRegionPathData(region: MultiPolygon): string {
+  return region
+    .flat()
+    .map(fitRing)
+    .filter(Boolean)
+    .join(' ')
+}
+
+/**
+ * Perform a boolean operation on objects ordered back to front
+ *
+ * @returns The resulting paths in scene coordinates, without tiling metadata
+ */
+export function performBooleanOperation(operation: BooleanOperation, objects: ExtendedFabricObject[]): Path[] {
+  const regions = objects.map((obj) => getObjectRegion(obj))
+  return computeBooleanPieces(operation, regions).flatMap(({ region, source }) => {
+    const pathData = fitRegionPathData(region)
+    if (!pathData) return []
+
+    const path = new Path(pathData, getRegionStyle(objects[source])) as Path & ExtendedFabricObject
+    path.layerId = objects[source].layerId
+    return [path]
+  })
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { Path, Rect } from 'fabric'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import { ClipMaskManager, getClipMaskPathData, isClipMask, isClipMaskShape } from './ClipMaskManager'
+
+const entity = (mirrorGroupId: string, layerId: string, entityGroupId?: string): ExtendedFabricObject =>
+  Object.assign(new Rect({ width: 10, height: 10 }), {
+    layerId,
+    tiledMetadata: { isMirror: false, mirrorGroupId, tilePosition: [0, 0] as [number, number], entityGroupId },
+  })
+
+describe('ClipMaskManager', () => {
+  it('should collect the masks of an entity, its group and its layer', () => {
+    const clips = new ClipMaskManager()
+    clips.setClipMask('entity', 'a', 'mask-1')
+    clips.setClipMask('entityGroup', 'group', 'mask-2')
+    clips.setClipMask('layer', 'layer-1', 'mask-3')
+
+    expect(clips.getObjectMaskIds(entity('a', 'layer-1', 'group'))).toEqual(['mask-1', 'mask-2', 'mask-3'])
+    expect(clips.getObjectMaskIds(entity('b', 'layer-2'))).toEqual([])
+    // A mask on the layer it clips isn't clipped by itself
+    expect(clips.getObjectMaskIds(entity('mask-3', 'layer-1'))).toEqual([])
+  })
+
+  it('should only count masks that clip something', () => {
+    const clips = new ClipMaskManager()
+    clips.setClipMask('entity', 'a', 'mask')
+    clips.setClipMask('entity', 'deleted', 'unused')
+
+    expect(clips.getMaskIds([entity('a', 'layer-1'), entity('mask', 'layer-1')])).toEqual(new Set(['mask']))
+  })
+
+  it('should release clips and refuse clipping an entity by itself', () => {
+    const clips = new ClipMaskManager()
+    clips.setClipMask('layer', 'layer-1', 'mask')
+    clips.setClipMask('layer', 'layer-1', undefined)
+
+    expect(clips.getClipMasks()).toEqual([])
+    expect(() => clips.setClipMask('entity', 'a', 'a')).toThrow('cannot clip itself')
+  })
+
+  it('should round-trip clips through project data', () => {
+    const clips = new ClipMaskManager()
+    clips.setClipMask('entityGroup', 'group', 'mask')
+    const restored = new ClipMaskManager()
+    restored.deserialize(JSON.parse(JSON.stringify(clips.serialize())))
+
+    expect(restored.getClipMask('entityGroup', 'group')).toBe('mask')
+    expect(restored.serialize().every(isClipMask)).toBe(true)
+    expect(isClipMask({ targetType: 'object', targetId: 'a', maskId: 'b' })).toBe(false)
+  })
+})
+
+describe('getClipMaskPathData', () => {
+  const triangle = () => new Path('M 0 0 L 10 0 L 0 10 Z', { left: 0, top: 0, strokeWidth: 0 })
+
+  it('should place the mask at every instance', () => {
+    const mask = triangle()
+    const [identity, shifted] = getClipMaskPathData(mask, [
+      [1, 0, 0, 1, 0, 0],
+      [1, 0, 0, 1, 256, 0],
+    ])
+
+    expect(identity).toBe('M 0 0 L 10 0 L 0 10 Z')
+    expect(shifted).toBe('M 256 0 L 266 0 L 256 10 Z')
+  })
+
+  it('should keep the winding of mirrored instances', () => {
+    const [mirrored] = getClipMaskPathData(triangle(), [[-1, 0, 0, 1, 0, 0]])
+    // Mirrored by x -> -x, then drawn backwards
+    expect(mirrored).toBe('M 0 10 L -10 0 L 0 0 Z')
+  })
+
+  it('should only use paths as masks', () => {
+    const rect = new Rect({ width: 10, height: 10 })
+    expect(isClipMaskShape(rect)).toBe(false)
+    expect(getClipMaskPathData(rect, [[1, 0, 0, 1, 0, 0]])).toEqual([])
+  })
+})
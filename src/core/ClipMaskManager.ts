@@ -0,0 +1,177 @@
+import { util, type FabricObject, type Path, type TMat2D } from 'fabric'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import { multiplyMatrices } from './WallpaperSymmetry'
+
+/**
+ * Clipping masks - an entity, an entity group or a whole layer drawn only inside a path
+ * entity (the mask).
+ *
+ * The mask is tiled like any other entity, so the clip region is the mask at every one of
+ * its instances and follows it across tile seams. Masks only clip: while a mask clips
+ * something it isn't drawn itself. Clips are kept here by target rather than on the
+ * objects, so deleting and restoring either side keeps the relationship.
+ */
+
+export type ClipTargetType = 'entity' | 'entityGroup' | 'layer'
+
+export interface ClipMask {
+  targetType: ClipTargetType
+  targetId: string // mirrorGroupId, entity group id or layer id
+  maskId: string // mirrorGroupId of the path entity
+}
+
+const CLIP_TARGET_TYPES: ClipTargetType[] = ['entity', 'entityGroup', 'layer']
+
+export class ClipMaskManager {
+  private clips: Map<string, ClipMask> = new Map()
+
+  /**
+   * Mask clipping a target, if any
+   */
+  getClipMask(targetType: ClipTargetType, targetId: string): string | undefined {
+    return this.clips.get(`${targetType}:${targetId}`)?.maskId
+  }
+
+  /**
+   * Clip a target by a mask, or release it when the mask is undefined
+   */
+  setClipMask(targetType: ClipTargetType, targetId: string, maskId: string | undefined): void {
+    if (targetType === 'entity' && targetId === maskId) {
+      throw new Error('An entity cannot clip itself')
+    }
+
+    const key = `${targetType}:${targetId}`
+    if (maskId) {
+      this.clips.set(key, { targetType, targetId, maskId })
+    } else {
+      this.clips.delete(key)
+    }
+  }
+
+  /**
+   * Masks clipping an object: its own, its entity group's and its layer's
+   */
+  getObjectMaskIds(obj: ExtendedFabricObject): string[] {
+    const { mirrorGroupId, entityGroupId } = obj.tiledMetadata ?? {}
+    return [
+      mirrorGroupId && this.getClipMask('entity', mirrorGroupId),
+      entityGroupId && this.getClipMask('entityGroup', entityGroupId),
+      obj.layerId && this.getClipMask('layer', obj.layerId),
+    ].filter((maskId): maskId is string => !!maskId && maskId !== mirrorGroupId)
+  }
+
+  /**
+   * Masks clipping at least one of the objects - the ones that aren't drawn
+   */
+  getMaskIds(objects: ExtendedFabricObject[]): Set<string> {
+    return new Set(objects.flatMap((obj) => this.getObjectMaskIds(obj)))
+  }
+
+  /**
+   * All clips, e.g. to find the ones involving an entity
+   */
+  getClipMasks(): ClipMask[] {
+    return Array.from(this.clips.values())
+  }
+
+  /**
+   * Serialize all clips for export
+   */
+  serialize(): ClipMask[] {
+    return this.getClipMasks().map((clip) => ({ ...clip }))
+  }
+
+  /**
+   * Restore clips from imported data
+   */
+  deserialize(clipsData: ClipMask[]): void {
+    this.clear()
+    clipsData.forEach(({ targetType, targetId, maskId }) => this.setClipMask(targetType, targetId, maskId))
+  }
+
+  /**
+   * Clear all clips
+   */
+  clear(): void {
+    this.clips.clear()
+  }
+}
+
+/**
+ * Whether an object can be used as a mask (path entities only)
+ */
+export function isClipMaskShape(obj: FabricObject): obj is Path {
+  return obj.type === 'path' && Array.isArray((obj as Path).path)
+}
+
+/**
+ * Outline of a mask at each instance as SVG path data in canvas coordinates. Mirrored
+ * instances are drawn the other way round, so all of them keep the winding of the mask
+ * and fill together as one nonzero region.
+ */
+export function getClipMaskPathData(mask: FabricObject, matrices: TMat2D[]): string[] {
+  if (!isClipMaskShape(mask)) return []
+
+  const objectMatrix = mask.calcTransformMatrix()
+  return matrices.map((matrix) => {
+    const transform = multiplyMatrices(matrix, objectMatrix)
+    const path = util.transformPath(mask.path, transform, mask.pathOffset)
+    const mirrored = transform[0] * transform[3] - transform[1] * transform[2] < 0
+    return util.joinPath(mirrored ? reversePath(path) : path)
+  })
+}
+
+type SimplePathData = ReturnType<typeof util.transformPath>
+type SimplePathCommand = SimplePathData[number]
+
+/**
+ * The same path drawn backwards, one subpath at a time
+ */
+function reversePath(path: SimplePathData): SimplePathData {
+  const reversed: SimplePathData = []
+  let start: [number, number] = [0, 0]
+  let segments: { command: SimplePathCommand; from: [number, number] }[] = []
+  let current: [number, number] = [0, 0]
+
+  const endSubpath = (closed: boolean) => {
+    if (segments.length > 0) {
+      reversed.push(['M', ...current])
+      for (const { command, from } of segments.reverse()) {
+        if (command[0] === 'L') reversed.push(['L', ...from])
+        if (command[0] === 'C') reversed.push(['C', command[3], command[4], command[1], command[2], ...from])
+        if (command[0] === 'Q') reversed.push(['Q', command[1], command[2], ...from])
+      }
+      if (closed) reversed.push(['Z'])
+    }
+    segments = []
+  }
+
+  for (const command of path) {
+    if (command[0] === 'M') {
+      endSubpath(false)
+      start = [command[1], command[2]]
+      current = start
+    } else if (command[0] === 'Z') {
+      endSubpath(true)
+      current = start
+    } else {
+      segments.push({ command, from: current })
+      current = [command[command.length - 2] as number, command[command.length - 1] as number]
+    }
+  }
+  endSubpath(false)
+  return reversed
+}
+
+/**
+ * Whether a value read from a project file is a clip
+ */
+export function isClipMask(value: unknown): value is ClipMask {
+  if (!value || typeof value !== 'object') return false
+  const { targetType, targetId, maskId } = value as Record<string, unknown>
+  return (
+    CLIP_TARGET_TYPES.includes(targetType as ClipTargetType) &&
+    typeof targetId === 'string' &&
+    typeof maskId === 'string'
+  )
+}
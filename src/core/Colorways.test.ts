@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { Circle, Group, Rect, type FabricObject } from 'fabric'
+import { createDefaultGradient, specToGradient, type FabricGradient } from './Gradients'
+import { collectPaletteColors } from './Palette'
+import {
+  applyColorway,
+  createColorway,
+  getColorwayColor,
+  getColorwayFileNames,
+  isColorway,
+  setColorwayColor,
+  type Colorway,
+} from './Colorways'
+
+const autumn: Colorway = { id: 'autumn', name: 'Autumn', colors: { '#ff0000': '#ff8800', '#ff000080': '#ff8800', '#ffffff': '#000000' } }
+
+const createObjects = (): FabricObject[] => [
+  new Rect({ width: 10, height: 10, fill: '#FF0000', stroke: '#0000ff' }),
+  new Group([new Circle({ radius: 5, fill: 'rgba(255, 0, 0, 0.5)' })]),
+  new Rect({ width: 10, height: 10, fill: specToGradient(createDefaultGradient('linear', { width: 10, height: 10 }, '#ff0000')) }),
+]
+
+describe('applyColorway', () => {
+  it('should recolour objects, group children and gradient stops', () => {
+    const [rect, group, gradient] = createObjects()
+    applyColorway([rect, group, gradient], autumn)
+
+    expect(rect.fill).toBe('#ff8800')
+    expect(rect.stroke).toBe('#0000ff')
+    expect((group as Group).getObjects()[0].fill).toBe('rgba(255,136,0,0.5)')
+    expect((gradient.fill as FabricGradient).colorStops.map(({ color }) => color)).toEqual(['#ff8800', '#000000'])
+  })
+
+  it('should restore the base colours', () => {
+    const objects = createObjects()
+    const restore = applyColorway(objects, autumn)
+    restore()
+
+    expect(objects[0].fill).toBe('#FF0000')
+    expect(collectPaletteColors(objects)).toEqual(collectPaletteColors(createObjects()))
+  })
+
+  it('should leave objects alone without a colourway', () => {
+    const objects = createObjects()
+    applyColorway(objects, null)()
+    applyColorway(objects, { ...autumn, colors: {} })
+    expect(objects[0].fill).toBe('#FF0000')
+  })
+})
+
+describe('colourway colours', () => {
+  it('should map palette colours and drop identity mappings', () => {
+    const colorway = setColorwayColor(createColorway([]), '#F00', '#00ff00')
+    expect(colorway.name).toBe('Colourway 1')
+    expect(getColorwayColor(colorway, '#ff0000')).toBe('#00ff00')
+    expect(getColorwayColor(colorway, '#0000ff')).toBe('#0000ff')
+    expect(setColorwayColor(colorway, '#ff0000', '#ff0000').colors).toEqual({})
+  })
+
+  it('should copy the mapping when duplicating', () => {
+    const copy = createColorway([autumn], autumn)
+    expect(copy.name).toBe('Autumn copy')
+    expect(copy.id).not.toBe(autumn.id)
+    expect(copy.colors).toEqual(autumn.colors)
+    expect(copy.colors).not.toBe(autumn.colors)
+  })
+
+  it('should validate colourways read from project files', () => {
+    expect(isColorway(autumn)).toBe(true)
+    expect(isColorway({ id: 'x', name: 'X', colors: ['#ff0000'] })).toBe(false)
+    expect(isColorway({ id: 'x', colors: {} })).toBe(false)
+  })
+})
+
+describe('getColorwayFileNames', () => {
+  it('should add unique colourway names before the extension', () => {
+    const colorways = [autumn, { ...autumn, id: 'a2' }, { ...autumn, id: 'sea', name: ' Deep Sea / Night ' }]
+    expect(getColorwayFileNames('tile-1024.png', colorways)).toEqual([
+      'tile-1024-autumn.png',
+      'tile-1024-autumn-2.png',
+      'tile-1024-deep-sea-night.png',
+    ])
+  })
+})
@@ -0,0 +1,128 @@
+import type { FabricObject } from 'fabric'
+import { generateUniqueId } from '../utils/idGenerator'
+import { normalizePaletteColor, recolorPaint, walkObjects } from './Palette'
+import type { PaintProperty } from './Gradients'
+
+/**
+ * Colourways - named variants of a project that swap palette colours for others.
+ *
+ * A colourway only maps colours, so it never changes the objects themselves: it is
+ * applied around rendering and export, and the base colours are restored right after.
+ */
+
+export interface Colorway {
+  id: string
+  name: string
+  colors: Record<string, string> // Palette colour -> replacement, both as #rrggbb(aa)
+}
+
+const PAINT_PROPERTIES: PaintProperty[] = ['fill', 'stroke']
+
+/**
+ * New colourway that keeps every colour, named after the existing ones
+ */
+export function createColorway(existing: Colorway[], base?: Colorway | null): Colorway {
+  const names = new Set(existing.map(({ name }) => name))
+  let number = existing.length + 1
+  while (names.has(`Colourway ${number}`)) number++
+
+  return {
+    id: generateUniqueId('colorway'),
+    name: base ? `${base.name} copy` : `Colourway ${number}`,
+    colors: { ...base?.colors },
+  }
+}
+
+/**
+ * Replacement for a palette colour in a colourway (the colour itself when it isn't replaced)
+ */
+export function getColorwayColor(colorway: Colorway | null, color: string): string {
+  const key = normalizePaletteColor(color)
+  return (key && colorway?.colors[key]) || color
+}
+
+/**
+ * Colourway with one palette colour replaced. Mapping a colour to itself removes the entry.
+ */
+export function setColorwayColor(colorway: Colorway, from: string, to: string): Colorway {
+  const fromColor = normalizePaletteColor(from)
+  const toColor = normalizePaletteColor(to)
+  if (!fromColor || !toColor) return colorway
+
+  const colors = { ...colorway.colors }
+  if (fromColor === toColor) {
+    delete colors[fromColor]
+  } else {
+    colors[fromColor] = toColor
+  }
+  return { ...colorway, colors }
+}
+
+/**
+ * Paint the objects in a colourway. Returns a function restoring the base colours.
+ */
+export function applyColorway(objects: FabricObject[], colorway: Colorway | null): () => void {
+  const replacements = new Map(Object.entries(colorway?.colors ?? {}))
+  if (replacements.size === 0) return () => {}
+
+  const restores: (() => void)[] = []
+  for (const obj of objects) {
+    let changed = false
+    for (const { object } of walkObjects(obj)) {
+      for (const property of PAINT_PROPERTIES) {
+        const base = object[property]
+        const recolored = recolorPaint(base, replacements)
+        if (recolored === undefined) continue
+
+        object.set(property, recolored)
+        restores.push(() => object.set(property, base))
+        changed = true
+      }
+    }
+
+    if (changed) {
+      // Groups cache their children's rendering
+      obj.set('dirty', true)
+      restores.push(() => obj.set('dirty', true))
+    }
+  }
+
+  return () => restores.forEach((restore) => restore())
+}
+
+/**
+ * Export file names with the colourway names inserted before the extension,
+ * e.g. tile-1024.png becomes tile-1024-autumn.png
+ */
+export function getColorwayFileNames(fileName: string, colorways: Colorway[]): string[] {
+  const dot = fileName.lastIndexOf('.')
+  const stem = dot > 0 ? fileName.slice(0, dot) : fileName
+  const extension = dot > 0 ? fileName.slice(dot) : ''
+  const used = new Set<string>()
+
+  return colorways.map(({ name }) => {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'colourway'
+    let candidate = `${stem}-${slug}${extension}`
+    for (let n = 2; used.has(candidate); n++) {
+      candidate = `${stem}-${slug}-${n}${extension}`
+    }
+    used.add(candidate)
+    return candidate
+  })
+}
+
+/**
+ * Whether a value read from a project file is a colourway
+ */
+export function isColorway(value: unknown): value is Colorway {
+  if (!value || typeof value !== 'object') return false
+  const { id, name, colors } = value as Record<string, unknown>
+  return (
+    typeof id === 'string' &&
+    typeof name === 'string' &&
+    !!colors &&
+    typeof colors === 'object' &&
+    !Array.isArray(colors) &&
+    Object.values(colors).every((color) => typeof color === 'string')
+  )
+}
@@ -2,15 +2,16 @@ import type { Canvas } from 'fabric'
 import type { ExtendedFabricObject, EntityGroup } from '../types/FabricExtensions'
 import type { SerializedEntityGroup } from '../types/ProjectFormat'
 import type { LayerManager } from './LayerManager'
+import type { TileSize } from '../types/TileSize'
 import { generateUniqueId } from '../utils/idGenerator'
 
 export class EntityGroupManager {
   private canvas: Canvas
   private layerManager: LayerManager
   private groups: Map<string, EntityGroup> = new Map()
-  private tileSize: number
+  private tileSize: TileSize
 
-  constructor(canvas: Canvas, layerManager: LayerManager, tileSize: number) {
+  constructor(canvas: Canvas, layerManager: LayerManager, tileSize: TileSize) {
     this.canvas = canvas
     this.layerManager = layerManager
     this.tileSize = tileSize
@@ -19,7 +20,7 @@ export class EntityGroupManager {
   /**
    * Update the tile size (when resolution changes)
    */
-  setTileSize(tileSize: number): void {
+  setTileSize(tileSize: TileSize): void {
     this.tileSize = tileSize
   }
 
@@ -280,7 +281,7 @@ export class EntityGroupManager {
    *
    * Algorithm:
    * 1. Use the anchor element (clicked object) as the starting point
-   * 2. For each other element, pick the copy (offset by ±tileSize) whose center
+   * 2. For each other element, pick the copy (offset by ±width / ±height) whose center
    *    is closest to the anchor's center
    * 3. Calculate bounding box from the selected positions
    *
@@ -341,8 +342,8 @@ export class EntityGroupManager {
 
       for (const tx of [-1, 0, 1]) {
         for (const ty of [-1, 0, 1]) {
-          const shiftedCenterX = data.centerX + tx * this.tileSize
-          const shiftedCenterY = data.centerY + ty * this.tileSize
+          const shiftedCenterX = data.centerX + tx * this.tileSize.width
+          const shiftedCenterY = data.centerY + ty * this.tileSize.height
           const dist = Math.hypot(shiftedCenterX - anchor.centerX, shiftedCenterY - anchor.centerY)
           if (dist < bestDist) {
             bestDist = dist
@@ -353,8 +354,8 @@ export class EntityGroupManager {
       }
 
       selectedBounds.push({
-        left: data.bounds.left + bestOffsetX * this.tileSize,
-        top: data.bounds.top + bestOffsetY * this.tileSize,
+        left: data.bounds.left + bestOffsetX * this.tileSize.width,
+        top: data.bounds.top + bestOffsetY * this.tileSize.height,
         width: data.bounds.width,
         height: data.bounds.height,
       })
@@ -428,23 +429,28 @@ export class EntityGroupManager {
   deserialize(groupsData: SerializedEntityGroup[]): void {
     this.groups.clear()
 
-    groupsData.forEach((groupData) => {
-      const group: EntityGroup = {
-        id: groupData.id,
-        name: groupData.name,
-        memberMirrorGroupIds: [...groupData.memberMirrorGroupIds],
-        layerId: groupData.layerId,
-      }
-      this.groups.set(group.id, group)
+    groupsData.forEach((groupData) => this.restoreGroup(groupData))
+  }
 
-      // Update all member objects with the group ID
-      group.memberMirrorGroupIds.forEach((mirrorGroupId) => {
-        const objects = this.layerManager.getObjectsByMirrorGroup(mirrorGroupId)
-        objects.forEach((obj) => {
-          if (obj.tiledMetadata) {
-            obj.tiledMetadata.entityGroupId = group.id
-          }
-        })
+  /**
+   * Add a serialized group back as it was, e.g. when undoing its removal
+   */
+  restoreGroup(groupData: SerializedEntityGroup): void {
+    const group: EntityGroup = {
+      id: groupData.id,
+      name: groupData.name,
+      memberMirrorGroupIds: [...groupData.memberMirrorGroupIds],
+      layerId: groupData.layerId,
+    }
+    this.groups.set(group.id, group)
+
+    // Update all member objects with the group ID
+    group.memberMirrorGroupIds.forEach((mirrorGroupId) => {
+      const objects = this.layerManager.getObjectsByMirrorGroup(mirrorGroupId)
+      objects.forEach((obj) => {
+        if (obj.tiledMetadata) {
+          obj.tiledMetadata.entityGroupId = group.id
+        }
       })
     })
   }
@@ -468,6 +474,16 @@ export class EntityGroupManager {
     this.groups.clear()
   }
 
+  /**
+   * Move a group to another layer along with its members
+   */
+  setGroupLayer(groupId: string, layerId: string): void {
+    const group = this.groups.get(groupId)
+    if (group) {
+      group.layerId = layerId
+    }
+  }
+
   /**
    * Rename a group
    */
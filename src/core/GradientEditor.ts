@@ -0,0 +1,294 @@
+import type { Canvas, TMat2D, XY } from 'fabric'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import {
+  addGradientStop,
+  getGradientOffset,
+  getGradientPoint,
+  gradientToSpec,
+  isGradient,
+  removeGradientStop,
+  specToGradient,
+  updateGradientStop,
+  type FabricGradient,
+  type GradientSpec,
+  type PaintProperty,
+} from './Gradients'
+import { invertMatrix, multiplyMatrices, transformPoint } from './WallpaperSymmetry'
+
+type GradientPart = 'start' | 'end' | number // A number is the index of a stop
+
+export interface GradientEditorCallbacks {
+  /** A finished edit, to record for undo */
+  onCommit: (before: FabricGradient, after: FabricGradient, description: string) => void
+}
+
+// Click radius around handles, stops and the gradient line (screen pixels)
+const HIT_RADIUS = 6
+// Size of the end point handles and stop markers (screen pixels)
+const MARKER_SIZE = 8
+const MARKER_COLOR = '#2dd4a8'
+// Stops sit beside the gradient line, clear of the end point handles (screen pixels)
+const STOP_DISTANCE = 14
+
+/**
+ * Gradient Editor - on-canvas handles for the fill or stroke gradient of one object.
+ *
+ * The end point handles set the direction and length of the gradient (the angle handles);
+ * for radial gradients the start is the centre and the end sets the radius. Stops sit
+ * beside the gradient line and are dragged along it; clicking the line adds a stop.
+ *
+ * Like the node editor, the handles are shown at the copy the object was selected at, the
+ * gradient is changed on the canonical object, and each gesture is reported once through
+ * onCommit.
+ */
+export class GradientEditor {
+  private spec: GradientSpec | null = null
+  private syncedGradient: unknown = null
+  private selection: GradientPart | null = null
+  private drag: { before: FabricGradient; moved: boolean } | null = null
+
+  constructor(
+    private canvas: Canvas,
+    private target: ExtendedFabricObject,
+    private property: PaintProperty,
+    private copyMatrix: TMat2D,
+    private callbacks: GradientEditorCallbacks
+  ) {
+    this.sync()
+  }
+
+  onMouseDown(scenePoint: XY): void {
+    this.sync()
+    const gradient = this.getGradient()
+    if (!this.spec || !gradient) return
+
+    const hit = this.hitTest(scenePoint)
+    if (hit !== null) {
+      this.selection = hit
+      this.drag = { before: gradient, moved: false }
+      this.render()
+      return
+    }
+
+    // Clicking the gradient line adds a stop there
+    const offset = getGradientOffset(this.spec, this.toObjectPoint(scenePoint))
+    if (this.isWithinHitRadius(this.toScenePoint(getGradientPoint(this.spec, offset)), scenePoint)) {
+      const { spec, index } = addGradientStop(this.spec, offset)
+      this.apply(spec)
+      this.selection = index
+      this.callbacks.onCommit(gradient, this.getGradient()!, 'Add gradient stop')
+      this.drag = { before: this.getGradient()!, moved: false }
+      return
+    }
+
+    this.selection = null
+    this.render()
+  }
+
+  onMouseMove(scenePoint: XY): void {
+    if (!this.drag || !this.spec || this.selection === null) return
+
+    const point = this.toObjectPoint(scenePoint)
+    if (typeof this.selection === 'number') {
+      const { spec, index } = updateGradientStop(this.spec, this.selection, {
+        offset: getGradientOffset(this.spec, point),
+      })
+      this.selection = index
+      this.apply(spec)
+    } else {
+      this.apply({ ...this.spec, [this.selection]: point })
+    }
+    this.drag.moved = true
+  }
+
+  onMouseUp(): void {
+    const gradient = this.getGradient()
+    if (this.drag?.moved && gradient) {
+      const description = typeof this.selection === 'number' ? 'Move gradient stop' : 'Change gradient direction'
+      this.callbacks.onCommit(this.drag.before, gradient, description)
+    }
+    this.drag = null
+  }
+
+  /**
+   * Remove the selected stop. A gradient keeps at least two stops.
+   */
+  deleteSelected(): void {
+    this.sync()
+    const gradient = this.getGradient()
+    if (!this.spec || !gradient || typeof this.selection !== 'number') return
+
+    const spec = removeGradientStop(this.spec, this.selection)
+    if (spec === this.spec) return
+
+    this.selection = null
+    this.apply(spec)
+    this.callbacks.onCommit(gradient, this.getGradient()!, 'Remove gradient stop')
+  }
+
+  /**
+   * Draw the gradient line, its end point handles and stops on the top context (call after
+   * every render)
+   */
+  render(): void {
+    const ctx = this.canvas.contextTop
+    if (!ctx) return
+
+    this.canvas.clearContext(ctx)
+    this.sync()
+    if (!this.spec) return
+
+    const zoom = this.canvas.getZoom()
+    const size = MARKER_SIZE / zoom
+    const start = this.toScenePoint(this.spec.start)
+    const end = this.toScenePoint(this.spec.end)
+
+    ctx.save()
+    ctx.transform(...this.canvas.viewportTransform)
+    ctx.lineWidth = 1 / zoom
+    ctx.strokeStyle = MARKER_COLOR
+
+    // Outer circle of radial gradients (an ellipse when the object is scaled)
+    if (this.spec.type === 'radial') {
+      ctx.beginPath()
+      for (let i = 0; i <= 64; i++) {
+        const angle = (i / 64) * Math.PI * 2
+        const radius = Math.hypot(this.spec.end.x - this.spec.start.x, this.spec.end.y - this.spec.start.y)
+        const point = this.toScenePoint({
+          x: this.spec.start.x + Math.cos(angle) * radius,
+          y: this.spec.start.y + Math.sin(angle) * radius,
+        })
+        if (i === 0) {
+          ctx.moveTo(point.x, point.y)
+        } else {
+          ctx.lineTo(point.x, point.y)
+        }
+      }
+      ctx.setLineDash([4 / zoom, 4 / zoom])
+      ctx.stroke()
+      ctx.setLineDash([])
+    }
+
+    ctx.beginPath()
+    ctx.moveTo(start.x, start.y)
+    ctx.lineTo(end.x, end.y)
+    ctx.stroke()
+
+    for (const [part, point] of [['start', start], ['end', end]] as const) {
+      ctx.fillStyle = this.selection === part ? MARKER_COLOR : '#ffffff'
+      ctx.fillRect(point.x - size / 2, point.y - size / 2, size, size)
+      ctx.strokeRect(point.x - size / 2, point.y - size / 2, size, size)
+    }
+
+    this.spec.stops.forEach((stop, index) => {
+      const onLine = this.toScenePoint(getGradientPoint(this.spec!, stop.offset))
+      const point = this.getStopScenePoint(stop.offset)
+      ctx.lineWidth = 1 / zoom
+      ctx.strokeStyle = MARKER_COLOR
+      ctx.beginPath()
+      ctx.moveTo(onLine.x, onLine.y)
+      ctx.lineTo(point.x, point.y)
+      ctx.stroke()
+      ctx.beginPath()
+      ctx.arc(point.x, point.y, size / 2, 0, Math.PI * 2)
+      ctx.fillStyle = stop.color
+      ctx.fill()
+      ctx.lineWidth = (this.selection === index ? 3 : 1.5) / zoom
+      ctx.strokeStyle = this.selection === index ? MARKER_COLOR : '#ffffff'
+      ctx.stroke()
+    })
+    ctx.restore()
+  }
+
+  /**
+   * Clear the gradient handles
+   */
+  dispose(): void {
+    this.canvas.clearContext(this.canvas.contextTop)
+  }
+
+  private getGradient(): FabricGradient | null {
+    const paint = this.target[this.property]
+    return isGradient(paint) ? paint : null
+  }
+
+  /**
+   * Re-read the gradient when it changed outside the editor (panel, undo/redo)
+   */
+  private sync(): void {
+    const paint = this.target[this.property]
+    if (paint === this.syncedGradient) return
+
+    this.syncedGradient = paint
+    this.spec = isGradient(paint) ? gradientToSpec(paint, this.getSize()) : null
+    if (typeof this.selection === 'number' && !this.spec?.stops[this.selection]) {
+      this.selection = null
+    }
+  }
+
+  private apply(spec: GradientSpec): void {
+    const gradient = specToGradient(spec)
+    this.spec = spec
+    this.target.set(this.property, gradient)
+    this.syncedGradient = gradient
+    this.canvas.requestRenderAll()
+  }
+
+  private hitTest(scenePoint: XY): GradientPart | null {
+    if (!this.spec) return null
+
+    for (let index = this.spec.stops.length - 1; index >= 0; index--) {
+      const point = this.getStopScenePoint(this.spec.stops[index].offset)
+      if (this.isWithinHitRadius(point, scenePoint)) return index
+    }
+    for (const part of ['end', 'start'] as const) {
+      if (this.isWithinHitRadius(this.toScenePoint(this.spec[part]), scenePoint)) return part
+    }
+    return null
+  }
+
+  /**
+   * Where the marker of a stop is drawn, beside the gradient line
+   */
+  private getStopScenePoint(offset: number): XY {
+    const start = this.toScenePoint(this.spec!.start)
+    const end = this.toScenePoint(this.spec!.end)
+    const point = this.toScenePoint(getGradientPoint(this.spec!, offset))
+    const length = Math.hypot(end.x - start.x, end.y - start.y)
+    const distance = STOP_DISTANCE / this.canvas.getZoom()
+    if (length === 0) return { x: point.x, y: point.y + distance }
+
+    return {
+      x: point.x - ((end.y - start.y) / length) * distance,
+      y: point.y + ((end.x - start.x) / length) * distance,
+    }
+  }
+
+  private isWithinHitRadius(a: XY, b: XY): boolean {
+    return Math.hypot(a.x - b.x, a.y - b.y) <= HIT_RADIUS / this.canvas.getZoom()
+  }
+
+  private getSize(): { width: number; height: number } {
+    return { width: this.target.width || 0, height: this.target.height || 0 }
+  }
+
+  /**
+   * Gradient coordinates (from the object's top-left corner) → scene coordinates of the
+   * copy being edited
+   */
+  private getSceneMatrix(): TMat2D {
+    const { width, height } = this.getSize()
+    return multiplyMatrices(
+      multiplyMatrices(this.copyMatrix, this.target.calcTransformMatrix()),
+      [1, 0, 0, 1, -width / 2, -height / 2]
+    )
+  }
+
+  private toScenePoint(point: XY): XY {
+    return transformPoint(this.getSceneMatrix(), point)
+  }
+
+  private toObjectPoint(scenePoint: XY): XY {
+    return transformPoint(invertMatrix(this.getSceneMatrix()), scenePoint)
+  }
+}
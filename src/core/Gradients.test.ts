@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { Gradient, Rect, util } from 'fabric'
+import {
+  addGradientStop,
+  assignGradientIds,
+  createDefaultGradient,
+  getGradientAngle,
+  getGradientColorAt,
+  getGradientOffset,
+  gradientToSpec,
+  removeGradientStop,
+  setGradientAngle,
+  setGradientType,
+  specToGradient,
+  updateGradientStop,
+  type GradientSpec,
+} from './Gradients'
+
+const size = { width: 100, height: 50 }
+const linear = createDefaultGradient('linear', size, '#ff0000')
+
+describe('gradientToSpec', () => {
+  it('should round-trip gradients created from a spec', () => {
+    const radial = createDefaultGradient('radial', size, '#0000ff')
+    expect(gradientToSpec(specToGradient(linear), size)).toEqual(linear)
+    expect(gradientToSpec(specToGradient(radial), size)).toEqual(radial)
+  })
+
+  it('should resolve percentage units and offsets into object pixels', () => {
+    const gradient = new Gradient({
+      type: 'linear',
+      gradientUnits: 'percentage',
+      coords: { x1: 0, y1: 0, x2: 1, y2: 1 },
+      offsetX: 5,
+      colorStops: [
+        { offset: 1, color: '#000000' },
+        { offset: 0, color: '#ffffff' },
+      ],
+    })
+    const spec = gradientToSpec(gradient, size)
+    expect(spec.start).toEqual({ x: 5, y: 0 })
+    expect(spec.end).toEqual({ x: 105, y: 50 })
+    expect(spec.stops.map(({ offset }) => offset)).toEqual([0, 1])
+  })
+})
+
+describe('gradient geometry', () => {
+  it('should turn linear gradients around their midpoint', () => {
+    const turned = setGradientAngle(linear, 90)
+    expect(getGradientAngle(turned)).toBeCloseTo(90)
+    expect(turned.start.x).toBeCloseTo(50)
+    expect(turned.start.y).toBeCloseTo(-25)
+    expect(turned.end.y).toBeCloseTo(75)
+  })
+
+  it('should switch between linear and radial and back', () => {
+    const radial = setGradientType(linear, 'radial')
+    expect(radial.start).toEqual({ x: 50, y: 25 })
+    expect(setGradientType(radial, 'linear')).toEqual(linear)
+  })
+
+  it('should project points onto the gradient line', () => {
+    expect(getGradientOffset(linear, { x: 25, y: 40 })).toBeCloseTo(0.25)
+    expect(getGradientOffset(linear, { x: 150, y: 0 })).toBe(1)
+  })
+})
+
+describe('gradient stops', () => {
+  it('should add stops coloured like the gradient at that offset', () => {
+    const { spec, index } = addGradientStop(linear, 0.5)
+    expect(index).toBe(1)
+    expect(spec.stops[1].color).toBe(getGradientColorAt(linear.stops, 0.5))
+    expect(spec.stops[1].color).toBe('#ff8080')
+  })
+
+  it('should keep stops sorted when moving them', () => {
+    const { spec } = addGradientStop(linear, 0.5)
+    const moved = updateGradientStop(spec, 0, { offset: 0.8 })
+    expect(moved.index).toBe(1)
+    expect(moved.spec.stops.map(({ offset }) => offset)).toEqual([0.5, 0.8, 1])
+  })
+
+  it('should keep at least two stops', () => {
+    expect(removeGradientStop(linear, 0)).toBe(linear)
+    const { spec } = addGradientStop(linear, 0.5)
+    expect(removeGradientStop(spec, 1).stops).toEqual(linear.stops)
+  })
+})
+
+describe('gradient serialization', () => {
+  const gradientRect = (spec: GradientSpec) =>
+    new Rect({ left: 0, top: 0, ...size, fill: specToGradient(spec), stroke: specToGradient(linear) })
+
+  it('should survive the project round-trip', async () => {
+    const spec = createDefaultGradient('radial', size, '#00ff00')
+    const data = gradientRect(spec).toObject()
+    const [restored] = await util.enlivenObjects<Rect>([JSON.parse(JSON.stringify(data))])
+
+    expect(restored.fill).toBeInstanceOf(Gradient)
+    expect(gradientToSpec(restored.fill as Gradient<'radial'>, size)).toEqual(spec)
+  })
+
+  it('should write distinct gradient definitions for every copy', () => {
+    const copies = [0, 1].map((i) => {
+      const rect = gradientRect(linear)
+      assignGradientIds(rect, `copy-${i}`)
+      return rect.toSVG()
+    })
+    const ids = copies.join('').match(/<(linear|radial)Gradient id="[^"]+"/g)
+    expect(ids).toEqual([
+      '<linearGradient id="SVGID_copy-0-fill"',
+      '<linearGradient id="SVGID_copy-0-stroke"',
+      '<linearGradient id="SVGID_copy-1-fill"',
+      '<linearGradient id="SVGID_copy-1-stroke"',
+    ])
+    expect(copies[1]).toContain('fill: url(#SVGID_copy-1-fill)')
+  })
+})
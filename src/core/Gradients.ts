@@ -0,0 +1,284 @@
+import { Color, Gradient, Group, type ColorStop, type FabricObject, type GradientType, type XY } from 'fabric'
+import { transformPoint } from './WallpaperSymmetry'
+
+/**
+ * Gradient model - linear and radial gradients as two points and a list of colour stops.
+ *
+ * Points are in object pixels measured from the top-left corner of the object's box, the
+ * frame Fabric uses for gradients with 'pixels' units. The gradient lives in the object's
+ * own frame, so every tile, symmetry and radial copy renders it identically and patterns
+ * stay seamless.
+ */
+
+export type PaintProperty = 'fill' | 'stroke'
+
+export type FabricGradient = Gradient<'linear'> | Gradient<'radial'>
+
+export interface GradientSpec {
+  type: GradientType
+  start: XY // Linear: where offset 0 lies. Radial: the centre
+  end: XY // Linear: where offset 1 lies. Radial: a point on the outer circle
+  stops: ColorStop[] // Sorted by offset
+}
+
+export function isGradient(value: unknown): value is FabricGradient {
+  return value instanceof Gradient
+}
+
+const sortStops = (stops: ColorStop[]): ColorStop[] => [...stops].sort((a, b) => a.offset - b.offset)
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t
+
+/**
+ * Read a Fabric gradient. Percentage units and gradient transforms are resolved into
+ * object pixels; the focal point of radial gradients is dropped.
+ */
+export function gradientToSpec(gradient: FabricGradient, size: { width: number; height: number }): GradientSpec {
+  const [scaleX, scaleY] = gradient.gradientUnits === 'percentage' ? [size.width, size.height] : [1, 1]
+  const toPoint = (x: number, y: number): XY => {
+    const point = gradient.gradientTransform ? transformPoint(gradient.gradientTransform, { x, y }) : { x, y }
+    return {
+      x: point.x * scaleX + (gradient.offsetX || 0),
+      y: point.y * scaleY + (gradient.offsetY || 0),
+    }
+  }
+
+  const { coords } = gradient
+  if (gradient.type === 'radial') {
+    const { x2, y2, r2 } = coords as Gradient<'radial'>['coords']
+    return {
+      type: 'radial',
+      start: toPoint(x2, y2),
+      end: toPoint(x2 + r2, y2),
+      stops: sortStops(gradient.colorStops),
+    }
+  }
+
+  const { x1, y1, x2, y2 } = coords
+  return {
+    type: 'linear',
+    start: toPoint(x1, y1),
+    end: toPoint(x2, y2),
+    stops: sortStops(gradient.colorStops),
+  }
+}
+
+/**
+ * Create a Fabric gradient in pixel units
+ */
+export function specToGradient(spec: GradientSpec): FabricGradient {
+  const { type, start, end } = spec
+  const colorStops = sortStops(spec.stops).map((stop) => ({ ...stop }))
+
+  if (type === 'radial') {
+    return new Gradient<'radial'>({
+      type,
+      gradientUnits: 'pixels',
+      coords: {
+        x1: start.x,
+        y1: start.y,
+        r1: 0,
+        x2: start.x,
+        y2: start.y,
+        r2: Math.hypot(end.x - start.x, end.y - start.y),
+      },
+      colorStops,
+    })
+  }
+
+  return new Gradient<'linear'>({
+    type,
+    gradientUnits: 'pixels',
+    coords: { x1: start.x, y1: start.y, x2: end.x, y2: end.y },
+    colorStops,
+  })
+}
+
+/**
+ * Gradient from a colour to white - across the object for linear gradients, from the
+ * centre to the farthest edge for radial ones
+ */
+export function createDefaultGradient(
+  type: GradientType,
+  size: { width: number; height: number },
+  color: string
+): GradientSpec {
+  const { width, height } = size
+  const stops = [
+    { offset: 0, color },
+    { offset: 1, color: '#ffffff' },
+  ]
+
+  if (type === 'radial') {
+    return {
+      type,
+      start: { x: width / 2, y: height / 2 },
+      end: { x: width / 2 + Math.max(width, height) / 2, y: height / 2 },
+      stops,
+    }
+  }
+
+  return { type, start: { x: 0, y: height / 2 }, end: { x: width, y: height / 2 }, stops }
+}
+
+/**
+ * Switch between linear and radial, keeping the stops. A linear gradient becomes a
+ * radial one around its midpoint, and back.
+ */
+export function setGradientType(spec: GradientSpec, type: GradientType): GradientSpec {
+  if (spec.type === type) return spec
+
+  const { start, end } = spec
+  if (type === 'radial') {
+    const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }
+    return { ...spec, type, start: center, end }
+  }
+
+  return { ...spec, type, start: { x: 2 * start.x - end.x, y: 2 * start.y - end.y }, end }
+}
+
+/**
+ * Direction of a linear gradient in degrees, 0 pointing right and 90 pointing down
+ */
+export function getGradientAngle(spec: GradientSpec): number {
+  const angle = (Math.atan2(spec.end.y - spec.start.y, spec.end.x - spec.start.x) * 180) / Math.PI
+  return (angle + 360) % 360
+}
+
+/**
+ * Turn the gradient around its midpoint, keeping its length
+ */
+export function setGradientAngle(spec: GradientSpec, angle: number): GradientSpec {
+  const { start, end } = spec
+  const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }
+  const half = Math.hypot(end.x - start.x, end.y - start.y) / 2
+  const dx = Math.cos((angle * Math.PI) / 180) * half
+  const dy = Math.sin((angle * Math.PI) / 180) * half
+
+  return {
+    ...spec,
+    start: { x: center.x - dx, y: center.y - dy },
+    end: { x: center.x + dx, y: center.y + dy },
+  }
+}
+
+/**
+ * Point on the gradient line at an offset
+ */
+export function getGradientPoint(spec: GradientSpec, offset: number): XY {
+  return {
+    x: lerp(spec.start.x, spec.end.x, offset),
+    y: lerp(spec.start.y, spec.end.y, offset),
+  }
+}
+
+/**
+ * Offset of a point projected onto the gradient line, clamped to [0, 1]
+ */
+export function getGradientOffset(spec: GradientSpec, point: XY): number {
+  const dx = spec.end.x - spec.start.x
+  const dy = spec.end.y - spec.start.y
+  const lengthSquared = dx * dx + dy * dy
+  if (lengthSquared === 0) return 0
+
+  const t = ((point.x - spec.start.x) * dx + (point.y - spec.start.y) * dy) / lengthSquared
+  return Math.min(1, Math.max(0, t))
+}
+
+/**
+ * Colour of the gradient at an offset, as hex
+ */
+export function getGradientColorAt(stops: ColorStop[], offset: number): string {
+  const sorted = sortStops(stops)
+  const after = sorted.findIndex((stop) => stop.offset >= offset)
+  if (after === 0) return toHexColor(sorted[0].color)
+  if (after === -1) return toHexColor(sorted[sorted.length - 1].color)
+
+  const from = sorted[after - 1]
+  const to = sorted[after]
+  const t = to.offset === from.offset ? 0 : (offset - from.offset) / (to.offset - from.offset)
+  const a = new Color(from.color).getSource()
+  const b = new Color(to.color).getSource()
+  const mixed = new Color([
+    Math.round(lerp(a[0], b[0], t)),
+    Math.round(lerp(a[1], b[1], t)),
+    Math.round(lerp(a[2], b[2], t)),
+    1,
+  ])
+  return `#${mixed.toHex().toLowerCase()}`
+}
+
+/**
+ * Add a stop, coloured like the gradient at that offset
+ *
+ * @returns The updated gradient and the index of the new stop
+ */
+export function addGradientStop(spec: GradientSpec, offset: number): { spec: GradientSpec; index: number } {
+  const stop = { offset, color: getGradientColorAt(spec.stops, offset) }
+  const stops = sortStops([...spec.stops, stop])
+  return { spec: { ...spec, stops }, index: stops.indexOf(stop) }
+}
+
+/**
+ * Change a stop, keeping the stops sorted
+ *
+ * @returns The updated gradient and the new index of the stop
+ */
+export function updateGradientStop(
+  spec: GradientSpec,
+  index: number,
+  changes: Partial<ColorStop>
+): { spec: GradientSpec; index: number } {
+  if (!spec.stops[index]) return { spec, index }
+
+  const stop = { ...spec.stops[index], ...changes }
+  if (changes.offset !== undefined) {
+    stop.offset = Math.min(1, Math.max(0, changes.offset))
+  }
+  const stops = sortStops(spec.stops.map((existing, i) => (i === index ? stop : existing)))
+  return { spec: { ...spec, stops }, index: stops.indexOf(stop) }
+}
+
+/**
+ * Remove a stop. A gradient keeps at least two stops.
+ */
+export function removeGradientStop(spec: GradientSpec, index: number): GradientSpec {
+  if (spec.stops.length <= 2 || !spec.stops[index]) return spec
+  return { ...spec, stops: spec.stops.filter((_, i) => i !== index) }
+}
+
+/**
+ * CSS background showing the stops from left to right, for previews
+ */
+export function getGradientPreviewCSS(stops: ColorStop[]): string {
+  const colors = sortStops(stops).map(({ offset, color, opacity }) => {
+    const cssColor = opacity === undefined || opacity === 1 ? color : new Color(color).setAlpha(opacity).toRgba()
+    return `${cssColor} ${Math.round(offset * 1000) / 10}%`
+  })
+  return `linear-gradient(to right, ${colors.join(', ')})`
+}
+
+/**
+ * Give the fill and stroke gradients of an object ids starting with a prefix, so SVG
+ * exports that contain the object several times get distinct gradient definitions
+ */
+export function assignGradientIds(obj: FabricObject, prefix: string): void {
+  for (const property of ['fill', 'stroke'] as const) {
+    const paint = obj[property]
+    if (isGradient(paint)) {
+      // Fabric only reads the id when writing SVG (as SVGID_<id>)
+      Object.assign(paint, { id: `${prefix}-${property}` })
+    }
+  }
+  // Imported SVGs keep their gradients on the elements inside the group
+  if (obj instanceof Group) {
+    obj.getObjects().forEach((child, i) => assignGradientIds(child, `${prefix}-${i}`))
+  }
+}
+
+/**
+ * Any CSS colour as #rrggbb (transparency is dropped)
+ */
+export function toHexColor(color: string): string {
+  return `#${new Color(color).toHex().toLowerCase()}`
+}
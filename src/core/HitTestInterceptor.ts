@@ -2,31 +2,45 @@ import type { Point } from 'fabric'
 import type { ExtendedFabricObject } from '../types/FabricExtensions'
 import type { CanonicalObjectStore } from './CanonicalObjectStore'
 import type { LayerManager } from './LayerManager'
+import type { TileSize } from '../types/TileSize'
+import { getObjectRadialMatrices } from './RadialSymmetry'
+import {
+  getInstanceTransforms,
+  invertMatrix,
+  multiplyMatrices,
+  transformPoint,
+  STRAIGHT_REPEAT,
+  type InstanceTransform,
+  type RepeatLayout,
+  type WallpaperGroup,
+} from './WallpaperSymmetry'
 
 /**
- * Result of a hit test, containing the canonical object and the tile offset where it was hit
+ * Result of a hit test, containing the canonical object and the instance where it was hit
  */
 export interface HitResult {
   canonicalObject: ExtendedFabricObject
   tileOffset: [number, number]
+  operationIndex: number // Symmetry operation of the hit instance (0 = identity)
+  radialIndex: number // Radial copy of the object that was hit (0 = the object itself)
 }
 
 /**
- * Tile offsets for 5x5 grid hit testing
- * These are the offsets from the canonical object position to check for hits
- * We use 5x5 to match the virtual rendering grid
+ * Instance transform with its inverse precomputed for mapping clicks back to the canonical object
  */
-function generateTileOffsets(): [number, number][] {
-  const offsets: [number, number][] = []
-  for (let y = -2; y <= 2; y++) {
-    for (let x = -2; x <= 2; x++) {
-      offsets.push([x, y])
-    }
-  }
-  return offsets
+interface HitTestInstance extends InstanceTransform {
+  inverse: InstanceTransform['matrix']
 }
 
-const TILE_OFFSETS = generateTileOffsets() // 25 positions
+/**
+ * One rendered copy of a specific object: an instance combined with a radial copy
+ */
+interface HitTestCopy {
+  instance: HitTestInstance
+  radialIndex: number
+  matrix: InstanceTransform['matrix']
+  inverse: InstanceTransform['matrix']
+}
 
 /**
  * Hit Test Interceptor - detects which tile instance was clicked.
@@ -36,16 +50,22 @@ const TILE_OFFSETS = generateTileOffsets() // 25 positions
  * - Canvas is 768x768 (3x3 visible grid of 256px tiles)
  * - Canonical objects are stored in center tile (256-512 range)
  * - Virtual copies are rendered in a 5x5 grid (±2 tiles from center)
- * - Hit testing checks all 25 positions to find clicked objects
+ * - Hit testing checks every rendered instance (25 positions times the number of
+ *   symmetry operations, times the radial copies of objects drawn in radial mode)
+ *   by mapping the click back into canonical coordinates
  */
 export class HitTestInterceptor {
-  private tileSize: number
+  private tileSize: TileSize
+  private symmetryGroup: WallpaperGroup = 'p1'
+  private repeatLayout: RepeatLayout = STRAIGHT_REPEAT
+  private instances: HitTestInstance[] = []
   private canonicalStore: CanonicalObjectStore
   private layerManager: LayerManager | null = null
 
-  constructor(tileSize: number, canonicalStore: CanonicalObjectStore) {
+  constructor(tileSize: TileSize, canonicalStore: CanonicalObjectStore) {
     this.tileSize = tileSize
     this.canonicalStore = canonicalStore
+    this.updateInstances()
   }
 
   /**
@@ -58,8 +78,32 @@ export class HitTestInterceptor {
   /**
    * Update the tile size (when resolution changes)
    */
-  setTileSize(tileSize: number): void {
+  setTileSize(tileSize: TileSize): void {
     this.tileSize = tileSize
+    this.updateInstances()
+  }
+
+  /**
+   * Update the wallpaper group (changes which instances exist)
+   */
+  setSymmetryGroup(group: WallpaperGroup): void {
+    this.symmetryGroup = group
+    this.updateInstances()
+  }
+
+  /**
+   * Update the repeat layout (shifts where the tile instances sit)
+   */
+  setRepeatLayout(layout: RepeatLayout): void {
+    this.repeatLayout = layout
+    this.updateInstances()
+  }
+
+  private updateInstances(): void {
+    this.instances = getInstanceTransforms(this.symmetryGroup, this.tileSize, this.repeatLayout).map((instance) => ({
+      ...instance,
+      inverse: invertMatrix(instance.matrix),
+    }))
   }
 
   /**
@@ -74,28 +118,16 @@ export class HitTestInterceptor {
     const candidates: Array<{ result: HitResult; area: number }> = []
     const objects = this.canonicalStore.getAll()
 
-    // Determine which tile was clicked (0, 1, or 2 for each axis)
-    const clickedTileX = Math.floor(point.x / this.tileSize)
-    const clickedTileY = Math.floor(point.y / this.tileSize)
-
-    // Create prioritized order: check clicked tile first, then adjacent
-    const prioritizedOffsets = this.getPrioritizedOffsets(clickedTileX, clickedTileY)
+    // Create prioritized order: check instances near the click first
+    const prioritizedInstances = this.getPrioritizedInstances(point)
 
     for (const obj of objects) {
       if (!this.isInteractable(obj)) continue
 
-      for (const [tx, ty] of prioritizedOffsets) {
-        // Calculate the offset from canonical position
-        const offsetX = tx * this.tileSize
-        const offsetY = ty * this.tileSize
-
-        // Transform click point to check against canonical object
-        // If click is at (100, 100) and we're checking offset [-1, 0],
-        // we add tileSize to x to see if it hits the canonical object
-        const localPoint = {
-          x: point.x - offsetX,
-          y: point.y - offsetY,
-        }
+      for (const copy of this.getObjectCopies(obj, prioritizedInstances)) {
+        // Transform click point back into the canonical object's space
+        // e.g. for a plain offset of [-1, 0] this adds the tile width to x
+        const localPoint = transformPoint(copy.inverse, point)
 
         // Quick bounding box check first (cheap)
         if (obj.containsPoint(localPoint as Point)) {
@@ -103,10 +135,10 @@ export class HitTestInterceptor {
           if (this.isPixelOpaqueAtPoint(obj, localPoint as Point)) {
             const bounds = obj.getBoundingRect()
             candidates.push({
-              result: { canonicalObject: obj, tileOffset: [tx, ty] },
+              result: this.toHitResult(obj, copy),
               area: bounds.width * bounds.height,
             })
-            break // Only count each object once (use first tile position hit)
+            break // Only count each object once (use first instance hit)
           }
         }
       }
@@ -120,23 +152,49 @@ export class HitTestInterceptor {
   }
 
   /**
-   * Get tile offsets ordered by likelihood of containing the click.
-   * The clicked tile's offset is checked first.
+   * Get instances ordered by likelihood of containing the click.
+   * Instances whose copy of the canonical tile center lies closest to the click come first.
+   */
+  private getPrioritizedInstances(point: Point): HitTestInstance[] {
+    const tileCenter = { x: this.tileSize.width * 1.5, y: this.tileSize.height * 1.5 }
+
+    const distanceTo = (instance: HitTestInstance) => {
+      const center = transformPoint(instance.matrix, tileCenter)
+      return Math.abs(center.x - point.x) + Math.abs(center.y - point.y)
+    }
+
+    return [...this.instances].sort((a, b) => distanceTo(a) - distanceTo(b))
+  }
+
+  /**
+   * Combine the instances with the object's radial copies, keeping the instance order
    */
-  private getPrioritizedOffsets(clickedTileX: number, clickedTileY: number): [number, number][] {
-    // The canonical objects are in the center tile (index 1)
-    // So offset [0,0] corresponds to center tile
-    // Clicking in tile 0 means we need offset -1 to reach canonical
-    // Clicking in tile 2 means we need offset +1 to reach canonical
-    const targetOffsetX = clickedTileX - 1
-    const targetOffsetY = clickedTileY - 1
-
-    // Sort by distance from target offset
-    return [...TILE_OFFSETS].sort((a, b) => {
-      const distA = Math.abs(a[0] - targetOffsetX) + Math.abs(a[1] - targetOffsetY)
-      const distB = Math.abs(b[0] - targetOffsetX) + Math.abs(b[1] - targetOffsetY)
-      return distA - distB
-    })
+  private getObjectCopies(obj: ExtendedFabricObject, instances: HitTestInstance[]): HitTestCopy[] {
+    const radialMatrices = getObjectRadialMatrices(obj.tiledMetadata?.radialSymmetry, obj.calcTransformMatrix())
+    if (radialMatrices.length === 1) {
+      return instances.map((instance) => ({
+        instance,
+        radialIndex: 0,
+        matrix: instance.matrix,
+        inverse: instance.inverse,
+      }))
+    }
+
+    return instances.flatMap((instance) =>
+      radialMatrices.map((radialMatrix, radialIndex) => {
+        const matrix = multiplyMatrices(instance.matrix, radialMatrix)
+        return { instance, radialIndex, matrix, inverse: invertMatrix(matrix) }
+      })
+    )
+  }
+
+  private toHitResult(obj: ExtendedFabricObject, copy: HitTestCopy): HitResult {
+    return {
+      canonicalObject: obj,
+      tileOffset: copy.instance.tileOffset,
+      operationIndex: copy.instance.operationIndex,
+      radialIndex: copy.radialIndex,
+    }
   }
 
   /**
@@ -153,14 +211,8 @@ export class HitTestInterceptor {
     for (const obj of objects) {
       if (!this.isInteractable(obj)) continue
 
-      for (const [tx, ty] of TILE_OFFSETS) {
-        const offsetX = tx * this.tileSize
-        const offsetY = ty * this.tileSize
-
-        const localPoint = {
-          x: point.x - offsetX,
-          y: point.y - offsetY,
-        }
+      for (const copy of this.getObjectCopies(obj, this.instances)) {
+        const localPoint = transformPoint(copy.inverse, point)
 
         // Quick bounding box check first (cheap)
         if (obj.containsPoint(localPoint as Point)) {
@@ -168,10 +220,10 @@ export class HitTestInterceptor {
           if (this.isPixelOpaqueAtPoint(obj, localPoint as Point)) {
             const bounds = obj.getBoundingRect()
             candidates.push({
-              result: { canonicalObject: obj, tileOffset: [tx, ty] },
+              result: this.toHitResult(obj, copy),
               area: bounds.width * bounds.height,
             })
-            // Only count each object once (use first tile position hit)
+            // Only count each object once (use first instance hit)
             break
           }
         }
@@ -201,16 +253,18 @@ export class HitTestInterceptor {
     for (const obj of objects) {
       if (!this.isInteractable(obj)) continue
 
-      for (const [tx, ty] of TILE_OFFSETS) {
-        const offsetX = tx * this.tileSize
-        const offsetY = ty * this.tileSize
+      // Object corners in canonical space
+      const corners = obj.getCoords()
 
-        // Get object bounds at this tile position
-        const bounds = obj.getBoundingRect()
-        const objLeft = bounds.left + offsetX
-        const objTop = bounds.top + offsetY
-        const objRight = objLeft + bounds.width
-        const objBottom = objTop + bounds.height
+      for (const copy of this.getObjectCopies(obj, this.instances)) {
+        // Get axis-aligned bounds of the object at this instance
+        const transformed = corners.map((corner) => transformPoint(copy.matrix, corner))
+        const xs = transformed.map((p) => p.x)
+        const ys = transformed.map((p) => p.y)
+        const objLeft = Math.min(...xs)
+        const objTop = Math.min(...ys)
+        const objRight = Math.max(...xs)
+        const objBottom = Math.max(...ys)
 
         // Check if object is fully contained within selection rectangle
         const isFullyContained =
@@ -220,10 +274,7 @@ export class HitTestInterceptor {
           objBottom <= bottomRight.y
 
         if (isFullyContained) {
-          results.push({
-            canonicalObject: obj,
-            tileOffset: [tx, ty],
-          })
+          results.push(this.toHitResult(obj, copy))
           // Only count each object once
           break
         }
@@ -281,13 +332,13 @@ export class HitTestInterceptor {
     // Check basic visibility
     if (obj.visible === false) return false
 
-    // Check layer state if layer manager is available
-    if (this.layerManager && obj.layerId) {
-      const layer = this.layerManager.getLayer(obj.layerId)
-      if (layer) {
-        if (!layer.visible) return false
-        if (layer.locked) return false
-      }
+    // Check layer state (including its folders) if layer manager is available
+    const layer = obj.layerId ? this.layerManager?.getLayer(obj.layerId) : undefined
+    if (this.layerManager && layer) {
+      // Reference layers are only there to trace over
+      if (layer.reference) return false
+      if (!this.layerManager.isLayerVisible(layer.id)) return false
+      if (this.layerManager.isLayerLocked(layer.id)) return false
     }
 
     return true
@@ -4,6 +4,65 @@ import { generateUniqueId } from '../utils/idGenerator'
 import { extractSVGInnerContent } from '../utils/svgUtils'
 import type { CanonicalObjectStore } from './CanonicalObjectStore'
 
+/**
+ * How a layer is composited onto the layers below it - the CSS mix-blend-mode values,
+ * which canvas also supports as composite operations
+ */
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity'
+
+export const BLEND_MODES: BlendMode[] = [
+  'normal',
+  'multiply',
+  'screen',
+  'overlay',
+  'darken',
+  'lighten',
+  'color-dodge',
+  'color-burn',
+  'hard-light',
+  'soft-light',
+  'difference',
+  'exclusion',
+  'hue',
+  'saturation',
+  'color',
+  'luminosity',
+]
+
+export function isBlendMode(value: unknown): value is BlendMode {
+  return BLEND_MODES.includes(value as BlendMode)
+}
+
+/**
+ * Image shown on a reference layer, to trace over
+ */
+export interface ReferenceImage {
+  src: string  // Image data URL
+  tiled: boolean  // Repeated in every tile, or shown once over the centre tile
+}
+
+export function isReferenceImage(value: unknown): value is ReferenceImage {
+  if (!value || typeof value !== 'object') return false
+  const { src, tiled } = value as Record<string, unknown>
+  return typeof src === 'string' && typeof tiled === 'boolean'
+}
+
 export interface Layer {
   id: string
   name: string
@@ -12,8 +71,40 @@ export interface Layer {
   order: number
   backgroundColor?: string  // hex color, undefined = transparent
   backgroundAlpha?: number  // 0-1, default 1
+  opacity?: number  // 0-1, default 1
+  blendMode?: BlendMode  // default 'normal'
+  parentId?: string  // Folder containing the layer, undefined = top level
+  isFolder?: boolean  // Folders hold layers instead of objects
+  collapsed?: boolean  // Folders only - children hidden in the layer panel
+  reference?: ReferenceImage  // Reference layers hold an image instead of objects
 }
 
+/**
+ * Where a layer sits in the layer tree - a list of these in order describes the whole tree
+ */
+export interface LayerPlacement {
+  id: string
+  parentId?: string
+}
+
+/**
+ * Whether objects can be drawn on a layer - not on folders and reference layers
+ */
+export function holdsObjects(layer: Layer): boolean {
+  return !layer.isFolder && !layer.reference
+}
+
+/**
+ * Layers and layer folders.
+ *
+ * Folders are layers without objects that other layers (and folders) point to with their
+ * parentId. `order` runs over the whole tree depth-first, so a folder is directly followed
+ * by everything inside it and rendering can keep going through the layers by order.
+ * A layer is only shown when its folders are visible, and locked when any of them is.
+ *
+ * Reference layers show an image to trace over at the layer's opacity. They are drawn on
+ * screen only: they hold no objects, so nothing on them can be selected or exported.
+ */
 export class LayerManager {
   private canvas: Canvas
   private layers: Map<string, Layer> = new Map()
@@ -33,6 +124,8 @@ export class LayerManager {
       visible: true,
       locked: false,
       order: 0,
+      opacity: 1,
+      blendMode: 'normal',
     })
   }
 
@@ -76,24 +169,80 @@ export class LayerManager {
       visible: true,
       locked: false,
       order,
+      opacity: 1,
+      blendMode: 'normal',
     }
     this.layers.set(layerId, layer)
     return layer
   }
 
   /**
-   * Delete a layer and all its objects
+   * Create a new, empty folder at the top of the layer stack
+   */
+  createFolder(name?: string): Layer {
+    const folderCount = this.getLayers().filter((layer) => layer.isFolder).length
+    const folder: Layer = {
+      id: generateUniqueId('folder'),
+      name: name || `Folder ${folderCount + 1}`,
+      visible: true,
+      locked: false,
+      order: this.layers.size,
+      isFolder: true,
+      collapsed: false,
+    }
+    this.layers.set(folder.id, folder)
+    return folder
+  }
+
+  /**
+   * Create a reference layer showing an image, at the bottom of the layer stack
+   */
+  createReferenceLayer(src: string, name?: string): Layer {
+    const referenceCount = this.getLayers().filter((layer) => layer.reference).length
+    const layer: Layer = {
+      id: generateUniqueId('layer'),
+      name: name || `Reference ${referenceCount + 1}`,
+      visible: true,
+      locked: false,
+      order: -1,
+      opacity: 0.5,
+      blendMode: 'normal',
+      reference: { src, tiled: false },
+    }
+    this.layers.set(layer.id, layer)
+    this.normalizeOrder()
+    this.canvas.requestRenderAll()
+    return layer
+  }
+
+  /**
+   * Add layers back, e.g. when undoing their removal. Their order places them among the
+   * layers of their folders.
+   */
+  addLayers(layers: Layer[]): void {
+    layers.forEach((layer) => this.layers.set(layer.id, layer))
+    this.normalizeOrder()
+    layers.forEach((layer) => this.applyLayerState(layer.id))
+    this.canvas.requestRenderAll()
+  }
+
+  /**
+   * Delete a layer and all its objects - for folders, everything inside them
    */
   deleteLayer(layerId: string): void {
-    if (layerId === this.defaultLayerId) {
+    const deleted = [layerId, ...this.getDescendants(layerId).map(({ id }) => id)]
+    if (deleted.includes(this.defaultLayerId)) {
       throw new Error('Cannot delete default layer')
     }
 
-    // Remove all objects on this layer
-    const objects = this.getObjectsByLayer(layerId)
-    objects.forEach((obj) => this.canvas.remove(obj))
+    for (const id of deleted) {
+      // Remove all objects on this layer
+      const objects = this.getObjectsByLayer(id)
+      objects.forEach((obj) => this.canvas.remove(obj))
 
-    this.layers.delete(layerId)
+      this.layers.delete(id)
+    }
+    this.normalizeOrder()
     this.canvas.requestRenderAll()
   }
 
@@ -120,22 +269,15 @@ export class LayerManager {
 
     Object.assign(layer, updates)
 
-    // Apply visibility changes
+    // Apply visibility changes, to everything inside folders too - locking is checked
+    // when hit-testing
     if (updates.visible !== undefined) {
-      const objects = this.getObjectsByLayer(layerId)
-      objects.forEach((obj) => {
-        obj.visible = updates.visible!
-      })
+      this.applyLayerState(layerId)
       this.canvas.requestRenderAll()
     }
 
-    // Apply lock changes
-    if (updates.locked !== undefined) {
-      const objects = this.getObjectsByLayer(layerId)
-      objects.forEach((obj) => {
-        obj.selectable = !updates.locked
-        obj.evented = !updates.locked
-      })
+    // Layers are composited while rendering
+    if (updates.opacity !== undefined || updates.blendMode !== undefined) {
       this.canvas.requestRenderAll()
     }
   }
@@ -152,11 +294,175 @@ export class LayerManager {
     layers.forEach((layer, index) => {
       layer.order = index
     })
+    // Keep folder contents together
+    this.normalizeOrder()
 
     // Trigger re-render to update visual layer order
     this.canvas.requestRenderAll()
   }
 
+  /**
+   * Move a layer (with everything inside it, for folders) one place up or down among
+   * the layers in the same folder
+   */
+  moveLayer(layerId: string, direction: -1 | 1): void {
+    const layer = this.layers.get(layerId)
+    if (!layer) return
+
+    const siblings = this.getChildren(layer.parentId ?? null)
+    const index = siblings.indexOf(layer)
+    const neighbour = siblings[index + direction]
+    if (!neighbour) return
+
+    ;[layer.order, neighbour.order] = [neighbour.order, layer.order]
+    this.normalizeOrder()
+    this.canvas.requestRenderAll()
+  }
+
+  /**
+   * Move a layer into a folder (null for the top level), after one of the folder's
+   * layers or at its end. Folders can't be moved into themselves.
+   */
+  moveLayerToFolder(layerId: string, folderId: string | null, afterId?: string): void {
+    const layer = this.layers.get(layerId)
+    if (!layer) return
+    if (folderId !== null) {
+      const folder = this.layers.get(folderId)
+      if (!folder?.isFolder) return
+      if (folderId === layerId || this.getDescendants(layerId).includes(folder)) {
+        throw new Error('Cannot move a folder into itself')
+      }
+    }
+
+    const after = afterId ? this.layers.get(afterId) : undefined
+    layer.parentId = folderId ?? undefined
+    // Sibling order only has to sort between the neighbours - normalizeOrder renumbers it
+    layer.order = after && (after.parentId ?? null) === folderId ? after.order + 0.5 : Number.MAX_SAFE_INTEGER
+    this.normalizeOrder()
+
+    this.applyLayerState(layerId)
+    this.canvas.requestRenderAll()
+  }
+
+  /**
+   * Order and folder of every layer, to restore with setArrangement
+   */
+  getArrangement(): LayerPlacement[] {
+    return this.getLayers().map(({ id, parentId }) => ({ id, parentId }))
+  }
+
+  /**
+   * Put the layers back in an order and their folders, e.g. when undoing a move
+   */
+  setArrangement(arrangement: LayerPlacement[]): void {
+    arrangement.forEach(({ id, parentId }, index) => {
+      const layer = this.layers.get(id)
+      if (layer) {
+        layer.parentId = parentId
+        layer.order = index
+      }
+    })
+    this.normalizeOrder()
+
+    // Moving in or out of folders changes what is shown
+    this.getLayers().forEach((layer) => this.applyLayerState(layer.id))
+    this.canvas.requestRenderAll()
+  }
+
+  /**
+   * Layers and folders directly inside a folder (null for the top level), in order
+   */
+  getChildren(folderId: string | null): Layer[] {
+    return this.getLayers().filter((layer) => this.getParentId(layer) === folderId)
+  }
+
+  /**
+   * Everything inside a folder, at any depth, in order
+   */
+  getDescendants(folderId: string): Layer[] {
+    return this.getChildren(folderId).flatMap((child) => [child, ...this.getDescendants(child.id)])
+  }
+
+  /**
+   * Folders containing a layer, innermost first
+   */
+  getAncestors(layerId: string): Layer[] {
+    const ancestors: Layer[] = []
+    let parentId = this.getParentId(this.layers.get(layerId))
+    while (parentId) {
+      const parent = this.layers.get(parentId)!
+      ancestors.push(parent)
+      parentId = this.getParentId(parent)
+    }
+    return ancestors
+  }
+
+  /**
+   * Whether a layer is shown - it and all of its folders are visible
+   */
+  isLayerVisible(layerId: string): boolean {
+    const layer = this.layers.get(layerId)
+    return !!layer && layer.visible && this.getAncestors(layerId).every((folder) => folder.visible)
+  }
+
+  /**
+   * Whether a layer is locked - by itself or by one of its folders
+   */
+  isLayerLocked(layerId: string): boolean {
+    const layer = this.layers.get(layerId)
+    return !!layer && (layer.locked || this.getAncestors(layerId).some((folder) => folder.locked))
+  }
+
+  /**
+   * Layer that a layer merges down into: the one just beneath it in the same folder.
+   * Folders, reference layers and the default layer don't merge.
+   */
+  getMergeTarget(layerId: string): Layer | undefined {
+    const layer = this.layers.get(layerId)
+    if (!layer || !holdsObjects(layer) || layerId === this.defaultLayerId) return undefined
+
+    const siblings = this.getChildren(this.getParentId(layer))
+    const below = siblings[siblings.indexOf(layer) - 1]
+    return below && holdsObjects(below) ? below : undefined
+  }
+
+  /**
+   * Parent folder id, ignoring parents that don't exist (anymore)
+   */
+  private getParentId(layer: Layer | undefined): string | null {
+    return layer?.parentId && this.layers.get(layer.parentId)?.isFolder ? layer.parentId : null
+  }
+
+  /**
+   * Renumber `order` depth-first, keeping the order of the layers inside each folder
+   */
+  private normalizeOrder(): void {
+    const sorted = Array.from(this.layers.values()).sort((a, b) => a.order - b.order)
+    const visit = (parentId: string | null): Layer[] =>
+      sorted
+        .filter((layer) => this.getParentId(layer) === parentId)
+        .flatMap((layer) => [layer, ...(layer.isFolder ? visit(layer.id) : [])])
+
+    visit(null).forEach((layer, index) => {
+      layer.order = index
+    })
+  }
+
+  /**
+   * Show or hide the objects of a layer, or of every layer inside a folder, following
+   * the layer and its folders. Also needed after moving objects between layers.
+   * Canonical objects stay unselectable - they are selected through proxies, and
+   * HitTestInterceptor leaves out locked and hidden layers.
+   */
+  applyLayerState(layerId: string): void {
+    for (const id of [layerId, ...this.getDescendants(layerId).map((layer) => layer.id)]) {
+      const visible = this.isLayerVisible(id)
+      this.getObjectsByLayer(id).forEach((obj) => {
+        obj.visible = visible
+      })
+    }
+  }
+
   /**
    * Get all objects on a specific layer
    */
@@ -394,6 +700,8 @@ export class LayerManager {
       visible: true,
       locked: false,
       order: 0,
+      opacity: 1,
+      blendMode: 'normal',
     })
 
     this.canvas.requestRenderAll()
@@ -411,10 +719,12 @@ export class LayerManager {
     layersData.forEach((layer) => {
       this.layers.set(layer.id, layer)
     })
+    this.normalizeOrder()
 
-    // Set default layer ID to the first layer if available
-    if (layersData.length > 0) {
-      this.defaultLayerId = layersData[0].id
+    // Set default layer ID to the first layer holding objects if available
+    const firstLayer = this.getLayers().find(holdsObjects)
+    if (firstLayer) {
+      this.defaultLayerId = firstLayer.id
     }
   }
 }
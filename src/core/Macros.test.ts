@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import { Rect } from 'fabric'
+import type { CommandDependencies } from './commands/types'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import { CanonicalObjectStore } from './CanonicalObjectStore'
+import { UndoRedoManager } from './UndoRedoManager'
+import { CreateCommand } from './commands/CreateCommand'
+import { TransformCommand } from './commands/TransformCommand'
+import { RecolorCommand } from './commands/RecolorCommand'
+import { MultiPropertyCommand } from './commands/PropertyCommand'
+import { reorderEntities } from './commands/ZOrderCommand'
+import { captureObjectSnapshot } from './commands/utils'
+import { planRecolor } from './Palette'
+import { isMacro, MacroRecorder, replayMacro, type MacroContext } from './Macros'
+
+const setup = (fills: Record<string, string>) => {
+  const store = new CanonicalObjectStore()
+  const deps = {
+    canvas: { add: () => {}, remove: () => {}, requestRenderAll: () => {} },
+    canonicalStore: store,
+    layerManager: null,
+    selectionProxyManager: null,
+    tilingEngine: null,
+  } as unknown as CommandDependencies
+  const manager = new UndoRedoManager(deps)
+
+  const add = (id: string, fill: string, left = 0) => {
+    const rect = new Rect({ left, top: 0, width: 10, height: 10, fill }) as ExtendedFabricObject
+    rect.tiledMetadata = { isMirror: false, mirrorGroupId: id, tilePosition: [0, 0] }
+    store.add(rect, id)
+    return rect
+  }
+  Object.entries(fills).forEach(([id, fill], index) => add(id, fill, index * 100))
+
+  // Like the duplicate action: the copy is placed, then its creation recorded
+  const context: MacroContext = {
+    undoRedoManager: manager,
+    palette: [],
+    setPalette: () => {},
+    duplicate: async (id, offset) => {
+      const source = store.get(id)!
+      const copyId = `${id}-copy`
+      const copy = add(copyId, source.fill as string, source.left + offset.x)
+      copy.set({ top: source.top + offset.y, angle: source.angle })
+      manager.record(
+        new CreateCommand(copyId, 'layer', store.getZOrderIndex(copyId), copy, deps, 'Duplicate', {
+          mirrorGroupId: id,
+          offset,
+        })
+      )
+      return copyId
+    },
+  }
+
+  const rotate = (id: string, degrees: number) => {
+    const before = captureObjectSnapshot(store.get(id)!, store)
+    const after = { ...before, properties: { ...before.properties, angle: before.properties.angle + degrees } }
+    manager.execute(new TransformCommand(id, before, after, deps))
+  }
+  const recolor = (from: string, to: string) =>
+    manager.execute(new RecolorCommand(from, to, planRecolor(store.getAll(), from, to), [], [], () => {}, deps))
+
+  return { store, deps, manager, context, rotate, recolor }
+}
+
+describe('MacroRecorder', () => {
+  it('should record steps relative to the selection and the duplicates made', async () => {
+    const { store, deps, manager, context, rotate, recolor } = setup({ a: '#ff0000', other: '#ff0000' })
+    const recorder = new MacroRecorder(['a'])
+    manager.onCommandAdded((command) => recorder.add(command))
+
+    const copy = (await context.duplicate('a', { x: 20, y: 20 }))!
+    rotate(copy, 30)
+    rotate(copy, 15)
+    rotate('other', 90)
+    recolor('#ff0000', '#00ff00')
+    await manager.transaction('Send to back', () =>
+      reorderEntities([copy], 'back', deps, (command) => manager.execute(command))
+    )
+
+    const macro = recorder.finish(' Rotated copy ')
+    expect(macro.name).toBe('Rotated copy')
+    expect(macro.steps.map(({ type, target }) => [type, target])).toEqual([
+      ['duplicate', 0],
+      ['transform', 1],
+      ['recolor', 0],
+      ['recolor', 1],
+      ['zorder', 1],
+    ])
+    expect(macro.steps[1]).toMatchObject({ rotate: 45, move: { x: 0, y: 0 }, scale: { x: 1, y: 1 } })
+    expect(recorder.getSkipped()).toEqual(['Transform object'])
+    expect(isMacro(JSON.parse(JSON.stringify(macro)))).toBe(true)
+    expect(store.getZOrderIndex(copy)).toBe(0)
+  })
+
+  it('should record property changes one after the other as one step', async () => {
+    const { store, deps, manager } = setup({ a: '#ff0000' })
+    const recorder = new MacroRecorder(['a'])
+    manager.onCommandAdded((command) => recorder.add(command))
+
+    // Like dragging the opacity slider
+    manager.execute(new MultiPropertyCommand('a', { opacity: 1 }, { opacity: 0.8 }, deps))
+    manager.execute(new MultiPropertyCommand('a', { opacity: 0.8 }, { opacity: 0.5 }, deps))
+    manager.execute(new MultiPropertyCommand('a', { fill: '#ff0000' }, { fill: '#0000ff' }, deps))
+
+    expect(recorder.getSteps()).toEqual([{ type: 'property', target: 0, values: { opacity: 0.5, fill: '#0000ff' } }])
+    expect(manager.getStackSizes().undo).toBe(2)
+    await manager.undo()
+    await manager.undo()
+    expect(store.get('a')).toMatchObject({ opacity: 1, fill: '#ff0000' })
+  })
+})
+
+describe('replayMacro', () => {
+  it('should replay on each selected entity as one undo step', async () => {
+    const { store, deps, manager, context, rotate } = setup({ a: '#ff0000', b: '#ff0000', c: '#0000ff', d: '#ff0000' })
+    const recorder = new MacroRecorder(['a'])
+    const unsubscribe = manager.onCommandAdded((command) => recorder.add(command))
+    await manager.transaction('Duplicate', () => context.duplicate('a', { x: 20, y: 20 }))
+    rotate('a-copy', 45)
+    const changes = planRecolor([store.get('a-copy')!], '#ff0000', '#00ff00')
+    manager.execute(new RecolorCommand('#ff0000', '#00ff00', changes, [], [], () => {}, deps))
+    reorderEntities(['a-copy'], 'back', deps, (command) => manager.execute(command))
+    unsubscribe()
+    const macro = recorder.finish('Rotated copy')
+    const undoSteps = manager.getStackSizes().undo
+
+    const result = await replayMacro(macro, ['d', 'b'], context)
+
+    expect(result).toEqual(['b', 'b-copy', 'd', 'd-copy'])
+    expect(store.get('b-copy')).toMatchObject({ left: 120, top: 20, angle: 45, fill: '#00ff00' })
+    expect(store.get('b')!.fill).toBe('#ff0000')
+    // Sent back together, in the order they had
+    expect(store.getAll().slice(0, 3).map((obj) => obj.tiledMetadata?.mirrorGroupId)).toEqual(['b-copy', 'd-copy', 'a-copy'])
+    expect(manager.getStackSizes().undo).toBe(undoSteps + 1)
+    expect(manager.getUndoDescription()).toBe('Rotated copy')
+
+    await manager.undo()
+    expect(store.has('b-copy')).toBe(false)
+    expect(store.has('d-copy')).toBe(false)
+  })
+
+  it('should need the selection the macro was recorded on', async () => {
+    const { context } = setup({ a: '#ff0000', b: '#ff0000' })
+    const macro = { ...new MacroRecorder(['a', 'b']).finish('Pair'), steps: [] }
+
+    await expect(replayMacro(macro, ['a'], context)).rejects.toThrow('"Pair" needs 2 selected entities')
+    await expect(replayMacro({ ...macro, selectionSize: 1 }, [], context)).rejects.toThrow('at least 1')
+  })
+})
+
+describe('isMacro', () => {
+  it('should leave out macros with steps that can not be replayed', () => {
+    const macro = { id: 'macro-1', name: 'Macro', createdAt: '2024-01-01T00:00:00.000Z', selectionSize: 1 }
+    const transform = { type: 'transform', target: 0, move: { x: 1, y: 2 }, rotate: 45, scale: { x: 1, y: 1 }, flipX: false, flipY: true }
+
+    expect(isMacro({ ...macro, steps: [transform, { type: 'zorder', target: 0, operation: 'back' }] })).toBe(true)
+    expect(isMacro({ ...macro, steps: [{ ...transform, move: { x: 1 } }] })).toBe(false)
+    expect(isMacro({ ...macro, steps: [{ ...transform, flipX: 'no' }] })).toBe(false)
+    expect(isMacro({ ...macro, steps: [{ type: 'duplicate', target: 0 }] })).toBe(false)
+    expect(isMacro({ ...macro, steps: [{ type: 'property', target: 0, values: null }] })).toBe(false)
+    expect(isMacro({ ...macro, steps: [{ type: 'recolor', target: 0, from: '#ff0000' }] })).toBe(false)
+    expect(isMacro({ ...macro, steps: [{ type: 'zorder', target: 0, operation: 'up' }] })).toBe(false)
+    expect(isMacro({ ...macro, steps: [{ type: 'delete' }] })).toBe(false)
+  })
+})
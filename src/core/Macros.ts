@@ -0,0 +1,383 @@
+import { generateUniqueId } from '../utils/idGenerator'
+import type { Command, SerializedCommand } from './commands/types'
+import type { UndoRedoManager } from './UndoRedoManager'
+import type { CanonicalObjectStore } from './CanonicalObjectStore'
+import type { DuplicateSource } from './commands/CreateCommand'
+import { BatchCommand } from './commands/BatchCommand'
+import { TransformCommand } from './commands/TransformCommand'
+import { MultiPropertyCommand } from './commands/PropertyCommand'
+import { RecolorCommand } from './commands/RecolorCommand'
+import { DeleteCommand } from './commands/DeleteCommand'
+import { reorderEntities, type ZOrderOperation } from './commands/ZOrderCommand'
+import { captureObjectSnapshot, fromJSONValue } from './commands/utils'
+import { planRecolor } from './Palette'
+
+/**
+ * Macros - editing steps recorded once and replayed on other entities, e.g.
+ * "duplicate, rotate 45°, recolour, send to back".
+ *
+ * While recording, each command done is turned into steps from what it saves (see
+ * Command.serialize). Steps point at entities by their place in the selection the
+ * recording started with rather than by id, and duplicates made while recording are
+ * added after them, so later steps can work on the copies. Commands on other entities,
+ * or ones that can't be repeated on another entity (drawing, path edits...), are left out.
+ */
+
+/**
+ * A recorded step. `target` is the place of the entity in the selection, followed by
+ * the duplicates made so far.
+ */
+export type MacroStep =
+  | { type: 'duplicate'; target: number; offset: { x: number; y: number } }
+  | {
+      type: 'transform'
+      target: number
+      move: { x: number; y: number }
+      rotate: number // Degrees added to the angle
+      scale: { x: number; y: number } // Factors
+      flipX: boolean // Whether the flip is toggled
+      flipY: boolean
+    }
+  | { type: 'property'; target: number; values: Record<string, unknown> } // Saved with toJSONValue
+  | { type: 'recolor'; target: number; from: string; to: string }
+  | { type: 'zorder'; target: number; operation: ZOrderOperation }
+  | { type: 'delete'; target: number }
+
+export interface Macro {
+  id: string
+  name: string
+  createdAt: string // ISO date
+  selectionSize: number // Entities selected when it was recorded
+  steps: MacroStep[]
+}
+
+/**
+ * What a macro needs to replay besides the commands' dependencies
+ */
+export interface MacroContext {
+  undoRedoManager: UndoRedoManager
+  /** Duplicate an entity like the duplicate action, recording the creation; returns the copy */
+  duplicate: (mirrorGroupId: string, offset: { x: number; y: number }) => Promise<string | null>
+  palette: string[]
+  setPalette: (palette: string[]) => void
+}
+
+type TransformStep = Extract<MacroStep, { type: 'transform' }>
+
+interface TransformState {
+  left: number
+  top: number
+  scaleX: number
+  scaleY: number
+  angle: number
+  flipX: boolean
+  flipY: boolean
+}
+
+const ZORDER_OPERATIONS: ZOrderOperation[] = ['front', 'back', 'forward', 'backward']
+
+// Normalize an angle to the 0-360 range, like the placement controls
+const normalizeAngle = (angle: number) => ((angle % 360) + 360) % 360
+
+/**
+ * Turns the commands done while recording into macro steps
+ */
+export class MacroRecorder {
+  private targets: string[]
+  private steps: MacroStep[] = []
+  private skipped: string[] = []
+
+  constructor(private selection: readonly string[]) {
+    this.targets = [...selection]
+  }
+
+  /**
+   * Add the steps of a command just done (see UndoRedoManager.onCommandAdded)
+   */
+  add(command: Command): void {
+    if (command instanceof BatchCommand) {
+      command.getCommands().forEach((child) => this.add(child))
+      return
+    }
+
+    let serialized: SerializedCommand | undefined
+    try {
+      serialized = command.serialize?.()
+    } catch {
+      // Not saveable, so not repeatable either
+    }
+    const steps = serialized && this.toSteps(serialized)
+    if (!steps || steps.length === 0) {
+      this.skipped.push(command.description)
+      return
+    }
+    steps.forEach((step) => this.addStep(step))
+  }
+
+  /**
+   * Steps recorded so far
+   */
+  getSteps(): readonly MacroStep[] {
+    return this.steps
+  }
+
+  /**
+   * Descriptions of the commands left out of the macro
+   */
+  getSkipped(): readonly string[] {
+    return this.skipped
+  }
+
+  /**
+   * The macro recorded, named `name`
+   */
+  finish(name: string): Macro {
+    return {
+      id: generateUniqueId('macro'),
+      name: name.trim() || 'Macro',
+      createdAt: new Date().toISOString(),
+      selectionSize: this.selection.length,
+      steps: [...this.steps],
+    }
+  }
+
+  private toSteps({ type, data }: SerializedCommand): MacroStep[] | null {
+    const target = typeof data.mirrorGroupId === 'string' ? this.targets.indexOf(data.mirrorGroupId) : -1
+
+    switch (type) {
+      case 'transform': {
+        if (target === -1) return null
+        const before = (data.beforeState as { properties: TransformState }).properties
+        const after = (data.afterState as { properties: TransformState }).properties
+        return [
+          {
+            type: 'transform',
+            target,
+            move: { x: after.left - before.left, y: after.top - before.top },
+            rotate: after.angle - before.angle,
+            scale: { x: after.scaleX / before.scaleX, y: after.scaleY / before.scaleY },
+            flipX: after.flipX !== before.flipX,
+            flipY: after.flipY !== before.flipY,
+          },
+        ]
+      }
+      case 'property': {
+        if (target === -1) return null
+        const values =
+          typeof data.propertyName === 'string'
+            ? { [data.propertyName]: data.afterValue }
+            : (data.afterValues as Record<string, unknown>)
+        return [{ type: 'property', target, values }]
+      }
+      case 'recolor': {
+        // Repeated on the recorded entities it changed
+        if (typeof data.from !== 'string' || typeof data.to !== 'string') return null
+        const { from, to } = data
+        const changed = new Set((data.changes as { mirrorGroupId: string }[]).map(({ mirrorGroupId }) => mirrorGroupId))
+        return this.targets.flatMap((id, index) =>
+          changed.has(id) ? [{ type: 'recolor' as const, target: index, from, to }] : []
+        )
+      }
+      case 'zorder':
+        return target === -1 ? null : [{ type: 'zorder', target, operation: data.operation as ZOrderOperation }]
+      case 'delete':
+        return target === -1 ? null : [{ type: 'delete', target }]
+      case 'create': {
+        const source = data.duplicateOf as DuplicateSource | undefined
+        const sourceTarget = source ? this.targets.indexOf(source.mirrorGroupId) : -1
+        if (!source || sourceTarget === -1) return null
+        this.targets.push(data.mirrorGroupId as string)
+        return [{ type: 'duplicate', target: sourceTarget, offset: source.offset }]
+      }
+      default:
+        return null
+    }
+  }
+
+  // Transforms or property changes of the same entity one after the other, e.g. while
+  // dragging, become one step
+  private addStep(step: MacroStep): void {
+    const last = this.steps[this.steps.length - 1]
+    if (step.type === 'transform' && last?.type === 'transform' && last.target === step.target) {
+      this.steps[this.steps.length - 1] = composeTransforms(last, step)
+    } else if (step.type === 'property' && last?.type === 'property' && last.target === step.target) {
+      this.steps[this.steps.length - 1] = { ...last, values: { ...last.values, ...step.values } }
+    } else {
+      this.steps.push(step)
+    }
+  }
+}
+
+/**
+ * One transform step doing `first`, then `second`
+ */
+export function composeTransforms(first: TransformStep, second: TransformStep): TransformStep {
+  return {
+    ...first,
+    move: { x: first.move.x + second.move.x, y: first.move.y + second.move.y },
+    rotate: first.rotate + second.rotate,
+    scale: { x: first.scale.x * second.scale.x, y: first.scale.y * second.scale.y },
+    flipX: first.flipX !== second.flipX,
+    flipY: first.flipY !== second.flipY,
+  }
+}
+
+/**
+ * The selected entities in the order macros refer to them by: bottom to top
+ */
+export function orderSelection(selection: Iterable<string>, store: CanonicalObjectStore): string[] {
+  return [...selection].sort((a, b) => store.getZOrderIndex(a) - store.getZOrderIndex(b))
+}
+
+/**
+ * Replay a macro on the selection as one undo step. A macro recorded on one entity is
+ * replayed on each selected entity, step by step, so entities sent back or forward
+ * together keep their order; other macros need as many entities selected as were
+ * recorded (see orderSelection). Returns the entities the macro worked on that are still there.
+ */
+export async function replayMacro(macro: Macro, selection: string[], context: MacroContext): Promise<string[]> {
+  const { undoRedoManager } = context
+  const deps = undoRedoManager.getDependencies()
+  const store = deps.canonicalStore
+
+  if (macro.selectionSize === 1 ? selection.length === 0 : selection.length !== macro.selectionSize) {
+    throw new Error(
+      `"${macro.name}" needs ${macro.selectionSize === 1 ? 'at least 1' : macro.selectionSize} selected ${
+        macro.selectionSize === 1 ? 'entity' : 'entities'
+      }`
+    )
+  }
+
+  const ordered = orderSelection(selection, store)
+  // The entities each run of the macro works on, by step target
+  const runs: (string | null)[][] = macro.selectionSize === 1 ? ordered.map((id) => [id]) : [ordered]
+  const execute = (command: Command) => undoRedoManager.execute(command)
+
+  await undoRedoManager.transaction(macro.name, async () => {
+    for (let index = 0; index < macro.steps.length; index++) {
+      const step = macro.steps[index]
+
+      if (step.type === 'zorder') {
+        // Moved together with the entities of the next steps moving the same way
+        const ids: string[] = []
+        let next = index
+        for (; macro.steps[next]?.type === 'zorder'; next++) {
+          const other = macro.steps[next] as Extract<MacroStep, { type: 'zorder' }>
+          if (other.operation !== step.operation) break
+          runs.forEach((targets) => targets[other.target] && ids.push(targets[other.target]!))
+        }
+        reorderEntities(ids, step.operation, deps, execute)
+        index = next - 1
+        continue
+      }
+
+      for (const targets of runs) {
+        const id = targets[step.target]
+        const canonical = id ? store.get(id) : null
+
+        if (step.type === 'duplicate') {
+          targets.push(id && canonical ? await context.duplicate(id, step.offset) : null)
+          continue
+        }
+        // Deleted by an earlier step
+        if (!id || !canonical) continue
+
+        switch (step.type) {
+          case 'transform': {
+            const before = captureObjectSnapshot(canonical, store)
+            const { left, top, scaleX, scaleY, angle, flipX, flipY } = before.properties
+            const after = {
+              ...before,
+              properties: {
+                ...before.properties,
+                left: left + step.move.x,
+                top: top + step.move.y,
+                scaleX: scaleX * step.scale.x,
+                scaleY: scaleY * step.scale.y,
+                angle: normalizeAngle(angle + step.rotate),
+                flipX: flipX !== step.flipX,
+                flipY: flipY !== step.flipY,
+              },
+            }
+            await execute(new TransformCommand(id, before, after, deps))
+            break
+          }
+          case 'property': {
+            // A new gradient instance for each entity
+            const values = fromJSONValue(step.values) as Record<string, unknown>
+            const previous = Object.fromEntries(Object.keys(values).map((key) => [key, canonical.get(key)]))
+            await execute(new MultiPropertyCommand(id, previous, values, deps))
+            break
+          }
+          case 'recolor': {
+            // Only the entity changes, so the saved palette stays as it is
+            const changes = planRecolor([canonical], step.from, step.to)
+            if (changes.length > 0) {
+              await execute(
+                new RecolorCommand(step.from, step.to, changes, context.palette, context.palette, context.setPalette, deps)
+              )
+            }
+            break
+          }
+          case 'delete':
+            await execute(new DeleteCommand(id, canonical, deps))
+            break
+        }
+      }
+    }
+  })
+
+  return runs.flat().filter((id): id is string => !!id && store.has(id))
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const isPoint = (value: unknown): value is { x: number; y: number } =>
+  isObject(value) && typeof value.x === 'number' && typeof value.y === 'number'
+
+/**
+ * Whether a value read from storage is a macro step
+ */
+function isMacroStep(value: unknown): value is MacroStep {
+  if (!isObject(value) || typeof value.target !== 'number') return false
+
+  switch (value.type) {
+    case 'duplicate':
+      return isPoint(value.offset)
+    case 'transform':
+      return (
+        isPoint(value.move) &&
+        typeof value.rotate === 'number' &&
+        isPoint(value.scale) &&
+        typeof value.flipX === 'boolean' &&
+        typeof value.flipY === 'boolean'
+      )
+    case 'property':
+      return isObject(value.values)
+    case 'recolor':
+      return typeof value.from === 'string' && typeof value.to === 'string'
+    case 'zorder':
+      return ZORDER_OPERATIONS.includes(value.operation as ZOrderOperation)
+    case 'delete':
+      return true
+    default:
+      return false
+  }
+}
+
+/**
+ * Whether a value read from storage is a macro
+ */
+export function isMacro(value: unknown): value is Macro {
+  if (!isObject(value)) return false
+  const { id, name, createdAt, selectionSize, steps } = value
+  return (
+    typeof id === 'string' &&
+    typeof name === 'string' &&
+    typeof createdAt === 'string' &&
+    typeof selectionSize === 'number' &&
+    Array.isArray(steps) &&
+    steps.every(isMacroStep)
+  )
+}
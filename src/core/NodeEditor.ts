@@ -0,0 +1,342 @@
+import type { Canvas, Path, TMat2D } from 'fabric'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import type { PenAnchor, PenPoint } from './PenPath'
+import {
+  deleteNode,
+  findNearestSegment,
+  getPathData,
+  getSegmentPoint,
+  insertNode,
+  moveHandle,
+  moveNode,
+  parsePathNodes,
+  setNodeSmooth,
+  setPathData,
+  stringifyPathNodes,
+  type HandleSide,
+  type NodeRef,
+  type PathContour,
+} from './PathNodes'
+import { invertMatrix, multiplyMatrices, transformPoint } from './WallpaperSymmetry'
+
+/**
+ * Selected part of a node
+ */
+export interface NodeSelection extends NodeRef {
+  part: 'anchor' | HandleSide
+}
+
+export interface NodeEditorCallbacks {
+  /** A finished edit, to record for undo */
+  onCommit: (beforePathData: string, afterPathData: string, description: string) => void
+  /** The selected node changed (or its handles did) */
+  onSelectionChange?: (node: PenAnchor | null) => void
+}
+
+// Click radius around anchors, handles and segments (screen pixels)
+const HIT_RADIUS = 6
+// Size of the anchor and handle markers (screen pixels)
+const MARKER_SIZE = 6
+const MARKER_COLOR = '#2dd4a8'
+
+/**
+ * Node Editor - direct editing of the anchors and handles of one path.
+ *
+ * The nodes are shown at the rendered copy the path was selected at (copyMatrix), so
+ * editing works on any tile, symmetry or radial copy, while edits go to the canonical
+ * object and every copy follows. Clicking a segment adds a node there.
+ *
+ * Edits are applied live while dragging and reported once per gesture through onCommit.
+ */
+export class NodeEditor {
+  private contours: PathContour[] = []
+  private syncedPath: Path['path'] | null = null
+  private selection: NodeSelection | null = null
+  private drag: { before: string; last: PenPoint; moved: boolean } | null = null
+
+  constructor(
+    private canvas: Canvas,
+    private target: Path & ExtendedFabricObject,
+    private copyMatrix: TMat2D,
+    private callbacks: NodeEditorCallbacks
+  ) {
+    this.sync()
+  }
+
+  onMouseDown(scenePoint: PenPoint): void {
+    this.sync()
+    const hit = this.hitTest(scenePoint)
+    if (hit) {
+      this.select(hit)
+      this.startDrag(scenePoint)
+      this.render()
+      return
+    }
+
+    // Clicking a segment splits it with a new node
+    const segment = findNearestSegment(this.contours, this.toPathPoint(scenePoint))
+    if (segment) {
+      const point = this.toScenePoint(getSegmentPoint(this.contours[segment.contour], segment.segment, segment.t))
+      if (this.isWithinHitRadius(point, scenePoint)) {
+        const before = getPathData(this.target)
+        const { contours, node } = insertNode(this.contours, segment.contour, segment.segment, segment.t)
+        this.apply(contours)
+        this.select({ ...node, part: 'anchor' })
+        this.commit(before, 'Add path node')
+        this.startDrag(scenePoint)
+        return
+      }
+    }
+
+    this.select(null)
+    this.render()
+  }
+
+  onMouseMove(scenePoint: PenPoint): void {
+    if (!this.drag || !this.selection) return
+
+    const point = this.toPathPoint(scenePoint)
+    const { part } = this.selection
+    this.apply(
+      part === 'anchor'
+        ? moveNode(this.contours, this.selection, point.x - this.drag.last.x, point.y - this.drag.last.y)
+        : moveHandle(this.contours, this.selection, part, point)
+    )
+    this.drag.last = point
+    this.drag.moved = true
+  }
+
+  onMouseUp(): void {
+    if (this.drag?.moved && this.selection) {
+      this.commit(this.drag.before, this.selection.part === 'anchor' ? 'Move path node' : 'Move path handle')
+    }
+    this.drag = null
+  }
+
+  /**
+   * Delete the selected node. The last segment of a path can't be deleted.
+   */
+  deleteSelected(): void {
+    this.sync()
+    if (!this.selection) return
+
+    const contours = deleteNode(this.contours, this.selection)
+    if (contours.length === 0) return
+
+    const before = getPathData(this.target)
+    this.select(null)
+    this.apply(contours)
+    this.commit(before, 'Delete path node')
+  }
+
+  /**
+   * Convert the selected node to a smooth or a corner node
+   */
+  setSelectedSmooth(smooth: boolean): void {
+    this.sync()
+    if (!this.selection) return
+
+    const before = getPathData(this.target)
+    this.apply(setNodeSmooth(this.contours, this.selection, smooth))
+    this.selection = { ...this.selection, part: 'anchor' }
+    this.commit(before, smooth ? 'Make path node smooth' : 'Make path node a corner')
+  }
+
+  /**
+   * Draw the path outline, anchors and the handles around the selected node on the top
+   * context (call after every render)
+   */
+  render(): void {
+    const ctx = this.canvas.contextTop
+    if (!ctx) return
+
+    this.canvas.clearContext(ctx)
+    this.sync()
+    const zoom = this.canvas.getZoom()
+    const size = MARKER_SIZE / zoom
+
+    ctx.save()
+    ctx.transform(...this.canvas.viewportTransform)
+    ctx.lineWidth = 1 / zoom
+    ctx.strokeStyle = MARKER_COLOR
+
+    ctx.beginPath()
+    for (const { nodes, closed } of this.contours) {
+      const points = nodes.map((node) => this.toSceneNode(node))
+      points.forEach((node, i) => {
+        if (i === 0) {
+          ctx.moveTo(node.x, node.y)
+        } else {
+          this.traceSegment(ctx, points[i - 1], node)
+        }
+      })
+      if (closed && points.length > 1) {
+        this.traceSegment(ctx, points[points.length - 1], points[0])
+        ctx.closePath()
+      }
+    }
+    ctx.stroke()
+
+    for (const { ref, side } of this.getVisibleHandles()) {
+      const anchor = this.toScenePoint(this.contours[ref.contour].nodes[ref.node])
+      const handle = this.toScenePoint(this.contours[ref.contour].nodes[ref.node][side]!)
+      const selected = this.isSelected(ref, side)
+      ctx.beginPath()
+      ctx.moveTo(anchor.x, anchor.y)
+      ctx.lineTo(handle.x, handle.y)
+      ctx.stroke()
+      ctx.beginPath()
+      ctx.arc(handle.x, handle.y, size / 2, 0, Math.PI * 2)
+      ctx.fillStyle = selected ? MARKER_COLOR : '#ffffff'
+      ctx.fill()
+      ctx.stroke()
+    }
+
+    this.contours.forEach(({ nodes }, contour) => {
+      nodes.forEach((node, index) => {
+        const anchor = this.toScenePoint(node)
+        ctx.fillStyle = this.isSelected({ contour, node: index }) ? MARKER_COLOR : '#ffffff'
+        ctx.fillRect(anchor.x - size / 2, anchor.y - size / 2, size, size)
+        ctx.strokeRect(anchor.x - size / 2, anchor.y - size / 2, size, size)
+      })
+    })
+    ctx.restore()
+  }
+
+  /**
+   * Clear the node markers
+   */
+  dispose(): void {
+    this.canvas.clearContext(this.canvas.contextTop)
+  }
+
+  /**
+   * Re-read the nodes when the path changed outside the editor (undo/redo)
+   */
+  private sync(): void {
+    if (this.target.path === this.syncedPath) return
+
+    this.contours = parsePathNodes(getPathData(this.target))
+    this.syncedPath = this.target.path
+    if (this.selection && !this.contours[this.selection.contour]?.nodes[this.selection.node]) {
+      this.select(null)
+    } else {
+      this.notifySelection()
+    }
+  }
+
+  private apply(contours: PathContour[]): void {
+    this.contours = contours
+    setPathData(this.target, stringifyPathNodes(contours))
+    this.syncedPath = this.target.path
+    this.notifySelection()
+    this.canvas.requestRenderAll()
+  }
+
+  private commit(before: string, description: string): void {
+    const after = getPathData(this.target)
+    if (after !== before) {
+      this.callbacks.onCommit(before, after, description)
+    }
+  }
+
+  private startDrag(scenePoint: PenPoint): void {
+    this.drag = { before: getPathData(this.target), last: this.toPathPoint(scenePoint), moved: false }
+  }
+
+  private select(selection: NodeSelection | null): void {
+    this.selection = selection
+    this.notifySelection()
+  }
+
+  private notifySelection(): void {
+    const node = this.selection ? this.contours[this.selection.contour]?.nodes[this.selection.node] : null
+    this.callbacks.onSelectionChange?.(node ?? null)
+  }
+
+  private isSelected(ref: NodeRef, part: NodeSelection['part'] = 'anchor'): boolean {
+    return this.selection?.contour === ref.contour && this.selection.node === ref.node && this.selection.part === part
+  }
+
+  /**
+   * Handles of the selected node, and the handles of its neighbours facing it
+   */
+  private getVisibleHandles(): { ref: NodeRef; side: HandleSide }[] {
+    if (!this.selection) return []
+    const contour = this.contours[this.selection.contour]
+    if (!contour) return []
+
+    const { node } = this.selection
+    const count = contour.nodes.length
+    const prev = node > 0 ? node - 1 : contour.closed ? count - 1 : -1
+    const next = node < count - 1 ? node + 1 : contour.closed ? 0 : -1
+    const candidates: { node: number; side: HandleSide }[] = [
+      { node, side: 'handleIn' },
+      { node, side: 'handleOut' },
+      { node: prev, side: 'handleOut' },
+      { node: next, side: 'handleIn' },
+    ]
+    return candidates
+      .filter(({ node: index, side }) => index >= 0 && contour.nodes[index][side])
+      .map(({ node: index, side }) => ({ ref: { contour: this.selection!.contour, node: index }, side }))
+  }
+
+  private hitTest(scenePoint: PenPoint): NodeSelection | null {
+    for (const { ref, side } of this.getVisibleHandles()) {
+      const handle = this.contours[ref.contour].nodes[ref.node][side]!
+      if (this.isWithinHitRadius(this.toScenePoint(handle), scenePoint)) {
+        return { ...ref, part: side }
+      }
+    }
+    for (let contour = 0; contour < this.contours.length; contour++) {
+      const { nodes } = this.contours[contour]
+      for (let node = 0; node < nodes.length; node++) {
+        if (this.isWithinHitRadius(this.toScenePoint(nodes[node]), scenePoint)) {
+          return { contour, node, part: 'anchor' }
+        }
+      }
+    }
+    return null
+  }
+
+  private isWithinHitRadius(a: PenPoint, b: PenPoint): boolean {
+    return Math.hypot(a.x - b.x, a.y - b.y) <= HIT_RADIUS / this.canvas.getZoom()
+  }
+
+  /**
+   * Path data coordinates → scene coordinates of the copy being edited
+   */
+  private getSceneMatrix(): TMat2D {
+    const { x, y } = this.target.pathOffset
+    return multiplyMatrices(
+      multiplyMatrices(this.copyMatrix, this.target.calcTransformMatrix()),
+      [1, 0, 0, 1, -x, -y]
+    )
+  }
+
+  private toScenePoint(point: PenPoint): PenPoint {
+    return transformPoint(this.getSceneMatrix(), point)
+  }
+
+  private toSceneNode(node: PenAnchor): PenAnchor {
+    return {
+      ...this.toScenePoint(node),
+      handleIn: node.handleIn && this.toScenePoint(node.handleIn),
+      handleOut: node.handleOut && this.toScenePoint(node.handleOut),
+    }
+  }
+
+  private toPathPoint(scenePoint: PenPoint): PenPoint {
+    return transformPoint(invertMatrix(this.getSceneMatrix()), scenePoint)
+  }
+
+  private traceSegment(ctx: CanvasRenderingContext2D, from: PenAnchor, to: PenAnchor): void {
+    if (!from.handleOut && !to.handleIn) {
+      ctx.lineTo(to.x, to.y)
+      return
+    }
+    const c1 = from.handleOut ?? from
+    const c2 = to.handleIn ?? to
+    ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, to.x, to.y)
+  }
+}
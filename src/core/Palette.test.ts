@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { Circle, Group, Rect, type FabricObject } from 'fabric'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import { createDefaultGradient, specToGradient, type FabricGradient } from './Gradients'
+import {
+  applyPaintChanges,
+  collectPaletteColors,
+  mergePalette,
+  normalizePaletteColor,
+  planRecolor,
+  replacePaletteColor,
+} from './Palette'
+
+const entity = <T extends FabricObject>(obj: T, mirrorGroupId: string): T & ExtendedFabricObject =>
+  Object.assign(obj, { tiledMetadata: { isMirror: false, mirrorGroupId, tilePosition: [0, 0] as [number, number] } })
+
+const createEntities = () => {
+  const rect = entity(new Rect({ width: 10, height: 10, fill: '#FF0000', stroke: 'rgb(0, 0, 255)' }), 'rect')
+  const svg = entity(
+    new Group([
+      new Circle({ radius: 5, fill: '#ff0000', stroke: '' }),
+      new Circle({ radius: 5, fill: 'rgba(255, 0, 0, 0.5)', stroke: 'none' }),
+    ]),
+    'svg'
+  )
+  const gradient = entity(
+    new Rect({ width: 10, height: 10, fill: specToGradient(createDefaultGradient('linear', { width: 10, height: 10 }, '#ff0000')) }),
+    'gradient'
+  )
+  return { rect, svg, gradient, all: [rect, svg, gradient] }
+}
+
+describe('normalizePaletteColor', () => {
+  it('should compare colours as lowercase hex', () => {
+    expect(normalizePaletteColor('#F00')).toBe('#ff0000')
+    expect(normalizePaletteColor('rgb(0, 0, 255)')).toBe('#0000ff')
+    expect(normalizePaletteColor('rgba(255, 0, 0, 0.5)')).toBe('#ff000080')
+  })
+
+  it('should ignore missing paint', () => {
+    expect(normalizePaletteColor('transparent')).toBeNull()
+    expect(normalizePaletteColor('none')).toBeNull()
+    expect(normalizePaletteColor(null)).toBeNull()
+  })
+})
+
+describe('collectPaletteColors', () => {
+  it('should count colours of group children and gradient stops', () => {
+    const { all } = createEntities()
+    expect(collectPaletteColors(all)).toEqual([
+      { color: '#ff0000', count: 3 },
+      { color: '#0000ff', count: 1 },
+      { color: '#ff000080', count: 1 },
+      { color: '#ffffff', count: 1 },
+    ])
+  })
+
+  it('should keep saved swatches first', () => {
+    const { all } = createEntities()
+    const swatches = mergePalette(['#00FF00', '#0000ff'], collectPaletteColors(all))
+    expect(swatches.slice(0, 3)).toEqual([
+      { color: '#00ff00', count: 0 },
+      { color: '#0000ff', count: 1 },
+      { color: '#ff0000', count: 3 },
+    ])
+  })
+})
+
+describe('planRecolor', () => {
+  it('should recolour every use of a colour and undo it', () => {
+    const { rect, svg, gradient, all } = createEntities()
+    const changes = planRecolor(all, '#ff0000', '#00ff00')
+    const byId = new Map(all.map((obj) => [obj.tiledMetadata!.mirrorGroupId, obj]))
+    const getCanonical = (id: string) => byId.get(id) ?? null
+
+    applyPaintChanges(changes, 'after', getCanonical)
+    const [solid, translucent] = svg.getObjects()
+    expect(rect.fill).toBe('#00ff00')
+    expect(rect.stroke).toBe('rgb(0, 0, 255)')
+    expect(solid.fill).toBe('#00ff00')
+    expect(translucent.fill).toBe('rgba(255, 0, 0, 0.5)')
+    expect((gradient.fill as FabricGradient).colorStops.map(({ color }) => color)).toEqual(['#00ff00', '#ffffff'])
+
+    applyPaintChanges(changes, 'before', getCanonical)
+    expect(collectPaletteColors(all)).toEqual(collectPaletteColors(createEntities().all))
+  })
+
+  it('should keep the transparency of translucent colours', () => {
+    const { svg, all } = createEntities()
+    const changes = planRecolor(all, '#ff000080', '#0000ff')
+    applyPaintChanges(changes, 'after', () => svg)
+    expect(changes).toHaveLength(1)
+    expect(normalizePaletteColor(svg.getObjects()[1].fill)).toBe('#0000ff80')
+  })
+
+  it('should not change anything for unused or identical colours', () => {
+    const { all } = createEntities()
+    expect(planRecolor(all, '#123456', '#00ff00')).toEqual([])
+    expect(planRecolor(all, '#ff0000', '#FF0000')).toEqual([])
+  })
+})
+
+describe('replacePaletteColor', () => {
+  it('should replace a saved swatch in place without duplicates', () => {
+    expect(replacePaletteColor(['#ff0000', '#00ff00'], '#ff0000', '#0000ff')).toEqual(['#0000ff', '#00ff00'])
+    expect(replacePaletteColor(['#ff0000', '#00ff00'], '#ff0000', '#00ff00')).toEqual(['#00ff00'])
+    expect(replacePaletteColor([], '#ff0000', '#00ff00')).toEqual(['#00ff00'])
+  })
+})
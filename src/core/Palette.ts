@@ -0,0 +1,194 @@
+import { Color, Gradient, Group, type FabricObject } from 'fabric'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import { isGradient, type FabricGradient, type PaintProperty } from './Gradients'
+
+/**
+ * Project palette - the flat colours used by fills, strokes and gradient stops.
+ *
+ * Colours are compared as lowercase #rrggbb (#rrggbbaa when translucent). Objects inside
+ * imported SVG groups are addressed by their child path, the indices leading to them from
+ * the canonical object.
+ */
+
+export interface PaletteSwatch {
+  color: string
+  count: number // Fills, strokes and gradient stops using the colour
+}
+
+/**
+ * One fill or stroke changed by a recolour
+ */
+export interface PaintChange {
+  mirrorGroupId: string
+  childPath: number[] // Empty for the canonical object itself
+  property: PaintProperty
+  before: unknown
+  after: unknown
+}
+
+const PAINT_PROPERTIES: PaintProperty[] = ['fill', 'stroke']
+
+/**
+ * Palette key of a CSS colour, or null for no paint
+ */
+export function normalizePaletteColor(color: unknown): string | null {
+  if (typeof color !== 'string') return null
+  const value = color.trim().toLowerCase()
+  if (value === '' || value === 'none' || value === 'transparent') return null
+
+  const parsed = new Color(value)
+  const alpha = parsed.getAlpha()
+  if (alpha === 0) return null
+  return alpha < 1 ? `#${parsed.toHexa().toLowerCase()}` : `#${parsed.toHex().toLowerCase()}`
+}
+
+/**
+ * The painted objects: the object itself, or every object nested in its groups, with
+ * their child paths (groups draw nothing themselves)
+ */
+export function walkObjects(obj: FabricObject, childPath: number[] = []): { object: FabricObject; childPath: number[] }[] {
+  if (obj instanceof Group) {
+    return obj.getObjects().flatMap((child, i) => walkObjects(child, [...childPath, i]))
+  }
+  return [{ object: obj, childPath }]
+}
+
+/**
+ * Object nested in a canonical object's groups
+ */
+export function getObjectAtChildPath(obj: FabricObject, childPath: number[]): FabricObject | null {
+  let current: FabricObject | undefined = obj
+  for (const index of childPath) {
+    current = current instanceof Group ? current.getObjects()[index] : undefined
+    if (!current) return null
+  }
+  return current
+}
+
+function getPaintColors(paint: unknown): string[] {
+  if (isGradient(paint)) {
+    return paint.colorStops.map((stop) => normalizePaletteColor(stop.color)).filter((c): c is string => !!c)
+  }
+  const color = normalizePaletteColor(paint)
+  return color ? [color] : []
+}
+
+/**
+ * Every colour used by the objects, most used first
+ */
+export function collectPaletteColors(objects: FabricObject[]): PaletteSwatch[] {
+  const counts = new Map<string, number>()
+  for (const obj of objects) {
+    for (const { object } of walkObjects(obj)) {
+      for (const property of PAINT_PROPERTIES) {
+        for (const color of getPaintColors(object[property])) {
+          counts.set(color, (counts.get(color) ?? 0) + 1)
+        }
+      }
+    }
+  }
+
+  return [...counts.entries()]
+    .map(([color, count]) => ({ color, count }))
+    .sort((a, b) => b.count - a.count)
+}
+
+/**
+ * The saved palette in its order, followed by colours in use that it doesn't contain yet
+ */
+export function mergePalette(saved: string[], used: PaletteSwatch[]): PaletteSwatch[] {
+  const counts = new Map(used.map(({ color, count }) => [color, count]))
+  const savedColors = [...new Set(saved.map(normalizePaletteColor).filter((c): c is string => !!c))]
+
+  return [
+    ...savedColors.map((color) => ({ color, count: counts.get(color) ?? 0 })),
+    ...used.filter(({ color }) => !savedColors.includes(color)),
+  ]
+}
+
+/**
+ * Saved palette with one colour replaced (or added, when it wasn't saved yet)
+ */
+export function replacePaletteColor(saved: string[], from: string, to: string): string[] {
+  const fromColor = normalizePaletteColor(from)
+  const toColor = normalizePaletteColor(to)
+  if (!toColor) return saved
+
+  const colors = saved.map((color) => (normalizePaletteColor(color) === fromColor ? toColor : color))
+  if (!colors.includes(toColor)) colors.push(toColor)
+  return colors.filter((color, i) => colors.indexOf(color) === i)
+}
+
+/**
+ * Replacement for a colour, keeping the transparency of the colour it replaces
+ */
+function replaceColor(original: string, replacement: string): string {
+  const alpha = new Color(original).getAlpha()
+  if (alpha === 1) return replacement
+  return new Color(replacement).setAlpha(alpha).toRgba()
+}
+
+/**
+ * The paint with its colours replaced, or undefined when the paint uses none of them.
+ * Replacements are keyed by palette colour.
+ */
+export function recolorPaint(paint: unknown, replacements: Map<string, string>): unknown {
+  const getReplacement = (color: unknown) => {
+    const key = normalizePaletteColor(color)
+    return key ? replacements.get(key) : undefined
+  }
+
+  if (isGradient(paint)) {
+    if (!paint.colorStops.some((stop) => getReplacement(stop.color))) return undefined
+    const colorStops = paint.colorStops.map((stop) => {
+      const replacement = getReplacement(stop.color)
+      return replacement ? { ...stop, color: replaceColor(stop.color, replacement) } : { ...stop }
+    })
+    const { type, coords, gradientUnits, gradientTransform, offsetX, offsetY } = paint
+    return new Gradient({ type, coords, gradientUnits, gradientTransform, offsetX, offsetY, colorStops }) as FabricGradient
+  }
+
+  const replacement = getReplacement(paint)
+  return replacement ? replaceColor(paint as string, replacement) : undefined
+}
+
+/**
+ * Changes that replace one palette colour by another on every object using it
+ */
+export function planRecolor(objects: ExtendedFabricObject[], from: string, to: string): PaintChange[] {
+  const fromColor = normalizePaletteColor(from)
+  const toColor = normalizePaletteColor(to)
+  if (!fromColor || !toColor || fromColor === toColor) return []
+  const replacements = new Map([[fromColor, toColor]])
+
+  return objects.flatMap((canonical) => {
+    const mirrorGroupId = canonical.tiledMetadata?.mirrorGroupId
+    if (!mirrorGroupId) return []
+
+    return walkObjects(canonical).flatMap(({ object, childPath }) =>
+      PAINT_PROPERTIES.flatMap((property) => {
+        const after = recolorPaint(object[property], replacements)
+        return after === undefined ? [] : [{ mirrorGroupId, childPath, property, before: object[property], after }]
+      })
+    )
+  })
+}
+
+/**
+ * Set the before or after values of paint changes on the canonical objects
+ */
+export function applyPaintChanges(
+  changes: PaintChange[],
+  side: 'before' | 'after',
+  getCanonical: (mirrorGroupId: string) => FabricObject | null
+): void {
+  for (const change of changes) {
+    const canonical = getCanonical(change.mirrorGroupId)
+    const target = canonical && getObjectAtChildPath(canonical, change.childPath)
+    if (!canonical || !target) continue
+
+    target.set(change.property, change[side])
+    // Groups cache their children's rendering
+    canonical.set('dirty', true)
+  }
+}
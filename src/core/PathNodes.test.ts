@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import { Path } from 'fabric'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import {
+  deleteNode,
+  findNearestSegment,
+  getPathData,
+  getSegmentPoint,
+  insertNode,
+  isSmoothNode,
+  moveHandle,
+  moveNode,
+  parsePathNodes,
+  setNodeSmooth,
+  setPathData,
+  stringifyPathNodes,
+} from './PathNodes'
+
+describe('parsePathNodes', () => {
+  it('should turn relative and shorthand lines into anchors', () => {
+    expect(parsePathNodes('m 10 10 h 20 v 20 l -20 0')).toEqual([
+      { closed: false, nodes: [{ x: 10, y: 10 }, { x: 30, y: 10 }, { x: 30, y: 30 }, { x: 10, y: 30 }] },
+    ])
+  })
+
+  it('should put cubic control points on the anchors they belong to', () => {
+    const [contour] = parsePathNodes('M 0 0 C 0 -10 20 -10 20 0 S 40 10 40 0')
+    expect(contour.nodes).toEqual([
+      { x: 0, y: 0, handleOut: { x: 0, y: -10 } },
+      { x: 20, y: 0, handleIn: { x: 20, y: -10 }, handleOut: { x: 20, y: 10 } },
+      { x: 40, y: 0, handleIn: { x: 40, y: 10 } },
+    ])
+  })
+
+  it('should convert quadratic curves to cubic handles', () => {
+    const [contour] = parsePathNodes('M 0 0 Q 30 30 60 0')
+    expect(contour.nodes[0].handleOut).toEqual({ x: 20, y: 20 })
+    expect(contour.nodes[1].handleIn).toEqual({ x: 40, y: 20 })
+  })
+
+  it('should merge an explicit closing segment into the first anchor', () => {
+    const [contour] = parsePathNodes('M 0 0 L 10 0 C 10 10 0 10 0 0 Z')
+    expect(contour.closed).toBe(true)
+    expect(contour.nodes).toHaveLength(2)
+    expect(contour.nodes[0].handleIn).toEqual({ x: 0, y: 10 })
+  })
+
+  it('should start a new contour for every subpath', () => {
+    const contours = parsePathNodes('M 0 0 L 10 0 L 10 10 Z M 20 20 L 30 20')
+    expect(contours.map(({ closed, nodes }) => [closed, nodes.length])).toEqual([[true, 3], [false, 2]])
+  })
+
+  it('should end arcs on the arc end point', () => {
+    const [contour] = parsePathNodes('M 0 0 A 10 10 0 0 1 20 0')
+    const end = contour.nodes[contour.nodes.length - 1]
+    expect(end.x).toBeCloseTo(20)
+    expect(end.y).toBeCloseTo(0)
+    expect(contour.nodes[1].handleIn).toBeDefined()
+  })
+})
+
+describe('stringifyPathNodes', () => {
+  it('should round-trip lines, curves and closed contours', () => {
+    const pathData = 'M 0 0 L 10 0 C 20 0 20 10 10 10 Z'
+    const contours = parsePathNodes(pathData)
+    expect(parsePathNodes(stringifyPathNodes(contours))).toEqual(contours)
+  })
+
+  it('should write nothing for empty paths', () => {
+    expect(stringifyPathNodes([])).toBe('')
+  })
+})
+
+describe('node edits', () => {
+  const curve = () => parsePathNodes('M 0 0 C 0 -10 20 -10 20 0 C 20 10 40 10 40 0')
+
+  it('should move an anchor with its handles', () => {
+    const [contour] = moveNode(curve(), { contour: 0, node: 1 }, 5, 5)
+    expect(contour.nodes[1]).toEqual({
+      x: 25,
+      y: 5,
+      handleIn: { x: 25, y: -5 },
+      handleOut: { x: 25, y: 15 },
+    })
+  })
+
+  it('should keep smooth nodes smooth when a handle moves', () => {
+    const contours = curve()
+    expect(isSmoothNode(contours[0].nodes[1])).toBe(true)
+    const [contour] = moveHandle(contours, { contour: 0, node: 1 }, 'handleOut', { x: 30, y: 0 })
+    expect(contour.nodes[1].handleIn).toEqual({ x: 10, y: 0 })
+    expect(isSmoothNode(contour.nodes[1])).toBe(true)
+  })
+
+  it('should leave the other handle of corner nodes alone', () => {
+    const contours = parsePathNodes('M 0 0 C 0 -10 20 -10 20 0 C 30 0 40 10 40 0')
+    const [contour] = moveHandle(contours, { contour: 0, node: 1 }, 'handleOut', { x: 20, y: 20 })
+    expect(contour.nodes[1].handleIn).toEqual({ x: 20, y: -10 })
+  })
+
+  it('should convert between corner and smooth nodes', () => {
+    const corner = setNodeSmooth(curve(), { contour: 0, node: 1 }, false)
+    expect(corner[0].nodes[1]).toEqual({ x: 20, y: 0 })
+
+    const smooth = setNodeSmooth(parsePathNodes('M 0 0 L 30 30 L 60 0'), { contour: 0, node: 1 }, true)
+    expect(smooth[0].nodes[1].handleIn?.x).toBeCloseTo(30 - Math.hypot(30, 30) / 3)
+    expect(isSmoothNode(smooth[0].nodes[1])).toBe(true)
+  })
+
+  it('should split a curve without changing its shape', () => {
+    const contours = curve()
+    const before = getSegmentPoint(contours[0], 0, 0.75)
+    const { contours: result, node } = insertNode(contours, 0, 0, 0.5)
+    expect(node).toEqual({ contour: 0, node: 1 })
+    expect(result[0].nodes).toHaveLength(4)
+    const after = getSegmentPoint(result[0], 1, 0.5)
+    expect(after.x).toBeCloseTo(before.x)
+    expect(after.y).toBeCloseTo(before.y)
+  })
+
+  it('should split the closing segment of closed contours', () => {
+    const { contours } = insertNode(parsePathNodes('M 0 0 L 10 0 L 10 10 Z'), 0, 2, 0.5)
+    expect(contours[0].nodes[3]).toEqual({ x: 5, y: 5 })
+  })
+
+  it('should remove contours left with one anchor', () => {
+    const contours = parsePathNodes('M 0 0 L 10 0 M 20 20 L 30 20 L 30 30')
+    expect(deleteNode(contours, { contour: 0, node: 0 })).toHaveLength(1)
+    expect(deleteNode(contours, { contour: 1, node: 0 })[1].nodes).toHaveLength(2)
+  })
+
+  it('should find the nearest segment', () => {
+    const hit = findNearestSegment(parsePathNodes('M 0 0 L 100 0 L 100 100'), { x: 102, y: 50 })
+    expect(hit).toMatchObject({ contour: 0, segment: 1, t: 0.5 })
+    expect(hit?.distance).toBeCloseTo(2)
+  })
+})
+
+describe('setPathData', () => {
+  it('should keep the untouched anchors in place on the canvas', () => {
+    const path = new Path('M 0 0 L 100 0 L 100 100', { left: 50, top: 50, scaleX: 2, scaleY: 2 })
+    const sceneOf = (x: number, y: number) => {
+      const [a, b, c, d, e, f] = path.calcTransformMatrix()
+      const local = { x: x - path.pathOffset.x, y: y - path.pathOffset.y }
+      return { x: a * local.x + c * local.y + e, y: b * local.x + d * local.y + f }
+    }
+    const before = sceneOf(100, 0)
+
+    setPathData(path as Path & ExtendedFabricObject, 'M 0 0 L 100 0 L 200 100')
+    const after = sceneOf(100, 0)
+    expect(after.x).toBeCloseTo(before.x)
+    expect(after.y).toBeCloseTo(before.y)
+    expect(getPathData(path)).toBe('M 0 0 L 100 0 L 200 100')
+  })
+})
@@ -0,0 +1,459 @@
+import { Point, util, type Path, type TMat2D } from 'fabric'
+import { parsePathData, stringifyPathData } from '../lib/svgo/path'
+import type { PathDataItem } from '../lib/svgo/types'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import type { PenAnchor, PenPoint } from './PenPath'
+import { reframeRadialSymmetry } from './RadialSymmetry'
+import { transformPoint } from './WallpaperSymmetry'
+
+/**
+ * Path nodes - editable anchors and bezier handles of a path.
+ *
+ * Path data is parsed with the svgo parser and normalized to contours of anchors: every
+ * command (relative, shorthand, quadratic, arc) becomes a line or cubic segment between two
+ * anchors. Edits return new contours, which are written back as M/L/C/Z path data.
+ */
+
+export interface PathContour {
+  nodes: PenAnchor[]
+  closed: boolean
+}
+
+export interface NodeRef {
+  contour: number
+  node: number
+}
+
+export type HandleSide = 'handleIn' | 'handleOut'
+
+export interface SegmentHit {
+  contour: number
+  segment: number // Segment from node `segment` to the next node (wrapping on closed contours)
+  t: number
+  distance: number
+}
+
+// Decimal places of written path data (matches pathMerge)
+const PRECISION = 3
+// Samples per segment when looking for the nearest segment
+const SEGMENT_SAMPLES = 32
+// Handles closer than this to their anchor are treated as missing
+const EPSILON = 1e-6
+
+const samePoint = (a: PenPoint, b: PenPoint): boolean =>
+  Math.abs(a.x - b.x) < EPSILON && Math.abs(a.y - b.y) < EPSILON
+
+const lerp = (a: PenPoint, b: PenPoint, t: number): PenPoint => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+})
+
+// Handle, or nothing when it sits on the anchor
+const toHandle = (anchor: PenPoint, handle: PenPoint): PenPoint | undefined =>
+  samePoint(anchor, handle) ? undefined : { x: handle.x, y: handle.y }
+
+const cloneContours = (contours: PathContour[]): PathContour[] =>
+  contours.map(({ nodes, closed }) => ({
+    closed,
+    nodes: nodes.map((node) => ({
+      x: node.x,
+      y: node.y,
+      ...(node.handleIn && { handleIn: { ...node.handleIn } }),
+      ...(node.handleOut && { handleOut: { ...node.handleOut } }),
+    })),
+  }))
+
+/**
+ * Parse path data into contours of anchors
+ */
+export function parsePathNodes(pathData: string): PathContour[] {
+  const contours: PathContour[] = []
+  let current: PathContour | null = null
+  let x = 0
+  let y = 0
+  let startX = 0
+  let startY = 0
+  // Control point to reflect for S (cubic) and T (quadratic) shorthands
+  let lastCubicControl: PenPoint | null = null
+  let lastQuadControl: PenPoint | null = null
+
+  // Drawing after Z (without M) starts a new contour at the subpath start
+  const getContour = (): PathContour => {
+    if (!current || current.closed) {
+      current = { nodes: [{ x: startX, y: startY }], closed: false }
+      contours.push(current)
+    }
+    return current
+  }
+
+  const lineTo = (toX: number, toY: number) => {
+    getContour().nodes.push({ x: toX, y: toY })
+  }
+
+  const curveTo = (c1: PenPoint, c2: PenPoint, to: PenPoint) => {
+    const { nodes } = getContour()
+    const from = nodes[nodes.length - 1]
+    from.handleOut = toHandle(from, c1)
+    nodes.push({ x: to.x, y: to.y, ...(toHandle(to, c2) && { handleIn: { ...c2 } }) })
+  }
+
+  for (const { command, args } of parsePathData(pathData)) {
+    const relative = command === command.toLowerCase()
+    const dx = relative ? x : 0
+    const dy = relative ? y : 0
+    let cubicControl: PenPoint | null = null
+    let quadControl: PenPoint | null = null
+
+    switch (command.toUpperCase()) {
+      case 'M':
+        x = args[0] + dx
+        y = args[1] + dy
+        startX = x
+        startY = y
+        current = { nodes: [{ x, y }], closed: false }
+        contours.push(current)
+        break
+      case 'L':
+        x = args[0] + dx
+        y = args[1] + dy
+        lineTo(x, y)
+        break
+      case 'H':
+        x = args[0] + dx
+        lineTo(x, y)
+        break
+      case 'V':
+        y = args[0] + dy
+        lineTo(x, y)
+        break
+      case 'C': {
+        const c1 = { x: args[0] + dx, y: args[1] + dy }
+        cubicControl = { x: args[2] + dx, y: args[3] + dy }
+        curveTo(c1, cubicControl, { x: args[4] + dx, y: args[5] + dy })
+        x = args[4] + dx
+        y = args[5] + dy
+        break
+      }
+      case 'S': {
+        const c1 = lastCubicControl ? { x: 2 * x - lastCubicControl.x, y: 2 * y - lastCubicControl.y } : { x, y }
+        cubicControl = { x: args[0] + dx, y: args[1] + dy }
+        curveTo(c1, cubicControl, { x: args[2] + dx, y: args[3] + dy })
+        x = args[2] + dx
+        y = args[3] + dy
+        break
+      }
+      case 'Q':
+      case 'T': {
+        const from = { x, y }
+        if (command.toUpperCase() === 'Q') {
+          quadControl = { x: args[0] + dx, y: args[1] + dy }
+        } else {
+          quadControl = lastQuadControl ? { x: 2 * x - lastQuadControl.x, y: 2 * y - lastQuadControl.y } : from
+        }
+        const to = command.toUpperCase() === 'Q'
+          ? { x: args[2] + dx, y: args[3] + dy }
+          : { x: args[0] + dx, y: args[1] + dy }
+        // Exact cubic form of the quadratic curve
+        curveTo(lerp(from, quadControl, 2 / 3), lerp(to, quadControl, 2 / 3), to)
+        x = to.x
+        y = to.y
+        break
+      }
+      case 'A': {
+        const [rx, ry, rotation, largeArc, sweep] = args
+        const toX = args[5] + dx
+        const toY = args[6] + dy
+        // Fabric splits arcs into cubic curves
+        const simplified = util.makePathSimpler([
+          ['M', x, y],
+          ['A', rx, ry, rotation, largeArc as 0 | 1, sweep as 0 | 1, toX, toY],
+        ])
+        let curved = false
+        for (const segment of simplified) {
+          if (segment[0] !== 'C') continue
+          const [, x1, y1, x2, y2, x3, y3] = segment
+          curveTo({ x: x1, y: y1 }, { x: x2, y: y2 }, { x: x3, y: y3 })
+          curved = true
+        }
+        if (!curved) lineTo(toX, toY)
+        x = toX
+        y = toY
+        break
+      }
+      case 'Z':
+        if (current && !current.closed) {
+          const { nodes } = current
+          // An explicit segment back to the start duplicates the first anchor
+          if (nodes.length > 1 && samePoint(nodes[0], nodes[nodes.length - 1])) {
+            const last = nodes.pop()!
+            nodes[0].handleIn = last.handleIn
+          }
+          current.closed = true
+        }
+        x = startX
+        y = startY
+        break
+    }
+
+    lastCubicControl = cubicControl
+    lastQuadControl = quadControl
+  }
+
+  return contours
+}
+
+function segmentToPathData(from: PenAnchor, to: PenAnchor): PathDataItem {
+  if (!from.handleOut && !to.handleIn) {
+    return { command: 'L', args: [to.x, to.y] }
+  }
+  const c1 = from.handleOut ?? from
+  const c2 = to.handleIn ?? to
+  return { command: 'C', args: [c1.x, c1.y, c2.x, c2.y, to.x, to.y] }
+}
+
+/**
+ * Write contours back as absolute path data
+ */
+export function stringifyPathNodes(contours: PathContour[]): string {
+  const pathData: PathDataItem[] = []
+  for (const { nodes, closed } of contours) {
+    if (nodes.length === 0) continue
+    pathData.push({ command: 'M', args: [nodes[0].x, nodes[0].y] })
+    for (let i = 1; i < nodes.length; i++) {
+      pathData.push(segmentToPathData(nodes[i - 1], nodes[i]))
+    }
+    if (closed) {
+      // Z draws a straight closing segment by itself
+      const closing = segmentToPathData(nodes[nodes.length - 1], nodes[0])
+      if (closing.command === 'C') pathData.push(closing)
+      pathData.push({ command: 'Z', args: [] })
+    }
+  }
+  if (pathData.length === 0) return ''
+  return stringifyPathData({ pathData, precision: PRECISION })
+}
+
+/**
+ * Whether a node's handles form one straight tangent (a smooth node)
+ */
+export function isSmoothNode(node: PenAnchor): boolean {
+  const { handleIn, handleOut } = node
+  if (!handleIn || !handleOut) return false
+  const inX = handleIn.x - node.x
+  const inY = handleIn.y - node.y
+  const outX = handleOut.x - node.x
+  const outY = handleOut.y - node.y
+  const cross = inX * outY - inY * outX
+  const dot = inX * outX + inY * outY
+  return dot < 0 && Math.abs(cross) <= 1e-3 * Math.hypot(inX, inY) * Math.hypot(outX, outY)
+}
+
+/**
+ * Move an anchor together with its handles
+ */
+export function moveNode(contours: PathContour[], ref: NodeRef, dx: number, dy: number): PathContour[] {
+  const result = cloneContours(contours)
+  const node = result[ref.contour]?.nodes[ref.node]
+  if (!node) return result
+
+  node.x += dx
+  node.y += dy
+  for (const handle of [node.handleIn, node.handleOut]) {
+    if (handle) {
+      handle.x += dx
+      handle.y += dy
+    }
+  }
+  return result
+}
+
+/**
+ * Move one handle of a node. Smooth nodes turn the opposite handle with it, keeping
+ * its length, so the curve stays smooth through the anchor.
+ */
+export function moveHandle(
+  contours: PathContour[],
+  ref: NodeRef,
+  side: HandleSide,
+  point: PenPoint
+): PathContour[] {
+  const result = cloneContours(contours)
+  const node = result[ref.contour]?.nodes[ref.node]
+  if (!node) return result
+
+  const smooth = isSmoothNode(node)
+  node[side] = toHandle(node, point)
+
+  const oppositeSide: HandleSide = side === 'handleIn' ? 'handleOut' : 'handleIn'
+  const opposite = node[oppositeSide]
+  if (smooth && opposite && node[side]) {
+    const length = Math.hypot(opposite.x - node.x, opposite.y - node.y)
+    const dragLength = Math.hypot(point.x - node.x, point.y - node.y)
+    node[oppositeSide] = {
+      x: node.x - ((point.x - node.x) / dragLength) * length,
+      y: node.y - ((point.y - node.y) / dragLength) * length,
+    }
+  }
+  return result
+}
+
+/**
+ * Make a node a corner (no handles) or smooth. Smooth handles follow the direction
+ * between the neighbouring anchors, a third of the way to each neighbour.
+ */
+export function setNodeSmooth(contours: PathContour[], ref: NodeRef, smooth: boolean): PathContour[] {
+  const result = cloneContours(contours)
+  const contour = result[ref.contour]
+  const node = contour?.nodes[ref.node]
+  if (!node) return result
+
+  if (!smooth) {
+    delete node.handleIn
+    delete node.handleOut
+    return result
+  }
+
+  const { nodes, closed } = contour
+  const prev = ref.node > 0 ? nodes[ref.node - 1] : closed ? nodes[nodes.length - 1] : null
+  const next = ref.node < nodes.length - 1 ? nodes[ref.node + 1] : closed ? nodes[0] : null
+  const from = prev ?? node
+  const to = next ?? node
+  const length = Math.hypot(to.x - from.x, to.y - from.y)
+  if (length < EPSILON) return result
+
+  const ux = (to.x - from.x) / length
+  const uy = (to.y - from.y) / length
+  if (prev && prev !== node) {
+    const reach = Math.hypot(prev.x - node.x, prev.y - node.y) / 3
+    node.handleIn = { x: node.x - ux * reach, y: node.y - uy * reach }
+  }
+  if (next && next !== node) {
+    const reach = Math.hypot(next.x - node.x, next.y - node.y) / 3
+    node.handleOut = { x: node.x + ux * reach, y: node.y + uy * reach }
+  }
+  return result
+}
+
+/**
+ * Point on a segment at parameter t
+ */
+export function getSegmentPoint(contour: PathContour, segment: number, t: number): PenPoint {
+  const { nodes } = contour
+  const from = nodes[segment]
+  const to = nodes[(segment + 1) % nodes.length]
+  const c1 = from.handleOut ?? from
+  const c2 = to.handleIn ?? to
+  const s = 1 - t
+  return {
+    x: s * s * s * from.x + 3 * s * s * t * c1.x + 3 * s * t * t * c2.x + t * t * t * to.x,
+    y: s * s * s * from.y + 3 * s * s * t * c1.y + 3 * s * t * t * c2.y + t * t * t * to.y,
+  }
+}
+
+const getSegmentCount = ({ nodes, closed }: PathContour): number =>
+  nodes.length < 2 ? 0 : closed ? nodes.length : nodes.length - 1
+
+/**
+ * Nearest segment to a point (sampled), or null for a path without segments
+ */
+export function findNearestSegment(contours: PathContour[], point: PenPoint): SegmentHit | null {
+  let nearest: SegmentHit | null = null
+  contours.forEach((contour, contourIndex) => {
+    for (let segment = 0; segment < getSegmentCount(contour); segment++) {
+      for (let i = 0; i <= SEGMENT_SAMPLES; i++) {
+        const t = i / SEGMENT_SAMPLES
+        const p = getSegmentPoint(contour, segment, t)
+        const distance = Math.hypot(p.x - point.x, p.y - point.y)
+        if (!nearest || distance < nearest.distance) {
+          nearest = { contour: contourIndex, segment, t, distance }
+        }
+      }
+    }
+  })
+  return nearest
+}
+
+/**
+ * Split a segment at t with a new anchor; the curve keeps its shape
+ *
+ * @returns The contours and the new node
+ */
+export function insertNode(
+  contours: PathContour[],
+  contourIndex: number,
+  segment: number,
+  t: number
+): { contours: PathContour[]; node: NodeRef } {
+  const result = cloneContours(contours)
+  const { nodes } = result[contourIndex]
+  const from = nodes[segment]
+  const to = nodes[(segment + 1) % nodes.length]
+  const index = segment + 1
+
+  if (!from.handleOut && !to.handleIn) {
+    nodes.splice(index, 0, lerp(from, to, t))
+  } else {
+    // de Casteljau subdivision
+    const c1 = from.handleOut ?? from
+    const c2 = to.handleIn ?? to
+    const a = lerp(from, c1, t)
+    const b = lerp(c1, c2, t)
+    const c = lerp(c2, to, t)
+    const d = lerp(a, b, t)
+    const e = lerp(b, c, t)
+    const anchor = lerp(d, e, t)
+    from.handleOut = toHandle(from, a)
+    to.handleIn = toHandle(to, c)
+    nodes.splice(index, 0, {
+      ...anchor,
+      ...(toHandle(anchor, d) && { handleIn: d }),
+      ...(toHandle(anchor, e) && { handleOut: e }),
+    })
+  }
+
+  return { contours: result, node: { contour: contourIndex, node: index } }
+}
+
+/**
+ * Remove a node. Contours left with a single anchor are removed too.
+ */
+export function deleteNode(contours: PathContour[], ref: NodeRef): PathContour[] {
+  const result = cloneContours(contours)
+  const contour = result[ref.contour]
+  if (!contour?.nodes[ref.node]) return result
+
+  contour.nodes.splice(ref.node, 1)
+  if (contour.nodes.length < 2) {
+    result.splice(ref.contour, 1)
+  }
+  return result
+}
+
+/**
+ * Path data of a Fabric path
+ */
+export function getPathData(path: Path): string {
+  return util.joinPath(path.path)
+}
+
+/**
+ * Replace the geometry of a Fabric path, keeping its transform: unchanged parts of the
+ * path stay where they are on the canvas. Radial symmetry is carried over to the
+ * new object frame.
+ */
+export function setPathData(path: Path & ExtendedFabricObject, pathData: string): void {
+  const before: TMat2D = path.calcTransformMatrix()
+  const { x: offsetX, y: offsetY } = path.pathOffset
+
+  path._setPath(pathData)
+  // The object centre follows the centre of the new bounding box
+  const center = transformPoint(before, { x: path.pathOffset.x - offsetX, y: path.pathOffset.y - offsetY })
+  path.setPositionByOrigin(new Point(center.x, center.y), 'center', 'center')
+  path.setCoords()
+  path.set('dirty', true)
+
+  const radialSymmetry = path.tiledMetadata?.radialSymmetry
+  if (path.tiledMetadata && radialSymmetry) {
+    path.tiledMetadata.radialSymmetry = reframeRadialSymmetry(radialSymmetry, before, path.calcTransformMatrix())
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { createSmoothAnchor, penPathToPathData, shouldClosePath, type PenAnchor } from './PenPath'
+
+describe('createSmoothAnchor', () => {
+  it('should mirror the dragged handle through the anchor', () => {
+    expect(createSmoothAnchor({ x: 10, y: 10 }, { x: 20, y: 15 })).toEqual({
+      x: 10,
+      y: 10,
+      handleIn: { x: 0, y: 5 },
+      handleOut: { x: 20, y: 15 },
+    })
+  })
+
+  it('should keep a corner point for tiny drags', () => {
+    expect(createSmoothAnchor({ x: 10, y: 10 }, { x: 11, y: 10 })).toEqual({ x: 10, y: 10 })
+  })
+})
+
+describe('penPathToPathData', () => {
+  const corners: PenAnchor[] = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }]
+
+  it('should join corner points with lines', () => {
+    expect(penPathToPathData(corners, false)).toBe('M 0 0 L 10 0 L 10 10')
+  })
+
+  it('should close back to the first anchor', () => {
+    expect(penPathToPathData(corners, true)).toBe('M 0 0 L 10 0 L 10 10 L 0 0 Z')
+  })
+
+  it('should use the handles of smooth anchors for curves', () => {
+    const anchors = [{ x: 0, y: 0 }, createSmoothAnchor({ x: 10, y: 0 }, { x: 15, y: 5 }), { x: 20, y: 0 }]
+    expect(penPathToPathData(anchors, false)).toBe('M 0 0 C 0 0 5 -5 10 0 C 15 5 20 0 20 0')
+  })
+})
+
+describe('shouldClosePath', () => {
+  const anchors: PenAnchor[] = [{ x: 0, y: 0 }, { x: 50, y: 0 }]
+
+  it('should close on a click near the first anchor', () => {
+    expect(shouldClosePath(anchors, { x: 3, y: 4 }, 6)).toBe(true)
+    expect(shouldClosePath(anchors, { x: 10, y: 0 }, 6)).toBe(false)
+  })
+
+  it('should need at least two anchors', () => {
+    expect(shouldClosePath(anchors.slice(0, 1), { x: 0, y: 0 }, 6)).toBe(false)
+  })
+})
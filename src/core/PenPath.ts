@@ -0,0 +1,71 @@
+/**
+ * Pen path model - anchors with optional bezier handles, in scene coordinates.
+ * A segment is a straight line when neither of its end handles is set, a cubic bezier otherwise.
+ */
+
+export interface PenPoint {
+  x: number
+  y: number
+}
+
+export interface PenAnchor extends PenPoint {
+  handleIn?: PenPoint // Controls the segment arriving at this anchor
+  handleOut?: PenPoint // Controls the segment leaving this anchor
+}
+
+// Drags shorter than this (scene pixels) keep the anchor a corner point
+const MIN_HANDLE_LENGTH = 2
+
+/**
+ * Smooth anchor from a click-and-drag: the outgoing handle follows the drag,
+ * the incoming handle mirrors it through the anchor
+ */
+export function createSmoothAnchor(anchor: PenPoint, dragTo: PenPoint): PenAnchor {
+  const dx = dragTo.x - anchor.x
+  const dy = dragTo.y - anchor.y
+  if (Math.hypot(dx, dy) < MIN_HANDLE_LENGTH) {
+    return { x: anchor.x, y: anchor.y }
+  }
+
+  return {
+    x: anchor.x,
+    y: anchor.y,
+    handleIn: { x: anchor.x - dx, y: anchor.y - dy },
+    handleOut: { x: dragTo.x, y: dragTo.y },
+  }
+}
+
+function segmentToPathData(from: PenAnchor, to: PenAnchor): string {
+  if (!from.handleOut && !to.handleIn) {
+    return `L ${to.x} ${to.y}`
+  }
+  const c1 = from.handleOut ?? from
+  const c2 = to.handleIn ?? to
+  return `C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${to.x} ${to.y}`
+}
+
+/**
+ * SVG path data for the anchors. Closing adds the segment back to the first anchor.
+ */
+export function penPathToPathData(anchors: PenAnchor[], closed: boolean): string {
+  if (anchors.length === 0) return ''
+
+  const parts = [`M ${anchors[0].x} ${anchors[0].y}`]
+  for (let i = 1; i < anchors.length; i++) {
+    parts.push(segmentToPathData(anchors[i - 1], anchors[i]))
+  }
+  if (closed && anchors.length > 1) {
+    parts.push(segmentToPathData(anchors[anchors.length - 1], anchors[0]), 'Z')
+  }
+  return parts.join(' ')
+}
+
+/**
+ * Whether a click should close the path on its first anchor
+ *
+ * @param tolerance - Hit radius in scene pixels
+ */
+export function shouldClosePath(anchors: PenAnchor[], point: PenPoint, tolerance: number): boolean {
+  if (anchors.length < 2) return false
+  return Math.hypot(point.x - anchors[0].x, point.y - anchors[0].y) <= tolerance
+}
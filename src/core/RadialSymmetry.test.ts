@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import type { TMat2D } from 'fabric'
+import type { TileSize } from '../types/TileSize'
+import {
+  DEFAULT_RADIAL_SETTINGS,
+  getObjectRadialMatrices,
+  getRadialCenter,
+  getRadialMatrices,
+  getRadialSettingsMatrices,
+  isRadialSymmetry,
+  reframeRadialSymmetry,
+  solveRadialSourceMatrix,
+  toObjectRadialSymmetry,
+  type RadialSettings,
+} from './RadialSymmetry'
+import { multiplyMatrices, transformPoint } from './WallpaperSymmetry'
+
+const SQUARE: TileSize = { width: 256, height: 256 }
+const CENTER = { x: 384, y: 384 }
+
+const SIX_MIRRORED: RadialSettings = { ...DEFAULT_RADIAL_SETTINGS, enabled: true }
+
+const expectPointClose = (actual: { x: number; y: number }, expected: { x: number; y: number }) => {
+  expect(actual.x).toBeCloseTo(expected.x, 6)
+  expect(actual.y).toBeCloseTo(expected.y, 6)
+}
+
+const expectMatrixClose = (actual: TMat2D, expected: TMat2D) => {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 6))
+}
+
+describe('getRadialMatrices', () => {
+  it('should rotate around the centre in equal steps', () => {
+    const matrices = getRadialMatrices(4, false, CENTER)
+    expect(matrices).toHaveLength(4)
+    expectMatrixClose(matrices[0], [1, 0, 0, 1, 0, 0])
+    expectPointClose(transformPoint(matrices[1], { x: 484, y: 384 }), { x: 384, y: 484 })
+    matrices.forEach((matrix) => expectPointClose(transformPoint(matrix, CENTER), CENTER))
+  })
+
+  it('should add one reflection per segment when mirrored', () => {
+    const matrices = getRadialMatrices(6, true, CENTER)
+    expect(matrices).toHaveLength(12)
+    // The first axis is horizontal through the centre
+    expectPointClose(transformPoint(matrices[6], { x: 400, y: 374 }), { x: 400, y: 394 })
+  })
+})
+
+describe('radial drawing mode', () => {
+  it('should place the centre relative to the center tile', () => {
+    expect(getRadialCenter(DEFAULT_RADIAL_SETTINGS, SQUARE)).toEqual(CENTER)
+    expect(getRadialCenter({ ...DEFAULT_RADIAL_SETTINGS, center: { x: 0, y: 1 } }, SQUARE)).toEqual({ x: 256, y: 512 })
+  })
+
+  it('should only replicate while enabled', () => {
+    expect(getRadialSettingsMatrices(DEFAULT_RADIAL_SETTINGS, SQUARE)).toHaveLength(1)
+    expect(getRadialSettingsMatrices(SIX_MIRRORED, SQUARE)).toHaveLength(12)
+    expect(toObjectRadialSymmetry(DEFAULT_RADIAL_SETTINGS, SQUARE, [1, 0, 0, 1, 0, 0])).toBeUndefined()
+  })
+
+  it('should reproduce the mode matrices from the object frame', () => {
+    const objectMatrix: TMat2D = [0, 2, -2, 0, 420, 300] // rotated 90° and scaled 2x
+    const radial = toObjectRadialSymmetry(SIX_MIRRORED, SQUARE, objectMatrix)!
+    expect(isRadialSymmetry(radial)).toBe(true)
+
+    const fromObject = getObjectRadialMatrices(radial, objectMatrix)
+    const fromMode = getRadialSettingsMatrices(SIX_MIRRORED, SQUARE)
+    fromObject.forEach((matrix, i) => expectMatrixClose(matrix, fromMode[i]))
+  })
+
+  it('should carry the motif along when the object moves', () => {
+    const objectMatrix: TMat2D = [1, 0, 0, 1, 420, 300]
+    const radial = toObjectRadialSymmetry(SIX_MIRRORED, SQUARE, objectMatrix)!
+    const moved: TMat2D = [1, 0, 0, 1, 440, 310]
+    const center = transformPoint(getObjectRadialMatrices(radial, moved)[1], { x: 404, y: 394 })
+    expectPointClose(center, { x: 404, y: 394 })
+  })
+})
+
+describe('solveRadialSourceMatrix', () => {
+  it('should put the edited copy exactly where it was dropped', () => {
+    const objectMatrix: TMat2D = [1, 0, 0, 1, 420, 300]
+    const radial = toObjectRadialSymmetry(SIX_MIRRORED, SQUARE, objectMatrix)!
+    const before = getObjectRadialMatrices(radial, objectMatrix)
+
+    // Rotate and move the copy - on a mirrored copy too
+    const motion: TMat2D = [0.8, 0.6, -0.6, 0.8, 30, -20]
+    for (const radialIndex of [1, 7]) {
+      const target = multiplyMatrices(motion, multiplyMatrices(before[radialIndex], objectMatrix))
+      const solved = solveRadialSourceMatrix(objectMatrix, before[radialIndex], target)
+      const after = getObjectRadialMatrices(radial, solved)
+      expectMatrixClose(multiplyMatrices(after[radialIndex], solved), target)
+    }
+  })
+
+  it('should keep the object when the copy did not change', () => {
+    const objectMatrix: TMat2D = [1, 0, 0, 1, 420, 300]
+    const radial = toObjectRadialSymmetry(SIX_MIRRORED, SQUARE, objectMatrix)!
+    const radialMatrix = getObjectRadialMatrices(radial, objectMatrix)[3]
+    const copy = multiplyMatrices(radialMatrix, objectMatrix)
+    expectMatrixClose(solveRadialSourceMatrix(objectMatrix, radialMatrix, copy), objectMatrix)
+  })
+})
+
+describe('reframeRadialSymmetry', () => {
+  it('should keep the motif when the object is rebuilt in another frame', () => {
+    const objectMatrix: TMat2D = [0, 2, -2, 0, 420, 300]
+    const radial = toObjectRadialSymmetry(SIX_MIRRORED, SQUARE, objectMatrix)!
+    const rebuilt: TMat2D = [1, 0, 0, 1, 395, 310]
+
+    const reframed = reframeRadialSymmetry(radial, objectMatrix, rebuilt)
+    const before = getObjectRadialMatrices(radial, objectMatrix)
+    getObjectRadialMatrices(reframed, rebuilt).forEach((matrix, i) => expectMatrixClose(matrix, before[i]))
+  })
+})
@@ -0,0 +1,193 @@
+import type { TMat2D } from 'fabric'
+import type { TileSize } from '../types/TileSize'
+import { invertMatrix, multiplyMatrices, transformPoint } from './WallpaperSymmetry'
+
+/**
+ * Radial (kaleidoscope) drawing mode. While enabled, every new object is repeated around
+ * a centre point inside the tile - rotated into each segment and, with mirroring on,
+ * reflected across the segment boundaries as well.
+ */
+export interface RadialSettings {
+  enabled: boolean
+  segments: number
+  mirror: boolean
+  center: { x: number; y: number } // Fraction of the center tile - (0.5, 0.5) is its middle
+}
+
+/**
+ * Radial symmetry stored on an object (TiledObjectMetadata.radialSymmetry).
+ * Centre and axis live in the object's own coordinate frame, so moving, rotating or
+ * scaling the object carries the whole motif with it.
+ */
+export interface RadialSymmetry {
+  segments: number
+  mirror: boolean
+  center: { x: number; y: number } // Relative to the object center, before its transform
+  axisAngle: number // Direction of the first mirror axis in the object's frame (degrees)
+}
+
+export const MIN_RADIAL_SEGMENTS = 2
+export const MAX_RADIAL_SEGMENTS = 24
+
+export const DEFAULT_RADIAL_SETTINGS: RadialSettings = {
+  enabled: false,
+  segments: 6,
+  mirror: true,
+  center: { x: 0.5, y: 0.5 },
+}
+
+const IDENTITY: TMat2D = [1, 0, 0, 1, 0, 0]
+
+/**
+ * Matrices of the rotations (and reflections) around a scene point, identity first.
+ * Rotations step by 360°/segments; reflections use axes through the centre at
+ * axisAngle + k·180°/segments.
+ */
+export function getRadialMatrices(
+  segments: number,
+  mirror: boolean,
+  center: { x: number; y: number },
+  axisAngle: number = 0
+): TMat2D[] {
+  const around = (linear: [number, number, number, number]): TMat2D => {
+    const [a, b, c, d] = linear
+    return [a, b, c, d, center.x - a * center.x - c * center.y, center.y - b * center.x - d * center.y]
+  }
+
+  const matrices: TMat2D[] = [IDENTITY]
+  for (let k = 1; k < segments; k++) {
+    const angle = (2 * Math.PI * k) / segments
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    matrices.push(around([cos, sin, -sin, cos]))
+  }
+
+  if (mirror) {
+    const base = (axisAngle * Math.PI) / 180
+    for (let k = 0; k < segments; k++) {
+      const doubled = 2 * (base + (Math.PI * k) / segments)
+      const cos = Math.cos(doubled)
+      const sin = Math.sin(doubled)
+      matrices.push(around([cos, sin, sin, -cos]))
+    }
+  }
+
+  return matrices
+}
+
+/**
+ * Scene position of the radial centre for the current tile size
+ */
+export function getRadialCenter(settings: RadialSettings, tileSize: TileSize): { x: number; y: number } {
+  return {
+    x: tileSize.width * (1 + settings.center.x),
+    y: tileSize.height * (1 + settings.center.y),
+  }
+}
+
+/**
+ * Scene-space matrices of the radial drawing mode (identity only while disabled)
+ */
+export function getRadialSettingsMatrices(settings: RadialSettings, tileSize: TileSize): TMat2D[] {
+  if (!settings.enabled) return [IDENTITY]
+  return getRadialMatrices(settings.segments, settings.mirror, getRadialCenter(settings, tileSize))
+}
+
+/**
+ * Express the drawing mode in the frame of a newly created object
+ *
+ * @param objectMatrix - The object's transform (calcTransformMatrix)
+ */
+export function toObjectRadialSymmetry(
+  settings: RadialSettings,
+  tileSize: TileSize,
+  objectMatrix: TMat2D
+): RadialSymmetry | undefined {
+  if (!settings.enabled) return undefined
+
+  const inverse = invertMatrix(objectMatrix)
+  const center = transformPoint(inverse, getRadialCenter(settings, tileSize))
+  // The scene x axis is the first mirror axis
+  const axis = transformPoint([inverse[0], inverse[1], inverse[2], inverse[3], 0, 0], { x: 1, y: 0 })
+
+  return {
+    segments: settings.segments,
+    mirror: settings.mirror,
+    center,
+    axisAngle: (Math.atan2(axis.y, axis.x) * 180) / Math.PI,
+  }
+}
+
+/**
+ * Scene-space matrices of an object's radial copies, identity first
+ * ([identity] for objects without radial symmetry)
+ *
+ * @param objectMatrix - The object's current transform (calcTransformMatrix)
+ */
+export function getObjectRadialMatrices(radial: RadialSymmetry | undefined, objectMatrix: TMat2D): TMat2D[] {
+  if (!radial) return [IDENTITY]
+
+  const center = transformPoint(objectMatrix, radial.center)
+  const angle = (radial.axisAngle * Math.PI) / 180
+  const axis = transformPoint(
+    [objectMatrix[0], objectMatrix[1], objectMatrix[2], objectMatrix[3], 0, 0],
+    { x: Math.cos(angle), y: Math.sin(angle) }
+  )
+
+  return getRadialMatrices(
+    radial.segments,
+    radial.mirror,
+    center,
+    (Math.atan2(axis.y, axis.x) * 180) / Math.PI
+  )
+}
+
+/**
+ * Transform of an object that puts radial copy `radialIndex` where the copy `target`
+ * should be. The whole motif moves with it, so the local radial operation is
+ * conjugated into the object's frame.
+ *
+ * @param objectMatrix - The object's transform before the edit
+ * @param radialMatrix - getObjectRadialMatrices(...)[radialIndex] before the edit
+ * @param target - Desired scene transform of that copy (without any instance transform)
+ */
+export function solveRadialSourceMatrix(objectMatrix: TMat2D, radialMatrix: TMat2D, target: TMat2D): TMat2D {
+  const localOperation = multiplyMatrices(
+    invertMatrix(objectMatrix),
+    multiplyMatrices(invertMatrix(radialMatrix), objectMatrix)
+  )
+  return multiplyMatrices(target, localOperation)
+}
+
+/**
+ * Re-express an object's radial symmetry after its geometry moved into a new frame
+ * (e.g. a path rebuilt from scene coordinates), keeping the motif where it is
+ *
+ * @param fromMatrix - The transform the radial symmetry was stored against
+ * @param toMatrix - The transform of the new frame
+ */
+export function reframeRadialSymmetry(radial: RadialSymmetry, fromMatrix: TMat2D, toMatrix: TMat2D): RadialSymmetry {
+  const inverse = invertMatrix(toMatrix)
+  const angle = (radial.axisAngle * Math.PI) / 180
+  const sceneAxis = transformPoint(
+    [fromMatrix[0], fromMatrix[1], fromMatrix[2], fromMatrix[3], 0, 0],
+    { x: Math.cos(angle), y: Math.sin(angle) }
+  )
+  const axis = transformPoint([inverse[0], inverse[1], inverse[2], inverse[3], 0, 0], sceneAxis)
+
+  return {
+    ...radial,
+    center: transformPoint(inverse, transformPoint(fromMatrix, radial.center)),
+    axisAngle: (Math.atan2(axis.y, axis.x) * 180) / Math.PI,
+  }
+}
+
+export function isRadialSymmetry(value: unknown): value is RadialSymmetry {
+  if (typeof value !== 'object' || value === null) return false
+  const radial = value as RadialSymmetry
+  return Number.isInteger(radial.segments) &&
+    radial.segments >= MIN_RADIAL_SEGMENTS && radial.segments <= MAX_RADIAL_SEGMENTS &&
+    typeof radial.mirror === 'boolean' &&
+    typeof radial.center?.x === 'number' && typeof radial.center?.y === 'number' &&
+    typeof radial.axisAngle === 'number'
+}
@@ -1,9 +1,21 @@
-import { Rect, type Canvas } from "fabric";
+import { Rect, Point, util, type Canvas, type FabricObject, type TMat2D } from "fabric";
 import type {
   ExtendedFabricObject,
   ProxyMetadata,
 } from "../types/FabricExtensions";
 import type { CanonicalObjectStore } from "./CanonicalObjectStore";
+import type { TileSize } from "../types/TileSize";
+import { getObjectRadialMatrices, solveRadialSourceMatrix } from "./RadialSymmetry";
+import {
+  getInstanceMatrix,
+  invertMatrix,
+  isTranslationOnly,
+  multiplyMatrices,
+  wrapToCenterCell,
+  STRAIGHT_REPEAT,
+  type RepeatLayout,
+  type WallpaperGroup,
+} from "./WallpaperSymmetry";
 
 // Base minimum proxy size = 2x default corner handle size (8px) to ensure handles don't overlap
 const BASE_MIN_PROXY_SIZE = 24;
@@ -22,19 +34,25 @@ export interface ProxyRect extends Rect {
  * Coordinate System:
  * - Canvas is 768x768 (3x3 grid of 256px tiles)
  * - Canonical objects are stored in center tile (256-512 range)
- * - Proxies can be created at any tile position (offset by ±tileSize)
+ * - Proxies can be created at any tile position (offset by ±width / ±height)
+ * - With a wallpaper group other than p1, proxies can also sit on a rotated/mirrored
+ *   instance; transforms are then mapped through the instance matrix and its inverse
+ * - Objects drawn in radial mode can be selected on any radial copy; editing that copy
+ *   moves the whole motif so the copy ends up where it was dropped
  */
 export class SelectionProxyManager {
   private canvas: Canvas;
   private canonicalStore: CanonicalObjectStore;
-  private tileSize: number;
+  private tileSize: TileSize;
+  private symmetryGroup: WallpaperGroup = "p1";
+  private repeatLayout: RepeatLayout = STRAIGHT_REPEAT;
   private canvasZoom: number = 1;
   private activeProxies: Map<string, ProxyRect> = new Map(); // mirrorGroupId → proxy
 
   constructor(
     canvas: Canvas,
     canonicalStore: CanonicalObjectStore,
-    tileSize: number
+    tileSize: TileSize
   ) {
     this.canvas = canvas;
     this.canonicalStore = canonicalStore;
@@ -44,10 +62,86 @@ export class SelectionProxyManager {
   /**
    * Update the tile size (when resolution changes)
    */
-  setTileSize(tileSize: number): void {
+  setTileSize(tileSize: TileSize): void {
     this.tileSize = tileSize;
   }
 
+  /**
+   * Update the wallpaper group (affects where instance proxies appear)
+   */
+  setSymmetryGroup(group: WallpaperGroup): void {
+    this.symmetryGroup = group;
+  }
+
+  /**
+   * Update the repeat layout (affects where tile proxies appear)
+   */
+  setRepeatLayout(layout: RepeatLayout): void {
+    this.repeatLayout = layout;
+  }
+
+  /**
+   * Get the scene-space transform of the instance a proxy is attached to
+   */
+  private getInstanceMatrix(
+    tileOffset: [number, number],
+    operationIndex: number
+  ): TMat2D {
+    return getInstanceMatrix(
+      this.symmetryGroup,
+      this.tileSize,
+      tileOffset,
+      operationIndex,
+      this.repeatLayout
+    );
+  }
+
+  /**
+   * Get the radial copy transform of a canonical object (identity for radialIndex 0)
+   */
+  private getRadialMatrix(
+    canonical: ExtendedFabricObject,
+    radialIndex: number
+  ): TMat2D {
+    const radialMatrices = getObjectRadialMatrices(
+      canonical.tiledMetadata?.radialSymmetry,
+      canonical.calcTransformMatrix()
+    );
+    return radialMatrices[radialIndex] ?? radialMatrices[0];
+  }
+
+  /**
+   * Get the scene-space transform of the copy a proxy is attached to
+   */
+  private getCopyMatrix(
+    canonical: ExtendedFabricObject,
+    metadata: Pick<ProxyMetadata, "tileOffset" | "operationIndex" | "radialIndex">
+  ): TMat2D {
+    return multiplyMatrices(
+      this.getInstanceMatrix(metadata.tileOffset, metadata.operationIndex),
+      this.getRadialMatrix(canonical, metadata.radialIndex)
+    );
+  }
+
+  /**
+   * Replace an object's transform with the given matrix.
+   * Reflections are expressed as flipY so scale values stay positive.
+   */
+  private applyMatrixToObject(obj: FabricObject, matrix: TMat2D): void {
+    const { translateX, translateY, angle, scaleX, scaleY, skewX, skewY } =
+      util.qrDecompose(matrix);
+    obj.set({
+      angle,
+      scaleX,
+      scaleY: Math.abs(scaleY),
+      skewX,
+      skewY,
+      flipX: false,
+      flipY: scaleY < 0,
+    });
+    obj.setPositionByOrigin(new Point(translateX, translateY), "center", "center");
+  }
+
   /**
    * Update the canvas zoom level (affects minimum proxy size)
    */
@@ -68,11 +162,15 @@ export class SelectionProxyManager {
    *
    * @param canonical - The canonical object to create a proxy for
    * @param tileOffset - The tile offset where the proxy should appear
+   * @param operationIndex - The symmetry operation of the instance (0 = identity)
+   * @param radialIndex - The radial copy of the object (0 = the object itself)
    * @returns The created proxy rect
    */
   createProxy(
     canonical: ExtendedFabricObject,
-    tileOffset: [number, number]
+    tileOffset: [number, number],
+    operationIndex: number = 0,
+    radialIndex: number = 0
   ): ProxyRect {
     const mirrorGroupId = canonical.tiledMetadata?.mirrorGroupId;
     if (!mirrorGroupId) {
@@ -82,10 +180,15 @@ export class SelectionProxyManager {
     // Remove existing proxy for this entity if it exists
     this.removeProxy(mirrorGroupId);
 
-    // Calculate proxy position at tile offset
-    const [tx, ty] = tileOffset;
-    const offsetX = tx * this.tileSize;
-    const offsetY = ty * this.tileSize;
+    // Calculate proxy position at the instance
+    const instanceMatrix = this.getCopyMatrix(canonical, {
+      tileOffset,
+      operationIndex,
+      radialIndex,
+    });
+    const isTranslation = isTranslationOnly(instanceMatrix);
+    const offsetX = isTranslation ? instanceMatrix[4] : 0;
+    const offsetY = isTranslation ? instanceMatrix[5] : 0;
 
     // Get object's bounding box to create appropriately sized proxy
     const bounds = canonical.getBoundingRect();
@@ -144,12 +247,22 @@ export class SelectionProxyManager {
       objectCaching: false, // Disable caching to ensure fresh hit detection
     }) as unknown as ProxyRect;
 
+    // Rotated/mirrored instances: move the proxy from the canonical position onto the instance
+    if (!isTranslation) {
+      this.applyMatrixToObject(
+        proxy,
+        multiplyMatrices(instanceMatrix, proxy.calcOwnMatrix())
+      );
+    }
+
     // Add proxy metadata to link back to canonical
     proxy.proxyMetadata = {
       isProxy: true,
       canonicalObjectId: canonical.id || "",
       mirrorGroupId,
       tileOffset,
+      operationIndex,
+      radialIndex,
       sizeAdjust: [leftAdjust, topAdjust],
       baseSize: [baseWidth, baseHeight], // Original canonical size (before any proxy enlargement)
       baseScale: [scaleX, scaleY], // Scale at proxy creation time
@@ -192,6 +305,17 @@ export class SelectionProxyManager {
     return this.activeProxies.get(mirrorGroupId);
   }
 
+  /**
+   * Get the scene-space transform of the copy an object is selected at
+   * (null if it has no proxy)
+   */
+  getProxyCopyMatrix(mirrorGroupId: string): TMat2D | null {
+    const proxy = this.activeProxies.get(mirrorGroupId);
+    const canonical = this.canonicalStore.get(mirrorGroupId);
+    if (!proxy || !canonical) return null;
+    return this.getCopyMatrix(canonical, proxy.proxyMetadata);
+  }
+
   /**
    * Get all active proxies
    */
@@ -219,9 +343,47 @@ export class SelectionProxyManager {
 
     if (!canonical) return;
 
-    const [tx, ty] = tileOffset;
-    const offsetX = tx * this.tileSize;
-    const offsetY = ty * this.tileSize;
+    const instanceMatrix = this.getCopyMatrix(canonical, proxy.proxyMetadata);
+
+    // Rotated/mirrored instance: map the proxy transform back through the instance inverse.
+    // The proxy and canonical share center, scale, angle and skew, so the result
+    // is the canonical transform directly.
+    if (!isTranslationOnly(instanceMatrix)) {
+      const { operationIndex, radialIndex } = proxy.proxyMetadata;
+      const copyTarget = multiplyMatrices(
+        invertMatrix(this.getInstanceMatrix(tileOffset, operationIndex)),
+        proxy.calcTransformMatrix()
+      );
+      // A radial copy: move the whole motif so that copy lands under the proxy
+      this.applyMatrixToObject(
+        canonical,
+        radialIndex > 0
+          ? solveRadialSourceMatrix(
+              canonical.calcTransformMatrix(),
+              this.getRadialMatrix(canonical, radialIndex),
+              copyTarget
+            )
+          : copyTarget
+      );
+
+      const wrapped = wrapToCenterCell(
+        { x: canonical.left || 0, y: canonical.top || 0 },
+        this.symmetryGroup,
+        this.tileSize,
+        this.repeatLayout
+      );
+      canonical.set({ left: wrapped.x, top: wrapped.y });
+
+      proxy.proxyMetadata.baseScale = [
+        canonical.scaleX || 1,
+        canonical.scaleY || 1,
+      ];
+      canonical.setCoords();
+      return;
+    }
+
+    const offsetX = instanceMatrix[4];
+    const offsetY = instanceMatrix[5];
     const [leftAdjust, topAdjust] = sizeAdjust;
     const [baseWidth, baseHeight] = baseSize;
     const [originalScaleX, originalScaleY] = baseScale;
@@ -266,14 +428,15 @@ export class SelectionProxyManager {
     let canonicalLeft = proxyLeft - offsetX + rotatedLeftAdjust;
     let canonicalTop = proxyTop - offsetY + rotatedTopAdjust;
 
-    // Normalize position to center tile range [tileSize, 2*tileSize)
-    const normalizeToCenter = (val: number): number => {
-      const inTile = ((val % this.tileSize) + this.tileSize) % this.tileSize;
-      return inTile + this.tileSize;
-    };
-
-    canonicalLeft = normalizeToCenter(canonicalLeft);
-    canonicalTop = normalizeToCenter(canonicalTop);
+    // Normalize position to the center cell (the center tile for rectangular lattices)
+    const wrapped = wrapToCenterCell(
+      { x: canonicalLeft, y: canonicalTop },
+      this.symmetryGroup,
+      this.tileSize,
+      this.repeatLayout
+    );
+    canonicalLeft = wrapped.x;
+    canonicalTop = wrapped.y;
 
     // Update canonical object with all transforms
     canonical.set({
@@ -308,9 +471,10 @@ export class SelectionProxyManager {
 
     if (!proxy || !canonical) return;
 
-    const [tx, ty] = proxy.proxyMetadata.tileOffset;
-    const offsetX = tx * this.tileSize;
-    const offsetY = ty * this.tileSize;
+    const instanceMatrix = this.getCopyMatrix(canonical, proxy.proxyMetadata);
+    const isTranslation = isTranslationOnly(instanceMatrix);
+    const offsetX = isTranslation ? instanceMatrix[4] : 0;
+    const offsetY = isTranslation ? instanceMatrix[5] : 0;
     const [baseWidth, baseHeight] = proxy.proxyMetadata.baseSize;
 
     // Get canonical scale
@@ -351,6 +515,13 @@ export class SelectionProxyManager {
       skewY: canonical.skewY,
     });
 
+    if (!isTranslation) {
+      this.applyMatrixToObject(
+        proxy,
+        multiplyMatrices(instanceMatrix, proxy.calcOwnMatrix())
+      );
+    }
+
     // Update metadata
     proxy.proxyMetadata.sizeAdjust = [leftAdjust, topAdjust];
     proxy.proxyMetadata.baseScale = [scaleX, scaleY];
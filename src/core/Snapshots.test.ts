@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { Rect } from 'fabric'
+import type { ProjectData, SerializedEntity } from '../types/ProjectFormat'
+import {
+  createSnapshot,
+  diffSnapshots,
+  getSnapshotEntityBounds,
+  getSnapshotViewBox,
+  isSnapshot,
+} from './Snapshots'
+
+const entity = (mirrorGroupId: string, left = 0): SerializedEntity => ({
+  mirrorGroupId,
+  order: 0,
+  fabricObject: new Rect({ left, top: 0, width: 10, height: 10 }).toObject(),
+})
+
+const layer = (id: string, entities: SerializedEntity[]) => ({
+  id,
+  name: id,
+  visible: true,
+  locked: false,
+  order: 0,
+  entities,
+})
+
+const project = (layers: ProjectData['layers']): ProjectData => ({
+  version: '1.1.0',
+  appVersion: '0.0.1',
+  metadata: { tileSize: { width: 100, height: 50 }, createdAt: '', modifiedAt: '' },
+  layers,
+})
+
+describe('createSnapshot', () => {
+  it('should keep the project without other snapshots and the history', () => {
+    const first = createSnapshot([], project([]))
+    const data = { ...project([]), history: { done: [], undone: [] }, snapshots: [first] }
+    const second = createSnapshot([first], data, '  client v1 ')
+
+    expect(first.name).toBe('Snapshot 1')
+    expect(second.name).toBe('client v1')
+    expect(second.project).toEqual(project([]))
+    expect(data.snapshots).toEqual([first])
+  })
+
+  it('should round-trip through project data', () => {
+    const snapshot = createSnapshot([], project([layer('a', [entity('x')])]), 'v1', 'data:image/png;base64,')
+
+    expect(isSnapshot(JSON.parse(JSON.stringify(snapshot)))).toBe(true)
+    expect(isSnapshot({ ...snapshot, project: {} })).toBe(false)
+    expect(isSnapshot({ ...snapshot, thumbnail: 1 })).toBe(false)
+  })
+})
+
+describe('diffSnapshots', () => {
+  it('should match entities by mirrorGroupId', () => {
+    const before = project([layer('a', [entity('kept'), entity('moved'), entity('removed')]), layer('b', [entity('relayered')])])
+    const after = project([layer('a', [entity('added'), entity('kept'), entity('moved', 20)]), layer('c', [entity('relayered')])])
+    const diff = diffSnapshots(before, after)
+
+    expect(diff.added.map(({ mirrorGroupId }) => mirrorGroupId)).toEqual(['added'])
+    expect(diff.removed.map(({ mirrorGroupId }) => mirrorGroupId)).toEqual(['removed'])
+    expect(diff.changed.map(({ after }) => [after.mirrorGroupId, after.layerId])).toEqual([
+      ['moved', 'a'],
+      ['relayered', 'c'],
+    ])
+    expect(diff.unchanged).toBe(1)
+  })
+})
+
+describe('getSnapshotViewBox', () => {
+  it('should cover the repeat from the center tile', () => {
+    expect(getSnapshotViewBox(project([]))).toEqual({ x: 100, y: 50, width: 100, height: 50 })
+  })
+})
+
+describe('getSnapshotEntityBounds', () => {
+  it('should find where a saved entity is', async () => {
+    const bounds = await getSnapshotEntityBounds(entity('a', 30))
+    expect(bounds).toMatchObject({ x: 30, y: 0 })
+    expect(await getSnapshotEntityBounds({ mirrorGroupId: 'b', order: 0, fabricObject: { type: 'unknown' } })).toBeNull()
+  })
+})
@@ -0,0 +1,157 @@
+import { util as fabricUtil, type FabricObject } from 'fabric'
+import { generateUniqueId } from '../utils/idGenerator'
+import type { ProjectData, SerializedEntity } from '../types/ProjectFormat'
+import { getRepeatSize, STRAIGHT_REPEAT } from './WallpaperSymmetry'
+
+/**
+ * Snapshots - named versions of a project kept inside it, e.g. "client v1".
+ *
+ * A snapshot holds the whole project as it was, without the other snapshots and the undo
+ * history, so it can be compared with another version, restored, or saved as a project of
+ * its own. Entities are told apart across versions by their mirrorGroupId.
+ */
+
+export interface Snapshot {
+  id: string
+  name: string
+  createdAt: string // ISO date
+  thumbnail?: string // PNG data URL of the tile - left out when the autosave runs out of space
+  project: ProjectData
+}
+
+/**
+ * An entity as saved in a version of the project
+ */
+export interface SnapshotEntity extends SerializedEntity {
+  layerId: string
+}
+
+/**
+ * How the entities of one version differ from another, matched by mirrorGroupId
+ */
+export interface SnapshotDiff {
+  added: SnapshotEntity[]
+  removed: SnapshotEntity[]
+  changed: { before: SnapshotEntity; after: SnapshotEntity }[]
+  unchanged: number
+}
+
+/**
+ * Area of the project shown by thumbnails and exports, in canvas coordinates
+ * (see generateCenterTileSVG)
+ */
+export interface ViewBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * New snapshot of a project, named after the existing ones unless a name is given
+ */
+export function createSnapshot(
+  existing: Snapshot[],
+  project: ProjectData,
+  name?: string,
+  thumbnail?: string
+): Snapshot {
+  const names = new Set(existing.map(({ name }) => name))
+  let number = existing.length + 1
+  while (names.has(`Snapshot ${number}`)) number++
+
+  const stored: ProjectData = { ...project }
+  delete stored.snapshots
+  delete stored.history
+
+  return {
+    id: generateUniqueId('snapshot'),
+    name: name?.trim() || `Snapshot ${number}`,
+    createdAt: new Date().toISOString(),
+    ...(thumbnail && { thumbnail }),
+    project: stored,
+  }
+}
+
+/**
+ * Every entity of a project by mirrorGroupId, with the layer it is on
+ */
+export function getSnapshotEntities(project: ProjectData): Map<string, SnapshotEntity> {
+  const entities = new Map<string, SnapshotEntity>()
+  for (const layer of project.layers) {
+    for (const entity of layer.entities) {
+      entities.set(entity.mirrorGroupId, { ...entity, layerId: layer.id })
+    }
+  }
+  return entities
+}
+
+/**
+ * Entities added, removed and changed from one version of a project to another.
+ * An entity changed when it moved to another layer or any of its properties differ;
+ * moving in z-order alone isn't a change, as adding an entity shifts the ones above it.
+ */
+export function diffSnapshots(before: ProjectData, after: ProjectData): SnapshotDiff {
+  const beforeEntities = getSnapshotEntities(before)
+  const afterEntities = getSnapshotEntities(after)
+  const diff: SnapshotDiff = { added: [], removed: [], changed: [], unchanged: 0 }
+
+  for (const [id, entity] of afterEntities) {
+    const previous = beforeEntities.get(id)
+    if (!previous) {
+      diff.added.push(entity)
+    } else if (
+      previous.layerId !== entity.layerId ||
+      JSON.stringify(previous.fabricObject) !== JSON.stringify(entity.fabricObject)
+    ) {
+      diff.changed.push({ before: previous, after: entity })
+    } else {
+      diff.unchanged++
+    }
+  }
+  for (const [id, entity] of beforeEntities) {
+    if (!afterEntities.has(id)) diff.removed.push(entity)
+  }
+
+  return diff
+}
+
+/**
+ * The area thumbnails of a version of the project show
+ */
+export function getSnapshotViewBox(project: ProjectData): ViewBox {
+  const { tileSize, symmetryGroup = 'p1', repeatLayout = STRAIGHT_REPEAT } = project.metadata
+  return { x: tileSize.width, y: tileSize.height, ...getRepeatSize(symmetryGroup, tileSize, repeatLayout) }
+}
+
+/**
+ * Bounding box of a saved entity in canvas coordinates, or null if it can't be recreated
+ */
+export async function getSnapshotEntityBounds(entity: SerializedEntity): Promise<ViewBox | null> {
+  try {
+    const [obj] = await fabricUtil.enlivenObjects<FabricObject>([entity.fabricObject])
+    if (!obj) return null
+    const { left, top, width, height } = obj.getBoundingRect()
+    return { x: left, y: top, width, height }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether a value read from a project file is a snapshot. The project inside is
+ * validated like any other when the snapshot is restored.
+ */
+export function isSnapshot(value: unknown): value is Snapshot {
+  if (!value || typeof value !== 'object') return false
+  const { id, name, createdAt, thumbnail, project } = value as Record<string, unknown>
+  return (
+    typeof id === 'string' &&
+    typeof name === 'string' &&
+    typeof createdAt === 'string' &&
+    (thumbnail === undefined || typeof thumbnail === 'string') &&
+    !!project &&
+    typeof project === 'object' &&
+    Array.isArray((project as Record<string, unknown>).layers)
+  )
+}
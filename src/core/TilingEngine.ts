@@ -1,12 +1,30 @@
-import type { Canvas, FabricObject } from 'fabric'
+import { util, type Canvas, type FabricObject } from 'fabric'
 import type { ExtendedFabricObject, TiledObjectMetadata } from '../types/FabricExtensions'
 import { generateUniqueId } from '../utils/idGenerator'
 import type { CanonicalObjectStore } from './CanonicalObjectStore'
 import type { SelectionProxyManager, ProxyRect } from './SelectionProxyManager'
+import type { TileSize } from '../types/TileSize'
+import {
+  getObjectRadialMatrices,
+  isRadialSymmetry,
+  toObjectRadialSymmetry,
+  DEFAULT_RADIAL_SETTINGS,
+  type RadialSettings,
+} from './RadialSymmetry'
+import {
+  multiplyMatrices,
+  wrapToCenterCell,
+  STRAIGHT_REPEAT,
+  type RepeatLayout,
+  type WallpaperGroup,
+} from './WallpaperSymmetry'
 
 export class TilingEngine {
   private canvas: Canvas
-  private tileSize: number
+  private tileSize: TileSize
+  private symmetryGroup: WallpaperGroup = 'p1'
+  private repeatLayout: RepeatLayout = STRAIGHT_REPEAT
+  private radialSettings: RadialSettings = DEFAULT_RADIAL_SETTINGS
   private syncEnabled: boolean = true
 
   // Virtual tiling components (optional - for gradual migration)
@@ -14,7 +32,7 @@ export class TilingEngine {
   private selectionProxyManager: SelectionProxyManager | null = null
   private useVirtualTiling: boolean = false
 
-  constructor(canvas: Canvas, tileSize: number) {
+  constructor(canvas: Canvas, tileSize: TileSize) {
     this.canvas = canvas
     this.tileSize = tileSize
     this.setupTransformSync()
@@ -49,6 +67,9 @@ export class TilingEngine {
    * - Objects are stored at their actual canvas position (in center tile range)
    * - VirtualRenderingEngine draws 8 copies at ±tileSize offsets
    *
+   * Objects that already carry tiling metadata (imports, duplicates) keep their own radial
+   * symmetry; new objects pick up the radial drawing mode if it is enabled.
+   *
    * @param originalObject The Fabric object to store
    * @param position The click position where the object was created
    * @param layerId Optional layer ID to assign
@@ -65,22 +86,22 @@ export class TilingEngine {
       throw new Error('Virtual tiling not enabled. Call enableVirtualTiling() first.')
     }
 
-    // Normalize position to center tile range [tileSize, 2*tileSize)
-    // This ensures the object is always placed within the center tile (256-512 on 768px canvas)
-    const normalizeToCenter = (val: number): number => {
-      // First get position within any tile [0, tileSize)
-      const inTile = ((val % this.tileSize) + this.tileSize) % this.tileSize
-      // Then offset to center tile
-      return inTile + this.tileSize
-    }
-
-    const canvasX = normalizeToCenter(position.x)
-    const canvasY = normalizeToCenter(position.y)
+    // Normalize position to the center cell - for rectangular lattices the center tile range
+    // [width, 2*width) x [height, 2*height), i.e. 256-512 on the 768px canvas
+    const { x: canvasX, y: canvasY } = wrapToCenterCell(position, this.symmetryGroup, this.tileSize, this.repeatLayout)
 
     const mirrorGroupId = existingMirrorGroupId || generateUniqueId('mirror_group')
 
     const extObj = originalObject as ExtendedFabricObject
 
+    // Radial centre in the object's frame, taken before wrapping so the wrapped object's
+    // lattice copy at the drawn position keeps the motif around the chosen centre
+    let radialSymmetry = extObj.tiledMetadata?.radialSymmetry
+    if (!extObj.tiledMetadata) {
+      extObj.set({ left: position.x, top: position.y })
+      radialSymmetry = toObjectRadialSymmetry(this.radialSettings, this.tileSize, extObj.calcTransformMatrix())
+    }
+
     // Set position to center tile coordinates
     extObj.set({
       left: canvasX,
@@ -104,6 +125,9 @@ export class TilingEngine {
       mirrorGroupId,
       tilePosition: [0, 0], // Canonical objects are at center tile
     }
+    if (isRadialSymmetry(radialSymmetry)) {
+      metadata.radialSymmetry = radialSymmetry
+    }
     extObj.tiledMetadata = metadata
 
     // Assign layer ID if provided
@@ -147,6 +171,40 @@ export class TilingEngine {
     return this.canonicalStore?.get(mirrorGroupId) || null
   }
 
+  /**
+   * Turn the radial copies of a canonical object into separate canonical objects.
+   * The object itself stays in place and loses its radial symmetry.
+   *
+   * @returns The mirrorGroupIds of the object and its former copies (empty if it had none)
+   */
+  async expandRadialCopies(mirrorGroupId: string): Promise<string[]> {
+    const obj = this.canonicalStore?.get(mirrorGroupId)
+    const radialSymmetry = obj?.tiledMetadata?.radialSymmetry
+    if (!obj?.tiledMetadata || !radialSymmetry) return []
+
+    const objectMatrix = obj.calcTransformMatrix()
+    const radialMatrices = getObjectRadialMatrices(radialSymmetry, objectMatrix)
+    const metadata = { ...obj.tiledMetadata, radialSymmetry: undefined }
+    obj.tiledMetadata = metadata
+
+    const mirrorGroupIds = [mirrorGroupId]
+    for (const radialMatrix of radialMatrices.slice(1)) {
+      const copy = (await this.cloneObject(obj)) as ExtendedFabricObject
+      util.applyTransformToObject(copy, multiplyMatrices(radialMatrix, objectMatrix))
+      // Reflections come back as a negative scale - express them as a flip instead
+      if ((copy.scaleY || 1) < 0) {
+        copy.set({ scaleY: -(copy.scaleY || 1), flipY: true })
+      }
+      // Metadata without radial symmetry keeps the radial drawing mode off the copy
+      copy.tiledMetadata = metadata
+      mirrorGroupIds.push(
+        await this.createCanonicalObject(copy, { x: copy.left || 0, y: copy.top || 0 }, obj.layerId)
+      )
+    }
+
+    return mirrorGroupIds
+  }
+
   /**
    * Creates a tiled object - 25 copies in a 5x5 grid, all selectable
    * @param originalObject The Fabric object to tile
@@ -162,9 +220,10 @@ export class TilingEngine {
     existingMirrorGroupId?: string
   ): Promise<ExtendedFabricObject[]> {
     // Calculate position within center tile using modulo
-    // This normalizes the position to [0, tileSize) range
-    const offsetX = ((position.x % this.tileSize) + this.tileSize) % this.tileSize
-    const offsetY = ((position.y % this.tileSize) + this.tileSize) % this.tileSize
+    // This normalizes the position to [0, width) x [0, height)
+    const { width, height } = this.tileSize
+    const offsetX = ((position.x % width) + width) % width
+    const offsetY = ((position.y % height) + height) % height
 
     const mirrorGroupId = existingMirrorGroupId || generateUniqueId('mirror_group')
     const allObjects: ExtendedFabricObject[] = []
@@ -177,8 +236,8 @@ export class TilingEngine {
     const clonedObjects = await Promise.all(clonePromises)
 
     // Create 5x5 grid from (-2,-2) to (2,2)
-    // Canvas coordinate system: center tile [0, tileSize] is at tile position (0,0)
-    // Visible area: [-tileSize, 2*tileSize] × [-tileSize, 2*tileSize]
+    // Canvas coordinate system: center tile [0, width] x [0, height] is at tile position (0,0)
+    // Visible area: [-width, 2*width] × [-height, 2*height]
     let cloneIndex = 0
     for (let ty = -2; ty <= 2; ty++) {
       for (let tx = -2; tx <= 2; tx++) {
@@ -190,9 +249,9 @@ export class TilingEngine {
         const extObj = obj as ExtendedFabricObject
 
         // Calculate canvas position for this tile
-        // Tile (0,0) is centered at [0, tileSize], so tile (tx, ty) is at [tx*tileSize, (tx+1)*tileSize]
-        const canvasX = tx * this.tileSize + offsetX
-        const canvasY = ty * this.tileSize + offsetY
+        // Tile (0,0) is centered at [0, width], so tile (tx, ty) is at [tx*width, (tx+1)*width]
+        const canvasX = tx * width + offsetX
+        const canvasY = ty * height + offsetY
 
         // All objects are selectable and evented
         extObj.set({
@@ -271,10 +330,83 @@ export class TilingEngine {
   }
 
   /**
-   * Update the tile size (call when resolution changes)
+   * Update the tile size (call when resolution changes).
+   * In virtual tiling mode canonical objects keep their offset from the center tile
+   * corner and are wrapped into the resized center tile.
    */
-  updateTileSize(newTileSize: number): void {
+  updateTileSize(newTileSize: TileSize): void {
+    const previous = this.tileSize
     this.tileSize = newTileSize
+
+    if (previous.width === newTileSize.width && previous.height === newTileSize.height) return
+    if (!this.useVirtualTiling || !this.canonicalStore) return
+
+    this.selectionProxyManager?.clearAll()
+
+    for (const obj of this.canonicalStore.getAll()) {
+      const { x, y } = wrapToCenterCell(
+        {
+          x: (obj.left || 0) - previous.width + newTileSize.width,
+          y: (obj.top || 0) - previous.height + newTileSize.height,
+        },
+        this.symmetryGroup,
+        newTileSize,
+        this.repeatLayout
+      )
+      obj.set({ left: x, top: y })
+      obj.setCoords()
+    }
+
+    this.canvas.requestRenderAll()
+  }
+
+  /**
+   * Get the current tile size
+   */
+  getTileSize(): TileSize {
+    return this.tileSize
+  }
+
+  /**
+   * Update the wallpaper group (affects how new objects are wrapped into the center cell)
+   */
+  setSymmetryGroup(group: WallpaperGroup): void {
+    this.symmetryGroup = group
+  }
+
+  /**
+   * Get the current wallpaper group
+   */
+  getSymmetryGroup(): WallpaperGroup {
+    return this.symmetryGroup
+  }
+
+  /**
+   * Update the repeat layout (affects how new objects are wrapped into the center cell)
+   */
+  setRepeatLayout(layout: RepeatLayout): void {
+    this.repeatLayout = layout
+  }
+
+  /**
+   * Get the current repeat layout
+   */
+  getRepeatLayout(): RepeatLayout {
+    return this.repeatLayout
+  }
+
+  /**
+   * Update the radial drawing mode (applies to objects created afterwards)
+   */
+  setRadialSettings(settings: RadialSettings): void {
+    this.radialSettings = settings
+  }
+
+  /**
+   * Get the current radial drawing mode
+   */
+  getRadialSettings(): RadialSettings {
+    return this.radialSettings
   }
 
   /**
@@ -387,8 +519,8 @@ export class TilingEngine {
       const tileOffsetY = objTy - sourceTy
 
       // Position this object at: source left/top + (tile offset * tile size)
-      const newLeft = sourceLeft + (tileOffsetX * this.tileSize)
-      const newTop = sourceTop + (tileOffsetY * this.tileSize)
+      const newLeft = sourceLeft + (tileOffsetX * this.tileSize.width)
+      const newTop = sourceTop + (tileOffsetY * this.tileSize.height)
 
       // Apply all transforms
       obj.set({
@@ -439,8 +571,8 @@ export class TilingEngine {
 
       // Position this object at: source position + (tile offset * tile size)
       // This maintains the tiling pattern regardless of where the source is
-      const newLeft = sourceLeft + (tileOffsetX * this.tileSize)
-      const newTop = sourceTop + (tileOffsetY * this.tileSize)
+      const newLeft = sourceLeft + (tileOffsetX * this.tileSize.width)
+      const newTop = sourceTop + (tileOffsetY * this.tileSize.height)
 
       // Apply all transforms
       obj.set({
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { Command, CommandDependencies } from './commands/types'
+import { BatchCommand } from './commands/BatchCommand'
+import { UndoRedoManager } from './UndoRedoManager'
+
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+// Adds or removes its value from a shared list, optionally failing to execute
+const change = (values: string[], value: string, fails = false): Command => ({
+  type: 'test',
+  description: `Add ${value}`,
+  timestamp: 0,
+  execute: async () => {
+    if (fails) throw new Error(`Cannot add ${value}`)
+    values.push(value)
+  },
+  undo: () => {
+    values.splice(values.indexOf(value), 1)
+  },
+})
+
+const createManager = () => new UndoRedoManager({} as CommandDependencies)
+
+describe('UndoRedoManager transactions', () => {
+  it('should undo and redo everything done in a transaction as one step', async () => {
+    const manager = createManager()
+    const values: string[] = []
+
+    await manager.transaction('Add both', () => {
+      manager.execute(change(values, 'a'))
+      manager.execute(change(values, 'b'))
+    })
+    expect(values).toEqual(['a', 'b'])
+    expect(manager.getUndoDescription()).toBe('Add both')
+    expect(manager.getHistory().done[0]).toBeInstanceOf(BatchCommand)
+
+    await manager.undo()
+    expect(values).toEqual([])
+    await manager.redo()
+    expect(values).toEqual(['a', 'b'])
+  })
+
+  it('should keep a single command as it is and skip empty transactions', async () => {
+    const manager = createManager()
+    const values: string[] = []
+
+    await manager.transaction('Nothing', () => {})
+    expect(manager.canUndo()).toBe(false)
+
+    await manager.transaction('Add one', () => manager.execute(change(values, 'a')))
+    expect(manager.getUndoDescription()).toBe('Add a')
+  })
+
+  it('should roll back when the action or one of its commands fails', async () => {
+    const manager = createManager()
+    const values: string[] = []
+
+    await expect(
+      manager.transaction('Throw', () => {
+        manager.execute(change(values, 'a'))
+        throw new Error('Failed')
+      })
+    ).rejects.toThrow('Failed')
+    expect(values).toEqual([])
+
+    await expect(
+      manager.transaction('Fail', () => {
+        manager.execute(change(values, 'a'))
+        manager.execute(change(values, 'b', true))
+      })
+    ).rejects.toThrow('Cannot add b')
+    expect(values).toEqual([])
+    expect(manager.canUndo()).toBe(false)
+    expect(manager.isTransactionOpen()).toBe(false)
+  })
+
+  it('should add nested transactions to the outer one', async () => {
+    const manager = createManager()
+    const values: string[] = []
+
+    manager.beginTransaction('Outer')
+    manager.execute(change(values, 'a'))
+    await manager.transaction('Inner', () => {
+      manager.execute(change(values, 'b'))
+      manager.execute(change(values, 'c'))
+    })
+    // No undo in the middle of a transaction
+    expect(await manager.undo()).toBe(false)
+    await manager.commitTransaction()
+
+    expect(manager.getStackSizes().undo).toBe(1)
+    await manager.undo()
+    expect(values).toEqual([])
+  })
+})
+
+describe('BatchCommand', () => {
+  it('should revert the commands already applied when one fails', async () => {
+    const values: string[] = []
+    const batch = new BatchCommand('Add', [change(values, 'a'), change(values, 'b', true)])
+
+    await expect(batch.execute()).rejects.toThrow('Cannot add b')
+    expect(values).toEqual([])
+  })
+})
+
+describe('UndoRedoManager history', () => {
+  it('should add sync commands right away, unless they fail', async () => {
+    const manager = createManager()
+    const values: string[] = []
+    const sync = (value: string, fails = false): Command => ({
+      ...change(values, value),
+      execute: () => {
+        if (fails) throw new Error(`Cannot add ${value}`)
+        values.push(value)
+      },
+    })
+
+    const done = manager.execute(sync('a'))
+    expect(manager.getUndoDescription()).toBe('Add a')
+    await done
+
+    await expect(manager.execute(sync('b', true))).rejects.toThrow('Cannot add b')
+    expect(manager.getStackSizes().undo).toBe(1)
+  })
+
+  it('should add async commands once they are done, unless they fail', async () => {
+    const manager = createManager()
+    const values: string[] = []
+
+    const done = manager.execute(change(values, 'a'))
+    expect(manager.canUndo()).toBe(false)
+    await done
+    expect(manager.getUndoDescription()).toBe('Add a')
+
+    await expect(manager.execute(change(values, 'b', true))).rejects.toThrow('Cannot add b')
+    expect(values).toEqual(['a'])
+    expect(manager.getStackSizes().undo).toBe(1)
+  })
+
+  it('should stop going back at a command that fails to undo', async () => {
+    const manager = createManager()
+    const values = ['a', 'c']
+    const broken: Command = {
+      ...change(values, 'b'),
+      undo: () => {
+        throw new Error('Cannot remove b')
+      },
+    }
+    manager.record(change(values, 'a'))
+    manager.record(broken)
+    manager.record(change(values, 'c'))
+    const listener = vi.fn()
+    manager.onChanged(listener)
+
+    await expect(manager.goTo(0)).rejects.toThrow('Cannot remove b')
+    expect(values).toEqual(['a'])
+    expect(manager.getStackSizes()).toEqual({ undo: 2, redo: 1 })
+    expect(manager.getUndoDescription()).toBe('Add b')
+    expect(manager.isApplyingHistory()).toBe(false)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+})
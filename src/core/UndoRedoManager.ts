@@ -1,4 +1,14 @@
 import type { Command, CommandDependencies } from './commands/types'
+import { BatchCommand } from './commands/BatchCommand'
+
+/**
+ * Commands collected while a transaction is open
+ */
+interface Transaction {
+  description: string
+  commands: Command[]
+  pending: Map<Command, Promise<void>> // Commands whose execute may still be running
+}
 
 /**
  * Manages undo/redo stacks and command execution.
@@ -8,8 +18,10 @@ export class UndoRedoManager {
   private undoStack: Command[] = []
   private redoStack: Command[] = []
   private maxStackSize: number
-  private _isInTransaction: boolean = false
+  private _isApplyingHistory: boolean = false
+  private transactions: Transaction[] = []
   private changeListeners: Array<() => void> = []
+  private commandListeners: Array<(command: Command) => void> = []
   private deps: CommandDependencies
 
   constructor(deps: CommandDependencies, maxStackSize: number = 100) {
@@ -28,39 +40,40 @@ export class UndoRedoManager {
    * Check if currently executing an undo/redo operation.
    * Used to prevent re-entry and event loops.
    */
-  isInTransaction(): boolean {
-    return this._isInTransaction
+  isApplyingHistory(): boolean {
+    return this._isApplyingHistory
   }
 
   /**
    * Execute a command and add it to the undo stack.
    * Clears the redo stack since we're creating new history.
+   * Resolves once the command is done: sync commands are added right away, async ones
+   * once they are done. If the command fails, it isn't added and the promise rejects -
+   * except in a transaction, which reports the failure when it ends.
    */
-  execute(command: Command): void {
+  async execute(command: Command): Promise<void> {
     // Skip if we're in the middle of undo/redo
-    if (this._isInTransaction) return
+    if (this._isApplyingHistory) return
 
     // Execute the command
-    command.execute()
-
-    // Check if we can merge with the last command
-    const lastCommand = this.undoStack[this.undoStack.length - 1]
-    if (lastCommand && command.canMergeWith?.(lastCommand)) {
-      const merged = command.mergeWith!(lastCommand)
-      this.undoStack[this.undoStack.length - 1] = merged
-    } else {
-      this.undoStack.push(command)
+    const result = command.execute()
+    if (!(result instanceof Promise)) {
+      this.push(command)
+      return
     }
 
-    // Clear redo stack on new action
-    this.redoStack = []
-
-    // Trim if over max size
-    while (this.undoStack.length > this.maxStackSize) {
-      this.undoStack.shift()
+    // Wait for async commands before committing the transaction they belong to
+    const transaction = this.transactions[this.transactions.length - 1]
+    if (transaction) {
+      // Failures are handled when the transaction ends
+      const settled = result.catch(() => {})
+      transaction.pending.set(command, result)
+      this.push(command)
+      return settled
     }
 
-    this.notifyListeners()
+    await result
+    this.push(command)
   }
 
   /**
@@ -69,7 +82,138 @@ export class UndoRedoManager {
    */
   record(command: Command): void {
     // Skip if we're in the middle of undo/redo
-    if (this._isInTransaction) return
+    if (this._isApplyingHistory) return
+
+    this.push(command)
+  }
+
+  /**
+   * Start collecting commands into one undo step, until commitTransaction or
+   * rollbackTransaction. Transactions can be nested: an inner one becomes part of
+   * the outer one when committed. Prefer transaction(), which ends it either way.
+   */
+  beginTransaction(description: string): void {
+    this.transactions.push({ description, commands: [], pending: new Map() })
+  }
+
+  /**
+   * Check if commands are being collected into a transaction
+   */
+  isTransactionOpen(): boolean {
+    return this.transactions.length > 0
+  }
+
+  /**
+   * End the innermost transaction, adding its commands as one undo step.
+   * If one of its commands failed to execute, the others are undone and the error thrown.
+   * Returns the command added, or null if nothing happened in the transaction.
+   */
+  async commitTransaction(): Promise<Command | null> {
+    const transaction = this.transactions.pop()
+    if (!transaction) {
+      throw new Error('No transaction to commit')
+    }
+
+    const failure = await this.settle(transaction)
+    if (failure) {
+      await this.revert(transaction)
+      throw failure.error
+    }
+
+    const { description, commands } = transaction
+    if (commands.length === 0) return null
+
+    const command = commands.length === 1 ? commands[0] : new BatchCommand(description, commands)
+    this.push(command)
+    return command
+  }
+
+  /**
+   * End the innermost transaction, undoing its commands instead of adding them
+   */
+  async rollbackTransaction(): Promise<void> {
+    const transaction = this.transactions.pop()
+    if (!transaction) {
+      throw new Error('No transaction to roll back')
+    }
+
+    await this.settle(transaction)
+    await this.revert(transaction)
+  }
+
+  /**
+   * Run `action` in a transaction, so everything it executes or records is undone in
+   * one step. If it throws, whatever it already did is rolled back and the error rethrown.
+   */
+  async transaction<T>(description: string, action: () => T | Promise<T>): Promise<T> {
+    this.beginTransaction(description)
+    const transaction = this.transactions[this.transactions.length - 1]
+
+    let result: T
+    try {
+      result = await action()
+    } catch (error) {
+      // Unless the action already ended it
+      if (this.transactions.includes(transaction)) {
+        while (this.transactions[this.transactions.length - 1] !== transaction) {
+          await this.rollbackTransaction()
+        }
+        await this.rollbackTransaction()
+      }
+      throw error
+    }
+
+    await this.commitTransaction()
+    return result
+  }
+
+  /**
+   * Wait for the async commands of a transaction. The ones that failed are dropped, as
+   * there is nothing to undo, and the first error is returned.
+   */
+  private async settle(transaction: Transaction): Promise<{ error: unknown } | null> {
+    let failure: { error: unknown } | null = null
+    for (const [command, result] of transaction.pending) {
+      try {
+        await result
+      } catch (error) {
+        failure ??= { error }
+        transaction.commands = transaction.commands.filter((other) => other !== command)
+      }
+    }
+    return failure
+  }
+
+  /**
+   * Undo the commands of a transaction that won't be committed, last first
+   */
+  private async revert({ commands }: Transaction): Promise<void> {
+    this._isApplyingHistory = true
+    try {
+      for (const command of [...commands].reverse()) {
+        try {
+          await command.undo()
+        } catch (error) {
+          console.error(`Failed to roll back "${command.description}":`, error)
+        }
+      }
+      this.deps.requestRender?.()
+    } finally {
+      this._isApplyingHistory = false
+    }
+  }
+
+  /**
+   * Add a command that was just done, to the open transaction or the undo stack
+   */
+  private push(command: Command): void {
+    const transaction = this.transactions[this.transactions.length - 1]
+    if (transaction) {
+      transaction.commands.push(command)
+      return
+    }
+
+    this.commandListeners.forEach((listener) => listener(command))
 
     // Check if we can merge with the last command
     const lastCommand = this.undoStack[this.undoStack.length - 1]
@@ -93,21 +237,25 @@ export class UndoRedoManager {
 
   /**
    * Undo the last command.
-   * Returns true if undo was performed, false if stack was empty.
+   * Returns true if undo was performed, false if stack was empty or a transaction is open.
    */
   async undo(): Promise<boolean> {
-    if (this.undoStack.length === 0) return false
+    if (this.undoStack.length === 0 || this.isTransactionOpen()) return false
 
     const command = this.undoStack.pop()!
 
-    this._isInTransaction = true
+    this._isApplyingHistory = true
     try {
       await command.undo()
       this.redoStack.push(command)
       this.deps.clearSelection?.()
       this.deps.requestRender?.()
+    } catch (error) {
+      // A failed command is left as it was (see BatchCommand), so it stays done
+      this.undoStack.push(command)
+      throw error
     } finally {
-      this._isInTransaction = false
+      this._isApplyingHistory = false
     }
 
     this.notifyListeners()
@@ -116,27 +264,73 @@ export class UndoRedoManager {
 
   /**
    * Redo the last undone command.
-   * Returns true if redo was performed, false if stack was empty.
+   * Returns true if redo was performed, false if stack was empty or a transaction is open.
    */
   async redo(): Promise<boolean> {
-    if (this.redoStack.length === 0) return false
+    if (this.redoStack.length === 0 || this.isTransactionOpen()) return false
 
     const command = this.redoStack.pop()!
 
-    this._isInTransaction = true
+    this._isApplyingHistory = true
     try {
       await command.execute()
       this.undoStack.push(command)
       this.deps.clearSelection?.()
       this.deps.requestRender?.()
+    } catch (error) {
+      this.redoStack.push(command)
+      throw error
     } finally {
-      this._isInTransaction = false
+      this._isApplyingHistory = false
     }
 
     this.notifyListeners()
     return true
   }
 
+  /**
+   * Undo or redo until `position` commands are done, e.g. 0 to undo everything.
+   * Happens as one step: the selection is cleared and listeners are notified once.
+   * If a command fails, it stays where it was and the error is thrown - the commands
+   * before it are still undone or redone.
+   * Returns true if anything was undone or redone.
+   */
+  async goTo(position: number): Promise<boolean> {
+    const target = Math.max(0, Math.min(position, this.undoStack.length + this.redoStack.length))
+    if (target === this.undoStack.length || this.isTransactionOpen()) return false
+
+    this._isApplyingHistory = true
+    try {
+      while (this.undoStack.length > target) {
+        const command = this.undoStack.pop()!
+        try {
+          await command.undo()
+        } catch (error) {
+          this.undoStack.push(command)
+          throw error
+        }
+        this.redoStack.push(command)
+      }
+      while (this.undoStack.length < target) {
+        const command = this.redoStack.pop()!
+        try {
+          await command.execute()
+        } catch (error) {
+          this.redoStack.push(command)
+          throw error
+        }
+        this.undoStack.push(command)
+      }
+    } finally {
+      this._isApplyingHistory = false
+      this.deps.clearSelection?.()
+      this.deps.requestRender?.()
+      this.notifyListeners()
+    }
+
+    return true
+  }
+
   /**
    * Check if undo is available
    */
@@ -187,6 +381,27 @@ export class UndoRedoManager {
     }
   }
 
+  /**
+   * All commands, oldest first: the done ones, then the undone ones in the order
+   * they would be redone. A command's position is its index in the list plus one.
+   */
+  getHistory(): { done: readonly Command[]; undone: readonly Command[] } {
+    return {
+      done: [...this.undoStack],
+      undone: [...this.redoStack].reverse(),
+    }
+  }
+
+  /**
+   * Replace both stacks, e.g. with a history saved before a reload (see getHistory).
+   * The done commands must already be applied to the canvas, the undone ones not.
+   */
+  restoreHistory(done: Command[], undone: Command[]): void {
+    this.undoStack = done.slice(-this.maxStackSize)
+    this.redoStack = [...undone].reverse()
+    this.notifyListeners()
+  }
+
   /**
    * Register a listener for stack changes.
    * Returns an unsubscribe function.
@@ -201,6 +416,21 @@ export class UndoRedoManager {
     }
   }
 
+  /**
+   * Register a listener for each command done, e.g. to record a macro. A transaction is
+   * reported once committed, as the command it added. Commands are reported before they
+   * are merged, and undo/redo isn't reported. Returns an unsubscribe function.
+   */
+  onCommandAdded(listener: (command: Command) => void): () => void {
+    this.commandListeners.push(listener)
+    return () => {
+      const index = this.commandListeners.indexOf(listener)
+      if (index > -1) {
+        this.commandListeners.splice(index, 1)
+      }
+    }
+  }
+
   /**
    * Notify all listeners of stack changes
    */
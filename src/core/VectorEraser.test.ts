@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Path, Rect, type TMat2D } from 'fabric'
+import polygonClipping from 'polygon-clipping'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import type { MultiPolygon } from '../utils/strokePolygon'
+import { eraseObject, flattenPath, getEraserInCanonicalSpace, getObjectRegion } from './VectorEraser'
+
+// extractPathData logs every step
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+const IDENTITY: TMat2D = [1, 0, 0, 1, 0, 0]
+
+const square = (x: number, y: number, size: number): MultiPolygon => [[[
+  [x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y],
+]]]
+
+const area = (multiPolygon: MultiPolygon): number =>
+  multiPolygon.reduce((total, polygon) => total + polygon.reduce((sum, ring, i) => {
+    let twice = 0
+    for (let k = 0; k < ring.length - 1; k++) {
+      twice += ring[k][0] * ring[k + 1][1] - ring[k + 1][0] * ring[k][1]
+    }
+    // Holes subtract from the outer ring
+    return sum + (i === 0 ? 1 : -1) * Math.abs(twice / 2)
+  }, 0), 0)
+
+const createRect = () => {
+  const rect = new Rect({ left: 300, top: 300, width: 100, height: 100, fill: '#ff0000', strokeWidth: 0 })
+  return rect as Rect & ExtendedFabricObject
+}
+
+describe('flattenPath', () => {
+  it('should split subpaths and flatten curves onto their end points', () => {
+    const subpaths = flattenPath([
+      ['M', 0, 0], ['L', 10, 0], ['Q', 20, 0, 20, 10], ['Z'],
+      ['M', 50, 50], ['C', 60, 50, 70, 60, 70, 70],
+    ])
+    expect(subpaths).toHaveLength(2)
+    expect(subpaths[0].closed).toBe(true)
+    expect(subpaths[0].points[subpaths[0].points.length - 1]).toEqual([20, 10])
+    expect(subpaths[1].closed).toBe(false)
+    expect(subpaths[1].points.length).toBeGreaterThan(2)
+    expect(subpaths[1].points[subpaths[1].points.length - 1]).toEqual([70, 70])
+  })
+})
+
+describe('getObjectRegion', () => {
+  it('should use the fill of filled shapes', () => {
+    expect(area(getObjectRegion(createRect()))).toBeCloseTo(10000, 0)
+  })
+
+  it('should use the stroke outline of stroke-only paths', () => {
+    const path = new Path('M 0 0 L 100 0', { fill: null, stroke: '#000000', strokeWidth: 10 })
+    // 100 x 10 band plus two round caps
+    expect(area(getObjectRegion(path))).toBeCloseTo(1000 + Math.PI * 25, -1)
+  })
+})
+
+describe('getEraserInCanonicalSpace', () => {
+  it('should map an eraser drawn over a tile copy back onto the canonical object', () => {
+    const region = square(300, 300, 100)
+    // Copy one tile to the right; the eraser covers its left edge
+    const mapped = getEraserInCanonicalSpace(square(550, 340, 20), region, [IDENTITY, [1, 0, 0, 1, 256, 0]])
+    expect(polygonClipping.intersection(mapped, square(294, 340, 20))).not.toHaveLength(0)
+  })
+
+  it('should skip copies the eraser misses', () => {
+    expect(getEraserInCanonicalSpace(square(0, 0, 10), square(300, 300, 100), [IDENTITY])).toEqual([])
+  })
+})
+
+describe('eraseObject', () => {
+  it('should leave objects the eraser does not touch alone', () => {
+    expect(eraseObject(createRect(), square(0, 0, 10), [IDENTITY])).toBeNull()
+  })
+
+  it('should replace the object with the remaining geometry', () => {
+    const rect = createRect()
+    const result = eraseObject(rect, square(350, 250, 200), [IDENTITY])!
+    expect(result.original).toBe(rect)
+    expect(result.replacement?.fill).toBe('#ff0000')
+    expect(area(getObjectRegion(result.replacement!))).toBeCloseTo(5000, 0)
+  })
+
+  it('should remove objects that are erased completely', () => {
+    expect(eraseObject(createRect(), square(250, 250, 200), [IDENTITY])).toEqual({
+      original: expect.anything(),
+      replacement: null,
+    })
+  })
+
+  it('should turn cut strokes into filled paths in the stroke colour', () => {
+    const path = new Path('M 0 0 L 100 0', { fill: null, stroke: '#00ff00', strokeWidth: 10 })
+    const { replacement } = eraseObject(path as Path & ExtendedFabricObject, square(40, -20, 40), [IDENTITY])!
+    expect(replacement?.fill).toBe('#00ff00')
+    expect(replacement?.strokeWidth).toBe(0)
+    // Two separate pieces are left
+    expect(polygonClipping.union(getObjectRegion(replacement!))).toHaveLength(2)
+  })
+})
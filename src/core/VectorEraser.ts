@@ -0,0 +1,274 @@
+import { Path, util, type FabricObject, type PathProps, type TMat2D, type TSimplePathData } from 'fabric'
+import polygonClipping from 'polygon-clipping'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import { canConvertToPath } from '../lib/svgo/convertShapeToPath'
+import { extractPathData } from '../utils/pathMerge'
+import { strokeToPolygon, type MultiPolygon, type Ring } from '../utils/strokePolygon'
+import { generateUniqueId } from '../utils/idGenerator'
+import { reframeRadialSymmetry } from './RadialSymmetry'
+import { invertMatrix, transformPoint } from './WallpaperSymmetry'
+
+/**
+ * Vector eraser - cuts an eraser polygon out of the geometry of paths and shapes.
+ *
+ * Filled objects lose the erased part of their fill. Stroke-only objects (pencil strokes,
+ * lines) are first turned into the outline of their stroke, so the result is a filled
+ * path in the stroke colour. Either way the result is a new path in scene coordinates
+ * that replaces the original object.
+ */
+
+// Length of the straight segments curves are flattened into (scene pixels)
+const CURVE_STEP = 2
+const MAX_CURVE_SEGMENTS = 64
+
+export interface Subpath {
+  points: Ring
+  closed: boolean
+}
+
+/**
+ * Result of erasing from one object
+ */
+export interface EraseResult {
+  original: ExtendedFabricObject
+  replacement: Path | null // null when nothing is left of the object
+}
+
+/**
+ * Flatten absolute path commands (M, L, C, Q, Z - see util.makePathSimpler) into polylines
+ */
+export function flattenPath(commands: TSimplePathData): Subpath[] {
+  const subpaths: Subpath[] = []
+  let current: Subpath | null = null
+  let x = 0
+  let y = 0
+
+  const addCurve = (point: (t: number) => [number, number], controlLength: number) => {
+    const segments = Math.min(MAX_CURVE_SEGMENTS, Math.max(1, Math.ceil(controlLength / CURVE_STEP)))
+    for (let i = 1; i <= segments; i++) {
+      current?.points.push(point(i / segments))
+    }
+  }
+
+  for (const command of commands) {
+    switch (command[0]) {
+      case 'M':
+        current = { points: [[command[1], command[2]]], closed: false }
+        subpaths.push(current)
+        break
+      case 'L':
+        current?.points.push([command[1], command[2]])
+        break
+      case 'C': {
+        const [, x1, y1, x2, y2, x3, y3] = command
+        const [x0, y0] = [x, y]
+        addCurve(
+          (t) => {
+            const s = 1 - t
+            return [
+              s * s * s * x0 + 3 * s * s * t * x1 + 3 * s * t * t * x2 + t * t * t * x3,
+              s * s * s * y0 + 3 * s * s * t * y1 + 3 * s * t * t * y2 + t * t * t * y3,
+            ]
+          },
+          Math.hypot(x1 - x0, y1 - y0) + Math.hypot(x2 - x1, y2 - y1) + Math.hypot(x3 - x2, y3 - y2)
+        )
+        break
+      }
+      case 'Q': {
+        const [, x1, y1, x2, y2] = command
+        const [x0, y0] = [x, y]
+        addCurve(
+          (t) => {
+            const s = 1 - t
+            return [s * s * x0 + 2 * s * t * x1 + t * t * x2, s * s * y0 + 2 * s * t * y1 + t * t * y2]
+          },
+          Math.hypot(x1 - x0, y1 - y0) + Math.hypot(x2 - x1, y2 - y1)
+        )
+        break
+      }
+      case 'Z':
+        if (current) {
+          current.closed = true
+          // Continue from the subpath start, as SVG does after Z
+          ;[x, y] = current.points[0]
+        }
+        continue
+    }
+
+    const last = current?.points[current.points.length - 1]
+    if (last) [x, y] = last
+  }
+
+  return subpaths
+}
+
+const hasPaint = (paint: unknown): boolean =>
+  paint !== null && paint !== undefined && paint !== '' && paint !== 'none' && paint !== 'transparent'
+
+/**
+ * Whether an object's geometry comes from its fill (otherwise from its stroke)
+ */
+function isFilled(obj: FabricObject): boolean {
+  return hasPaint(obj.fill)
+}
+
+/**
+ * Region an object covers in scene coordinates: its fill, or the outline of its stroke
+ * for stroke-only objects
+ */
+export function getObjectRegion(obj: FabricObject): MultiPolygon {
+  const { pathString } = extractPathData(obj)
+  if (!pathString) return []
+  const subpaths = flattenPath(util.makePathSimpler(util.parsePath(pathString)))
+
+  if (isFilled(obj)) {
+    const rings: Ring[] = subpaths
+      .filter(({ points }) => points.length >= 3)
+      .map(({ points }) => [...points, points[0]])
+    if (rings.length === 0) return []
+    const [first, ...rest] = rings.map((ring) => [ring])
+    return obj.fillRule === 'evenodd'
+      ? polygonClipping.xor(first, ...rest)
+      : polygonClipping.union(first, ...rest)
+  }
+
+  if (!hasPaint(obj.stroke) || !obj.strokeWidth) return []
+
+  // Stroke width grows with the object's scale
+  const [a, b, c, d] = obj.calcTransformMatrix()
+  const width = obj.strokeWidth * Math.sqrt(Math.abs(a * d - b * c))
+  const outlines = subpaths.map(({ points, closed }) =>
+    strokeToPolygon((closed ? [...points, points[0]] : points).map(([x, y]) => ({ x, y, width })), 12)
+  )
+  if (outlines.length === 0) return []
+  const [first, ...rest] = outlines
+  return polygonClipping.union(first, ...rest)
+}
+
+/**
+ * Style of a path covering an object's region: filled objects keep their fill and stroke
+ * (with the stroke width in scene units, as the path is unscaled), stroke-only objects
+ * become filled in their stroke colour
+ */
+export function getRegionStyle(obj: FabricObject): Partial<PathProps> {
+  const [a, b, c, d] = obj.calcTransformMatrix()
+  const scale = Math.sqrt(Math.abs(a * d - b * c))
+  const filled = isFilled(obj)
+
+  return {
+    fill: filled ? obj.fill : obj.stroke,
+    stroke: filled ? obj.stroke : null,
+    strokeWidth: filled ? obj.strokeWidth * scale : 0,
+    strokeLineCap: obj.strokeLineCap,
+    strokeLineJoin: obj.strokeLineJoin,
+    opacity: obj.opacity,
+    fillRule: 'evenodd',
+  }
+}
+
+/**
+ * Map a polygon through a matrix
+ */
+export function transformMultiPolygon(matrix: TMat2D, multiPolygon: MultiPolygon): MultiPolygon {
+  return multiPolygon.map((polygon) =>
+    polygon.map((ring) =>
+      ring.map(([x, y]): [number, number] => {
+        const point = transformPoint(matrix, { x, y })
+        return [point.x, point.y]
+      })
+    )
+  )
+}
+
+function getBounds(multiPolygon: MultiPolygon): { minX: number; minY: number; maxX: number; maxY: number } {
+  const points = multiPolygon.flat(2)
+  return {
+    minX: Math.min(...points.map(([x]) => x)),
+    minY: Math.min(...points.map(([, y]) => y)),
+    maxX: Math.max(...points.map(([x]) => x)),
+    maxY: Math.max(...points.map(([, y]) => y)),
+  }
+}
+
+/**
+ * Bring an eraser drawn over any rendered copy back onto the canonical object.
+ * Each copy matrix maps the canonical object onto one rendered copy, so its inverse maps
+ * the eraser from that copy onto the canonical object. Copies the eraser misses are skipped.
+ *
+ * @param region - The canonical object's region (to skip copies the eraser misses)
+ * @param copyMatrices - Scene transforms of every rendered copy, identity first
+ */
+export function getEraserInCanonicalSpace(
+  eraser: MultiPolygon,
+  region: MultiPolygon,
+  copyMatrices: TMat2D[]
+): MultiPolygon {
+  if (eraser.length === 0 || region.length === 0) return []
+
+  const bounds = getBounds(region)
+  const mapped = copyMatrices
+    .map((matrix) => transformMultiPolygon(invertMatrix(matrix), eraser))
+    .filter((candidate) => {
+      const b = getBounds(candidate)
+      return b.maxX >= bounds.minX && b.minX <= bounds.maxX && b.maxY >= bounds.minY && b.minY <= bounds.maxY
+    })
+
+  if (mapped.length === 0) return []
+  const [first, ...rest] = mapped
+  return polygonClipping.union(first, ...rest)
+}
+
+/**
+ * SVG path data for a polygon (one closed subpath per ring)
+ */
+export function multiPolygonToPathData(multiPolygon: MultiPolygon): string {
+  return multiPolygon
+    .flat()
+    .map((ring) => {
+      const [[startX, startY], ...rest] = ring
+      const lines = rest.map(([x, y]) => `L ${x.toFixed(2)} ${y.toFixed(2)}`).join(' ')
+      return `M ${startX.toFixed(2)} ${startY.toFixed(2)} ${lines} Z`
+    })
+    .join(' ')
+}
+
+/**
+ * Erase from a canonical object
+ *
+ * @param eraser - Eraser polygon in scene coordinates
+ * @param copyMatrices - Scene transforms of every rendered copy of the object, identity first
+ * @returns null if the eraser doesn't touch the object
+ */
+export function eraseObject(
+  obj: ExtendedFabricObject,
+  eraser: MultiPolygon,
+  copyMatrices: TMat2D[]
+): EraseResult | null {
+  if (!canConvertToPath(obj.type || '')) return null
+
+  const region = getObjectRegion(obj)
+  const canonicalEraser = getEraserInCanonicalSpace(eraser, region, copyMatrices)
+  if (canonicalEraser.length === 0) return null
+  if (polygonClipping.intersection(region, canonicalEraser).length === 0) return null
+
+  const remaining = polygonClipping.difference(region, canonicalEraser)
+  if (remaining.length === 0) {
+    return { original: obj, replacement: null }
+  }
+
+  const replacement = new Path(multiPolygonToPathData(remaining), getRegionStyle(obj)) as Path & ExtendedFabricObject
+
+  const radialSymmetry = obj.tiledMetadata?.radialSymmetry
+  if (obj.tiledMetadata) {
+    replacement.tiledMetadata = {
+      ...obj.tiledMetadata,
+      radialSymmetry: radialSymmetry
+        ? reframeRadialSymmetry(radialSymmetry, obj.calcTransformMatrix(), replacement.calcTransformMatrix())
+        : undefined,
+    }
+  }
+  replacement.layerId = obj.layerId
+  replacement.id = generateUniqueId('obj')
+
+  return { original: obj, replacement }
+}
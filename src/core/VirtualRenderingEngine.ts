@@ -1,27 +1,64 @@
+import type { TMat2D } from "fabric";
 import type { ExtendedFabricObject } from "../types/FabricExtensions";
-import type { LayerManager } from "./LayerManager";
+import type { BlendMode, Layer, LayerManager } from "./LayerManager";
+import { getClipMaskPathData, type ClipMaskManager } from "./ClipMaskManager";
+import type { TileSize } from "../types/TileSize";
+import { getObjectRadialMatrices } from "./RadialSymmetry";
+import {
+  getInstanceTransforms,
+  multiplyMatrices,
+  STRAIGHT_REPEAT,
+  type InstanceTransform,
+  type RepeatLayout,
+  type WallpaperGroup,
+} from "./WallpaperSymmetry";
 
 /**
  * Virtual Rendering Engine - draws 25 instances of each canonical object
  * to create seamless tiling on a 3x3 visible grid canvas.
  *
  * Coordinate System:
- * - Canvas is 768x768 (3x3 grid of 256px tiles visible)
- * - Center tile is at (256, 256) to (512, 512)
+ * - Canvas is 768x768 (3x3 grid of 256px tiles visible); tiles may also be
+ *   rectangular, e.g. 256x128 gives a 768x384 canvas
+ * - Center tile is at (256, 256) to (512, 512), i.e. (width, height) to (2*width, 2*height)
  * - Canonical objects are stored at their actual canvas position (in center tile)
- * - This engine renders copies at 24 surrounding tile positions (5x5 grid minus center)
+ * - This engine renders the object at all 25 tile positions (5x5 grid, center included)
  *
  * Why 5x5 instead of 3x3:
  * Objects near the edge of the center tile need their copies to appear in adjacent
  * visible tiles. A 5x5 grid ensures complete coverage even for objects at tile edges.
  *
+ * Symmetry:
+ * With a wallpaper group other than p1, every tile position additionally holds the
+ * rotated/mirrored images of the object, so each copy is drawn with a full affine
+ * transform (see WallpaperSymmetry.getInstanceTransforms) instead of a plain offset.
+ * Half-drop, brick and custom repeat layouts shift the tile positions themselves, so
+ * the offsets below are lattice steps rather than fixed multiples of the tile size.
+ * Objects drawn in radial mode are additionally repeated around their radial centre,
+ * and every one of those copies is placed at every instance.
+ *
+ * Layers:
+ * The canonical objects are hidden from Fabric's own render pass and drawn here with
+ * their copies, one layer after the other. Layers with an opacity or a blend mode are
+ * drawn into a buffer first and composited onto the layers below as a whole.
+ *
+ * Clipping masks:
+ * Objects clipped by a mask (directly, through their entity group or their layer) are
+ * drawn inside every instance of the mask, so the clip follows the mask across tile
+ * seams. The masks themselves aren't drawn while they clip something.
+ *
+ * Reference layers:
+ * Their image is drawn in its place among the layers, fitted to the centre tile and
+ * repeated at every tile position when tiled (following the repeat layout, not the
+ * symmetry). Only on screen - renderAllInstances leaves them out.
+ *
  * Tile layout (5x5 grid, offsets from object position):
  * ┌────────┬────────┬────────┬────────┬────────┐
  * │ -2,-2  │ -1,-2  │  0,-2  │ +1,-2  │ +2,-2  │
  * ├────────┼────────┼────────┼────────┼────────┤
  * │ -2,-1  │ -1,-1  │  0,-1  │ +1,-1  │ +2,-1  │
  * ├────────┼────────┼────────┼────────┼────────┤
- * │ -2, 0  │ -1, 0  │  0, 0  │ +1, 0  │ +2, 0  │  ← center row (0,0 = Fabric renders)
+ * │ -2, 0  │ -1, 0  │  0, 0  │ +1, 0  │ +2, 0  │  ← center row (0,0 = canonical object)
  * ├────────┼────────┼────────┼────────┼────────┤
  * │ -2,+1  │ -1,+1  │  0,+1  │ +1,+1  │ +2,+1  │
  * ├────────┼────────┼────────┼────────┼────────┤
@@ -29,27 +66,27 @@ import type { LayerManager } from "./LayerManager";
  * └────────┴────────┴────────┴────────┴────────┘
  */
 
-// Generate 5x5 tile offsets excluding center [0,0]
-function generateTileOffsets(): [number, number][] {
-  const offsets: [number, number][] = [];
-  for (let y = -2; y <= 2; y++) {
-    for (let x = -2; x <= 2; x++) {
-      if (x === 0 && y === 0) continue; // Skip center - Fabric renders it
-      offsets.push([x, y]);
-    }
-  }
-  return offsets;
-}
-
-const TILE_OFFSETS = generateTileOffsets(); // 24 positions
-
 export class VirtualRenderingEngine {
-  private tileSize: number;
+  private tileSize: TileSize;
+  private symmetryGroup: WallpaperGroup = "p1";
+  private repeatLayout: RepeatLayout = STRAIGHT_REPEAT;
+  private instances: InstanceTransform[];
+  private tileInstances: InstanceTransform[];
   private layerManager: LayerManager | null = null;
+  private clipMaskManager: ClipMaskManager | null = null;
   private highlightedMirrorGroupIds: Set<string> = new Set();
+  private layerBuffer: HTMLCanvasElement | null = null;
+  private referenceImages: Map<string, HTMLImageElement> = new Map();
+  private onReferenceImageLoad: (() => void) | null = null;
 
-  constructor(tileSize: number) {
+  constructor(tileSize: TileSize) {
     this.tileSize = tileSize;
+    this.instances = getInstanceTransforms(
+      this.symmetryGroup,
+      tileSize,
+      this.repeatLayout
+    );
+    this.tileInstances = getInstanceTransforms("p1", tileSize, this.repeatLayout);
   }
 
   /**
@@ -73,31 +110,105 @@ export class VirtualRenderingEngine {
     this.layerManager = manager;
   }
 
+  /**
+   * Set the clipping masks to clip entities, entity groups and layers by
+   */
+  setClipMaskManager(manager: ClipMaskManager): void {
+    this.clipMaskManager = manager;
+  }
+
+  /**
+   * Set the callback to redraw the canvas once a reference image has loaded
+   */
+  setOnReferenceImageLoad(callback: () => void): void {
+    this.onReferenceImageLoad = callback;
+  }
+
   /**
    * Update the tile size (when resolution changes)
    */
-  setTileSize(tileSize: number): void {
+  setTileSize(tileSize: TileSize): void {
     this.tileSize = tileSize;
+    this.updateInstances();
   }
 
   /**
-   * Sort objects by layer order, then by within-layer z-order.
-   * Higher layer order = rendered later = appears in front.
+   * Update the wallpaper group used to place the copies
    */
-  private sortByLayerOrder(
-    objects: ExtendedFabricObject[]
-  ): ExtendedFabricObject[] {
-    if (!this.layerManager) return objects;
+  setSymmetryGroup(group: WallpaperGroup): void {
+    this.symmetryGroup = group;
+    this.updateInstances();
+  }
 
-    const layers = this.layerManager.getLayers(); // sorted by order ascending (0 = bottom)
-    const layerOrderMap = new Map(layers.map((l) => [l.id, l.order]));
+  /**
+   * Get the current wallpaper group
+   */
+  getSymmetryGroup(): WallpaperGroup {
+    return this.symmetryGroup;
+  }
+
+  /**
+   * Update how neighbouring tiles are offset (straight, half-drop, brick, custom)
+   */
+  setRepeatLayout(layout: RepeatLayout): void {
+    this.repeatLayout = layout;
+    this.updateInstances();
+  }
+
+  /**
+   * Get the current repeat layout
+   */
+  getRepeatLayout(): RepeatLayout {
+    return this.repeatLayout;
+  }
+
+  private updateInstances(): void {
+    this.instances = getInstanceTransforms(
+      this.symmetryGroup,
+      this.tileSize,
+      this.repeatLayout
+    );
+    this.tileInstances = getInstanceTransforms(
+      "p1",
+      this.tileSize,
+      this.repeatLayout
+    );
+  }
+
+  /**
+   * Scene-space transforms of every copy of an object: each instance combined with
+   * each of the object's radial copies. The first entry is the identity.
+   */
+  getObjectCopyMatrices(obj: ExtendedFabricObject): TMat2D[] {
+    const radialMatrices = getObjectRadialMatrices(
+      obj.tiledMetadata?.radialSymmetry,
+      obj.calcTransformMatrix()
+    );
+    if (radialMatrices.length === 1) {
+      return this.instances.map(({ matrix }) => matrix);
+    }
+
+    return this.instances.flatMap(({ matrix }) =>
+      radialMatrices.map((radialMatrix) => multiplyMatrices(matrix, radialMatrix))
+    );
+  }
+
+  /**
+   * Sort objects by layer order, then by within-layer z-order, and split them into
+   * their layers. Higher layer order = rendered later = appears in front.
+   */
+  private groupByLayer(
+    objects: ExtendedFabricObject[]
+  ): { layer: Layer | null; objects: ExtendedFabricObject[] }[] {
+    const layers = this.layerManager?.getLayers() ?? []; // sorted by order ascending (0 = bottom)
+    const layerMap = new Map(layers.map((l) => [l.id, l]));
 
     // Create array with indices to preserve within-layer order
     const indexed = objects.map((obj, idx) => ({ obj, idx }));
 
     indexed.sort((a, b) => {
-      const layerOrderA = layerOrderMap.get(a.obj.layerId || "") ?? 0;
-      const layerOrderB = layerOrderMap.get(b.obj.layerId || "") ?? 0;
+      const layerOrderA = layerMap.get(a.obj.layerId || "")?.order ?? 0;
+      const layerOrderB = layerMap.get(b.obj.layerId || "")?.order ?? 0;
 
       if (layerOrderA !== layerOrderB) {
         return layerOrderA - layerOrderB; // Lower order = rendered first = behind
@@ -106,55 +217,266 @@ export class VirtualRenderingEngine {
       return a.idx - b.idx;
     });
 
-    return indexed.map((item) => item.obj);
+    const groups: { layer: Layer | null; objects: ExtendedFabricObject[] }[] = [];
+    for (const { obj } of indexed) {
+      const layer = layerMap.get(obj.layerId || "") ?? null;
+      const last = groups[groups.length - 1];
+      if (last && last.layer === layer) {
+        last.objects.push(obj);
+      } else {
+        groups.push({ layer, objects: [obj] });
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Hide the canonical objects from Fabric's own render pass. Called in before:render -
+   * renderLayers draws them together with their copies. Returns a function that shows
+   * them again, to be called before renderLayers.
+   */
+  hideCanonicalObjects(objects: ExtendedFabricObject[]): () => void {
+    const hidden = objects.filter((obj) => obj.tiledMetadata);
+    const opacities = hidden.map((obj) => obj.opacity);
+    // Fabric skips objects with opacity 0 without touching their state
+    hidden.forEach((obj) => (obj.opacity = 0));
+
+    return () => hidden.forEach((obj, i) => (obj.opacity = opacities[i]));
   }
 
   /**
-   * Render the additional 24 instances for each canonical object.
-   * Called in after:render event - Fabric.js has already rendered objects at their
-   * canonical position, so we render copies at the 24 surrounding tile positions (5x5 grid).
+   * Render every instance of each canonical object, including the canonical one.
+   * Called in after:render event, after the canonical objects were hidden from Fabric's
+   * render pass (see hideCanonicalObjects). Draws every instance (25 tile positions for
+   * p1, plus the rotated/mirrored images for other wallpaper groups).
    *
-   * Objects are sorted by layer order first (lower layer order = rendered behind),
-   * then by within-layer z-order (insertion order).
+   * Objects are drawn layer by layer (lower layer order = rendered behind), then by
+   * within-layer z-order (insertion order). Each layer is composited with its opacity
+   * and blend mode. Visible reference layers are drawn in between.
    *
    * @param ctx - Canvas 2D rendering context
    * @param objects - Array of canonical objects to render
    * @param zoom - Current canvas zoom level (default 1)
    */
-  renderVirtualCopies(
+  renderLayers(
     ctx: CanvasRenderingContext2D,
     objects: ExtendedFabricObject[],
     zoom: number = 1
   ): void {
-    // Sort objects by layer order for proper rendering
-    const sortedObjects = this.sortByLayerOrder(objects);
+    this.renderLayerGroups(ctx, objects, zoom, true);
+  }
+
+  /**
+   * Render every instance for each canonical object, including the canonical one,
+   * composited layer by layer like renderLayers but without hover highlights and
+   * reference layers.
+   * Used when we need to fully control rendering (e.g., for export).
+   *
+   * @param ctx - Canvas 2D rendering context
+   * @param objects - Array of canonical objects to render
+   */
+  renderAllInstances(
+    ctx: CanvasRenderingContext2D,
+    objects: ExtendedFabricObject[]
+  ): void {
+    this.renderLayerGroups(ctx, objects, 1, false);
+  }
+
+  private renderLayerGroups(
+    ctx: CanvasRenderingContext2D,
+    objects: ExtendedFabricObject[],
+    zoom: number,
+    onScreen: boolean
+  ): void {
+    const clipPaths = this.getClipPaths(objects);
+
+    // Reference layers go in between the layers of objects, by order
+    const references = onScreen ? this.getReferenceLayers() : [];
+    let nextReference = 0;
+    const renderReferencesBelow = (order: number) => {
+      while (nextReference < references.length && references[nextReference].order < order) {
+        this.renderReferenceLayer(ctx, references[nextReference++], zoom);
+      }
+    };
+
+    for (const { layer, objects: layerObjects } of this.groupByLayer(objects)) {
+      renderReferencesBelow(layer?.order ?? 0);
+      const opacity = layer?.opacity ?? 1;
+      const blendMode = layer?.blendMode ?? "normal";
+      if (opacity <= 0) continue;
+
+      if (opacity >= 1 && blendMode === "normal") {
+        this.renderInstances(ctx, layerObjects, zoom, onScreen, clipPaths);
+        continue;
+      }
+
+      // Draw the layer on its own, then composite it onto the layers below
+      const buffer = this.getLayerBuffer(ctx);
+      buffer.setTransform(1, 0, 0, 1, 0, 0);
+      buffer.clearRect(0, 0, buffer.canvas.width, buffer.canvas.height);
+      buffer.setTransform(ctx.getTransform());
+      this.renderInstances(buffer, layerObjects, zoom, onScreen, clipPaths);
+
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.globalAlpha = opacity;
+      ctx.globalCompositeOperation = getCompositeOperation(blendMode);
+      ctx.drawImage(buffer.canvas, 0, 0);
+      ctx.restore();
+    }
+    renderReferencesBelow(Infinity);
+  }
+
+  /**
+   * Visible reference layers with an image, in order
+   */
+  private getReferenceLayers(): Layer[] {
+    const layerManager = this.layerManager;
+    if (!layerManager) return [];
+    return layerManager
+      .getLayers()
+      .filter((layer) => layer.reference?.src && layerManager.isLayerVisible(layer.id));
+  }
+
+  /**
+   * Draw a reference layer's image fitted to the centre tile, at every tile position
+   * when tiled, composited with the layer's opacity and blend mode
+   */
+  private renderReferenceLayer(
+    ctx: CanvasRenderingContext2D,
+    layer: Layer,
+    zoom: number
+  ): void {
+    const image = this.getReferenceImage(layer.reference!.src);
+    if (!image) return;
+
+    const { width, height } = this.tileSize;
+    const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+    const imageWidth = image.naturalWidth * scale;
+    const imageHeight = image.naturalHeight * scale;
+    const instances = layer.reference!.tiled ? this.tileInstances : this.tileInstances.slice(0, 1);
+
+    ctx.save();
+    ctx.globalAlpha = layer.opacity ?? 1;
+    ctx.globalCompositeOperation = getCompositeOperation(layer.blendMode ?? "normal");
+    for (const { matrix } of instances) {
+      ctx.save();
+      if (zoom !== 1) {
+        ctx.scale(zoom, zoom);
+      }
+      ctx.transform(...matrix);
+      ctx.drawImage(
+        image,
+        width + (width - imageWidth) / 2,
+        height + (height - imageHeight) / 2,
+        imageWidth,
+        imageHeight
+      );
+      ctx.restore();
+    }
+    ctx.restore();
+  }
 
-    // Scale tile offsets by zoom since canvas is zoomed
-    const scaledTileSize = this.tileSize * zoom;
+  /**
+   * Loaded reference image for a source, or null while it's still loading
+   */
+  private getReferenceImage(src: string): HTMLImageElement | null {
+    let image = this.referenceImages.get(src);
+    if (!image) {
+      image = new Image();
+      image.onload = () => this.onReferenceImageLoad?.();
+      image.src = src;
+      this.referenceImages.set(src, image);
+    }
+    return image.complete && image.naturalWidth > 0 ? image : null;
+  }
 
-    for (const obj of sortedObjects) {
+  /**
+   * Offscreen canvas the size of the target canvas, reused across frames
+   */
+  private getLayerBuffer(ctx: CanvasRenderingContext2D): CanvasRenderingContext2D {
+    if (!this.layerBuffer) {
+      this.layerBuffer = document.createElement("canvas");
+    }
+    const { width, height } = ctx.canvas;
+    if (this.layerBuffer.width !== width || this.layerBuffer.height !== height) {
+      this.layerBuffer.width = width;
+      this.layerBuffer.height = height;
+    }
+    return this.layerBuffer.getContext("2d")!;
+  }
+
+  /**
+   * Clip region of each mask in use, in scene coordinates: the mask at all of its
+   * instances, so clips repeat with the mask across tile seams
+   */
+  private getClipPaths(objects: ExtendedFabricObject[]): Map<string, ClipPath> {
+    const clipPaths = new Map<string, ClipPath>();
+    if (!this.clipMaskManager) return clipPaths;
+
+    for (const maskId of this.clipMaskManager.getMaskIds(objects)) {
+      const mask = objects.find((obj) => obj.tiledMetadata?.mirrorGroupId === maskId);
+      if (!mask) continue;
+
+      const pathData = getClipMaskPathData(mask, this.getObjectCopyMatrices(mask));
+      if (pathData.length === 0) continue;
+      clipPaths.set(maskId, {
+        path: new Path2D(pathData.join(" ")),
+        fillRule: mask.fillRule === "evenodd" ? "evenodd" : "nonzero",
+      });
+    }
+    return clipPaths;
+  }
+
+  private renderInstances(
+    ctx: CanvasRenderingContext2D,
+    objects: ExtendedFabricObject[],
+    zoom: number,
+    withHighlights: boolean,
+    clipPaths: Map<string, ClipPath>
+  ): void {
+    for (const obj of objects) {
       // Skip if object is not visible
       if (obj.visible === false) continue;
 
       // Skip objects without tiled metadata (non-tiled objects like grid lines)
       if (!obj.tiledMetadata) continue;
 
+      // Masks only clip other objects
+      if (clipPaths.has(obj.tiledMetadata.mirrorGroupId)) continue;
+
+      const clips = (this.clipMaskManager?.getObjectMaskIds(obj) ?? []).flatMap(
+        (maskId) => clipPaths.get(maskId) ?? []
+      );
+      if (clips.length > 0) {
+        ctx.save();
+        const transform = ctx.getTransform();
+        if (zoom !== 1) {
+          ctx.scale(zoom, zoom);
+        }
+        clips.forEach(({ path, fillRule }) => ctx.clip(path, fillRule));
+        ctx.setTransform(transform);
+      }
+
       // Check if this object should be highlighted
       const isHighlighted =
+        withHighlights &&
         this.highlightedMirrorGroupIds.size > 0 &&
         this.highlightedMirrorGroupIds.has(obj.tiledMetadata.mirrorGroupId);
 
       // Get object bounds for highlight (only calculate once per object)
       const bounds = isHighlighted ? obj.getBoundingRect() : null;
 
-      // Render at each of the 24 surrounding tile positions
-      for (const [tx, ty] of TILE_OFFSETS) {
-        // Use scaled tile size for zoomed canvas
-        const offsetX = tx * scaledTileSize;
-        const offsetY = ty * scaledTileSize;
-
+      for (const matrix of this.getObjectCopyMatrices(obj)) {
         ctx.save();
-        ctx.translate(offsetX, offsetY);
+
+        // Fabric's setZoom applies viewport transform to canvas-rendered objects,
+        // but our manual render calls bypass that. Apply zoom scale first, then the
+        // instance transform in scene coordinates.
+        if (zoom !== 1) {
+          ctx.scale(zoom, zoom);
+        }
+        ctx.transform(...matrix);
 
         // Apply glow effect for highlighted objects
         if (isHighlighted && bounds) {
@@ -162,7 +484,7 @@ export class VirtualRenderingEngine {
           ctx.shadowBlur = 20 * zoom;
 
           // For small objects, draw a minimum-size glow rect behind
-          const minSize = 24 * zoom;
+          const minSize = 24;
           if (bounds.width < minSize && bounds.height < minSize) {
             const centerX = bounds.left + bounds.width / 2;
             const centerY = bounds.top + bounds.height / 2;
@@ -176,63 +498,45 @@ export class VirtualRenderingEngine {
               centerY - rectHeight / 2,
               rectWidth,
               rectHeight,
-              4 * zoom
+              4
             );
             ctx.fill();
           }
         }
 
-        // Fabric's setZoom applies viewport transform to canvas-rendered objects,
-        // but our manual render calls bypass that. Apply zoom scale here.
-        if (zoom !== 1) {
-          ctx.scale(zoom, zoom);
-        }
         obj.render(ctx);
         ctx.restore();
       }
+
+      if (clips.length > 0) {
+        ctx.restore();
+      }
     }
   }
 
   /**
-   * Render all 25 instances for each canonical object (5x5 grid).
-   * Used when we need to fully control rendering (e.g., for export).
-   *
-   * Objects are sorted by layer order first (lower layer order = rendered behind),
-   * then by within-layer z-order (insertion order).
-   *
-   * @param ctx - Canvas 2D rendering context
-   * @param objects - Array of canonical objects to render
+   * Get the transforms of all rendered instances (identity first)
    */
-  renderAllInstances(
-    ctx: CanvasRenderingContext2D,
-    objects: ExtendedFabricObject[]
-  ): void {
-    // Sort objects by layer order for proper rendering
-    const sortedObjects = this.sortByLayerOrder(objects);
-
-    for (const obj of sortedObjects) {
-      if (obj.visible === false) continue;
-      if (!obj.tiledMetadata) continue;
-
-      // Render at all 25 positions (including center)
-      for (let y = -2; y <= 2; y++) {
-        for (let x = -2; x <= 2; x++) {
-          const offsetX = x * this.tileSize;
-          const offsetY = y * this.tileSize;
-
-          ctx.save();
-          ctx.translate(offsetX, offsetY);
-          obj.render(ctx);
-          ctx.restore();
-        }
-      }
-    }
+  getInstances(): InstanceTransform[] {
+    return this.instances;
   }
 
   /**
    * Get the tile size
    */
-  getTileSize(): number {
+  getTileSize(): TileSize {
     return this.tileSize;
   }
 }
+
+interface ClipPath {
+  path: Path2D;
+  fillRule: CanvasFillRule;
+}
+
+/**
+ * Canvas composite operation for a layer blend mode
+ */
+function getCompositeOperation(blendMode: BlendMode): GlobalCompositeOperation {
+  return blendMode === "normal" ? "source-over" : blendMode;
+}
@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest'
+import type { TMat2D } from 'fabric'
+import type { TileSize } from '../types/TileSize'
+import {
+  WALLPAPER_GROUPS,
+  parseOperation,
+  multiplyMatrices,
+  invertMatrix,
+  isTranslationOnly,
+  getCellOrigin,
+  getCellOutline,
+  getInstanceTransforms,
+  getLatticeBasis,
+  getRepeatSize,
+  getRepeatMultiple,
+  normalizeRepeatLayout,
+  resolveRepeatLayout,
+  supportsRectangularTile,
+  transformPoint,
+  wrapToCenterCell,
+  STRAIGHT_REPEAT,
+  type RepeatLayout,
+} from './WallpaperSymmetry'
+
+const TILE = 256
+const SQUARE: TileSize = { width: TILE, height: TILE }
+
+const HALF_DROP: RepeatLayout = { type: 'half-drop', direction: 'drop', offset: 0 }
+const BRICK: RepeatLayout = { type: 'brick', direction: 'drop', offset: 0 }
+const HEXAGONAL: RepeatLayout = { type: 'hexagonal', direction: 'drop', offset: 0 }
+const TRIANGULAR: RepeatLayout = { type: 'triangular', direction: 'drop', offset: 0 }
+
+const expectMatrixClose = (actual: TMat2D, expected: number[]) => {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 6))
+}
+
+describe('parseOperation', () => {
+  it('should parse identity', () => {
+    expect(parseOperation('x,y')).toEqual([1, 0, 0, 1, 0, 0])
+  })
+
+  it('should parse fractional translations', () => {
+    expect(parseOperation('-x+1/2,y+1/2')).toEqual([-1, 0, 0, 1, 0.5, 0.5])
+  })
+
+  it('should parse mixed coordinates', () => {
+    expect(parseOperation('-y,x-y')).toEqual([0, 1, -1, -1, 0, 0])
+  })
+})
+
+describe('matrix helpers', () => {
+  it('should invert an affine matrix', () => {
+    const m: TMat2D = [0, 1, -1, 0, 10, 20]
+    expectMatrixClose(multiplyMatrices(m, invertMatrix(m)), [1, 0, 0, 1, 0, 0])
+  })
+
+  it('should detect pure translations', () => {
+    expect(isTranslationOnly([1, 0, 0, 1, 5, 5])).toBe(true)
+    expect(isTranslationOnly([-1, 0, 0, 1, 0, 0])).toBe(false)
+  })
+})
+
+describe('getInstanceTransforms', () => {
+  it('should reproduce the 5x5 translation grid for p1', () => {
+    const instances = getInstanceTransforms('p1', SQUARE)
+    expect(instances).toHaveLength(25)
+    expect(instances[0].tileOffset).toEqual([0, 0])
+    expectMatrixClose(instances[0].matrix, [1, 0, 0, 1, 0, 0])
+    instances.forEach(({ tileOffset: [tx, ty], matrix }) => {
+      expectMatrixClose(matrix, [1, 0, 0, 1, tx * TILE, ty * TILE])
+    })
+  })
+
+  it('should multiply the grid by the number of operations', () => {
+    expect(getInstanceTransforms('p4m', SQUARE)).toHaveLength(25 * 8)
+    expect(getInstanceTransforms('p2', SQUARE)).toHaveLength(25 * 2)
+  })
+
+  it('should map the canonical cell onto itself (modulo lattice) for every group', () => {
+    for (const { id } of WALLPAPER_GROUPS) {
+      const basisInverse = invertMatrix(getLatticeBasis(id, SQUARE))
+      const instances = getInstanceTransforms(id, SQUARE).filter(
+        ({ tileOffset: [i, j] }) => i === 0 && j === 0
+      )
+      const matrices = instances.map((instance) => instance.matrix)
+
+      // Group closure: the product of any two operations is another operation
+      // up to a lattice translation
+      for (const a of matrices) {
+        for (const b of matrices) {
+          const product = multiplyMatrices(a, b)
+          const match = matrices.some((candidate) => {
+            const linearMatches = [0, 1, 2, 3].every(
+              (k) => Math.abs(candidate[k] - product[k]) < 1e-6
+            )
+            if (!linearMatches) return false
+            const dx = product[4] - candidate[4]
+            const dy = product[5] - candidate[5]
+            const fx = basisInverse[0] * dx + basisInverse[2] * dy
+            const fy = basisInverse[1] * dx + basisInverse[3] * dy
+            return Math.abs(fx - Math.round(fx)) < 1e-6 && Math.abs(fy - Math.round(fy)) < 1e-6
+          })
+          expect(match, `${id} is not closed`).toBe(true)
+        }
+      }
+    }
+  })
+})
+
+describe('wrapToCenterCell', () => {
+  it('should match center tile normalization for square lattices', () => {
+    expect(wrapToCenterCell({ x: 10, y: 600 }, 'p1', SQUARE)).toEqual({ x: 266, y: 344 })
+  })
+
+  it('should keep points already inside the center tile', () => {
+    expect(wrapToCenterCell({ x: 300, y: 300 }, 'p4', SQUARE)).toEqual({ x: 300, y: 300 })
+  })
+})
+
+describe('getRepeatSize', () => {
+  it('should repeat every tile for square lattices', () => {
+    expect(getRepeatSize('pmm', SQUARE)).toEqual({ width: TILE, height: TILE })
+  })
+
+  it('should use the rectangular repeat of a hexagonal lattice', () => {
+    const { width, height } = getRepeatSize('p6m', SQUARE)
+    expect(width).toBe(TILE)
+    expect(height).toBeCloseTo(TILE * Math.sqrt(3), 6)
+  })
+})
+
+describe('repeat layouts', () => {
+  it('should drop every other column by half a tile', () => {
+    const instances = getInstanceTransforms('p1', SQUARE, HALF_DROP)
+    const right = instances.find(({ tileOffset: [i, j] }) => i === 1 && j === 0)!
+    expectMatrixClose(right.matrix, [1, 0, 0, 1, TILE, TILE / 2])
+  })
+
+  it('should shift every other row for brick layouts', () => {
+    expectMatrixClose(getLatticeBasis('p1', SQUARE, BRICK), [TILE, 0, TILE / 2, TILE, 0, 0])
+  })
+
+  it('should ignore offsets for groups with mirrors', () => {
+    expectMatrixClose(getLatticeBasis('pmm', SQUARE, HALF_DROP), [TILE, 0, 0, TILE, 0, 0])
+    expect(getRepeatSize('pmm', SQUARE, HALF_DROP)).toEqual({ width: TILE, height: TILE })
+  })
+
+  it('should export the smallest straight repeat', () => {
+    expect(getRepeatSize('p1', SQUARE, HALF_DROP)).toEqual({ width: 2 * TILE, height: TILE })
+    expect(getRepeatSize('p1', SQUARE, BRICK)).toEqual({ width: TILE, height: 2 * TILE })
+    const thirdDrop: RepeatLayout = { type: 'custom', direction: 'drop', offset: 1 / 3 }
+    expect(getRepeatMultiple(thirdDrop)).toBe(3)
+  })
+
+  it('should snap custom offsets to simple fractions', () => {
+    const layout = normalizeRepeatLayout({ type: 'custom', direction: 'brick', offset: 1.37 })
+    expect(layout.offset).toBeCloseTo(3 / 8, 6)
+  })
+
+  it('should keep the center tile as the canonical cell', () => {
+    // One column to the right drops by half a tile, so wrapping moves the point back up
+    expect(wrapToCenterCell({ x: 520, y: 300 }, 'p1', SQUARE, HALF_DROP)).toEqual({ x: 264, y: 428 })
+    expect(wrapToCenterCell({ x: 300, y: 520 }, 'p1', SQUARE, BRICK)).toEqual({ x: 428, y: 264 })
+  })
+})
+
+describe('rectangular tiles', () => {
+  const BORDER: TileSize = { width: 256, height: 128 }
+
+  it('should use the tile width and height as the lattice', () => {
+    expectMatrixClose(getLatticeBasis('pmm', BORDER), [256, 0, 0, 128, 0, 0])
+    expect(getRepeatSize('p1', BORDER)).toEqual(BORDER)
+  })
+
+  it('should wrap into the rectangular center tile', () => {
+    expect(wrapToCenterCell({ x: 10, y: 10 }, 'p1', BORDER)).toEqual({ x: 266, y: 138 })
+  })
+
+  it('should cover 5x5 tiles in both directions', () => {
+    const instances = getInstanceTransforms('p1', BORDER)
+    expect(instances).toHaveLength(25)
+    const corner = instances.find(({ tileOffset: [i, j] }) => i === 2 && j === -2)!
+    expectMatrixClose(corner.matrix, [1, 0, 0, 1, 512, -256])
+  })
+
+  it('should keep a square cell for groups with 90° rotations', () => {
+    expect(supportsRectangularTile('p4')).toBe(false)
+    expect(supportsRectangularTile('pmg')).toBe(true)
+    expect(getRepeatSize('p4m', BORDER)).toEqual({ width: 256, height: 256 })
+  })
+
+  it('should drop by a fraction of the tile height', () => {
+    expectMatrixClose(getLatticeBasis('p1', BORDER, HALF_DROP), [256, 64, 0, 128, 0, 0])
+  })
+})
+
+describe('hexagonal and triangular lattices', () => {
+  const CENTER = { x: TILE * 1.5, y: TILE * 1.5 }
+
+  it('should resolve layouts a group cannot use', () => {
+    expect(resolveRepeatLayout('p6', STRAIGHT_REPEAT).type).toBe('hexagonal')
+    expect(resolveRepeatLayout('p1', TRIANGULAR).type).toBe('straight')
+    expect(resolveRepeatLayout('pm', HEXAGONAL).type).toBe('straight')
+    expect(resolveRepeatLayout('p2', TRIANGULAR).type).toBe('triangular')
+  })
+
+  it('should repeat p1 along the 60° basis vectors', () => {
+    const instances = getInstanceTransforms('p1', SQUARE, HEXAGONAL)
+    instances.forEach(({ matrix }) => expect(isTranslationOnly(matrix)).toBe(true))
+    const translations = instances.map(({ matrix }) => [matrix[4], matrix[5]])
+    const hasTranslation = (x: number, y: number) =>
+      translations.some(([tx, ty]) => Math.abs(tx - x) < 1e-6 && Math.abs(ty - y) < 1e-6)
+    expect(hasTranslation(TILE, 0)).toBe(true)
+    expect(hasTranslation(-TILE / 2, TILE * Math.sqrt(3) / 2)).toBe(true)
+  })
+
+  it('should center the hexagon on the center tile', () => {
+    expect(getCellOrigin('p1', SQUARE, HEXAGONAL)).toEqual(CENTER)
+    const outline = getCellOutline('p1', SQUARE, HEXAGONAL)
+    expect(outline).toHaveLength(6)
+    outline.forEach(({ x, y }) => {
+      expect(Math.hypot(x - CENTER.x, y - CENTER.y)).toBeCloseTo(TILE / Math.sqrt(3), 6)
+    })
+  })
+
+  it('should wrap to the nearest lattice point', () => {
+    const wrapped = wrapToCenterCell({ x: CENTER.x + 200, y: CENTER.y }, 'p1', SQUARE, HEXAGONAL)
+    expect(wrapped.x).toBeCloseTo(CENTER.x - 56, 6)
+    expect(wrapped.y).toBeCloseTo(CENTER.y, 6)
+    expect(wrapToCenterCell({ x: 400, y: 360 }, 'p6', SQUARE, HEXAGONAL)).toEqual({ x: 400, y: 360 })
+  })
+
+  it('should map the canonical triangle onto its neighbour', () => {
+    const outline = getCellOutline('p2', SQUARE, TRIANGULAR)
+    expect(outline).toHaveLength(3)
+    const centroid = {
+      x: outline.reduce((sum, { x }) => sum + x, 0) / 3,
+      y: outline.reduce((sum, { y }) => sum + y, 0) / 3,
+    }
+    expect(centroid.x).toBeCloseTo(CENTER.x, 6)
+    expect(centroid.y).toBeCloseTo(CENTER.y, 6)
+
+    // The half-turn maps the centroid onto the centroid of the triangle sharing the diagonal
+    const basis = getLatticeBasis('p2', SQUARE, TRIANGULAR)
+    const origin = getCellOrigin('p2', SQUARE, TRIANGULAR)
+    const neighbour = transformPoint(basis, { x: 1 / 3, y: 2 / 3 })
+    const halfTurn = getInstanceTransforms('p2', SQUARE, TRIANGULAR).find(
+      ({ tileOffset: [i, j], operationIndex }) => i === 0 && j === 0 && operationIndex === 1
+    )!
+    const image = transformPoint(halfTurn.matrix, centroid)
+    expect(image.x).toBeCloseTo(origin.x + neighbour.x, 6)
+    expect(image.y).toBeCloseTo(origin.y + neighbour.y, 6)
+  })
+
+  it('should export the rectangular repeat of the hexagonal lattice', () => {
+    const { width, height } = getRepeatSize('p1', SQUARE, HEXAGONAL)
+    expect(width).toBe(TILE)
+    expect(height).toBeCloseTo(TILE * Math.sqrt(3), 6)
+  })
+
+  it('should need a square tile', () => {
+    expect(supportsRectangularTile('p1', HEXAGONAL)).toBe(false)
+    expect(supportsRectangularTile('p2', TRIANGULAR)).toBe(false)
+  })
+})
@@ -0,0 +1,556 @@
+import type { TMat2D } from 'fabric'
+import type { TileSize } from '../types/TileSize'
+
+/**
+ * The 17 plane symmetry (wallpaper) groups.
+ * 'p1' is pure translation - the classic seamless tile.
+ */
+export type WallpaperGroup =
+  | 'p1' | 'p2' | 'pm' | 'pg' | 'cm' | 'pmm' | 'pmg' | 'pgg' | 'cmm'
+  | 'p4' | 'p4m' | 'p4g'
+  | 'p3' | 'p3m1' | 'p31m' | 'p6' | 'p6m'
+
+export type LatticeType = 'square' | 'hexagonal'
+
+/**
+ * How neighbouring tiles are offset against each other.
+ * 'half-drop' shifts every other column down by half a tile, 'brick' shifts every other
+ * row across by half a tile, 'custom' shifts columns or rows by an arbitrary fraction.
+ * 'hexagonal' and 'triangular' repeat on the 60° lattice, with a hexagon or a triangle
+ * as the canonical cell.
+ */
+export type RepeatLayoutType = 'straight' | 'half-drop' | 'brick' | 'custom' | 'hexagonal' | 'triangular'
+
+export interface RepeatLayout {
+  type: RepeatLayoutType
+  direction: 'drop' | 'brick' // Used by 'custom': shift columns (drop) or rows (brick)
+  offset: number // Used by 'custom': fraction of a tile in [0, 1)
+}
+
+export const STRAIGHT_REPEAT: RepeatLayout = { type: 'straight', direction: 'drop', offset: 0 }
+export const HEXAGONAL_REPEAT: RepeatLayout = { type: 'hexagonal', direction: 'drop', offset: 0 }
+
+/**
+ * One rendered copy of a canonical object
+ */
+export interface InstanceTransform {
+  tileOffset: [number, number] // Lattice translation in cell units (basis a, basis b)
+  operationIndex: number // Index into the group's operations (0 = identity)
+  matrix: TMat2D // Scene-space transform from the canonical object to this copy
+}
+
+export interface WallpaperGroupInfo {
+  id: WallpaperGroup
+  lattice: LatticeType
+  description: string
+}
+
+/**
+ * Symmetry operations per group, in fractional cell coordinates with the origin at the
+ * cell corner (International Tables notation). Hexagonal groups use basis vectors at 120°.
+ */
+const GROUP_OPERATIONS: Record<WallpaperGroup, string[]> = {
+  p1: ['x,y'],
+  p2: ['x,y', '-x,-y'],
+  pm: ['x,y', '-x,y'],
+  pg: ['x,y', '-x,y+1/2'],
+  cm: ['x,y', '-x,y', 'x+1/2,y+1/2', '-x+1/2,y+1/2'],
+  pmm: ['x,y', '-x,-y', '-x,y', 'x,-y'],
+  pmg: ['x,y', '-x,-y', '-x+1/2,y', 'x+1/2,-y'],
+  pgg: ['x,y', '-x,-y', '-x+1/2,y+1/2', 'x+1/2,-y+1/2'],
+  cmm: [
+    'x,y', '-x,-y', '-x,y', 'x,-y',
+    'x+1/2,y+1/2', '-x+1/2,-y+1/2', '-x+1/2,y+1/2', 'x+1/2,-y+1/2',
+  ],
+  p4: ['x,y', '-x,-y', '-y,x', 'y,-x'],
+  p4m: ['x,y', '-x,-y', '-y,x', 'y,-x', '-x,y', 'x,-y', 'y,x', '-y,-x'],
+  p4g: [
+    'x,y', '-x,-y', '-y,x', 'y,-x',
+    '-x+1/2,y+1/2', 'x+1/2,-y+1/2', 'y+1/2,x+1/2', '-y+1/2,-x+1/2',
+  ],
+  p3: ['x,y', '-y,x-y', '-x+y,-x'],
+  p3m1: ['x,y', '-y,x-y', '-x+y,-x', '-y,-x', '-x+y,y', 'x,x-y'],
+  p31m: ['x,y', '-y,x-y', '-x+y,-x', 'y,x', 'x-y,-y', '-x,-x+y'],
+  p6: ['x,y', '-y,x-y', '-x+y,-x', '-x,-y', 'y,-x+y', 'x-y,x'],
+  p6m: [
+    'x,y', '-y,x-y', '-x+y,-x', '-x,-y', 'y,-x+y', 'x-y,x',
+    '-y,-x', '-x+y,y', 'x,x-y', 'y,x', 'x-y,-y', '-x,-x+y',
+  ],
+}
+
+export const WALLPAPER_GROUPS: WallpaperGroupInfo[] = [
+  { id: 'p1', lattice: 'square', description: 'Translation only' },
+  { id: 'p2', lattice: 'square', description: '180° rotations' },
+  { id: 'pm', lattice: 'square', description: 'Parallel mirrors' },
+  { id: 'pg', lattice: 'square', description: 'Parallel glide reflections' },
+  { id: 'cm', lattice: 'square', description: 'Mirrors with staggered glides' },
+  { id: 'pmm', lattice: 'square', description: 'Perpendicular mirrors' },
+  { id: 'pmg', lattice: 'square', description: 'Mirrors and perpendicular glides' },
+  { id: 'pgg', lattice: 'square', description: 'Perpendicular glides' },
+  { id: 'cmm', lattice: 'square', description: 'Perpendicular mirrors, centred' },
+  { id: 'p4', lattice: 'square', description: '90° rotations' },
+  { id: 'p4m', lattice: 'square', description: '90° rotations with diagonal mirrors' },
+  { id: 'p4g', lattice: 'square', description: '90° rotations with glides' },
+  { id: 'p3', lattice: 'hexagonal', description: '120° rotations' },
+  { id: 'p3m1', lattice: 'hexagonal', description: '120° rotations, mirrors through all centres' },
+  { id: 'p31m', lattice: 'hexagonal', description: '120° rotations, mirrors between centres' },
+  { id: 'p6', lattice: 'hexagonal', description: '60° rotations' },
+  { id: 'p6m', lattice: 'hexagonal', description: '60° rotations with mirrors' },
+]
+
+// Instances are generated for lattice translations up to this many tiles away,
+// which matches the 5x5 coverage used for plain translation tiling
+const COVERAGE_IN_TILES = 2.5
+
+const HEX_HEIGHT = Math.sqrt(3) / 2
+
+// Custom offsets are snapped to a fraction with at most this denominator so that the
+// straight repeat used for export stays finite
+export const MAX_REPEAT_MULTIPLE = 16
+
+// Groups without mirrors or glides work on any lattice, so only they can be offset
+const OFFSET_COMPATIBLE_GROUPS: WallpaperGroup[] = ['p1', 'p2']
+
+// Groups with 90° rotations need a square cell
+const SQUARE_CELL_GROUPS: WallpaperGroup[] = ['p4', 'p4m', 'p4g']
+
+// Groups with a half-turn or mirror that maps the canonical triangle onto its neighbour
+// across the short rhombus diagonal, so the triangle alone generates the pattern
+const TRIANGLE_CELL_GROUPS: WallpaperGroup[] = ['p2', 'p31m', 'p6', 'p6m']
+
+const OFFSET_LAYOUT_TYPES: RepeatLayoutType[] = ['half-drop', 'brick', 'custom']
+const HEXAGONAL_LAYOUT_TYPES: RepeatLayoutType[] = ['hexagonal', 'triangular']
+
+// Center of the canonical cell in fractional lattice coordinates
+const CELL_CENTERS: Record<'square' | 'hexagonal' | 'triangular', { x: number; y: number }> = {
+  square: { x: 0.5, y: 0.5 },
+  hexagonal: { x: 0, y: 0 },
+  triangular: { x: 2 / 3, y: 1 / 3 },
+}
+
+/**
+ * Parse a single coordinate expression such as "-x+1/2" or "x-y"
+ * into [x coefficient, y coefficient, constant]
+ */
+function parseCoordinate(expression: string): [number, number, number] {
+  const result: [number, number, number] = [0, 0, 0]
+  const terms = expression.replace(/\s/g, '').match(/[+-]?[^+-]+/g) || []
+
+  for (const term of terms) {
+    const sign = term.startsWith('-') ? -1 : 1
+    const body = term.replace(/^[+-]/, '')
+
+    if (body === 'x') {
+      result[0] += sign
+    } else if (body === 'y') {
+      result[1] += sign
+    } else {
+      const [numerator, denominator = '1'] = body.split('/')
+      result[2] += sign * (Number(numerator) / Number(denominator))
+    }
+  }
+
+  return result
+}
+
+/**
+ * Parse an operation like "-y,x-y" into a fractional-coordinate affine matrix
+ */
+export function parseOperation(operation: string): TMat2D {
+  const [xExpr, yExpr] = operation.split(',')
+  const [xx, xy, xc] = parseCoordinate(xExpr)
+  const [yx, yy, yc] = parseCoordinate(yExpr)
+  return [xx, yx, xy, yy, xc, yc]
+}
+
+export function multiplyMatrices(a: TMat2D, b: TMat2D): TMat2D {
+  return [
+    a[0] * b[0] + a[2] * b[1],
+    a[1] * b[0] + a[3] * b[1],
+    a[0] * b[2] + a[2] * b[3],
+    a[1] * b[2] + a[3] * b[3],
+    a[0] * b[4] + a[2] * b[5] + a[4],
+    a[1] * b[4] + a[3] * b[5] + a[5],
+  ]
+}
+
+export function invertMatrix(m: TMat2D): TMat2D {
+  const det = m[0] * m[3] - m[1] * m[2]
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ]
+}
+
+export function transformPoint(m: TMat2D, point: { x: number; y: number }): { x: number; y: number } {
+  return {
+    x: m[0] * point.x + m[2] * point.y + m[4],
+    y: m[1] * point.x + m[3] * point.y + m[5],
+  }
+}
+
+/**
+ * Check whether a matrix only translates (no rotation, reflection or scale)
+ */
+export function isTranslationOnly(m: TMat2D): boolean {
+  const epsilon = 1e-9
+  return Math.abs(m[0] - 1) < epsilon && Math.abs(m[1]) < epsilon &&
+    Math.abs(m[2]) < epsilon && Math.abs(m[3] - 1) < epsilon
+}
+
+export function getWallpaperGroupInfo(group: WallpaperGroup): WallpaperGroupInfo {
+  return WALLPAPER_GROUPS.find((info) => info.id === group) || WALLPAPER_GROUPS[0]
+}
+
+export function isWallpaperGroup(value: unknown): value is WallpaperGroup {
+  return typeof value === 'string' && value in GROUP_OPERATIONS
+}
+
+export function supportsRepeatLayout(group: WallpaperGroup): boolean {
+  return OFFSET_COMPATIBLE_GROUPS.includes(group)
+}
+
+/**
+ * Whether the group can repeat with the given layout type.
+ * Offsets need a group without mirrors or glides, the hexagonal cell a group that works
+ * on the 60° lattice and the triangular cell one of TRIANGLE_CELL_GROUPS.
+ */
+export function supportsLayoutType(group: WallpaperGroup, type: RepeatLayoutType): boolean {
+  const lattice = getWallpaperGroupInfo(group).lattice
+  if (type === 'hexagonal') return lattice === 'hexagonal' || supportsRepeatLayout(group)
+  if (type === 'triangular') return TRIANGLE_CELL_GROUPS.includes(group)
+  if (lattice === 'hexagonal') return false
+  return type === 'straight' || supportsRepeatLayout(group)
+}
+
+/**
+ * The layout a group actually repeats with: unsupported layouts fall back to a straight
+ * repeat, or to the hexagonal cell for groups on the 60° lattice
+ */
+export function resolveRepeatLayout(group: WallpaperGroup, layout: RepeatLayout): RepeatLayout {
+  if (supportsLayoutType(group, layout.type)) return layout
+  return getWallpaperGroupInfo(group).lattice === 'hexagonal' ? HEXAGONAL_REPEAT : STRAIGHT_REPEAT
+}
+
+export function isHexagonalLayout(layout: RepeatLayout): boolean {
+  return HEXAGONAL_LAYOUT_TYPES.includes(layout.type)
+}
+
+export function isRepeatLayout(value: unknown): value is RepeatLayout {
+  if (typeof value !== 'object' || value === null) return false
+  const layout = value as RepeatLayout
+  return ['straight', ...OFFSET_LAYOUT_TYPES, ...HEXAGONAL_LAYOUT_TYPES].includes(layout.type) &&
+    (layout.direction === 'drop' || layout.direction === 'brick') &&
+    typeof layout.offset === 'number' && Number.isFinite(layout.offset)
+}
+
+/**
+ * Snap a custom offset into [0, 1) and onto the closest fraction with a denominator
+ * of at most MAX_REPEAT_MULTIPLE
+ */
+export function normalizeRepeatLayout(layout: RepeatLayout): RepeatLayout {
+  if (layout.type !== 'custom') return layout
+
+  const wrapped = layout.offset - Math.floor(layout.offset)
+  let best = 0
+  for (let denominator = 1; denominator <= MAX_REPEAT_MULTIPLE; denominator++) {
+    const candidate = Math.round(wrapped * denominator) / denominator
+    if (Math.abs(candidate - wrapped) < Math.abs(best - wrapped) - 1e-9) {
+      best = candidate
+    }
+  }
+  return { ...layout, offset: best % 1 }
+}
+
+/**
+ * Resolve a layout into the shift direction and the fraction of a tile every step shifts by
+ */
+export function getLayoutShift(layout: RepeatLayout): { direction: 'drop' | 'brick'; offset: number } {
+  switch (layout.type) {
+    case 'half-drop':
+      return { direction: 'drop', offset: 0.5 }
+    case 'brick':
+      return { direction: 'brick', offset: 0.5 }
+    case 'custom':
+      return { direction: layout.direction, offset: normalizeRepeatLayout(layout).offset }
+    default:
+      return { direction: 'drop', offset: 0 }
+  }
+}
+
+/**
+ * Number of tiles after which an offset layout lines up again, e.g. 2 for half-drop
+ */
+export function getRepeatMultiple(layout: RepeatLayout): number {
+  const { offset } = getLayoutShift(layout)
+  for (let multiple = 1; multiple < MAX_REPEAT_MULTIPLE; multiple++) {
+    const shifted = offset * multiple
+    if (Math.abs(shifted - Math.round(shifted)) < 1e-6) return multiple
+  }
+  return MAX_REPEAT_MULTIPLE
+}
+
+/**
+ * Lattice basis as a matrix: columns are the basis vectors a and b in scene pixels.
+ * Offset layouts shear the rectangular lattice; groups with mirrors always repeat straight.
+ * Groups that need a square or hexagonal cell size it by the tile width.
+ */
+export function getLatticeBasis(
+  group: WallpaperGroup,
+  tileSize: TileSize,
+  layout: RepeatLayout = STRAIGHT_REPEAT
+): TMat2D {
+  const { width, height } = tileSize
+  const resolved = resolveRepeatLayout(group, layout)
+  if (isHexagonalLayout(resolved)) {
+    return [width, 0, -width / 2, width * HEX_HEIGHT, 0, 0]
+  }
+  if (SQUARE_CELL_GROUPS.includes(group)) {
+    return [width, 0, 0, width, 0, 0]
+  }
+  if (OFFSET_LAYOUT_TYPES.includes(resolved.type)) {
+    const { direction, offset } = getLayoutShift(resolved)
+    return direction === 'drop'
+      ? [width, offset * height, 0, height, 0, 0]
+      : [width, 0, offset * width, height, 0, 0]
+  }
+  return [width, 0, 0, height, 0, 0]
+}
+
+/**
+ * Whether the group and layout can be used with a tile whose width and height differ
+ */
+export function supportsRectangularTile(group: WallpaperGroup, layout: RepeatLayout = STRAIGHT_REPEAT): boolean {
+  return !isHexagonalLayout(resolveRepeatLayout(group, layout)) && !SQUARE_CELL_GROUPS.includes(group)
+}
+
+/**
+ * Size of the smallest axis-aligned rectangle that repeats seamlessly (a straight repeat).
+ * Rectangular lattices repeat every tile; hexagonal lattices repeat every width x width·√3;
+ * offset layouts repeat after getRepeatMultiple tiles across (drop) or down (brick).
+ */
+export function getRepeatSize(
+  group: WallpaperGroup,
+  tileSize: TileSize,
+  layout: RepeatLayout = STRAIGHT_REPEAT
+): TileSize {
+  const { width, height } = tileSize
+  const resolved = resolveRepeatLayout(group, layout)
+  if (isHexagonalLayout(resolved)) {
+    return { width, height: width * HEX_HEIGHT * 2 }
+  }
+  if (SQUARE_CELL_GROUPS.includes(group)) {
+    return { width, height: width }
+  }
+  if (OFFSET_LAYOUT_TYPES.includes(resolved.type)) {
+    const multiple = getRepeatMultiple(resolved)
+    return getLayoutShift(resolved).direction === 'drop'
+      ? { width: width * multiple, height }
+      : { width, height: height * multiple }
+  }
+  return { width, height }
+}
+
+/**
+ * Kind of canonical cell a resolved layout uses
+ */
+function getCellShape(layout: RepeatLayout): keyof typeof CELL_CENTERS {
+  if (layout.type === 'hexagonal' || layout.type === 'triangular') return layout.type
+  return 'square'
+}
+
+/**
+ * Scene position of the lattice point the canonical cell is built on.
+ * Rectangular cells start at the center tile corner (width, height); the hexagon is
+ * centered on the center of the center tile, as is the centroid of the triangle.
+ */
+export function getCellOrigin(
+  group: WallpaperGroup,
+  tileSize: TileSize,
+  layout: RepeatLayout = STRAIGHT_REPEAT
+): { x: number; y: number } {
+  const shape = getCellShape(resolveRepeatLayout(group, layout))
+  if (shape === 'square') return { x: tileSize.width, y: tileSize.height }
+
+  const basis = getLatticeBasis(group, tileSize, layout)
+  const offset = transformPoint([basis[0], basis[1], basis[2], basis[3], 0, 0], CELL_CENTERS[shape])
+  return { x: tileSize.width * 1.5 - offset.x, y: tileSize.height * 1.5 - offset.y }
+}
+
+/**
+ * Corners of the canonical cell in scene coordinates: the center tile (or its sheared
+ * parallelogram) for rectangular lattices, otherwise the hexagon or triangle
+ */
+export function getCellOutline(
+  group: WallpaperGroup,
+  tileSize: TileSize,
+  layout: RepeatLayout = STRAIGHT_REPEAT
+): Array<{ x: number; y: number }> {
+  const basis = getLatticeBasis(group, tileSize, layout)
+  const origin = getCellOrigin(group, tileSize, layout)
+  const shape = getCellShape(resolveRepeatLayout(group, layout))
+  const fractional: Array<{ x: number; y: number }> = {
+    square: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }],
+    // Vertices of the Voronoi cell: circumcenters of the six triangles around the origin
+    hexagonal: [
+      { x: 2 / 3, y: 1 / 3 }, { x: 1 / 3, y: 2 / 3 }, { x: -1 / 3, y: 1 / 3 },
+      { x: -2 / 3, y: -1 / 3 }, { x: -1 / 3, y: -2 / 3 }, { x: 1 / 3, y: -1 / 3 },
+    ],
+    triangular: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }],
+  }[shape]
+
+  return fractional.map((corner) => {
+    const point = transformPoint(basis, corner)
+    return { x: point.x + origin.x, y: point.y + origin.y }
+  })
+}
+
+/**
+ * Normalize a scene point into the canonical cell. For rectangular lattices - offset or
+ * not - this is the center tile range [width, 2*width) x [height, 2*height). Hexagonal
+ * cells wrap to the nearest lattice point. Triangular cells wrap into the rhombus of the
+ * canonical triangle and its neighbour, which the group maps onto each other.
+ */
+export function wrapToCenterCell(
+  point: { x: number; y: number },
+  group: WallpaperGroup,
+  tileSize: TileSize,
+  layout: RepeatLayout = STRAIGHT_REPEAT
+): { x: number; y: number } {
+  const basis = getLatticeBasis(group, tileSize, layout)
+  const origin = getCellOrigin(group, tileSize, layout)
+  const shape = getCellShape(resolveRepeatLayout(group, layout))
+
+  if (shape === 'square') {
+    // Wrap along the shifted axis first so the other axis can be wrapped independently
+    const cellWidth = basis[0]
+    const cellHeight = basis[3]
+    const wrap = (value: number, start: number, size: number) =>
+      start + ((((value - start) % size) + size) % size)
+    const column = Math.floor((point.x - origin.x) / cellWidth)
+    const dropped = point.y - column * basis[1]
+    const row = Math.floor((dropped - origin.y) / cellHeight)
+    return {
+      x: wrap(point.x - row * basis[2], origin.x, cellWidth),
+      y: wrap(dropped, origin.y, cellHeight),
+    }
+  }
+
+  const frac = transformPoint(invertMatrix(basis), {
+    x: point.x - origin.x,
+    y: point.y - origin.y,
+  })
+
+  if (shape === 'hexagonal') {
+    // The nearest lattice point is a corner of the rhombus the point falls into
+    let nearest = point
+    let nearestDistance = Infinity
+    for (let i = Math.floor(frac.x); i <= Math.floor(frac.x) + 1; i++) {
+      for (let j = Math.floor(frac.y); j <= Math.floor(frac.y) + 1; j++) {
+        const x = point.x - i * basis[0] - j * basis[2]
+        const y = point.y - i * basis[1] - j * basis[3]
+        const distance = (x - origin.x) ** 2 + (y - origin.y) ** 2
+        if (distance < nearestDistance - 1e-9) {
+          nearest = { x, y }
+          nearestDistance = distance
+        }
+      }
+    }
+    return nearest
+  }
+
+  const wrapped = transformPoint(basis, {
+    x: frac.x - Math.floor(frac.x),
+    y: frac.y - Math.floor(frac.y),
+  })
+  return { x: wrapped.x + origin.x, y: wrapped.y + origin.y }
+}
+
+/**
+ * Scene-space matrices of the group operations around the canonical cell origin
+ * (see getCellOrigin). Each operation is shifted by a lattice vector so that it maps
+ * the canonical cell center as close to itself as possible, which keeps lattice
+ * coverage symmetric.
+ */
+function getOperationMatrices(group: WallpaperGroup, tileSize: TileSize, layout: RepeatLayout): TMat2D[] {
+  const basis = getLatticeBasis(group, tileSize, layout)
+  const origin = getCellOrigin(group, tileSize, layout)
+  const cellCenter = CELL_CENTERS[getCellShape(resolveRepeatLayout(group, layout))]
+  const toCell: TMat2D = multiplyMatrices(invertMatrix(basis), [1, 0, 0, 1, -origin.x, -origin.y])
+  const fromCell: TMat2D = multiplyMatrices([1, 0, 0, 1, origin.x, origin.y], basis)
+
+  return GROUP_OPERATIONS[group].map((operation) => {
+    const frac = parseOperation(operation)
+    const center = transformPoint(frac, cellCenter)
+    frac[4] -= Math.floor(center.x - cellCenter.x + 0.5 + 1e-9)
+    frac[5] -= Math.floor(center.y - cellCenter.y + 0.5 + 1e-9)
+    return multiplyMatrices(fromCell, multiplyMatrices(frac, toCell))
+  })
+}
+
+/**
+ * Get the scene-space transform of a single instance
+ */
+export function getInstanceMatrix(
+  group: WallpaperGroup,
+  tileSize: TileSize,
+  tileOffset: [number, number],
+  operationIndex: number = 0,
+  layout: RepeatLayout = STRAIGHT_REPEAT
+): TMat2D {
+  const basis = getLatticeBasis(group, tileSize, layout)
+  const operations = getOperationMatrices(group, tileSize, layout)
+  const matrix: TMat2D = [...(operations[operationIndex] || operations[0])]
+  const [i, j] = tileOffset
+  matrix[4] += i * basis[0] + j * basis[2]
+  matrix[5] += i * basis[1] + j * basis[3]
+  return matrix
+}
+
+/**
+ * Build the scene-space transforms for every rendered copy of a canonical object.
+ * The identity instance (operation 0 at offset [0,0]) is always first.
+ * `coverage` is the largest translation (in tiles) to include along each axis.
+ */
+export function getInstanceTransforms(
+  group: WallpaperGroup,
+  tileSize: TileSize,
+  layout: RepeatLayout = STRAIGHT_REPEAT,
+  coverage: number = COVERAGE_IN_TILES
+): InstanceTransform[] {
+  const basis = getLatticeBasis(group, tileSize, layout)
+  const operations = getOperationMatrices(group, tileSize, layout)
+
+  const instances: InstanceTransform[] = []
+  const limitX = coverage * tileSize.width + 1e-6
+  const limitY = coverage * tileSize.height + 1e-6
+  // Sheared, hexagonal and elongated bases need more steps to cover the same area
+  const aspect = Math.max(tileSize.width, tileSize.height) / Math.min(tileSize.width, tileSize.height)
+  const range = Math.ceil(coverage * 2 * aspect) + 1
+
+  for (let j = -range; j <= range; j++) {
+    for (let i = -range; i <= range; i++) {
+      const tx = i * basis[0] + j * basis[2]
+      const ty = i * basis[1] + j * basis[3]
+      if (Math.abs(tx) > limitX || Math.abs(ty) > limitY) continue
+
+      operations.forEach((operation, operationIndex) => {
+        const matrix: TMat2D = [...operation]
+        matrix[4] += tx
+        matrix[5] += ty
+        const instance: InstanceTransform = { tileOffset: [i, j], operationIndex, matrix }
+        if (i === 0 && j === 0 && operationIndex === 0) {
+          instances.unshift(instance)
+        } else {
+          instances.push(instance)
+        }
+      })
+    }
+  }
+
+  return instances
+}
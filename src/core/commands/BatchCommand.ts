@@ -0,0 +1,67 @@
+import type { Command, SerializedCommand } from './types'
+import { serializeCommand } from './utils'
+
+/**
+ * Several commands done and undone as one step, e.g. everything done to a
+ * multi-selection (see UndoRedoManager.transaction). Commands are undone in reverse.
+ * If one of them fails, the ones already applied are reverted, so the batch is
+ * either applied as a whole or not at all.
+ */
+export class BatchCommand implements Command {
+  readonly type = 'batch'
+  readonly description: string
+  readonly timestamp: number
+
+  constructor(
+    description: string,
+    private commands: Command[]
+  ) {
+    this.timestamp = Date.now()
+    this.description = description
+  }
+
+  getCommands(): readonly Command[] {
+    return this.commands
+  }
+
+  async execute(): Promise<void> {
+    await applyAll(this.commands, 'execute', 'undo')
+  }
+
+  async undo(): Promise<void> {
+    await applyAll([...this.commands].reverse(), 'undo', 'execute')
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      commands: this.commands.map((command) => {
+        if (!command.serialize) {
+          throw new Error(`"${command.description}" can't be saved`)
+        }
+        return command.serialize()
+      }),
+    })
+  }
+}
+
+/**
+ * Apply commands in order, reverting the applied ones if one fails
+ */
+async function applyAll(commands: Command[], apply: 'execute' | 'undo', revert: 'execute' | 'undo'): Promise<void> {
+  const applied: Command[] = []
+  try {
+    for (const command of commands) {
+      await command[apply]()
+      applied.push(command)
+    }
+  } catch (error) {
+    for (const command of applied.reverse()) {
+      try {
+        await command[revert]()
+      } catch (revertError) {
+        console.error(`Failed to revert "${command.description}":`, revertError)
+      }
+    }
+    throw error
+  }
+}
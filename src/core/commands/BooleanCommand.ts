@@ -0,0 +1,83 @@
+import type { Path } from 'fabric'
+import type { Command, CommandDependencies, SerializedCommand, SerializedObjectData } from './types'
+import { removeCanonicalObject, restoreCanonicalObject, serializeCommand, serializeObject } from './utils'
+import type { ExtendedFabricObject } from '../../types/FabricExtensions'
+import { BOOLEAN_OPERATION_LABELS, type BooleanOperation } from '../BooleanOperations'
+import { generateUniqueId } from '../../utils/idGenerator'
+
+/**
+ * Command for a boolean operation (union, subtract, intersect, exclude, divide).
+ * The source objects are replaced by the resulting paths, which take the z-order position
+ * of the backmost source. Undo removes the results and restores the source objects.
+ */
+export class BooleanCommand implements Command {
+  readonly type = 'boolean'
+  readonly description: string
+  readonly timestamp: number
+
+  private originals: SerializedObjectData[]
+  private results: SerializedObjectData[]
+
+  constructor(
+    operation: BooleanOperation,
+    sourceObjects: ExtendedFabricObject[],
+    resultPaths: Path[],
+    private deps: CommandDependencies
+  ) {
+    this.timestamp = Date.now()
+    this.description = `${BOOLEAN_OPERATION_LABELS[operation]} ${sourceObjects.length} shapes`
+
+    this.originals = sourceObjects
+      .map((obj) => serializeObject(obj, deps.canonicalStore.getZOrderIndex(obj.tiledMetadata?.mirrorGroupId || '')))
+      .sort((a, b) => a.zOrderIndex - b.zOrderIndex)
+
+    const zOrderIndex = Math.max(0, Math.min(...this.originals.map((data) => data.zOrderIndex)))
+
+    // Results are new entities: one mirror group each, stacked in order
+    this.results = resultPaths.map((path, i) => {
+      const result = path as Path & ExtendedFabricObject
+      result.tiledMetadata = {
+        isMirror: false,
+        mirrorGroupId: generateUniqueId('mirror_group'),
+        tilePosition: [0, 0],
+      }
+      result.id = generateUniqueId('obj')
+      return serializeObject(result, zOrderIndex + i)
+    })
+  }
+
+  async execute(): Promise<void> {
+    for (const data of this.originals) {
+      removeCanonicalObject(data.mirrorGroupId, this.deps)
+    }
+    for (const data of this.results) {
+      await restoreCanonicalObject(data, this.deps)
+    }
+    this.deps.canvas.requestRenderAll()
+  }
+
+  async undo(): Promise<void> {
+    for (const data of this.results) {
+      removeCanonicalObject(data.mirrorGroupId, this.deps)
+    }
+    // Back to front, so every object lands at its original position
+    for (const data of this.originals) {
+      await restoreCanonicalObject(data, this.deps)
+    }
+    this.deps.canvas.requestRenderAll()
+  }
+
+  /**
+   * Get the mirrorGroupIds of the resulting paths
+   */
+  getResultMirrorGroupIds(): string[] {
+    return this.results.map((data) => data.mirrorGroupId)
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      originals: this.originals,
+      results: this.results,
+    })
+  }
+}
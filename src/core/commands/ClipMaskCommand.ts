@@ -0,0 +1,47 @@
+import type { Command, CommandDependencies, SerializedCommand } from './types'
+import { serializeCommand } from './utils'
+import type { ClipMaskManager, ClipTargetType } from '../ClipMaskManager'
+
+/**
+ * One target's mask before and after (undefined = not clipped)
+ */
+export interface ClipMaskChange {
+  targetType: ClipTargetType
+  targetId: string
+  before?: string
+  after?: string
+}
+
+/**
+ * Command for clipping entities, entity groups or layers by a mask, or releasing them.
+ */
+export class ClipMaskCommand implements Command {
+  readonly type = 'clip-mask'
+  readonly description: string
+  readonly timestamp: number
+
+  constructor(
+    private changes: ClipMaskChange[],
+    private clipMaskManager: ClipMaskManager,
+    private deps: CommandDependencies
+  ) {
+    this.timestamp = Date.now()
+    this.description = changes.some(({ after }) => after) ? 'Make clipping mask' : 'Release clipping mask'
+  }
+
+  execute(): void {
+    this.changes.forEach(({ targetType, targetId, after }) => this.clipMaskManager.setClipMask(targetType, targetId, after))
+    this.deps.canvas.requestRenderAll()
+  }
+
+  undo(): void {
+    this.changes.forEach(({ targetType, targetId, before }) => this.clipMaskManager.setClipMask(targetType, targetId, before))
+    this.deps.canvas.requestRenderAll()
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      changes: this.changes,
+    })
+  }
+}
@@ -1,7 +1,16 @@
 import * as fabric from 'fabric'
-import type { Command, CommandDependencies, SerializedObjectData } from './types'
+import type { Command, CommandDependencies, SerializedCommand, SerializedObjectData } from './types'
+import { serializeCommand } from './utils'
 import type { ExtendedFabricObject } from '../../types/FabricExtensions'
 
+/**
+ * The entity a duplicate was made from, and how far from it the copy was placed
+ */
+export interface DuplicateSource {
+  mirrorGroupId: string
+  offset: { x: number; y: number }
+}
+
 /**
  * Command for object creation operations: drawing, shapes, imports, duplication.
  * Stores the serialized object to enable recreation on redo.
@@ -19,7 +28,8 @@ export class CreateCommand implements Command {
     private zOrderIndex: number,
     objectToSerialize: ExtendedFabricObject,
     private deps: CommandDependencies,
-    description?: string
+    description?: string,
+    private duplicateOf?: DuplicateSource
   ) {
     this.timestamp = Date.now()
     this.description = description || `Create ${objectToSerialize.type || 'object'}`
@@ -35,6 +45,7 @@ export class CreateCommand implements Command {
         'id',
       ])),
       entityGroupId: objectToSerialize.tiledMetadata?.entityGroupId,
+      radialSymmetry: objectToSerialize.tiledMetadata?.radialSymmetry,
     }
   }
 
@@ -54,6 +65,7 @@ export class CreateCommand implements Command {
       mirrorGroupId: this.mirrorGroupId,
       tilePosition: [0, 0],
       entityGroupId: this.serializedData.entityGroupId,
+      radialSymmetry: this.serializedData.radialSymmetry,
     }
     recreatedObj.layerId = this.layerId
 
@@ -85,4 +97,14 @@ export class CreateCommand implements Command {
     }
     this.deps.canvas.requestRenderAll()
   }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      mirrorGroupId: this.mirrorGroupId,
+      layerId: this.layerId,
+      zOrderIndex: this.zOrderIndex,
+      serializedData: this.serializedData,
+      duplicateOf: this.duplicateOf,
+    })
+  }
 }
@@ -1,5 +1,6 @@
 import * as fabric from 'fabric'
-import type { Command, CommandDependencies, SerializedObjectData } from './types'
+import type { Command, CommandDependencies, SerializedCommand, SerializedObjectData } from './types'
+import { serializeCommand } from './utils'
 import type { ExtendedFabricObject } from '../../types/FabricExtensions'
 
 /**
@@ -32,6 +33,7 @@ export class DeleteCommand implements Command {
         'id',
       ])),
       entityGroupId: objectToDelete.tiledMetadata?.entityGroupId,
+      radialSymmetry: objectToDelete.tiledMetadata?.radialSymmetry,
     }
   }
 
@@ -64,6 +66,7 @@ export class DeleteCommand implements Command {
       mirrorGroupId: this.mirrorGroupId,
       tilePosition: [0, 0],
       entityGroupId: this.serializedData.entityGroupId,
+      radialSymmetry: this.serializedData.radialSymmetry,
     }
     recreatedObj.layerId = this.serializedData.layerId
 
@@ -86,4 +89,11 @@ export class DeleteCommand implements Command {
     this.deps.canvas.add(recreatedObj)
     this.deps.canvas.requestRenderAll()
   }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      mirrorGroupId: this.mirrorGroupId,
+      serializedData: this.serializedData,
+    })
+  }
 }
@@ -0,0 +1,139 @@
+import type { Command, CommandDependencies, SerializedCommand, SerializedObjectData } from './types'
+import type { CanonicalObjectStore } from '../CanonicalObjectStore'
+import type { EntityGroupManager } from '../EntityGroupManager'
+import type { SerializedEntityGroup } from '../../types/ProjectFormat'
+import { removeCanonicalObject, restoreCanonicalObject, serializeCommand, serializeObject } from './utils'
+
+/**
+ * Entity groups and the z-order of their members at one point in time
+ */
+export interface EntityGroupState {
+  groups: Record<string, SerializedEntityGroup> // By group id - missing groups didn't exist
+  zOrder: [mirrorGroupId: string, index: number][]
+}
+
+/**
+ * Capture groups and the z-order of entities before or after changing them
+ */
+export function captureEntityGroupState(
+  entityGroupManager: EntityGroupManager,
+  store: CanonicalObjectStore,
+  groupIds: string[],
+  mirrorGroupIds: string[]
+): EntityGroupState {
+  const groups: Record<string, SerializedEntityGroup> = {}
+  for (const group of entityGroupManager.serialize()) {
+    if (groupIds.includes(group.id)) groups[group.id] = group
+  }
+
+  return {
+    groups,
+    zOrder: mirrorGroupIds.map((id): [string, number] => [id, store.getZOrderIndex(id)]),
+  }
+}
+
+/**
+ * Command for grouping, ungrouping, renaming groups and adding or removing members.
+ * Recorded after the change, with the state of the groups involved before and after it.
+ * Creating a group brings its members together in z-order, so that is restored too.
+ */
+export class EntityGroupCommand implements Command {
+  readonly type = 'entity-group'
+  readonly description: string
+  readonly timestamp: number
+
+  private groupIds: string[]
+
+  constructor(
+    description: string,
+    private before: EntityGroupState,
+    private after: EntityGroupState,
+    private entityGroupManager: EntityGroupManager,
+    private deps: CommandDependencies
+  ) {
+    this.timestamp = Date.now()
+    this.description = description
+    this.groupIds = Array.from(new Set([...Object.keys(before.groups), ...Object.keys(after.groups)]))
+  }
+
+  execute(): void {
+    this.applyState(this.after)
+  }
+
+  undo(): void {
+    this.applyState(this.before)
+  }
+
+  private applyState({ groups, zOrder }: EntityGroupState): void {
+    // Ungroup first, so members that left a group don't keep pointing at it
+    this.groupIds.forEach((id) => this.entityGroupManager.ungroup(id))
+    this.groupIds.forEach((id) => groups[id] && this.entityGroupManager.restoreGroup(groups[id]))
+
+    // Lowest index first, so the entities end up exactly where they were
+    ;[...zOrder]
+      .sort(([, a], [, b]) => a - b)
+      .forEach(([id, index]) => this.deps.canonicalStore.setZOrderIndex(id, index))
+
+    this.deps.canvas.requestRenderAll()
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      groupIds: this.groupIds,
+      before: this.before,
+      after: this.after,
+    })
+  }
+}
+
+/**
+ * Command for deleting an entity group together with its member entities
+ */
+export class EntityGroupDeleteCommand implements Command {
+  readonly type = 'entity-group-delete'
+  readonly description = 'Delete group'
+  readonly timestamp: number
+
+  private group: SerializedEntityGroup
+  private objects: SerializedObjectData[]
+
+  constructor(
+    groupId: string,
+    private entityGroupManager: EntityGroupManager,
+    private deps: CommandDependencies
+  ) {
+    const group = entityGroupManager.serialize().find(({ id }) => id === groupId)
+    if (!group) {
+      throw new Error(`Entity group ${groupId} not found`)
+    }
+
+    this.timestamp = Date.now()
+    this.group = group
+    // Members in z-order, so restoring them one by one keeps their indices valid
+    this.objects = deps.canonicalStore
+      .getAll()
+      .filter((obj) => group.memberMirrorGroupIds.includes(obj.tiledMetadata!.mirrorGroupId))
+      .map((obj) => serializeObject(obj, deps.canonicalStore.getZOrderIndex(obj.tiledMetadata!.mirrorGroupId)))
+  }
+
+  execute(): void {
+    this.entityGroupManager.deleteGroup(this.group.id)
+    this.objects.forEach(({ mirrorGroupId }) => removeCanonicalObject(mirrorGroupId, this.deps))
+    this.deps.canvas.requestRenderAll()
+  }
+
+  async undo(): Promise<void> {
+    for (const data of this.objects) {
+      await restoreCanonicalObject(data, this.deps)
+    }
+    this.entityGroupManager.restoreGroup(this.group)
+    this.deps.canvas.requestRenderAll()
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      group: this.group,
+      objects: this.objects,
+    })
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { Path, Rect, type FabricObject } from 'fabric'
+import type { ExtendedFabricObject } from '../../types/FabricExtensions'
+import type { CommandDependencies } from './types'
+import { CanonicalObjectStore } from '../CanonicalObjectStore'
+import { EraseCommand } from './EraseCommand'
+
+const setup = () => {
+  const objects: FabricObject[] = []
+  const canvas = {
+    getObjects: () => objects,
+    add: (obj: FabricObject) => objects.push(obj),
+    remove: (obj: FabricObject) => objects.splice(objects.indexOf(obj), 1),
+    requestRenderAll: () => {},
+  }
+  const store = new CanonicalObjectStore()
+  const deps = { canvas, canonicalStore: store, selectionProxyManager: null } as unknown as CommandDependencies
+
+  const add = (id: string) => {
+    const rect = new Rect({ width: 10, height: 10, fill: '#ff0000' }) as ExtendedFabricObject
+    rect.tiledMetadata = { isMirror: false, mirrorGroupId: id, tilePosition: [0, 0] }
+    store.add(rect, id)
+    objects.push(rect)
+    return rect
+  }
+  return { objects, store, deps, add }
+}
+
+describe('EraseCommand', () => {
+  it('should put back the objects already erased when a replacement fails', async () => {
+    const { objects, store, deps, add } = setup()
+    const a = add('a')
+    const b = add('b')
+    // Cut-down paths keep the entity of the original
+    const cut = new Path('M 0 0 L 5 0 L 5 5 z', { fill: '#ff0000' }) as Path & ExtendedFabricObject
+    cut.tiledMetadata = a.tiledMetadata
+    // Saved as a type that can't be recreated
+    const broken = new Path('M 0 0 L 5 0 L 5 5 z') as Path & ExtendedFabricObject
+    Object.assign(broken, { toObject: () => ({ type: 'NotAClass', tiledMetadata: b.tiledMetadata }) })
+    broken.tiledMetadata = b.tiledMetadata
+
+    const command = new EraseCommand(
+      [
+        { original: a, replacement: cut },
+        { original: b, replacement: broken },
+      ],
+      deps
+    )
+
+    await expect(command.execute()).rejects.toThrow()
+    expect(store.getAll().map((obj) => obj.tiledMetadata?.mirrorGroupId)).toEqual(['a', 'b'])
+    expect(objects).toHaveLength(2)
+    expect(objects.every((obj) => obj.type === 'rect')).toBe(true)
+  })
+})
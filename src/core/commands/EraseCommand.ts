@@ -0,0 +1,66 @@
+import type { Command, CommandDependencies, SerializedCommand, SerializedObjectData } from './types'
+import { removeCanonicalObject, restoreCanonicalObject, serializeCommand, serializeObject } from './utils'
+import type { ExtendedFabricObject } from '../../types/FabricExtensions'
+import type { EraseResult } from '../VectorEraser'
+
+interface SerializedErasure {
+  original: SerializedObjectData
+  replacement: SerializedObjectData | null // null when the object was erased completely
+}
+
+/**
+ * Command for one vector eraser stroke.
+ * Every object the eraser touched is replaced by its cut-down path (same mirrorGroupId,
+ * so entity groups stay intact), or removed when nothing is left of it.
+ * Stores both versions serialized so either can be recreated.
+ */
+export class EraseCommand implements Command {
+  readonly type = 'erase'
+  readonly description: string
+  readonly timestamp: number
+
+  private erasures: SerializedErasure[]
+
+  constructor(results: EraseResult[], private deps: CommandDependencies) {
+    this.timestamp = Date.now()
+    this.description = `Erase from ${results.length} object${results.length === 1 ? '' : 's'}`
+
+    this.erasures = results.map(({ original, replacement }) => {
+      const zOrderIndex = deps.canonicalStore.getZOrderIndex(original.tiledMetadata?.mirrorGroupId || '')
+      return {
+        original: serializeObject(original, zOrderIndex),
+        replacement: replacement ? serializeObject(replacement as ExtendedFabricObject, zOrderIndex) : null,
+      }
+    })
+  }
+
+  async execute(): Promise<void> {
+    try {
+      for (const { original, replacement } of this.erasures) {
+        removeCanonicalObject(original.mirrorGroupId, this.deps)
+        if (replacement) {
+          await restoreCanonicalObject(replacement, this.deps)
+        }
+      }
+    } catch (error) {
+      // A failed erase isn't added to the history, so put back what it already removed
+      await this.undo()
+      throw error
+    }
+    this.deps.canvas.requestRenderAll()
+  }
+
+  async undo(): Promise<void> {
+    for (const { original } of this.erasures) {
+      removeCanonicalObject(original.mirrorGroupId, this.deps)
+      await restoreCanonicalObject(original, this.deps)
+    }
+    this.deps.canvas.requestRenderAll()
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      erasures: this.erasures,
+    })
+  }
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { Rect, type Canvas } from 'fabric'
+import type { ExtendedFabricObject } from '../../types/FabricExtensions'
+import type { CommandDependencies } from './types'
+import { LayerManager } from '../LayerManager'
+import { LayerReorderCommand } from './LayerCommand'
+
+describe('LayerReorderCommand', () => {
+  it('should leave canonical objects to be selected through proxies', () => {
+    const objects: ExtendedFabricObject[] = []
+    const canvas = { getObjects: () => objects, requestRenderAll: () => {} } as unknown as Canvas
+    const layerManager = new LayerManager(canvas)
+    const layer = layerManager.createLayer()
+    const folder = layerManager.createFolder()
+    layerManager.updateLayer(folder.id, { visible: false })
+
+    // Like TilingEngine.createCanonicalObject
+    const canonical = new Rect({ width: 10, height: 10, selectable: false, evented: false }) as ExtendedFabricObject
+    canonical.layerId = layer.id
+    objects.push(canonical)
+
+    const before = layerManager.getArrangement()
+    const after = before.map((placement) => (placement.id === layer.id ? { ...placement, parentId: folder.id } : placement))
+    const command = new LayerReorderCommand(before, after, { layerManager } as unknown as CommandDependencies)
+
+    command.execute()
+    expect(canonical).toMatchObject({ visible: false, selectable: false, evented: false })
+
+    command.undo()
+    expect(canonical).toMatchObject({ visible: true, selectable: false, evented: false })
+  })
+})
@@ -1,4 +1,11 @@
-import type { Command, CommandDependencies } from './types'
+import type { Command, CommandDependencies, SerializedCommand, SerializedObjectData } from './types'
+import type { Layer, LayerPlacement } from '../LayerManager'
+import type { EntityGroupManager } from '../EntityGroupManager'
+import type { ClipMask, ClipMaskManager } from '../ClipMaskManager'
+import type { SerializedEntityGroup } from '../../types/ProjectFormat'
+import type { ClipMaskChange } from './ClipMaskCommand'
+import { generateUniqueId } from '../../utils/idGenerator'
+import { removeCanonicalObject, restoreCanonicalObject, serializeCommand, serializeObject } from './utils'
 
 /**
  * Command for moving an entity from one layer to another.
@@ -33,10 +40,18 @@ export class LayerMoveCommand implements Command {
       this.deps.canvas.requestRenderAll()
     }
   }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      mirrorGroupId: this.mirrorGroupId,
+      fromLayerId: this.fromLayerId,
+      toLayerId: this.toLayerId,
+    })
+  }
 }
 
 /**
- * Command for reordering layers.
+ * Command for reordering layers and moving them in and out of folders.
  */
 export class LayerReorderCommand implements Command {
   readonly type = 'layer-reorder'
@@ -44,8 +59,8 @@ export class LayerReorderCommand implements Command {
   readonly timestamp: number
 
   constructor(
-    private beforeOrder: string[], // Array of layer IDs in original order
-    private afterOrder: string[],  // Array of layer IDs in new order
+    private beforeArrangement: LayerPlacement[], // Layers in their original order and folders
+    private afterArrangement: LayerPlacement[],  // Layers in their new order and folders
     private deps: CommandDependencies
   ) {
     this.timestamp = Date.now()
@@ -53,23 +68,417 @@ export class LayerReorderCommand implements Command {
   }
 
   execute(): void {
-    // Apply the new order to the layer manager
-    this.applyLayerOrder(this.afterOrder)
+    this.deps.layerManager.setArrangement(this.afterArrangement)
+  }
+
+  undo(): void {
+    this.deps.layerManager.setArrangement(this.beforeArrangement)
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      beforeArrangement: this.beforeArrangement,
+      afterArrangement: this.afterArrangement,
+    })
+  }
+}
+
+/**
+ * Command for creating a layer, folder or reference layer.
+ * Recorded after the layer was created.
+ */
+export class LayerCreateCommand implements Command {
+  readonly type = 'layer-create'
+  readonly description: string
+  readonly timestamp: number
+
+  private layer: Layer
+
+  constructor(
+    layer: Layer,
+    private deps: CommandDependencies
+  ) {
+    this.timestamp = Date.now()
+    this.description = layer.isFolder ? 'Create folder' : layer.reference ? 'Add reference image' : 'Create layer'
+    // Restored just before the layer that takes its place
+    this.layer = { ...layer, order: layer.order - 0.5 }
+  }
+
+  execute(): void {
+    this.deps.layerManager.addLayers([{ ...this.layer }])
   }
 
   undo(): void {
-    // Restore the original order
-    this.applyLayerOrder(this.beforeOrder)
+    this.deps.layerManager.deleteLayer(this.layer.id)
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      layer: this.layer,
+    })
+  }
+}
+
+/**
+ * Command for deleting a layer, or a folder with everything inside it, along with the
+ * objects on them, their entity groups and the clipping masks involving any of these.
+ */
+export class LayerDeleteCommand implements Command {
+  readonly type = 'layer-delete'
+  readonly description: string
+  readonly timestamp: number
+
+  private layers: Layer[]
+  private objects: SerializedObjectData[]
+  private groups: SerializedEntityGroup[]
+  private clips: ClipMask[]
+
+  constructor(
+    private layerId: string,
+    private entityGroupManager: EntityGroupManager,
+    private clipMaskManager: ClipMaskManager,
+    private deps: CommandDependencies
+  ) {
+    const { layerManager, canonicalStore } = deps
+    const layer = layerManager.getLayer(layerId)
+    if (!layer) {
+      throw new Error(`Layer ${layerId} not found`)
+    }
+
+    this.timestamp = Date.now()
+    this.description = layer.isFolder ? 'Delete folder' : 'Delete layer'
+
+    // The layer and everything inside it follow each other in order. They are restored
+    // just before the layer that takes their place, keeping their own order.
+    const deleted = [layer, ...layerManager.getDescendants(layerId)]
+    if (deleted.some(({ id }) => id === layerManager.getDefaultLayerId())) {
+      throw new Error('Cannot delete default layer')
+    }
+    this.layers = deleted.map((deletedLayer, i) => ({
+      ...deletedLayer,
+      order: layer.order - 1 + (i + 1) / (deleted.length + 1),
+    }))
+
+    // Objects in z-order, so restoring them one by one keeps their indices valid
+    const layerIds = new Set(deleted.map(({ id }) => id))
+    this.objects = canonicalStore
+      .getAll()
+      .filter((obj) => obj.layerId && layerIds.has(obj.layerId))
+      .map((obj) => serializeObject(obj, canonicalStore.getZOrderIndex(obj.tiledMetadata!.mirrorGroupId)))
+    this.groups = entityGroupManager.serialize().filter((group) => layerIds.has(group.layerId))
+
+    const mirrorGroupIds = new Set(this.objects.map(({ mirrorGroupId }) => mirrorGroupId))
+    const groupIds = new Set(this.groups.map(({ id }) => id))
+    const targetIds = { entity: mirrorGroupIds, entityGroup: groupIds, layer: layerIds }
+    this.clips = clipMaskManager
+      .getClipMasks()
+      .filter(({ targetType, targetId, maskId }) => targetIds[targetType].has(targetId) || mirrorGroupIds.has(maskId))
+  }
+
+  execute(): void {
+    this.clips.forEach(({ targetType, targetId }) => this.clipMaskManager.setClipMask(targetType, targetId, undefined))
+    this.groups.forEach(({ id }) => this.entityGroupManager.deleteGroup(id))
+    this.objects.forEach(({ mirrorGroupId }) => removeCanonicalObject(mirrorGroupId, this.deps))
+    this.deps.layerManager.deleteLayer(this.layerId)
+    this.deps.canvas.requestRenderAll()
+  }
+
+  async undo(): Promise<void> {
+    this.deps.layerManager.addLayers(this.layers.map((layer) => ({ ...layer })))
+    for (const data of this.objects) {
+      await restoreCanonicalObject(data, this.deps)
+    }
+    this.groups.forEach((group) => this.entityGroupManager.restoreGroup(group))
+    this.clips.forEach(({ targetType, targetId, maskId }) => this.clipMaskManager.setClipMask(targetType, targetId, maskId))
+
+    this.deps.layerManager.applyLayerState(this.layerId)
+    this.deps.canvas.requestRenderAll()
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      layerId: this.layerId,
+      layers: this.layers,
+      objects: this.objects,
+      groups: this.groups,
+      clips: this.clips,
+    })
+  }
+}
+
+/**
+ * One layer's properties before and after a change
+ */
+export interface LayerChange {
+  layerId: string
+  before: Partial<Omit<Layer, 'id'>>
+  after: Partial<Omit<Layer, 'id'>>
+}
+
+/**
+ * Change of a layer's properties to updates, with the current values to undo it
+ */
+export function getLayerChange(layer: Layer, updates: Partial<Omit<Layer, 'id'>>): LayerChange {
+  const before = Object.fromEntries(Object.keys(updates).map((key) => [key, layer[key as keyof Layer]]))
+  return { layerId: layer.id, before, after: updates }
+}
+
+/**
+ * Command for renaming layers, showing or hiding, locking or unlocking them and changing
+ * their settings.
+ */
+export class LayerUpdateCommand implements Command {
+  readonly type = 'layer-update'
+  readonly description: string
+  readonly timestamp: number
+
+  constructor(
+    private changes: LayerChange[],
+    private deps: CommandDependencies
+  ) {
+    this.timestamp = Date.now()
+    this.description = getLayerChangeDescription(changes)
   }
 
-  private applyLayerOrder(order: string[]): void {
-    // Update layer order property for each layer
-    order.forEach((layerId, index) => {
-      const layer = this.deps.layerManager.getLayer(layerId)
-      if (layer) {
-        this.deps.layerManager.updateLayer(layerId, { order: index })
+  execute(): void {
+    this.changes.forEach(({ layerId, after }) => this.deps.layerManager.updateLayer(layerId, after))
+  }
+
+  undo(): void {
+    this.changes.forEach(({ layerId, before }) => this.deps.layerManager.updateLayer(layerId, before))
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      changes: this.changes,
+    })
+  }
+}
+
+function getLayerChangeDescription(changes: LayerChange[]): string {
+  const after = changes[0]?.after ?? {}
+  const layers = changes.length > 1 ? 'layers' : 'layer'
+  if ('name' in after) return `Rename ${layers}`
+  if ('visible' in after) return `${after.visible ? 'Show' : 'Hide'} ${layers}`
+  if ('locked' in after) return `${after.locked ? 'Lock' : 'Unlock'} ${layers}`
+  return `Change ${layers} settings`
+}
+
+/**
+ * Command for duplicating a layer: a copy of every object on it, in a new layer just in
+ * front of it. The copies get new mirrorGroupIds, and the layer's entity groups and
+ * clipping masks are copied along with them.
+ */
+export class LayerDuplicateCommand implements Command {
+  readonly type = 'layer-duplicate'
+  readonly description: string
+  readonly timestamp: number
+
+  private layer: Layer
+  private objects: SerializedObjectData[]
+  private groups: SerializedEntityGroup[]
+  private clips: ClipMask[]
+
+  constructor(
+    sourceLayerId: string,
+    private entityGroupManager: EntityGroupManager,
+    private clipMaskManager: ClipMaskManager,
+    private deps: CommandDependencies
+  ) {
+    this.timestamp = Date.now()
+    this.description = 'Duplicate layer'
+
+    const source = deps.layerManager.getLayer(sourceLayerId)
+    if (!source || source.isFolder) {
+      throw new Error('Only layers can be duplicated')
+    }
+    this.layer = {
+      ...source,
+      id: generateUniqueId('layer'),
+      name: `${source.name} copy`,
+      order: source.order + 0.5,
+    }
+
+    // New ids for every copied object and group, chosen once so redo recreates the same ones
+    const sourceObjects = deps.canonicalStore.getByLayer(sourceLayerId)
+    const mirrorGroupIds = new Map(
+      sourceObjects.map((obj) => [obj.tiledMetadata!.mirrorGroupId, generateUniqueId('mirror_group')])
+    )
+    const sourceGroups = entityGroupManager.getAllGroups().filter((group) => group.layerId === sourceLayerId)
+    const groupIds = new Map(sourceGroups.map((group) => [group.id, generateUniqueId('entityGroup')]))
+
+    this.objects = sourceObjects.map((obj) => {
+      const data = serializeObject(obj, 0)
+      const objectData = JSON.parse(data.fabricObjectJSON)
+      objectData.id = generateUniqueId('obj')
+      return {
+        ...data,
+        mirrorGroupId: mirrorGroupIds.get(data.mirrorGroupId)!,
+        layerId: this.layer.id,
+        fabricObjectJSON: JSON.stringify(objectData),
+        entityGroupId: data.entityGroupId && groupIds.get(data.entityGroupId),
       }
     })
+
+    this.groups = sourceGroups.map((group) => ({
+      id: groupIds.get(group.id)!,
+      name: group.name,
+      memberMirrorGroupIds: group.memberMirrorGroupIds.map((id) => mirrorGroupIds.get(id) ?? id),
+      layerId: this.layer.id,
+    }))
+
+    // Copies are clipped by the copied mask when it was on the layer too
+    this.clips = clipMaskManager.getClipMasks().flatMap(({ targetType, targetId, maskId }) => {
+      const copiedTargetId =
+        targetType === 'entity' ? mirrorGroupIds.get(targetId)
+        : targetType === 'entityGroup' ? groupIds.get(targetId)
+        : targetId === sourceLayerId ? this.layer.id
+        : undefined
+      return copiedTargetId ? [{ targetType, targetId: copiedTargetId, maskId: mirrorGroupIds.get(maskId) ?? maskId }] : []
+    })
+  }
+
+  async execute(): Promise<void> {
+    this.deps.layerManager.addLayers([{ ...this.layer }])
+
+    // On top of the z-order, in the order of the originals
+    for (const data of this.objects) {
+      await restoreCanonicalObject({ ...data, zOrderIndex: this.deps.canonicalStore.size }, this.deps)
+    }
+    this.groups.forEach((group) => this.entityGroupManager.restoreGroup(group))
+    this.clips.forEach(({ targetType, targetId, maskId }) => this.clipMaskManager.setClipMask(targetType, targetId, maskId))
+
+    this.deps.layerManager.applyLayerState(this.layer.id)
+    this.deps.canvas.requestRenderAll()
+  }
+
+  undo(): void {
+    this.clips.forEach(({ targetType, targetId }) => this.clipMaskManager.setClipMask(targetType, targetId, undefined))
+    this.groups.forEach((group) => this.entityGroupManager.deleteGroup(group.id))
+    this.objects.forEach(({ mirrorGroupId }) => removeCanonicalObject(mirrorGroupId, this.deps))
+    this.deps.layerManager.deleteLayer(this.layer.id)
     this.deps.canvas.requestRenderAll()
   }
+
+  /**
+   * Id of the new layer
+   */
+  getLayerId(): string {
+    return this.layer.id
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      layer: this.layer,
+      objects: this.objects,
+      groups: this.groups,
+      clips: this.clips,
+    })
+  }
+}
+
+/**
+ * Command for merging a layer down into the layer beneath it. Its objects keep their
+ * z-order, in front of the objects already there, and its entity groups move along.
+ * A clipping mask on the merged layer carries over to its objects that aren't clipped
+ * by a mask of their own. The merged layer's opacity and blend mode are dropped.
+ */
+export class LayerMergeDownCommand implements Command {
+  readonly type = 'layer-merge-down'
+  readonly description: string
+  readonly timestamp: number
+
+  private layer: Layer
+  private targetLayerId: string
+  private mirrorGroupIds: string[]
+  private zOrderIndices: number[]
+  private groupIds: string[]
+  private clipChanges: ClipMaskChange[]
+
+  constructor(
+    layerId: string,
+    private entityGroupManager: EntityGroupManager,
+    private clipMaskManager: ClipMaskManager,
+    private deps: CommandDependencies
+  ) {
+    this.timestamp = Date.now()
+    this.description = 'Merge layer down'
+
+    const layer = deps.layerManager.getLayer(layerId)
+    const target = deps.layerManager.getMergeTarget(layerId)
+    if (!layer || !target) {
+      throw new Error('There is no layer to merge down into')
+    }
+    // Restored just before the layer that takes its place
+    this.layer = { ...layer, order: layer.order - 0.5 }
+    this.targetLayerId = target.id
+
+    // In z-order, so bringing each to the front keeps their stacking
+    this.mirrorGroupIds = deps.canonicalStore.getByLayer(layerId).map((obj) => obj.tiledMetadata!.mirrorGroupId)
+    this.zOrderIndices = this.mirrorGroupIds.map((id) => deps.canonicalStore.getZOrderIndex(id))
+    this.groupIds = entityGroupManager.getAllGroups().filter((group) => group.layerId === layerId).map(({ id }) => id)
+
+    const layerMask = clipMaskManager.getClipMask('layer', layerId)
+    this.clipChanges = layerMask
+      ? [
+          { targetType: 'layer', targetId: layerId, before: layerMask },
+          ...this.mirrorGroupIds
+            .filter((id) => id !== layerMask && !clipMaskManager.getClipMask('entity', id))
+            .map((id): ClipMaskChange => ({ targetType: 'entity', targetId: id, after: layerMask })),
+        ]
+      : []
+  }
+
+  execute(): void {
+    const { canonicalStore, layerManager } = this.deps
+
+    this.mirrorGroupIds.forEach((id) => {
+      const obj = canonicalStore.get(id)
+      if (!obj) return
+      obj.layerId = this.targetLayerId
+      canonicalStore.bringToFront(id)
+    })
+    this.groupIds.forEach((id) => this.entityGroupManager.setGroupLayer(id, this.targetLayerId))
+    this.clipChanges.forEach(({ targetType, targetId, after }) => this.clipMaskManager.setClipMask(targetType, targetId, after))
+
+    layerManager.deleteLayer(this.layer.id)
+    layerManager.applyLayerState(this.targetLayerId)
+    this.deps.canvas.requestRenderAll()
+  }
+
+  undo(): void {
+    const { canonicalStore, layerManager } = this.deps
+
+    layerManager.addLayers([{ ...this.layer }])
+    // Back to their old places, lowest first so the indices stay valid
+    this.mirrorGroupIds.forEach((id, i) => {
+      const obj = canonicalStore.get(id)
+      if (!obj) return
+      obj.layerId = this.layer.id
+      canonicalStore.setZOrderIndex(id, this.zOrderIndices[i])
+    })
+    this.groupIds.forEach((id) => this.entityGroupManager.setGroupLayer(id, this.layer.id))
+    this.clipChanges.forEach(({ targetType, targetId, before }) => this.clipMaskManager.setClipMask(targetType, targetId, before))
+
+    layerManager.applyLayerState(this.layer.id)
+    this.deps.canvas.requestRenderAll()
+  }
+
+  /**
+   * Id of the layer merged into
+   */
+  getTargetLayerId(): string {
+    return this.targetLayerId
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      layer: this.layer,
+      targetLayerId: this.targetLayerId,
+      mirrorGroupIds: this.mirrorGroupIds,
+      zOrderIndices: this.zOrderIndices,
+      groupIds: this.groupIds,
+      clipChanges: this.clipChanges,
+    })
+  }
 }
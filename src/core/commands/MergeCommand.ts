@@ -1,5 +1,6 @@
 import * as fabric from 'fabric'
-import type { Command, CommandDependencies, SerializedObjectData } from './types'
+import type { Command, CommandDependencies, SerializedCommand, SerializedObjectData } from './types'
+import { serializeCommand } from './utils'
 import type { ExtendedFabricObject } from '../../types/FabricExtensions'
 
 /**
@@ -45,6 +46,7 @@ export class MergeCommand implements Command {
         'id',
       ])),
       entityGroupId: obj.tiledMetadata?.entityGroupId,
+      radialSymmetry: obj.tiledMetadata?.radialSymmetry,
     }))
   }
 
@@ -123,6 +125,7 @@ export class MergeCommand implements Command {
         mirrorGroupId: data.mirrorGroupId,
         tilePosition: [0, 0],
         entityGroupId: data.entityGroupId,
+        radialSymmetry: data.radialSymmetry,
       }
       recreatedObj.layerId = data.layerId
 
@@ -154,4 +157,14 @@ export class MergeCommand implements Command {
   getMergedMirrorGroupId(): string | null {
     return this.mergedMirrorGroupId
   }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      originalMirrorGroupIds: this.originalMirrorGroupIds,
+      originalObjects: this.originalObjects,
+      mergedMirrorGroupId: this.mergedMirrorGroupId,
+      mergedLayerId: this.mergedLayerId,
+      mergedObjectJSON: this.mergedObjectJSON,
+    })
+  }
 }
@@ -0,0 +1,52 @@
+import type { Path } from 'fabric'
+import type { Command, CommandDependencies, SerializedCommand } from './types'
+import { serializeCommand } from './utils'
+import type { ExtendedFabricObject } from '../../types/FabricExtensions'
+import { setPathData } from '../PathNodes'
+
+/**
+ * Command for node edits on a path: moving anchors and handles, adding and deleting
+ * nodes, converting between corner and smooth.
+ * Stores the path data before and after the edit.
+ */
+export class PathEditCommand implements Command {
+  readonly type = 'path-edit'
+  readonly description: string
+  readonly timestamp: number
+
+  constructor(
+    private mirrorGroupId: string,
+    private beforePathData: string,
+    private afterPathData: string,
+    private deps: CommandDependencies,
+    description = 'Edit path nodes'
+  ) {
+    this.timestamp = Date.now()
+    this.description = description
+  }
+
+  execute(): void {
+    this.apply(this.afterPathData)
+  }
+
+  undo(): void {
+    this.apply(this.beforePathData)
+  }
+
+  private apply(pathData: string): void {
+    const canonical = this.deps.canonicalStore.get(this.mirrorGroupId)
+    if (!canonical || canonical.type !== 'path') return
+
+    setPathData(canonical as Path & ExtendedFabricObject, pathData)
+    this.deps.selectionProxyManager?.syncCanonicalToProxy(this.mirrorGroupId)
+    this.deps.canvas.requestRenderAll()
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      mirrorGroupId: this.mirrorGroupId,
+      beforePathData: this.beforePathData,
+      afterPathData: this.afterPathData,
+    })
+  }
+}
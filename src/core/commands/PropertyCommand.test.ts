@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { Rect } from 'fabric'
+import { createDefaultGradient, specToGradient } from '../Gradients'
+import type { CommandDependencies } from './types'
+import { MultiPropertyCommand, PropertyCommand } from './PropertyCommand'
+import { UndoRedoManager } from '../UndoRedoManager'
+
+const setup = () => {
+  const rect = new Rect({ width: 10, height: 10, fill: '#ff0000' })
+  const deps = {
+    canvas: { requestRenderAll: () => {} },
+    canonicalStore: { get: () => rect },
+  } as unknown as CommandDependencies
+  return { rect, deps }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('PropertyCommand', () => {
+  it('should set a new gradient instance each time it is applied', () => {
+    const { rect, deps } = setup()
+    const gradient = specToGradient(createDefaultGradient('linear', { width: 10, height: 10 }, '#00ff00'))
+    const command = new PropertyCommand('a', 'fill', '#ff0000', gradient, deps)
+
+    command.execute()
+    const applied = rect.fill
+    expect(applied).not.toBe(gradient)
+    expect(applied).toMatchObject({ colorStops: gradient.colorStops })
+
+    command.undo()
+    expect(rect.fill).toBe('#ff0000')
+    command.execute()
+    expect(rect.fill).not.toBe(applied)
+  })
+})
+
+describe('MultiPropertyCommand', () => {
+  it('should copy gradients among the values it sets', () => {
+    const { rect, deps } = setup()
+    const gradient = specToGradient(createDefaultGradient('radial', { width: 10, height: 10 }, '#0000ff'))
+    new MultiPropertyCommand('a', { fill: '#ff0000', opacity: 1 }, { fill: gradient, opacity: 0.5 }, deps).execute()
+
+    expect(rect.fill).not.toBe(gradient)
+    expect(rect).toMatchObject({ fill: { type: 'radial' }, opacity: 0.5 })
+  })
+
+  it('should merge changes to the same properties made within the merge window', async () => {
+    vi.useFakeTimers()
+    const { rect, deps } = setup()
+    const manager = new UndoRedoManager(deps)
+    const change = (before: Record<string, unknown>, after: Record<string, unknown>) =>
+      manager.execute(new MultiPropertyCommand('a', before, after, deps))
+
+    // Like dragging the opacity slider
+    change({ opacity: 1 }, { opacity: 0.8 })
+    vi.advanceTimersByTime(100)
+    change({ opacity: 0.8 }, { opacity: 0.5 })
+    expect(manager.getStackSizes().undo).toBe(1)
+
+    // Other properties, or the same ones later on, are undone on their own
+    change({ fill: '#ff0000' }, { fill: '#0000ff' })
+    vi.advanceTimersByTime(600)
+    change({ fill: '#0000ff' }, { fill: '#00ff00' })
+    expect(manager.getStackSizes().undo).toBe(3)
+
+    await manager.undo()
+    await manager.undo()
+    expect(rect.fill).toBe('#ff0000')
+    await manager.undo()
+    expect(rect.opacity).toBe(1)
+  })
+})
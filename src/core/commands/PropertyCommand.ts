@@ -1,7 +1,9 @@
-import type { Command, CommandDependencies } from './types'
+import type { Command, CommandDependencies, SerializedCommand } from './types'
+import { copyPaint, serializeCommand } from './utils'
 
 /**
  * Command for property changes: fill, stroke, strokeWidth, opacity.
+ * Fill and stroke values may be gradients; a copy is set each time (see copyPaint).
  */
 export class PropertyCommand implements Command {
   readonly type = 'property'
@@ -13,10 +15,11 @@ export class PropertyCommand implements Command {
     private propertyName: string,
     private beforeValue: unknown,
     private afterValue: unknown,
-    private deps: CommandDependencies
+    private deps: CommandDependencies,
+    description?: string
   ) {
     this.timestamp = Date.now()
-    this.description = `Change ${this.getPropertyDisplayName()}`
+    this.description = description ?? `Change ${this.getPropertyDisplayName()}`
   }
 
   private getPropertyDisplayName(): string {
@@ -33,7 +36,7 @@ export class PropertyCommand implements Command {
     const canonical = this.deps.canonicalStore.get(this.mirrorGroupId)
     if (!canonical) return
 
-    canonical.set({ [this.propertyName]: this.afterValue })
+    canonical.set({ [this.propertyName]: copyPaint(this.afterValue) })
     this.deps.canvas.requestRenderAll()
   }
 
@@ -41,10 +44,19 @@ export class PropertyCommand implements Command {
     const canonical = this.deps.canonicalStore.get(this.mirrorGroupId)
     if (!canonical) return
 
-    canonical.set({ [this.propertyName]: this.beforeValue })
+    canonical.set({ [this.propertyName]: copyPaint(this.beforeValue) })
     this.deps.canvas.requestRenderAll()
   }
 
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      mirrorGroupId: this.mirrorGroupId,
+      propertyName: this.propertyName,
+      beforeValue: this.beforeValue,
+      afterValue: this.afterValue,
+    })
+  }
+
   canMergeWith(_other: Command): boolean {
     // Don't merge property commands - each change should be separately undoable
     return false
@@ -52,13 +64,16 @@ export class PropertyCommand implements Command {
 }
 
 /**
- * Command for multiple property changes at once (e.g., from PropertiesPanel)
+ * Command for multiple property changes at once (e.g., from PropertiesPanel).
+ * Changes to the same properties one after the other, e.g. while dragging a slider, merge.
  */
 export class MultiPropertyCommand implements Command {
   readonly type = 'property'
   readonly description: string
   readonly timestamp: number
 
+  private static MERGE_WINDOW_MS = 500
+
   constructor(
     private mirrorGroupId: string,
     private beforeValues: Record<string, unknown>,
@@ -72,18 +87,50 @@ export class MultiPropertyCommand implements Command {
   }
 
   execute(): void {
-    const canonical = this.deps.canonicalStore.get(this.mirrorGroupId)
-    if (!canonical) return
-
-    canonical.set(this.afterValues)
-    this.deps.canvas.requestRenderAll()
+    this.apply(this.afterValues)
   }
 
   undo(): void {
+    this.apply(this.beforeValues)
+  }
+
+  private apply(values: Record<string, unknown>): void {
     const canonical = this.deps.canonicalStore.get(this.mirrorGroupId)
     if (!canonical) return
 
-    canonical.set(this.beforeValues)
+    canonical.set(Object.fromEntries(Object.entries(values).map(([key, value]) => [key, copyPaint(value)])))
+    // Sizes and stroke widths change the bounds the selection is shown with
+    canonical.setCoords()
+    this.deps.selectionProxyManager?.syncCanonicalToProxy(this.mirrorGroupId)
     this.deps.canvas.requestRenderAll()
   }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      mirrorGroupId: this.mirrorGroupId,
+      beforeValues: this.beforeValues,
+      afterValues: this.afterValues,
+    })
+  }
+
+  canMergeWith(other: Command): boolean {
+    if (!(other instanceof MultiPropertyCommand)) return false
+    if (other.mirrorGroupId !== this.mirrorGroupId) return false
+
+    const keys = Object.keys(this.afterValues)
+    const otherKeys = Object.keys(other.afterValues)
+    if (keys.length !== otherKeys.length || !keys.every((key) => key in other.afterValues)) return false
+
+    // Only merge if within time window
+    return this.timestamp - other.timestamp < MultiPropertyCommand.MERGE_WINDOW_MS
+  }
+
+  mergeWith(other: Command): MultiPropertyCommand {
+    if (!(other instanceof MultiPropertyCommand)) {
+      throw new Error('Cannot merge with non-MultiPropertyCommand')
+    }
+
+    // Keep other's beforeValues (older), use this afterValues (newer)
+    return new MultiPropertyCommand(this.mirrorGroupId, other.beforeValues, this.afterValues, this.deps)
+  }
 }
@@ -0,0 +1,49 @@
+import type { Command, CommandDependencies, SerializedCommand } from './types'
+import { serializeCommand } from './utils'
+import { applyPaintChanges, type PaintChange } from '../Palette'
+
+/**
+ * Command for replacing a palette colour on every entity using it, including objects
+ * inside imported SVG groups and gradient stops.
+ * Stores each changed fill and stroke, and the saved palette before and after.
+ */
+export class RecolorCommand implements Command {
+  readonly type = 'recolor'
+  readonly description: string
+  readonly timestamp: number
+
+  constructor(
+    private from: string,
+    private to: string,
+    private changes: PaintChange[],
+    private paletteBefore: string[],
+    private paletteAfter: string[],
+    private setPalette: (palette: string[]) => void,
+    private deps: CommandDependencies
+  ) {
+    this.timestamp = Date.now()
+    this.description = `Recolor ${from} to ${to}`
+  }
+
+  execute(): void {
+    applyPaintChanges(this.changes, 'after', (id) => this.deps.canonicalStore.get(id))
+    this.setPalette(this.paletteAfter)
+    this.deps.canvas.requestRenderAll()
+  }
+
+  undo(): void {
+    applyPaintChanges(this.changes, 'before', (id) => this.deps.canonicalStore.get(id))
+    this.setPalette(this.paletteBefore)
+    this.deps.canvas.requestRenderAll()
+  }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      from: this.from,
+      to: this.to,
+      changes: this.changes,
+      paletteBefore: this.paletteBefore,
+      paletteAfter: this.paletteAfter,
+    })
+  }
+}
@@ -1,4 +1,5 @@
-import type { Command, CommandDependencies, ObjectSnapshot } from './types'
+import type { Command, CommandDependencies, ObjectSnapshot, SerializedCommand } from './types'
+import { serializeCommand } from './utils'
 
 /**
  * Command for transform operations: move, scale, rotate, flip.
@@ -60,6 +61,14 @@ export class TransformCommand implements Command {
     this.deps.canvas.requestRenderAll()
   }
 
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      mirrorGroupId: this.mirrorGroupId,
+      beforeState: this.beforeState,
+      afterState: this.afterState,
+    })
+  }
+
   canMergeWith(other: Command): boolean {
     if (!(other instanceof TransformCommand)) return false
     if (other.mirrorGroupId !== this.mirrorGroupId) return false
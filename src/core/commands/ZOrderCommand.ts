@@ -1,4 +1,5 @@
-import type { Command, CommandDependencies } from './types'
+import type { Command, CommandDependencies, SerializedCommand } from './types'
+import { serializeCommand } from './utils'
 
 export type ZOrderOperation = 'front' | 'back' | 'forward' | 'backward'
 
@@ -42,4 +43,47 @@ export class ZOrderCommand implements Command {
     this.deps.canonicalStore.setZOrderIndex(this.mirrorGroupId, this.beforeIndex)
     this.deps.canvas.requestRenderAll()
   }
+
+  serialize(): SerializedCommand {
+    return serializeCommand(this, {
+      mirrorGroupId: this.mirrorGroupId,
+      beforeIndex: this.beforeIndex,
+      afterIndex: this.afterIndex,
+      operation: this.operation,
+    })
+  }
+}
+
+/**
+ * Move entities in z-order together, keeping their order among themselves: the topmost
+ * goes first when moving up and the bottommost when moving down, and none passes another.
+ * Each move is a ZOrderCommand given to `execute`, e.g. UndoRedoManager.execute.
+ */
+export function reorderEntities(
+  mirrorGroupIds: string[],
+  operation: ZOrderOperation,
+  deps: CommandDependencies,
+  execute: (command: ZOrderCommand) => void
+): void {
+  const store = deps.canonicalStore
+  const isUp = operation === 'front' || operation === 'forward'
+  const targetIds = mirrorGroupIds
+    .filter((id) => store.getZOrderIndex(id) !== -1)
+    .sort((a, b) => (store.getZOrderIndex(b) - store.getZOrderIndex(a)) * (isUp ? 1 : -1))
+
+  // How far the next entity may go
+  let limit = isUp ? store.getAll().length - 1 : 0
+  for (const id of targetIds) {
+    const beforeIndex = store.getZOrderIndex(id)
+    const afterIndex =
+      operation === 'front' || operation === 'back'
+        ? limit
+        : isUp
+          ? Math.min(beforeIndex + 1, limit)
+          : Math.max(beforeIndex - 1, limit)
+    if (afterIndex !== beforeIndex) {
+      execute(new ZOrderCommand(id, beforeIndex, afterIndex, operation, deps))
+    }
+    limit = isUp ? afterIndex - 1 : afterIndex + 1
+  }
 }
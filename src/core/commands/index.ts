@@ -5,8 +5,36 @@ export * from './types'
 export { TransformCommand } from './TransformCommand'
 export { PropertyCommand, MultiPropertyCommand } from './PropertyCommand'
 export { CreateCommand } from './CreateCommand'
+export type { DuplicateSource } from './CreateCommand'
 export { DeleteCommand } from './DeleteCommand'
-export { ZOrderCommand } from './ZOrderCommand'
+export { ZOrderCommand, reorderEntities } from './ZOrderCommand'
 export type { ZOrderOperation } from './ZOrderCommand'
-export { LayerMoveCommand, LayerReorderCommand } from './LayerCommand'
+export {
+  LayerMoveCommand,
+  LayerReorderCommand,
+  LayerCreateCommand,
+  LayerDeleteCommand,
+  LayerUpdateCommand,
+  LayerDuplicateCommand,
+  LayerMergeDownCommand,
+  getLayerChange,
+} from './LayerCommand'
+export type { LayerChange } from './LayerCommand'
 export { MergeCommand } from './MergeCommand'
+export { EraseCommand } from './EraseCommand'
+export { PathEditCommand } from './PathEditCommand'
+export { BooleanCommand } from './BooleanCommand'
+export { RecolorCommand } from './RecolorCommand'
+export { ClipMaskCommand } from './ClipMaskCommand'
+export { EntityGroupCommand, EntityGroupDeleteCommand, captureEntityGroupState } from './EntityGroupCommand'
+export type { EntityGroupState } from './EntityGroupCommand'
+export { BatchCommand } from './BatchCommand'
+export type { ClipMaskChange } from './ClipMaskCommand'
+export {
+  serializeHistory,
+  deserializeHistory,
+  deserializeCommand,
+  isSerializedCommand,
+  MAX_HISTORY_SIZE,
+} from './serialization'
+export type { CommandContext } from './serialization'
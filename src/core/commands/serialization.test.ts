@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Rect } from 'fabric'
+import { createDefaultGradient, isGradient, specToGradient } from '../Gradients'
+import type { Command, CommandDependencies, SerializedCommand } from './types'
+import { PropertyCommand } from './PropertyCommand'
+import { ZOrderCommand } from './ZOrderCommand'
+import { BatchCommand } from './BatchCommand'
+import { deserializeCommand, deserializeHistory, serializeHistory, type CommandContext } from './serialization'
+
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+const rect = new Rect({ width: 10, height: 10, fill: '#ff0000' })
+const deps = {
+  canvas: { requestRenderAll: () => {} },
+  canonicalStore: { get: () => rect, setZOrderIndex: vi.fn() },
+} as unknown as CommandDependencies
+const context: CommandContext = { deps, entityGroupManager: null, clipMaskManager: null, setPalette: () => {} }
+
+// Saved and read back as an autosave would be
+const roundTrip = (command: Command) =>
+  deserializeCommand(JSON.parse(JSON.stringify(command.serialize!())), context)
+
+const zOrder = (afterIndex: number) => new ZOrderCommand('a', 0, afterIndex, 'forward', deps)
+
+describe('deserializeCommand', () => {
+  it('should recreate a command that executes and undoes like the original', () => {
+    const original = zOrder(2)
+    const restored = roundTrip(original)!
+
+    expect(restored).toBeInstanceOf(ZOrderCommand)
+    expect(restored.description).toBe('Bring forward')
+    expect(restored.timestamp).toBe(original.timestamp)
+
+    restored.execute()
+    expect(deps.canonicalStore.setZOrderIndex).toHaveBeenLastCalledWith('a', 2)
+    restored.undo()
+    expect(deps.canonicalStore.setZOrderIndex).toHaveBeenLastCalledWith('a', 0)
+  })
+
+  it('should recreate gradients', () => {
+    const gradient = specToGradient(createDefaultGradient('linear', { width: 10, height: 10 }, '#00ff00'))
+    roundTrip(new PropertyCommand('a', 'fill', '#ff0000', gradient, deps))!.execute()
+
+    expect(isGradient(rect.fill)).toBe(true)
+    expect(rect.fill).not.toBe(gradient)
+  })
+
+  it('should recreate batches only with all of their commands', async () => {
+    const restored = roundTrip(new BatchCommand('Reorder 2 entities', [zOrder(1), zOrder(2)]))!
+
+    expect(restored).toBeInstanceOf(BatchCommand)
+    await restored.undo()
+    expect(deps.canonicalStore.setZOrderIndex).toHaveBeenLastCalledWith('a', 0)
+
+    const unknown = { type: 'unknown', description: '', timestamp: 0, data: {} }
+    const broken = { type: 'batch', description: '', timestamp: 0, data: { commands: [zOrder(1).serialize(), unknown] } }
+    expect(deserializeCommand(broken, context)).toBeNull()
+  })
+
+  it('should skip commands it cannot recreate', () => {
+    expect(deserializeCommand({ type: 'unknown', description: '', timestamp: 0, data: {} }, context)).toBeNull()
+    // Clipping needs the clip mask manager
+    expect(deserializeCommand({ type: 'clip-mask', description: '', timestamp: 0, data: { changes: [] } }, context)).toBeNull()
+    expect(deserializeCommand({ type: 'zorder' }, context)).toBeNull()
+  })
+})
+
+describe('serializeHistory', () => {
+  const unsaved: Command = { type: 'custom', description: 'Custom', timestamp: 0, execute: () => {}, undo: () => {} }
+
+  it('should keep the commands closest to the current state', () => {
+    const done = [zOrder(1), unsaved, zOrder(2), zOrder(3)]
+    const undone = [zOrder(4), unsaved, zOrder(5)]
+    const history = serializeHistory({ done, undone })
+
+    expect(history.done.map(({ data }) => data.afterIndex)).toEqual([2, 3])
+    expect(history.undone.map(({ data }) => data.afterIndex)).toEqual([4])
+  })
+
+  it('should stop when the history takes more space than allowed', () => {
+    const size = JSON.stringify(zOrder(1).serialize()).length
+    const history = serializeHistory({ done: [zOrder(1), zOrder(2)], undone: [zOrder(3)] }, size * 1.5)
+
+    expect(history.done.map(({ data }) => data.afterIndex)).toEqual([2])
+    expect(history.undone).toEqual([])
+  })
+})
+
+describe('deserializeHistory', () => {
+  it('should stop at the first command it cannot recreate', () => {
+    const broken: SerializedCommand = { type: 'unknown', description: '', timestamp: 0, data: {} }
+    const { done: [first, second, third] } = serializeHistory({ done: [zOrder(1), zOrder(2), zOrder(3)], undone: [] })
+    const { done, undone } = deserializeHistory({ done: [first, broken, second, third], undone: [third, broken, first] }, context)
+
+    expect(done).toHaveLength(2)
+    expect(undone).toHaveLength(1)
+    expect(deserializeHistory(undefined, context)).toEqual({ done: [], undone: [] })
+  })
+})
@@ -0,0 +1,193 @@
+import type { Command, CommandDependencies, SerializedCommand, SerializedHistory } from './types'
+import type { EntityGroupManager } from '../EntityGroupManager'
+import type { ClipMaskManager } from '../ClipMaskManager'
+import { fromJSONValue } from './utils'
+import { TransformCommand } from './TransformCommand'
+import { PropertyCommand, MultiPropertyCommand } from './PropertyCommand'
+import { CreateCommand } from './CreateCommand'
+import { DeleteCommand } from './DeleteCommand'
+import { ZOrderCommand } from './ZOrderCommand'
+import {
+  LayerMoveCommand,
+  LayerReorderCommand,
+  LayerCreateCommand,
+  LayerDeleteCommand,
+  LayerUpdateCommand,
+  LayerDuplicateCommand,
+  LayerMergeDownCommand,
+} from './LayerCommand'
+import { MergeCommand } from './MergeCommand'
+import { EraseCommand } from './EraseCommand'
+import { PathEditCommand } from './PathEditCommand'
+import { BooleanCommand } from './BooleanCommand'
+import { RecolorCommand } from './RecolorCommand'
+import { ClipMaskCommand } from './ClipMaskCommand'
+import { EntityGroupCommand, EntityGroupDeleteCommand } from './EntityGroupCommand'
+import { BatchCommand } from './BatchCommand'
+
+/**
+ * Saving and restoring the undo history, so undo still works after a reload.
+ *
+ * Each command saves the state it captured when it was created (see Command.serialize),
+ * and is recreated here around that state without running its constructor, which
+ * would capture it again from the objects. The history is a chain - a command can only
+ * be undone after the ones done after it - so saving stops at the first command that
+ * can't be saved or doesn't fit, and only the commands closest to the current state
+ * are kept.
+ */
+
+/**
+ * What recreated commands work on, besides the canvas
+ */
+export interface CommandContext {
+  deps: CommandDependencies
+  entityGroupManager: EntityGroupManager | null
+  clipMaskManager: ClipMaskManager | null
+  setPalette: (palette: string[]) => void
+}
+
+// Default space for the saved history, in characters of JSON
+export const MAX_HISTORY_SIZE = 1024 * 1024
+
+/**
+ * Recreate a command of a class from its saved state
+ */
+function restore<T extends Command>(
+  commandClass: { prototype: T },
+  { type, description, timestamp, data }: SerializedCommand,
+  dependencies: Record<string, unknown>
+): T {
+  const command = Object.create(commandClass.prototype) as T
+  return Object.assign(command, fromJSONValue(data), { type, description, timestamp }, dependencies)
+}
+
+type CommandRestorer = (command: SerializedCommand, context: CommandContext) => Command | null
+
+const COMMAND_RESTORERS: Record<string, CommandRestorer> = {
+  transform: (command, { deps }) => restore(TransformCommand, command, { deps }),
+  property: (command, { deps }) =>
+    'propertyName' in command.data
+      ? restore(PropertyCommand, command, { deps })
+      : restore(MultiPropertyCommand, command, { deps }),
+  create: (command, { deps }) => restore(CreateCommand, command, { deps }),
+  delete: (command, { deps }) => restore(DeleteCommand, command, { deps }),
+  zorder: (command, { deps }) => restore(ZOrderCommand, command, { deps }),
+  'layer-move': (command, { deps }) => restore(LayerMoveCommand, command, { deps }),
+  'layer-reorder': (command, { deps }) => restore(LayerReorderCommand, command, { deps }),
+  'layer-create': (command, { deps }) => restore(LayerCreateCommand, command, { deps }),
+  'layer-delete': (command, { deps, entityGroupManager, clipMaskManager }) =>
+    entityGroupManager && clipMaskManager && restore(LayerDeleteCommand, command, { deps, entityGroupManager, clipMaskManager }),
+  'layer-update': (command, { deps }) => restore(LayerUpdateCommand, command, { deps }),
+  'layer-duplicate': (command, { deps, entityGroupManager, clipMaskManager }) =>
+    entityGroupManager && clipMaskManager && restore(LayerDuplicateCommand, command, { deps, entityGroupManager, clipMaskManager }),
+  'layer-merge-down': (command, { deps, entityGroupManager, clipMaskManager }) =>
+    entityGroupManager && clipMaskManager && restore(LayerMergeDownCommand, command, { deps, entityGroupManager, clipMaskManager }),
+  merge: (command, { deps }) => restore(MergeCommand, command, { deps }),
+  erase: (command, { deps }) => restore(EraseCommand, command, { deps }),
+  'path-edit': (command, { deps }) => restore(PathEditCommand, command, { deps }),
+  boolean: (command, { deps }) => restore(BooleanCommand, command, { deps }),
+  recolor: (command, { deps, setPalette }) => restore(RecolorCommand, command, { deps, setPalette }),
+  'clip-mask': (command, { deps, clipMaskManager }) =>
+    clipMaskManager && restore(ClipMaskCommand, command, { deps, clipMaskManager }),
+  'entity-group': (command, { deps, entityGroupManager }) =>
+    entityGroupManager && restore(EntityGroupCommand, command, { deps, entityGroupManager }),
+  'entity-group-delete': (command, { deps, entityGroupManager }) =>
+    entityGroupManager && restore(EntityGroupDeleteCommand, command, { deps, entityGroupManager }),
+  // A batch is only undoable as a whole, so all of its commands must come back
+  batch: (command, context) => {
+    const saved = Array.isArray(command.data.commands) ? command.data.commands : []
+    const commands = saved.map((child) => deserializeCommand(child, context))
+    if (commands.length === 0 || !commands.every((child): child is Command => child !== null)) return null
+    return restore(BatchCommand, command, { commands })
+  },
+}
+
+/**
+ * Whether a value read from an autosave or project file is a saved command
+ */
+export function isSerializedCommand(value: unknown): value is SerializedCommand {
+  if (!value || typeof value !== 'object') return false
+  const { type, description, timestamp, data } = value as Record<string, unknown>
+  return (
+    typeof type === 'string' &&
+    typeof description === 'string' &&
+    typeof timestamp === 'number' &&
+    !!data &&
+    typeof data === 'object'
+  )
+}
+
+/**
+ * Recreate a saved command, or null when it can't be (unknown type, missing manager)
+ */
+export function deserializeCommand(command: unknown, context: CommandContext): Command | null {
+  if (!isSerializedCommand(command)) return null
+  try {
+    return COMMAND_RESTORERS[command.type]?.(command, context) ?? null
+  } catch (error) {
+    console.warn(`Failed to restore "${command.description}" from the history:`, error)
+    return null
+  }
+}
+
+/**
+ * Save the commands for as long as each one can be saved and fits, starting from
+ * the current state
+ */
+function serializeChain(commands: readonly Command[], budget: { size: number }): SerializedCommand[] {
+  const serialized: SerializedCommand[] = []
+  for (const command of commands) {
+    let data: SerializedCommand | undefined
+    try {
+      data = command.serialize?.()
+    } catch (error) {
+      console.warn(`"${command.description}" can't be saved with the history:`, error)
+    }
+    if (!data) break
+
+    const size = JSON.stringify(data).length
+    if (size > budget.size) break
+    budget.size -= size
+    serialized.push(data)
+  }
+  return serialized
+}
+
+/**
+ * Save the undo and redo stacks (see UndoRedoManager.getHistory), closest to the
+ * current state first, within maxSize characters of JSON. Undo gets the space first.
+ */
+export function serializeHistory(
+  history: { done: readonly Command[]; undone: readonly Command[] },
+  maxSize: number = MAX_HISTORY_SIZE
+): SerializedHistory {
+  const budget = { size: maxSize }
+  const done = serializeChain([...history.done].reverse(), budget).reverse()
+  const undone = serializeChain(history.undone, budget)
+  return { done, undone }
+}
+
+/**
+ * Recreate saved undo and redo stacks, as far as the commands can be recreated
+ * from the current state
+ */
+export function deserializeHistory(
+  history: SerializedHistory | undefined,
+  context: CommandContext
+): { done: Command[]; undone: Command[] } {
+  const restoreChain = (commands: unknown[]) => {
+    const restored: Command[] = []
+    for (const command of commands) {
+      const recreated = deserializeCommand(command, context)
+      if (!recreated) break
+      restored.push(recreated)
+    }
+    return restored
+  }
+
+  const asArray = (commands: unknown): unknown[] => (Array.isArray(commands) ? [...commands] : [])
+  return {
+    done: restoreChain(asArray(history?.done).reverse()).reverse(),
+    undone: restoreChain(asArray(history?.undone)),
+  }
+}
@@ -3,6 +3,7 @@ import type { CanonicalObjectStore } from '../CanonicalObjectStore'
 import type { LayerManager } from '../LayerManager'
 import type { SelectionProxyManager } from '../SelectionProxyManager'
 import type { TilingEngine } from '../TilingEngine'
+import type { RadialSymmetry } from '../RadialSymmetry'
 
 /**
  * Snapshot of an object's state for undo/redo
@@ -39,6 +40,7 @@ export interface SerializedObjectData {
   zOrderIndex: number
   fabricObjectJSON: string
   entityGroupId?: string
+  radialSymmetry?: RadialSymmetry
 }
 
 /**
@@ -89,6 +91,30 @@ export interface Command {
    * and the other command's after state
    */
   mergeWith?(other: Command): Command
+
+  /**
+   * Save the command so it can be recreated after a reload (see deserializeCommand)
+   */
+  serialize?(): SerializedCommand
+}
+
+/**
+ * A command saved as JSON: its type, and the state it needs to execute and undo
+ * without the objects it was created from
+ */
+export interface SerializedCommand {
+  type: string
+  description: string
+  timestamp: number
+  data: Record<string, unknown>
+}
+
+/**
+ * Saved undo and redo stacks, oldest first (see getHistory)
+ */
+export interface SerializedHistory {
+  done: SerializedCommand[]
+  undone: SerializedCommand[]
 }
 
 /**
@@ -102,5 +128,17 @@ export type CommandType =
   | 'zorder'
   | 'layer-move'
   | 'layer-reorder'
+  | 'layer-create'
+  | 'layer-delete'
+  | 'layer-update'
+  | 'layer-duplicate'
+  | 'layer-merge-down'
   | 'batch'
   | 'merge'
+  | 'erase'
+  | 'path-edit'
+  | 'boolean'
+  | 'recolor'
+  | 'clip-mask'
+  | 'entity-group'
+  | 'entity-group-delete'
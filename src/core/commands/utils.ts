@@ -1,6 +1,7 @@
+import * as fabric from 'fabric'
 import type { CanonicalObjectStore } from '../CanonicalObjectStore'
 import type { ExtendedFabricObject } from '../../types/FabricExtensions'
-import type { ObjectSnapshot } from './types'
+import type { Command, CommandDependencies, ObjectSnapshot, SerializedCommand, SerializedObjectData } from './types'
 
 /**
  * Capture a snapshot of an object's current state for undo/redo
@@ -67,3 +68,119 @@ export function hasPropertiesChanged(before: ObjectSnapshot, after: ObjectSnapsh
     b.opacity !== a.opacity
   )
 }
+
+/**
+ * Serialize a canonical object so a command can recreate it
+ */
+export function serializeObject(obj: ExtendedFabricObject, zOrderIndex: number): SerializedObjectData {
+  return {
+    mirrorGroupId: obj.tiledMetadata?.mirrorGroupId || '',
+    layerId: obj.layerId || '',
+    zOrderIndex,
+    fabricObjectJSON: JSON.stringify(obj.toObject([
+      'tiledMetadata',
+      'layerId',
+      'id',
+    ])),
+    entityGroupId: obj.tiledMetadata?.entityGroupId,
+    radialSymmetry: obj.tiledMetadata?.radialSymmetry,
+  }
+}
+
+/**
+ * Remove a canonical object from the canvas, the store and the selection
+ */
+export function removeCanonicalObject(mirrorGroupId: string, deps: CommandDependencies): void {
+  const obj = deps.canonicalStore.get(mirrorGroupId)
+  if (!obj) return
+
+  deps.canvas.remove(obj)
+  deps.canonicalStore.remove(mirrorGroupId)
+  deps.selectionProxyManager?.removeProxy(mirrorGroupId)
+}
+
+/**
+ * Recreate a serialized canonical object at its z-order position
+ */
+export async function restoreCanonicalObject(data: SerializedObjectData, deps: CommandDependencies): Promise<void> {
+  const objectData = JSON.parse(data.fabricObjectJSON)
+  const objects = await fabric.util.enlivenObjects([objectData])
+  if (objects.length === 0) return
+
+  const recreatedObj = objects[0] as ExtendedFabricObject
+
+  // Restore metadata
+  recreatedObj.tiledMetadata = {
+    isMirror: false,
+    mirrorGroupId: data.mirrorGroupId,
+    tilePosition: [0, 0],
+    entityGroupId: data.entityGroupId,
+    radialSymmetry: data.radialSymmetry,
+  }
+  recreatedObj.layerId = data.layerId
+
+  // Make it non-selectable (canonical objects are selected via proxies)
+  recreatedObj.set({
+    selectable: false,
+    evented: false,
+    hasControls: false,
+    hasBorders: false,
+  })
+
+  // Back at the original z-order position - the store decides the drawing order
+  deps.canonicalStore.addAtIndex(recreatedObj, data.mirrorGroupId, data.zOrderIndex)
+  deps.canvas.add(recreatedObj)
+}
+
+/**
+ * A fill or stroke to set on an object, with gradients copied: Fabric only redraws cached
+ * objects, and the gradient editor only updates its handles, for a new gradient instance
+ */
+export function copyPaint(value: unknown): unknown {
+  if (!(value instanceof fabric.Gradient)) return value
+  return new fabric.Gradient(value.toObject() as fabric.GradientOptions<'linear' | 'radial'>)
+}
+
+// Saved Fabric gradients are marked by this key
+const GRADIENT_KEY = '$gradient'
+
+/**
+ * A value as plain JSON, with Fabric gradients saved as their options.
+ * Throws on anything else that JSON can't hold, e.g. functions and class instances.
+ */
+export function toJSONValue(value: unknown): unknown {
+  if (typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') {
+    throw new Error(`Cannot save a ${typeof value} as JSON`)
+  }
+  if (value === null || typeof value !== 'object') return value
+  if (value instanceof fabric.Gradient) return { [GRADIENT_KEY]: value.toObject() }
+  if (Array.isArray(value)) return value.map(toJSONValue)
+  if (Object.getPrototypeOf(value) !== Object.prototype) {
+    throw new Error(`Cannot save ${value.constructor?.name ?? 'object'} as JSON`)
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toJSONValue(item)]))
+}
+
+/**
+ * A value saved by toJSONValue, with its gradients recreated
+ */
+export function fromJSONValue(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') return value
+  if (Array.isArray(value)) return value.map(fromJSONValue)
+  if (GRADIENT_KEY in value) {
+    return new fabric.Gradient((value as Record<string, fabric.GradientOptions<'linear' | 'radial'>>)[GRADIENT_KEY])
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fromJSONValue(item)]))
+}
+
+/**
+ * Save a command with the state it needs to execute and undo
+ */
+export function serializeCommand(command: Command, data: Record<string, unknown>): SerializedCommand {
+  return {
+    type: command.type,
+    description: command.description,
+    timestamp: command.timestamp,
+    data: toJSONValue(data) as Record<string, unknown>,
+  }
+}
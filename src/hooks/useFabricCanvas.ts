@@ -4,11 +4,16 @@ import { CanonicalObjectStore } from "../core/CanonicalObjectStore";
 import { VirtualRenderingEngine } from "../core/VirtualRenderingEngine";
 import { HitTestInterceptor } from "../core/HitTestInterceptor";
 import { SelectionProxyManager } from "../core/SelectionProxyManager";
+import {
+  STRAIGHT_REPEAT,
+  type RepeatLayout,
+  type WallpaperGroup,
+} from "../core/WallpaperSymmetry";
+import type { TileSize } from "../types/TileSize";
 
 // Canvas is 3x3 grid of tiles
 const GRID_SIZE = 3;
-const DEFAULT_TILE_SIZE = 256;
-const CANVAS_SIZE = GRID_SIZE * DEFAULT_TILE_SIZE; // 768px
+const DEFAULT_TILE_SIZE: TileSize = { width: 256, height: 256 }; // 768px canvas
 
 export interface VirtualTilingContext {
   canonicalStore: CanonicalObjectStore;
@@ -24,7 +29,9 @@ export interface LayerBackground {
 }
 
 export interface UseFabricCanvasOptions {
-  tileSize?: number;
+  tileSize?: TileSize;
+  symmetryGroup?: WallpaperGroup;
+  repeatLayout?: RepeatLayout;
   onAfterRender?: () => void;
   layerBackgrounds?: LayerBackground[];
 }
@@ -35,6 +42,8 @@ export function useFabricCanvas(
 ) {
   const {
     tileSize = DEFAULT_TILE_SIZE,
+    symmetryGroup = "p1",
+    repeatLayout = STRAIGHT_REPEAT,
     onAfterRender,
     layerBackgrounds,
   } = options;
@@ -78,12 +87,46 @@ export function useFabricCanvas(
     selectionProxyManager?.setTileSize(tileSize);
   }, [tileSize, virtualRenderer, hitTestInterceptor, selectionProxyManager]);
 
+  // Keep the latest tile size for canvas creation without recreating the canvas on resize
+  const tileSizeRef = useRef(tileSize);
+  useEffect(() => {
+    tileSizeRef.current = tileSize;
+  }, [tileSize]);
+
+  // Update wallpaper group when it changes
+  useEffect(() => {
+    virtualRenderer.setSymmetryGroup(symmetryGroup);
+    hitTestInterceptor.setSymmetryGroup(symmetryGroup);
+    selectionProxyManager?.setSymmetryGroup(symmetryGroup);
+    fabricCanvas?.requestRenderAll();
+  }, [
+    symmetryGroup,
+    virtualRenderer,
+    hitTestInterceptor,
+    selectionProxyManager,
+    fabricCanvas,
+  ]);
+
+  // Update repeat layout (straight, half-drop, brick, custom) when it changes
+  useEffect(() => {
+    virtualRenderer.setRepeatLayout(repeatLayout);
+    hitTestInterceptor.setRepeatLayout(repeatLayout);
+    selectionProxyManager?.setRepeatLayout(repeatLayout);
+    fabricCanvas?.requestRenderAll();
+  }, [
+    repeatLayout,
+    virtualRenderer,
+    hitTestInterceptor,
+    selectionProxyManager,
+    fabricCanvas,
+  ]);
+
   useEffect(() => {
     if (!canvasRef.current) return;
 
     const canvas = new Canvas(canvasRef.current, {
-      width: CANVAS_SIZE,
-      height: CANVAS_SIZE,
+      width: GRID_SIZE * tileSizeRef.current.width,
+      height: GRID_SIZE * tileSizeRef.current.height,
       backgroundColor: "#1a1a25",
       selection: false, // Disable group selection initially
       preserveObjectStacking: true,
@@ -99,10 +142,13 @@ export function useFabricCanvas(
     const proxyManager = new SelectionProxyManager(
       canvas,
       canonicalStore,
-      tileSize
+      tileSizeRef.current
     );
     setSelectionProxyManager(proxyManager);
 
+    // Reference layer images load asynchronously
+    virtualRenderer.setOnReferenceImageLoad(() => canvas.requestRenderAll());
+
     // Helper to convert hex color to rgba
     const hexToRgba = (hex: string, alpha: number): string => {
       const r = parseInt(hex.slice(1, 3), 16);
@@ -111,14 +157,25 @@ export function useFabricCanvas(
       return `rgba(${r}, ${g}, ${b}, ${alpha})`;
     };
 
+    // Hide canonical objects from Fabric's render pass - they are drawn layer by layer
+    // with their copies in after:render, so that layers stack and blend correctly
+    let showCanonicalObjects: (() => void) | null = null;
+    const handleBeforeRender = () => {
+      showCanonicalObjects = virtualRenderer.hideCanonicalObjects(
+        canonicalStore.getAll()
+      );
+    };
+
     // Setup after:render handler for virtual tiling
     // This is the ONLY place where virtual copies should be drawn
     const handleAfterRender = () => {
+      showCanonicalObjects?.();
+      showCanonicalObjects = null;
+
       const ctx = canvas.getContext();
       if (ctx) {
         // Get current zoom level from canvas (set by FabricCanvas component)
         const zoom = (canvas as any)._customZoom || 1;
-        const zoomedCanvasSize = CANVAS_SIZE * zoom;
 
         // Render layer backgrounds on top of canvas background but behind objects
         const backgrounds = layerBackgroundsRef.current;
@@ -133,16 +190,15 @@ export function useFabricCanvas(
           );
           for (const bg of sortedBackgrounds) {
             ctx.fillStyle = hexToRgba(bg.backgroundColor, bg.backgroundAlpha);
-            ctx.fillRect(0, 0, zoomedCanvasSize, zoomedCanvasSize);
+            ctx.fillRect(0, 0, canvas.getWidth(), canvas.getHeight());
           }
 
           ctx.restore();
         }
 
-        // Fabric has already rendered canonical objects with zoom applied via viewport transform.
-        // We only need to render the 24 virtual copies around each canonical object.
+        // Render every layer with the canonical objects and their virtual copies.
         // Pass zoom so virtual renderer can apply correct offsets
-        virtualRenderer.renderVirtualCopies(ctx, canonicalStore.getAll(), zoom);
+        virtualRenderer.renderLayers(ctx, canonicalStore.getAll(), zoom);
 
         // Re-render active selection controls on top of virtual copies
         // This ensures selection bounding box is always visible above neighboring objects
@@ -156,16 +212,18 @@ export function useFabricCanvas(
       onAfterRenderRef.current?.();
     };
 
+    canvas.on("before:render", handleBeforeRender);
     canvas.on("after:render", handleAfterRender);
 
     setFabricCanvas(canvas);
 
     return () => {
+      canvas.off("before:render", handleBeforeRender);
       canvas.off("after:render", handleAfterRender);
       proxyManager.clearAll();
       canvas.dispose();
     };
-  }, [canvasRef, canonicalStore, virtualRenderer, tileSize]);
+  }, [canvasRef, canonicalStore, virtualRenderer]);
 
   // Create context object for virtual tiling
   const virtualTilingContext: VirtualTilingContext = useMemo(
@@ -51,7 +51,7 @@ export function usePlacementControls({
    */
   const createUndoCommand = useCallback(() => {
     if (!selectedObject || !undoRedoManager || !beforeSnapshotRef.current) return
-    if (undoRedoManager.isInTransaction()) return
+    if (undoRedoManager.isApplyingHistory()) return
 
     const mirrorGroupId = selectedObject.tiledMetadata?.mirrorGroupId
     if (!mirrorGroupId) return
@@ -73,7 +73,7 @@ export function usePlacementControls({
         afterSnapshot,
         undoRedoManager.getDependencies()
       )
-      undoRedoManager.execute(command)
+      undoRedoManager.execute(command).catch((error) => console.error('Failed to transform object:', error))
     }
 
     beforeSnapshotRef.current = null
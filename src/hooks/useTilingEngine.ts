@@ -1,23 +1,30 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import type { Canvas } from 'fabric'
 import { TilingEngine } from '../core/TilingEngine'
+import type { TileSize } from '../types/TileSize'
 
 export function useTilingEngine(
   fabricCanvas: Canvas | null,
-  tileSize: number
+  tileSize: TileSize
 ) {
   const [tilingEngine, setTilingEngine] = useState<TilingEngine | null>(null)
 
+  // The engine is created once per canvas; later size changes go through updateTileSize
+  const tileSizeRef = useRef(tileSize)
+  useEffect(() => {
+    tileSizeRef.current = tileSize
+  }, [tileSize])
+
   useEffect(() => {
     if (!fabricCanvas) return
 
-    const engine = new TilingEngine(fabricCanvas, tileSize)
+    const engine = new TilingEngine(fabricCanvas, tileSizeRef.current)
     setTilingEngine(engine)
 
     return () => {
       // Cleanup if needed
     }
-  }, [fabricCanvas, tileSize])
+  }, [fabricCanvas])
 
   // Update tile size when it changes
   useEffect(() => {
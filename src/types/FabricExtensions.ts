@@ -1,4 +1,5 @@
 import type { FabricObject } from 'fabric'
+import type { RadialSymmetry } from '../core/RadialSymmetry'
 
 export interface TiledObjectMetadata {
   isMirror: boolean // Deprecated - all objects are equal now
@@ -6,6 +7,7 @@ export interface TiledObjectMetadata {
   mirrorGroupId: string // Shared ID for all 25 tiled copies (or canonical object ID in virtual tiling)
   tilePosition: [number, number] // Which tile (-2 to 2, -2 to 2) - always [0,0] for canonical objects
   entityGroupId?: string // Reference to parent entity group (if grouped)
+  radialSymmetry?: RadialSymmetry // Radial copies around a centre (objects drawn in radial mode)
 }
 
 // Metadata for selection proxy objects
@@ -14,6 +16,8 @@ export interface ProxyMetadata {
   canonicalObjectId: string // ID of the canonical object this proxy represents
   mirrorGroupId: string // mirrorGroupId of the canonical object
   tileOffset: [number, number] // Which tile offset this proxy is positioned at
+  operationIndex: number // Which symmetry operation of that tile (0 = identity / plain offset)
+  radialIndex: number // Which radial copy of the object (0 = the object itself)
   sizeAdjust: [number, number] // [leftAdjust, topAdjust] for min-size centering
   baseSize: [number, number] // [width, height] of canonical at creation time (before scale)
   baseScale: [number, number] // [scaleX, scaleY] of canonical at creation time
@@ -1,10 +1,18 @@
+import type { ClipMask } from '../core/ClipMaskManager'
+import type { Colorway } from '../core/Colorways'
+import type { SerializedHistory } from '../core/commands/types'
 import type { Layer } from '../core/LayerManager'
+import type { Snapshot } from '../core/Snapshots'
+import type { RepeatLayout, WallpaperGroup } from '../core/WallpaperSymmetry'
+import type { TileSize } from './TileSize'
 
 /**
  * Metadata for the project file
  */
 export interface ProjectMetadata {
-  tileSize: number
+  tileSize: TileSize // Stored as a single number before version 1.1.0 (square tiles)
+  symmetryGroup?: WallpaperGroup // Missing in older projects - treated as 'p1'
+  repeatLayout?: RepeatLayout // Missing in older projects - treated as a straight repeat
   createdAt: string
   modifiedAt: string
 }
@@ -44,4 +52,9 @@ export interface ProjectData {
   metadata: ProjectMetadata
   layers: SerializedLayer[]
   entityGroups?: SerializedEntityGroup[]
+  palette?: string[] // Saved swatches and the colours in use, as #rrggbb(aa) - missing in older projects
+  colorways?: Colorway[] // Missing in older projects
+  clipMasks?: ClipMask[] // Missing in older projects
+  history?: SerializedHistory // Undo and redo stacks - only when saved with the project
+  snapshots?: Snapshot[] // Named versions, oldest first - missing in older projects
 }
@@ -0,0 +1,7 @@
+/**
+ * Tile dimensions in scene pixels. Width and height differ for border and stripe designs.
+ */
+export interface TileSize {
+  width: number
+  height: number
+}
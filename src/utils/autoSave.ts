@@ -4,29 +4,99 @@ const AUTOSAVE_KEY = 'endless-tiles-autosave'
 const MAX_SIZE_MB = 5
 const MAX_SIZE_BYTES = MAX_SIZE_MB * 1024 * 1024
 
+/**
+ * Parts of the project an autosave can leave out to fit in localStorage, least needed last
+ */
+export type AutoSaveOmission = 'referenceImages' | 'history' | 'snapshotThumbnails'
+
+export interface AutoSaveResult {
+  success: boolean
+  leftOut: AutoSaveOmission[] // Empty unless the project had to be made smaller
+}
+
+/**
+ * Project data with the images of reference layers left out, in its snapshots too
+ */
+function withoutReferenceImages(projectData: ProjectData): ProjectData {
+  return {
+    ...projectData,
+    layers: projectData.layers.map((layer) =>
+      layer.reference ? { ...layer, reference: { ...layer.reference, src: '' } } : layer
+    ),
+    snapshots: projectData.snapshots?.map((snapshot) => ({
+      ...snapshot,
+      project: withoutReferenceImages(snapshot.project),
+    })),
+  }
+}
+
+/**
+ * Whether the project, or one of its snapshots, has reference layers with images
+ */
+function hasReferenceImages(projectData: ProjectData): boolean {
+  return (
+    projectData.layers.some((layer) => !!layer.reference?.src) ||
+    !!projectData.snapshots?.some((snapshot) => hasReferenceImages(snapshot.project))
+  )
+}
+
+/**
+ * Project data with the thumbnails of its snapshots left out
+ */
+function withoutSnapshotThumbnails(projectData: ProjectData): ProjectData {
+  return {
+    ...projectData,
+    snapshots: projectData.snapshots?.map((snapshot) => ({ ...snapshot, thumbnail: undefined })),
+  }
+}
+
 /**
  * Save project data to localStorage with size checking
+ * Reference images, the undo history and snapshot thumbnails don't count toward the size
+ * limit. When they don't fit in localStorage, the images are left out first, then the
+ * history, then the thumbnails - the result says what was left out, so the user can be told.
  */
-export function saveToLocalStorage(projectData: ProjectData): boolean {
+export function saveToLocalStorage(projectData: ProjectData): AutoSaveResult {
+  const failed: AutoSaveResult = { success: false, leftOut: [] }
   try {
-    const jsonString = JSON.stringify(projectData)
-    const sizeBytes = new Blob([jsonString]).size
+    const reduced = { ...withoutReferenceImages(projectData), history: undefined }
+    const attempts: [ProjectData, AutoSaveOmission[]][] = [
+      [projectData, []],
+      [withoutReferenceImages(projectData), ['referenceImages']],
+      [reduced, ['referenceImages', 'history']],
+      [withoutSnapshotThumbnails(reduced), ['referenceImages', 'history', 'snapshotThumbnails']],
+    ]
+    const smallest = JSON.stringify(attempts[attempts.length - 1][0])
+    const sizeBytes = new Blob([smallest]).size
 
     // Check size limit
     if (sizeBytes > MAX_SIZE_BYTES) {
       console.warn(`Project size (${(sizeBytes / 1024 / 1024).toFixed(2)}MB) exceeds ${MAX_SIZE_MB}MB limit`)
-      return false
+      return failed
     }
 
-    localStorage.setItem(AUTOSAVE_KEY, jsonString)
-    return true
+    for (const [i, [attempt, omissions]] of attempts.entries()) {
+      try {
+        localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(attempt))
+        const leftOut = omissions.filter(
+          (omission) => omission !== 'referenceImages' || hasReferenceImages(projectData)
+        )
+        if (leftOut.length > 0) {
+          console.warn(`Left out of the autosave - localStorage quota exceeded: ${leftOut.join(', ')}`)
+        }
+        return { success: true, leftOut }
+      } catch (error) {
+        if (!(error instanceof Error && error.name === 'QuotaExceededError') || i === attempts.length - 1) throw error
+      }
+    }
+    return failed
   } catch (error) {
     if (error instanceof Error && error.name === 'QuotaExceededError') {
       console.error('localStorage quota exceeded')
-      return false
+      return failed
     }
     console.error('Failed to save to localStorage:', error)
-    return false
+    return failed
   }
 }
 
@@ -0,0 +1,33 @@
+import { isMacro, type Macro } from '../core/Macros'
+
+// Macros are kept across projects, unlike the autosave
+const MACROS_KEY = 'endless-tiles-macros'
+
+/**
+ * Load the saved macros, leaving out any that can't be read
+ */
+export function loadMacros(): Macro[] {
+  try {
+    const jsonString = localStorage.getItem(MACROS_KEY)
+    if (!jsonString) return []
+
+    const macros: unknown = JSON.parse(jsonString)
+    return Array.isArray(macros) ? macros.filter(isMacro) : []
+  } catch (error) {
+    console.error('Failed to load macros:', error)
+    return []
+  }
+}
+
+/**
+ * Save the macros, returning whether they fit
+ */
+export function saveMacros(macros: Macro[]): boolean {
+  try {
+    localStorage.setItem(MACROS_KEY, JSON.stringify(macros))
+    return true
+  } catch (error) {
+    console.error('Failed to save macros:', error)
+    return false
+  }
+}
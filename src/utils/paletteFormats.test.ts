@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseASE,
+  parseCSSVariables,
+  parseGPL,
+  parsePaletteFile,
+  writeASE,
+  writeCSSVariables,
+  writeGPL,
+  type NamedColor,
+} from './paletteFormats'
+
+const brand: NamedColor[] = [
+  { name: 'Brand Red', color: '#e63946' },
+  { name: 'Ink', color: '#1d3557' },
+]
+
+/**
+ * ASE block with a UTF-16 name, as written by Adobe apps
+ */
+function aseBlock(type: number, name: string, model?: string, values: number[] = []): number[] {
+  const data: number[] = [0, name.length + 1]
+  for (const char of name) data.push(0, char.charCodeAt(0))
+  data.push(0, 0)
+  if (model) {
+    data.push(...[...model].map((char) => char.charCodeAt(0)))
+    for (const value of values) {
+      const bytes = new Uint8Array(4)
+      new DataView(bytes.buffer).setFloat32(0, value)
+      data.push(...bytes)
+    }
+    data.push(0, 0)
+  }
+  return [type >> 8, type & 0xff, 0, 0, 0, data.length, ...data]
+}
+
+describe('GIMP palettes', () => {
+  it('should round-trip colours and names', () => {
+    const text = writeGPL(brand, 'Brand')
+    expect(text).toContain('Name: Brand')
+    expect(text).toContain('230  57  70\tBrand Red')
+    expect(parseGPL(text)).toEqual(brand)
+  })
+
+  it('should skip comments and reject other files', () => {
+    expect(parseGPL('GIMP Palette\r\nName: X\r\n# comment\r\n  0 128 255\r\n')).toEqual([{ name: '', color: '#0080ff' }])
+    expect(() => parseGPL('0 0 0 Black')).toThrow('Not a GIMP palette')
+  })
+})
+
+describe('Adobe Swatch Exchange', () => {
+  it('should round-trip colours and names', () => {
+    expect(parseASE(writeASE(brand))).toEqual(brand)
+  })
+
+  it('should flatten groups and convert CMYK, gray and Lab swatches', () => {
+    const blocks = [
+      aseBlock(0xc001, 'Group'),
+      aseBlock(0x0001, 'Cyan', 'CMYK', [1, 0, 0, 0]),
+      aseBlock(0x0001, 'Mid grey', 'Gray', [0.5]),
+      aseBlock(0x0001, 'White', 'LAB ', [1, 0, 0]),
+      [0xc0, 0x02, 0, 0, 0, 0],
+    ]
+    const bytes = new Uint8Array([...'ASEF'].map((c) => c.charCodeAt(0)).concat([0, 1, 0, 0, 0, 0, 0, blocks.length], ...blocks))
+
+    expect(parseASE(bytes.buffer)).toEqual([
+      { name: 'Cyan', color: '#00ffff' },
+      { name: 'Mid grey', color: '#808080' },
+      { name: 'White', color: '#ffffff' },
+    ])
+  })
+
+  it('should reject other files', () => {
+    expect(() => parseASE(new TextEncoder().encode('GIMP Palette\n').buffer as ArrayBuffer)).toThrow('Not an Adobe Swatch Exchange file')
+  })
+})
+
+describe('CSS custom properties', () => {
+  it('should read colour properties only', () => {
+    const css = ':root { --brand-red: #E63946; --ink: rgb(29, 53, 87); --veil: rgba(0, 0, 0, 0.5); --gap: 4px; --alias: var(--ink) }'
+    expect(parseCSSVariables(css)).toEqual([
+      { name: 'brand-red', color: '#e63946' },
+      { name: 'ink', color: '#1d3557' },
+      { name: 'veil', color: '#00000080' },
+    ])
+  })
+
+  it('should write unique property names', () => {
+    const css = writeCSSVariables([...brand, { name: '', color: '#ffffff' }, { name: 'Ink', color: '#000000' }])
+    expect(css).toBe(':root {\n  --brand-red: #e63946;\n  --ink: #1d3557;\n  --color-3: #ffffff;\n  --color-4: #000000;\n}\n')
+    expect(parseCSSVariables(css).map(({ color }) => color)).toEqual(['#e63946', '#1d3557', '#ffffff', '#000000'])
+  })
+})
+
+describe('parsePaletteFile', () => {
+  it('should pick the format from the extension and drop duplicates', () => {
+    const data = new TextEncoder().encode(writeGPL([...brand, brand[0]], 'Brand')).buffer as ArrayBuffer
+    expect(parsePaletteFile('brand.GPL', data)).toEqual(brand)
+    expect(() => parsePaletteFile('brand.aco', data)).toThrow('Unsupported palette file')
+  })
+})
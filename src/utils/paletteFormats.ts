@@ -0,0 +1,267 @@
+import { Color } from 'fabric'
+import { normalizePaletteColor } from '../core/Palette'
+
+/**
+ * Palette files: GIMP palettes (.gpl), Adobe Swatch Exchange (.ase) and lists of CSS
+ * custom properties (.css).
+ *
+ * Colours are read as palette colours (#rrggbb, #rrggbbaa when translucent). GIMP and
+ * Adobe palettes have no transparency, so translucent colours are written opaque.
+ */
+
+export type PaletteFileFormat = 'gpl' | 'ase' | 'css'
+
+export interface NamedColor {
+  name: string
+  color: string
+}
+
+export const PALETTE_FILE_FORMATS: Record<PaletteFileFormat, { label: string; mimeType: string }> = {
+  gpl: { label: 'GIMP palette', mimeType: 'text/plain' },
+  ase: { label: 'Adobe Swatch Exchange', mimeType: 'application/octet-stream' },
+  css: { label: 'CSS custom properties', mimeType: 'text/css' },
+}
+
+const toRgb = (color: string): [number, number, number] => {
+  const [r, g, b] = new Color(color).getSource()
+  return [r, g, b]
+}
+
+const toHex = (r: number, g: number, b: number): string =>
+  normalizePaletteColor(`rgb(${[r, g, b].map((c) => Math.round(Math.min(255, Math.max(0, c)))).join(',')})`)!
+
+// --- GIMP palette ---
+
+/**
+ * Read a GIMP palette: a header, then one "R G B name" line per colour
+ */
+export function parseGPL(text: string): NamedColor[] {
+  const lines = text.split(/\r?\n/)
+  if (lines[0]?.trim() !== 'GIMP Palette') {
+    throw new Error('Not a GIMP palette: missing "GIMP Palette" header')
+  }
+
+  const colors: NamedColor[] = []
+  for (const line of lines.slice(1)) {
+    const match = line.match(/^\s*(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/)
+    if (!match) continue // Name, Columns, comments and blank lines
+
+    const [, r, g, b, name] = match
+    colors.push({ name: name.trim(), color: toHex(Number(r), Number(g), Number(b)) })
+  }
+  return colors
+}
+
+export function writeGPL(colors: NamedColor[], paletteName: string): string {
+  const lines = colors.map(({ name, color }) => {
+    const rgb = toRgb(color).map((c) => String(c).padStart(3)).join(' ')
+    return `${rgb}\t${name || color}`
+  })
+  return ['GIMP Palette', `Name: ${paletteName}`, 'Columns: 0', '#', ...lines].join('\n') + '\n'
+}
+
+// --- Adobe Swatch Exchange ---
+
+const ASE_SIGNATURE = 'ASEF'
+const ASE_COLOR_ENTRY = 0x0001
+const ASE_NORMAL_COLOR = 2
+
+/**
+ * CIE Lab (D50, as used by Adobe) to sRGB
+ */
+function labToRgb(l: number, a: number, b: number): [number, number, number] {
+  const fy = (l + 16) / 116
+  const finv = (t: number) => (t > 6 / 29 ? t ** 3 : 3 * (6 / 29) ** 2 * (t - 4 / 29))
+  const x = 0.96422 * finv(fy + a / 500)
+  const y = finv(fy)
+  const z = 0.82521 * finv(fy - b / 200)
+
+  // Bradford-adapted XYZ (D50) to linear sRGB
+  const linear = [
+    3.1338561 * x - 1.6168667 * y - 0.4906146 * z,
+    -0.9787684 * x + 1.9161415 * y + 0.033454 * z,
+    0.0719453 * x - 0.2289914 * y + 1.4052427 * z,
+  ]
+  const [r, g, bl] = linear.map((c) => 255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055))
+  return [r, g, bl]
+}
+
+/**
+ * Read an Adobe Swatch Exchange file. Groups are flattened; CMYK, Lab and gray
+ * swatches are converted to RGB.
+ */
+export function parseASE(buffer: ArrayBuffer): NamedColor[] {
+  const view = new DataView(buffer)
+  const signature = String.fromCharCode(...new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)))
+  if (buffer.byteLength < 12 || signature !== ASE_SIGNATURE) {
+    throw new Error('Not an Adobe Swatch Exchange file: missing "ASEF" signature')
+  }
+
+  const blockCount = view.getUint32(8)
+  const colors: NamedColor[] = []
+  let offset = 12
+
+  for (let block = 0; block < blockCount; block++) {
+    if (offset + 6 > buffer.byteLength) throw new Error('Adobe Swatch Exchange file is truncated')
+    const type = view.getUint16(offset)
+    const length = view.getUint32(offset + 2)
+    const start = offset + 6
+    offset = start + length
+    if (offset > buffer.byteLength) throw new Error('Adobe Swatch Exchange file is truncated')
+    if (type !== ASE_COLOR_ENTRY) continue // Group start and end
+
+    // Name as UTF-16 with a trailing null, then the colour model and its values
+    const nameLength = view.getUint16(start)
+    let name = ''
+    for (let i = 0; i < nameLength - 1; i++) {
+      name += String.fromCharCode(view.getUint16(start + 2 + i * 2))
+    }
+    let position = start + 2 + nameLength * 2
+    const model = String.fromCharCode(...new Uint8Array(buffer, position, 4))
+    position += 4
+    const value = (i: number) => view.getFloat32(position + i * 4)
+
+    let rgb: [number, number, number]
+    switch (model) {
+      case 'RGB ':
+        rgb = [value(0) * 255, value(1) * 255, value(2) * 255]
+        break
+      case 'CMYK': {
+        const k = value(3)
+        rgb = [0, 1, 2].map((i) => 255 * (1 - value(i)) * (1 - k)) as [number, number, number]
+        break
+      }
+      case 'LAB ':
+        rgb = labToRgb(value(0) * 100, value(1), value(2))
+        break
+      case 'Gray':
+        rgb = [value(0) * 255, value(0) * 255, value(0) * 255]
+        break
+      default:
+        throw new Error(`Unsupported Adobe Swatch Exchange colour model "${model.trim()}"`)
+    }
+    colors.push({ name, color: toHex(...rgb) })
+  }
+  return colors
+}
+
+export function writeASE(colors: NamedColor[]): ArrayBuffer {
+  const entries = colors.map(({ name, color }) => ({ name: name || color, rgb: toRgb(color) }))
+  // Type, length, name length, UTF-16 name with null, model, three floats, colour type
+  const entryLength = (name: string) => 2 + (name.length + 1) * 2 + 4 + 12 + 2
+  const size = entries.reduce((sum, { name }) => sum + 6 + entryLength(name), 12)
+
+  const buffer = new ArrayBuffer(size)
+  const view = new DataView(buffer)
+  const writeAscii = (position: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(position + i, text.charCodeAt(i))
+  }
+
+  writeAscii(0, ASE_SIGNATURE)
+  view.setUint16(4, 1) // Version 1.0
+  view.setUint16(6, 0)
+  view.setUint32(8, entries.length)
+
+  let offset = 12
+  for (const { name, rgb } of entries) {
+    view.setUint16(offset, ASE_COLOR_ENTRY)
+    view.setUint32(offset + 2, entryLength(name))
+    offset += 6
+
+    view.setUint16(offset, name.length + 1)
+    offset += 2
+    for (let i = 0; i < name.length; i++) view.setUint16(offset + i * 2, name.charCodeAt(i))
+    offset += (name.length + 1) * 2
+
+    writeAscii(offset, 'RGB ')
+    offset += 4
+    rgb.forEach((c, i) => view.setFloat32(offset + i * 4, c / 255))
+    offset += 12
+
+    view.setUint16(offset, ASE_NORMAL_COLOR)
+    offset += 2
+  }
+  return buffer
+}
+
+// --- CSS custom properties ---
+
+/**
+ * Read the custom properties holding colours, e.g. "--brand-red: #e63946;".
+ * Properties with other values (lengths, var() references) are skipped.
+ */
+export function parseCSSVariables(text: string): NamedColor[] {
+  const colors: NamedColor[] = []
+  for (const [, name, value] of text.matchAll(/--([\w-]+)\s*:\s*([^;}]+)/g)) {
+    const parsed = new Color(value.trim())
+    const color = normalizePaletteColor(value.trim())
+    if (parsed.isUnrecognised || !color) continue
+    colors.push({ name, color })
+  }
+
+  if (colors.length === 0) {
+    throw new Error('No colour custom properties found')
+  }
+  return colors
+}
+
+export function writeCSSVariables(colors: NamedColor[]): string {
+  const used = new Set<string>()
+  const lines = colors.map(({ name, color }, i) => {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '')
+    let property = slug && !used.has(slug) ? slug : `color-${i + 1}`
+    for (let n = 2; used.has(property); n++) property = `color-${i + 1}-${n}`
+    used.add(property)
+    return `  --${property}: ${color};`
+  })
+  return [':root {', ...lines, '}'].join('\n') + '\n'
+}
+
+// --- Files ---
+
+/**
+ * Format of a palette file from its extension
+ */
+export function getPaletteFileFormat(fileName: string): PaletteFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop()
+  return extension === 'gpl' || extension === 'ase' || extension === 'css' ? extension : null
+}
+
+/**
+ * Read the colours of a palette file, without duplicates
+ */
+export function parsePaletteFile(fileName: string, data: ArrayBuffer): NamedColor[] {
+  const format = getPaletteFileFormat(fileName)
+  const text = () => new TextDecoder().decode(data)
+
+  let colors: NamedColor[]
+  switch (format) {
+    case 'gpl':
+      colors = parseGPL(text())
+      break
+    case 'ase':
+      colors = parseASE(data)
+      break
+    case 'css':
+      colors = parseCSSVariables(text())
+      break
+    default:
+      throw new Error('Unsupported palette file - expected .gpl, .ase or .css')
+  }
+
+  return colors.filter(({ color }, i) => colors.findIndex((other) => other.color === color) === i)
+}
+
+/**
+ * Palette file contents in a format, named after the colours where they have no name
+ */
+export function writePaletteFile(format: PaletteFileFormat, colors: NamedColor[], paletteName: string): string | ArrayBuffer {
+  switch (format) {
+    case 'gpl':
+      return writeGPL(colors, paletteName)
+    case 'ase':
+      return writeASE(colors)
+    case 'css':
+      return writeCSSVariables(colors)
+  }
+}
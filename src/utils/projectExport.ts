@@ -2,18 +2,54 @@ import type { Canvas } from 'fabric'
 import type { LayerManager } from '../core/LayerManager'
 import type { EntityGroupManager } from '../core/EntityGroupManager'
 import type { ProjectData, SerializedLayer, SerializedEntity } from '../types/ProjectFormat'
+import type { TileSize } from '../types/TileSize'
+import { STRAIGHT_REPEAT, type RepeatLayout, type WallpaperGroup } from '../core/WallpaperSymmetry'
+import { collectPaletteColors, mergePalette } from '../core/Palette'
+import type { Colorway } from '../core/Colorways'
+import type { ClipMaskManager } from '../core/ClipMaskManager'
+import type { SerializedHistory } from '../core/commands/types'
+import type { Snapshot } from '../core/Snapshots'
 
 const APP_VERSION = '0.0.1'
-const PROJECT_VERSION = '1.0.0'
+export const PROJECT_VERSION = '1.1.0'
+
+/**
+ * The project state saved besides the layers
+ */
+export interface ProjectStateOptions {
+  tileSize: TileSize
+  entityGroupManager?: EntityGroupManager | null
+  symmetryGroup?: WallpaperGroup // 'p1' when not given
+  repeatLayout?: RepeatLayout // Straight when not given
+  palette?: string[]
+  colorways?: Colorway[]
+  clipMaskManager?: ClipMaskManager | null
+  history?: SerializedHistory // Only saved when given (see serializeHistory)
+  snapshots?: Snapshot[]
+}
 
 /**
  * Serialize the current project state to JSON
+ * The palette is saved with every colour in use added to the saved swatches.
+ * Colourways are saved as they are - they only map colours, never the objects.
+ * Clipping masks are saved by target, like entity groups.
+ * The undo history is only saved when given (see serializeHistory). Snapshots are
+ * saved as they are, each holding the project as it was.
  */
 export function serializeProject(
   _fabricCanvas: Canvas,
   layerManager: LayerManager,
-  tileSize: number,
-  entityGroupManager?: EntityGroupManager | null
+  {
+    tileSize,
+    entityGroupManager,
+    symmetryGroup = 'p1',
+    repeatLayout = STRAIGHT_REPEAT,
+    palette = [],
+    colorways = [],
+    clipMaskManager,
+    history,
+    snapshots = [],
+  }: ProjectStateOptions
 ): ProjectData {
   const now = new Date().toISOString()
   const layers = layerManager.getLayers()
@@ -39,16 +75,25 @@ export function serializeProject(
   // Serialize entity groups
   const entityGroups = entityGroupManager?.serialize() ?? []
 
+  const usedColors = collectPaletteColors(layers.flatMap((layer) => layerManager.getCenterTileObjectsByLayer(layer.id)))
+
   return {
     version: PROJECT_VERSION,
     appVersion: APP_VERSION,
     metadata: {
       tileSize,
+      symmetryGroup,
+      repeatLayout,
       createdAt: now,
       modifiedAt: now,
     },
     layers: serializedLayers,
     entityGroups,
+    palette: mergePalette(palette, usedColors).map(({ color }) => color),
+    colorways,
+    clipMasks: clipMaskManager?.serialize() ?? [],
+    ...(history && { history }),
+    snapshots,
   }
 }
 
@@ -58,11 +103,17 @@ export function serializeProject(
 export function exportProjectAsJSON(
   fabricCanvas: Canvas,
   layerManager: LayerManager,
-  tileSize: number,
   filename: string,
-  entityGroupManager?: EntityGroupManager | null
+  options: ProjectStateOptions
 ): void {
-  const projectData = serializeProject(fabricCanvas, layerManager, tileSize, entityGroupManager)
+  const projectData = serializeProject(fabricCanvas, layerManager, options)
+  downloadProjectData(projectData, filename)
+}
+
+/**
+ * Download project data as a .tiles file, e.g. a snapshot as a project of its own
+ */
+export function downloadProjectData(projectData: ProjectData, filename: string): void {
   const jsonString = JSON.stringify(projectData, null, 2)
   const blob = new Blob([jsonString], { type: 'application/json' })
   const url = URL.createObjectURL(blob)
@@ -1,10 +1,37 @@
 import type { Canvas } from 'fabric'
 import { util as fabricUtil } from 'fabric'
-import type { LayerManager } from '../core/LayerManager'
+import { isBlendMode, isReferenceImage, type LayerManager } from '../core/LayerManager'
 import type { TilingEngine } from '../core/TilingEngine'
 import type { EntityGroupManager } from '../core/EntityGroupManager'
 import type { ProjectData } from '../types/ProjectFormat'
 import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import { PROJECT_VERSION } from './projectExport'
+import { isColorway } from '../core/Colorways'
+import { isClipMask, type ClipMaskManager } from '../core/ClipMaskManager'
+import { isSnapshot } from '../core/Snapshots'
+import { isRepeatLayout, isWallpaperGroup, normalizeRepeatLayout, STRAIGHT_REPEAT } from '../core/WallpaperSymmetry'
+
+/**
+ * Upgrade project data written by older versions to the current format.
+ * 1.0.0 stored tileSize as a single number (square tiles).
+ */
+export function migrateProjectData(data: unknown): unknown {
+  if (!data || typeof data !== 'object') return data
+
+  const project = data as { metadata?: unknown }
+  if (!project.metadata || typeof project.metadata !== 'object') return data
+
+  const metadata = project.metadata as { tileSize?: unknown }
+  if (typeof metadata.tileSize === 'number') {
+    return {
+      ...project,
+      version: PROJECT_VERSION,
+      metadata: { ...metadata, tileSize: { width: metadata.tileSize, height: metadata.tileSize } },
+    }
+  }
+
+  return data
+}
 
 /**
  * Validate project data structure
@@ -25,6 +52,43 @@ export function validateProjectData(data: any): data is ProjectData {
     return false
   }
 
+  const { tileSize } = data.metadata
+  if (!tileSize || typeof tileSize !== 'object' || !(tileSize.width > 0) || !(tileSize.height > 0)) {
+    console.error('Invalid project data: missing or invalid tile size', tileSize)
+    return false
+  }
+
+  if (data.metadata.symmetryGroup !== undefined && !isWallpaperGroup(data.metadata.symmetryGroup)) {
+    console.error('Invalid project data: unknown symmetry group', data.metadata.symmetryGroup)
+    return false
+  }
+
+  if (data.metadata.repeatLayout !== undefined && !isRepeatLayout(data.metadata.repeatLayout)) {
+    console.error('Invalid project data: invalid repeat layout', data.metadata.repeatLayout)
+    return false
+  }
+
+  if (data.palette !== undefined &&
+      (!Array.isArray(data.palette) || !data.palette.every((color: unknown) => typeof color === 'string'))) {
+    console.error('Invalid project data: palette must be a list of colours', data.palette)
+    return false
+  }
+
+  if (data.colorways !== undefined && (!Array.isArray(data.colorways) || !data.colorways.every(isColorway))) {
+    console.error('Invalid project data: invalid colourways', data.colorways)
+    return false
+  }
+
+  if (data.clipMasks !== undefined && (!Array.isArray(data.clipMasks) || !data.clipMasks.every(isClipMask))) {
+    console.error('Invalid project data: invalid clipping masks', data.clipMasks)
+    return false
+  }
+
+  if (data.snapshots !== undefined && (!Array.isArray(data.snapshots) || !data.snapshots.every(isSnapshot))) {
+    console.error('Invalid project data: invalid snapshots', data.snapshots)
+    return false
+  }
+
   if (!Array.isArray(data.layers)) {
     console.error('Invalid project data: layers must be an array')
     return false
@@ -42,10 +106,32 @@ export function validateProjectData(data: any): data is ProjectData {
       console.error('Invalid layer: entities must be an array')
       return false
     }
+
+    if (layer.opacity !== undefined && !(typeof layer.opacity === 'number' && layer.opacity >= 0 && layer.opacity <= 1)) {
+      console.error('Invalid layer: opacity must be between 0 and 1', layer.opacity)
+      return false
+    }
+
+    if (layer.blendMode !== undefined && !isBlendMode(layer.blendMode)) {
+      console.error('Invalid layer: unknown blend mode', layer.blendMode)
+      return false
+    }
+
+    if ((layer.parentId !== undefined && typeof layer.parentId !== 'string') ||
+        (layer.isFolder !== undefined && typeof layer.isFolder !== 'boolean') ||
+        (layer.collapsed !== undefined && typeof layer.collapsed !== 'boolean')) {
+      console.error('Invalid layer: invalid folder structure', layer)
+      return false
+    }
+
+    if (layer.reference !== undefined && !isReferenceImage(layer.reference)) {
+      console.error('Invalid layer: invalid reference image', layer.reference)
+      return false
+    }
   }
 
   // Log version mismatch warnings
-  if (data.version !== '1.0.0') {
+  if (data.version !== PROJECT_VERSION) {
     console.warn(`Project version ${data.version} may not be fully compatible`)
   }
 
@@ -54,15 +140,18 @@ export function validateProjectData(data: any): data is ProjectData {
 
 /**
  * Deserialize project data and restore canvas state
+ * Resolves with the migrated project data so callers can restore project-level settings
  */
 export async function deserializeProject(
-  projectData: ProjectData,
+  rawProjectData: ProjectData,
   fabricCanvas: Canvas,
   layerManager: LayerManager,
   tilingEngine: TilingEngine,
-  entityGroupManager?: EntityGroupManager | null
-): Promise<void> {
-  // Step 1: Validate
+  entityGroupManager?: EntityGroupManager | null,
+  clipMaskManager?: ClipMaskManager | null
+): Promise<ProjectData> {
+  // Step 1: Migrate and validate
+  const projectData = migrateProjectData(rawProjectData)
   if (!validateProjectData(projectData)) {
     throw new Error('Invalid project data')
   }
@@ -70,6 +159,12 @@ export async function deserializeProject(
   // Step 2: Clear existing state
   layerManager.clear()
   entityGroupManager?.clear()
+  clipMaskManager?.clear()
+
+  // Apply the tile size and symmetry before recreating entities so they wrap into the right cell
+  tilingEngine.updateTileSize(projectData.metadata.tileSize)
+  tilingEngine.setSymmetryGroup(projectData.metadata.symmetryGroup ?? 'p1')
+  tilingEngine.setRepeatLayout(normalizeRepeatLayout(projectData.metadata.repeatLayout ?? STRAIGHT_REPEAT))
 
   // Step 3: Import layers
   const layers = projectData.layers.map(({ entities, ...layer }) => layer)
@@ -130,25 +225,30 @@ export async function deserializeProject(
     }
   }
 
-  // Step 5: Restore entity groups
+  // Step 5: Restore entity groups and clipping masks
   if (projectData.entityGroups && entityGroupManager) {
     entityGroupManager.deserialize(projectData.entityGroups)
   }
+  clipMaskManager?.deserialize(projectData.clipMasks ?? [])
 
   // Step 6: Request render
   fabricCanvas.requestRenderAll()
+
+  return projectData
 }
 
 /**
  * Import project from a .tiles file
+ * Resolves with the imported project data so callers can restore project-level settings
  */
 export async function importProjectFromFile(
   file: File,
   fabricCanvas: Canvas,
   layerManager: LayerManager,
   tilingEngine: TilingEngine,
-  entityGroupManager?: EntityGroupManager | null
-): Promise<void> {
+  entityGroupManager?: EntityGroupManager | null,
+  clipMaskManager?: ClipMaskManager | null
+): Promise<ProjectData> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
 
@@ -157,8 +257,7 @@ export async function importProjectFromFile(
         const text = e.target?.result as string
         const projectData = JSON.parse(text)
 
-        await deserializeProject(projectData, fabricCanvas, layerManager, tilingEngine, entityGroupManager)
-        resolve()
+        resolve(await deserializeProject(projectData, fabricCanvas, layerManager, tilingEngine, entityGroupManager, clipMaskManager))
       } catch (error) {
         if (error instanceof SyntaxError) {
           reject(new Error('Failed to parse project file: Invalid JSON'))
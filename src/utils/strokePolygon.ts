@@ -0,0 +1,70 @@
+import polygonClipping from 'polygon-clipping'
+
+export interface StrokePoint {
+  x: number
+  y: number
+  width: number
+}
+
+export type Ring = [number, number][]
+export type Polygon = Ring[]
+export type MultiPolygon = Polygon[]
+
+/**
+ * Create a circle polygon with specified center, radius, and segments
+ */
+export function createCircleRing(cx: number, cy: number, r: number, segments: number): Ring {
+  const points: Ring = []
+  for (let i = 0; i <= segments; i++) {
+    const angle = (i / segments) * Math.PI * 2
+    points.push([cx + Math.cos(angle) * r, cy + Math.sin(angle) * r])
+  }
+  return points
+}
+
+/**
+ * Outline of a stroke as a polygon: a quad per segment plus a circle at every point
+ * for round joins and caps, unioned so self-intersections resolve cleanly.
+ *
+ * @param points - Stroke centre line with the full stroke width at each point
+ * @param circleSegments - Segments per round join (more is smoother)
+ */
+export function strokeToPolygon(points: StrokePoint[], circleSegments: number = 24): MultiPolygon {
+  const allPolygons: Ring[] = []
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const p1 = points[i]
+    const p2 = points[i + 1]
+
+    const dx = p2.x - p1.x
+    const dy = p2.y - p1.y
+    const len = Math.hypot(dx, dy)
+    if (len < 0.001) continue
+
+    // Perpendicular unit vector
+    const nx = -dy / len
+    const ny = dx / len
+
+    const w1 = p1.width / 2
+    const w2 = p2.width / 2
+
+    // Quad corners - must be in counter-clockwise order for polygon-clipping
+    allPolygons.push([
+      [p1.x + nx * w1, p1.y + ny * w1],
+      [p2.x + nx * w2, p2.y + ny * w2],
+      [p2.x - nx * w2, p2.y - ny * w2],
+      [p1.x - nx * w1, p1.y - ny * w1],
+      [p1.x + nx * w1, p1.y + ny * w1], // close
+    ])
+  }
+
+  for (const p of points) {
+    if (p.width <= 0) continue
+    allPolygons.push(createCircleRing(p.x, p.y, p.width / 2, circleSegments))
+  }
+
+  if (allPolygons.length === 0) return []
+
+  const [first, ...rest] = allPolygons
+  return polygonClipping.union([first], ...rest.map((ring) => [ring]))
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { Rect } from 'fabric'
+import type { ExtendedFabricObject } from '../types/FabricExtensions'
+import type { Layer } from '../core/LayerManager'
+import { ClipMaskManager } from '../core/ClipMaskManager'
+import { generateLayerGroupsSVG } from './svgExport'
+
+const layer = (id: string, order: number, settings: Partial<Layer> = {}): Layer => ({
+  id,
+  name: id,
+  visible: true,
+  locked: false,
+  order,
+  ...settings,
+})
+
+const entity = (id: string, layerId: string): ExtendedFabricObject =>
+  Object.assign(new Rect({ width: 10, height: 10 }), {
+    id,
+    layerId,
+    tiledMetadata: { isMirror: false, mirrorGroupId: id, tilePosition: [0, 0] as [number, number] },
+  })
+
+describe('generateLayerGroupsSVG', () => {
+  it('should write one group per layer in layer order with its opacity and blend mode', () => {
+    const top = entity('top', 'overlay')
+    const bottom = entity('bottom', 'base')
+    const copy = new Rect({ width: 10, height: 10, left: 50 })
+    const layers = [layer('base', 0), layer('overlay', 1, { opacity: 0.5, blendMode: 'multiply' })]
+
+    const svg = generateLayerGroupsSVG([top, bottom], new Map([[bottom, [copy]]]), layers)
+    const baseGroup = svg.indexOf('<g>\n')
+    const overlayGroup = svg.indexOf('<g opacity="0.5" style="mix-blend-mode: multiply">\n')
+
+    expect(baseGroup).toBe(0)
+    expect(overlayGroup).toBeGreaterThan(baseGroup)
+    // The bottom layer holds the object followed by its copy
+    const base = svg.slice(baseGroup, overlayGroup)
+    expect(base.match(/<rect/g)).toHaveLength(2)
+    expect(base.indexOf('matrix(1 0 0 1 55.5 5.5)')).toBeGreaterThan(base.indexOf('matrix(1 0 0 1 5.5 5.5)'))
+    expect(svg.slice(overlayGroup).match(/<rect/g)).toHaveLength(1)
+  })
+  it('should nest layer groups in their folders and skip empty folders', () => {
+    const inner = entity('inner', 'leaf')
+    const outer = entity('outer', 'base')
+    const layers = [
+      layer('folder', 0, { isFolder: true }),
+      layer('leaf', 1, { parentId: 'folder', opacity: 0.25 }),
+      layer('empty', 2, { isFolder: true }),
+      layer('base', 3),
+    ]
+
+    const svg = generateLayerGroupsSVG([outer, inner], new Map(), layers)
+    // Folder group around the leaf layer group, then the base layer group
+    expect(svg.match(/<g>\n/g)).toHaveLength(2)
+    expect(svg.startsWith('<g>\n<g opacity="0.25">\n')).toBe(true)
+    expect(svg.indexOf('</g>\n</g>\n<g>\n')).toBeGreaterThan(0)
+  })
+  it('should clip entities and layers by their clip paths and leave the masks out', () => {
+    const texture = entity('texture', 'base')
+    const mask = entity('mask', 'base')
+    const overlay = entity('overlay', 'top')
+    const clips = new ClipMaskManager()
+    clips.setClipMask('entity', 'texture', 'mask')
+    clips.setClipMask('layer', 'top', 'mask')
+
+    const svg = generateLayerGroupsSVG(
+      [texture, mask, overlay],
+      new Map(),
+      [layer('base', 0), layer('top', 1)],
+      clips,
+      new Map([['mask', 'clip-mask-0']])
+    )
+
+    expect(svg.match(/<rect/g)).toHaveLength(2)
+    expect(svg.indexOf('<g>\n<g clip-path="url(#clip-mask-0)">\n')).toBe(0)
+    // The entity inside the base layer group, then the clipped top layer group
+    expect(svg.match(/clip-path=/g)).toHaveLength(2)
+    expect(svg.lastIndexOf('</g>\n<g clip-path="url(#clip-mask-0)">\n')).toBeGreaterThan(0)
+  })
+})
@@ -1,12 +1,21 @@
-import type { Canvas as FabricCanvasType, FabricObject } from 'fabric'
+import { util, type Canvas as FabricCanvasType, type FabricObject, type TMat2D } from 'fabric'
 import type { ExtendedFabricObject } from '../types/FabricExtensions'
-
-// Tile offsets for the 3x3 grid (excluding center [0,0])
-const TILE_OFFSETS: [number, number][] = [
-  [-1, -1], [0, -1], [1, -1],
-  [-1, 0],          [1, 0],
-  [-1, 1],  [0, 1],  [1, 1],
-]
+import type { TileSize } from '../types/TileSize'
+import { getObjectRadialMatrices } from '../core/RadialSymmetry'
+import { assignGradientIds } from '../core/Gradients'
+import { applyColorway, type Colorway } from '../core/Colorways'
+import type { Layer } from '../core/LayerManager'
+import { getClipMaskPathData, type ClipMaskManager } from '../core/ClipMaskManager'
+import {
+  getInstanceTransforms,
+  getRepeatSize,
+  isTranslationOnly,
+  multiplyMatrices,
+  transformPoint,
+  STRAIGHT_REPEAT,
+  type RepeatLayout,
+  type WallpaperGroup,
+} from '../core/WallpaperSymmetry'
 
 export interface LayerBackground {
   order: number
@@ -17,35 +26,60 @@ export interface LayerBackground {
 /**
  * Generate SVG string from center tile objects
  * Returns SVG with viewBox set to the center tile region
- * Creates temporary copies at all 9 tile positions for proper tiling
+ * Creates temporary copies at every symmetry instance that overlaps the exported region
+ *
+ * For rectangular lattices the exported region is the center tile. Hexagonal and triangular
+ * layouts have no rectangular tile, so their export is the width x width·√3 rectangle
+ * (see getRepeatSize). Half-drop, brick and custom offset layouts likewise export the
+ * smallest straight repeat, which spans several tiles (e.g. 2x1 tiles for half-drop).
+ * Objects drawn in radial mode also get a copy for each of their radial copies.
+ * Every copy gets its own gradient ids, so each one writes distinct gradient defs.
+ * A colourway recolours the export only - the base colours are restored afterwards.
+ * Objects are written layer by layer, each layer in a <g> carrying its opacity and
+ * blend mode (as mix-blend-mode). Clipping masks become <clipPath>s holding the mask at
+ * every instance reaching the exported region, and the masks themselves aren't written.
+ * Reference layers are never exported.
  *
  * Handles both virtual tiling mode (1 canonical object at [0,0]) and
  * legacy mode (25 copies across 5x5 grid).
  */
 export async function generateCenterTileSVG(
   canvas: FabricCanvasType,
-  tileSize: number,
-  layerBackgrounds: LayerBackground[] = []
+  tileSize: TileSize,
+  layerBackgrounds: LayerBackground[] = [],
+  symmetryGroup: WallpaperGroup = 'p1',
+  repeatLayout: RepeatLayout = STRAIGHT_REPEAT,
+  colorway: Colorway | null = null,
+  layers: Layer[] = [],
+  clipMaskManager: ClipMaskManager | null = null
 ): Promise<string> {
-  // Get all canonical tiled objects (excluding grid lines and proxies)
+  const { width, height } = getRepeatSize(symmetryGroup, tileSize, repeatLayout)
+
+  // ViewBox starts at the center tile corner (width, height)
+  const viewBoxX = tileSize.width
+  const viewBoxY = tileSize.height
+
+  // Get all canonical tiled objects (excluding grid lines, proxies and reference layers)
+  const referenceLayerIds = new Set(layers.filter((layer) => layer.reference).map((layer) => layer.id))
   const canonicalObjects = canvas.getObjects().filter((obj) => {
     const extObj = obj as ExtendedFabricObject
     const isGridLine = (obj as any).gridLine === true
     const isProxy = (obj as any).proxyMetadata?.isProxy === true
     const hasTilePosition = extObj.tiledMetadata?.tilePosition !== undefined
+    const isReference = !!extObj.layerId && referenceLayerIds.has(extObj.layerId)
 
-    return !isGridLine && !isProxy && hasTilePosition
+    return !isGridLine && !isProxy && hasTilePosition && !isReference
   }) as ExtendedFabricObject[]
 
   // Generate background rects for layers (sorted by order, lowest first)
   const sortedBackgrounds = [...layerBackgrounds].sort((a, b) => a.order - b.order)
   const backgroundRects = sortedBackgrounds
-    .map(bg => `<rect width="${tileSize}" height="${tileSize}" fill="${bg.backgroundColor}" fill-opacity="${bg.backgroundAlpha}"/>`)
+    .map(bg => `<rect width="${width}" height="${height}" fill="${bg.backgroundColor}" fill-opacity="${bg.backgroundAlpha}"/>`)
     .join('')
 
   if (canonicalObjects.length === 0) {
     // Return empty SVG with layer backgrounds
-    return `<svg xmlns="http://www.w3.org/2000/svg" width="${tileSize}" height="${tileSize}" viewBox="0 0 ${tileSize} ${tileSize}"><rect width="${tileSize}" height="${tileSize}" fill="#1a1a25"/>${backgroundRects}</svg>`
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><rect width="${width}" height="${height}" fill="#1a1a25"/>${backgroundRects}</svg>`
   }
 
   // Get all objects that should be hidden (grid lines and proxies)
@@ -56,45 +90,96 @@ export async function generateCenterTileSVG(
   // Temporarily hide grid lines and proxies
   objectsToHide.forEach(obj => obj.set({ visible: false }))
 
-  // Create temporary copies at all 8 surrounding tile positions
-  const temporaryCopies: FabricObject[] = []
+  // Create temporary copies at every instance except the canonical one (identity first)
+  // Wide repeats need instances beyond the usual 5x5 coverage
+  const coverage = Math.max(width / tileSize.width, height / tileSize.height) + 2
+  const instances = getInstanceTransforms(symmetryGroup, tileSize, repeatLayout, coverage)
+  const copiesByCanonical = new Map<FabricObject, FabricObject[]>()
 
-  for (const canonical of canonicalObjects) {
+  const getInstanceMatrices = (obj: ExtendedFabricObject) => {
+    const radialMatrices = getObjectRadialMatrices(obj.tiledMetadata?.radialSymmetry, obj.calcTransformMatrix())
+    return instances.flatMap((instance) => radialMatrices.map((radial) => multiplyMatrices(instance.matrix, radial)))
+  }
+  // Whether an instance of an object reaches the exported region
+  const isExported = (obj: FabricObject, matrix: TMat2D) => {
+    const transformed = obj.getCoords().map((corner) => transformPoint(matrix, corner))
+    const xs = transformed.map((p) => p.x)
+    const ys = transformed.map((p) => p.y)
+    return !(
+      Math.max(...xs) < viewBoxX || Math.min(...xs) > viewBoxX + width ||
+      Math.max(...ys) < viewBoxY || Math.min(...ys) > viewBoxY + height
+    )
+  }
+
+  for (const [objectIndex, canonical] of canonicalObjects.entries()) {
     const originalLeft = canonical.left || 0
     const originalTop = canonical.top || 0
+    const copyMatrices = getInstanceMatrices(canonical).slice(1)
+
+    const copies: FabricObject[] = []
+    copiesByCanonical.set(canonical, copies)
+
+    for (const [copyIndex, matrix] of copyMatrices.entries()) {
+      // Skip instances that don't reach the exported region
+      if (!isExported(canonical, matrix)) continue
 
-    for (const [tx, ty] of TILE_OFFSETS) {
       // Clone the object (async in Fabric v6)
       const copy = await canonical.clone()
-      copy.set({
-        left: originalLeft + tx * tileSize,
-        top: originalTop + ty * tileSize,
-      })
-      // Mark as temporary so we can identify it later
-      ;(copy as any)._isTemporaryCopy = true
-      canvas.add(copy)
-      temporaryCopies.push(copy)
+      if (isTranslationOnly(matrix)) {
+        copy.set({
+          left: originalLeft + matrix[4],
+          top: originalTop + matrix[5],
+        })
+      } else {
+        util.addTransformToObject(copy, matrix)
+      }
+      applyColorway([copy], colorway)
+      assignGradientIds(copy, `gradient-${objectIndex}-${copyIndex + 1}`)
+      copies.push(copy)
     }
   }
 
-  canvas.requestRenderAll()
+  // Recolour the canonical objects after cloning, as the copies were recoloured one by one
+  const restoreColors = applyColorway(canonicalObjects, colorway)
+  for (const [objectIndex, canonical] of canonicalObjects.entries()) {
+    assignGradientIds(canonical, `gradient-${objectIndex}-0`)
+  }
+
+  // Clip paths for the masks in use, with the mask at every instance reaching the export
+  const clipPathIds = new Map<string, string>()
+  const clipPaths = Array.from(clipMaskManager?.getMaskIds(canonicalObjects) ?? [])
+    .map((maskId, index) => {
+      const mask = canonicalObjects.find((obj) => obj.tiledMetadata?.mirrorGroupId === maskId)
+      if (!mask) return ''
+      const matrices = getInstanceMatrices(mask).filter((matrix) => isExported(mask, matrix))
+      const pathData = getClipMaskPathData(mask, matrices)
+      if (pathData.length === 0) return ''
+
+      const id = `clip-mask-${index}`
+      clipPathIds.set(maskId, id)
+      const clipRule = mask.fillRule === 'evenodd' ? ' clip-rule="evenodd"' : ''
+      return `<clipPath id="${id}">${pathData.map((d) => `<path d="${d}"${clipRule}/>`).join('')}</clipPath>\n`
+    })
+    .join('')
 
-  try {
-    // ViewBox is at center tile [tileSize, 2*tileSize)
-    const viewBoxX = tileSize
-    const viewBoxY = tileSize
+  // Tiled objects are written below, grouped by layer
+  canonicalObjects.forEach((obj) => (obj.excludeFromExport = true))
 
+  try {
     // Generate SVG with viewBox set to the center tile
-    const svgString = canvas.toSVG({
+    const canvasSVG = canvas.toSVG({
       viewBox: {
         x: viewBoxX,
         y: viewBoxY,
-        width: tileSize,
-        height: tileSize
+        width,
+        height
       },
-      width: `${tileSize}`,
-      height: `${tileSize}`
+      width: `${width}`,
+      height: `${height}`
     })
+    const layerGroups = generateLayerGroupsSVG(canonicalObjects, copiesByCanonical, layers, clipMaskManager, clipPathIds)
+    const defs = clipPaths ? `<defs>\n${clipPaths}</defs>\n` : ''
+    const svgString = canvasSVG.replace(/<\/svg>\s*$/, `${defs}${layerGroups}</svg>`)
 
     // Add base background color and layer backgrounds to SVG
     // Use regex to find the opening <svg> tag and insert after it
@@ -105,22 +190,20 @@ export async function generateCenterTileSVG(
       // The regex matches <svg followed by any attributes until the closing >
       withBackground = svgString.replace(
         /(<svg[^>]*>)/,
-        `$1<rect width="${tileSize}" height="${tileSize}" fill="#1a1a25"/>${backgroundRects}`
+        `$1<rect width="${width}" height="${height}" fill="#1a1a25"/>${backgroundRects}`
       )
     } else {
       // Just add the base background
       withBackground = svgString.replace(
         /(<svg[^>]*>)/,
-        `$1<rect width="${tileSize}" height="${tileSize}" fill="#1a1a25"/>`
+        `$1<rect width="${width}" height="${height}" fill="#1a1a25"/>`
       )
     }
 
     return withBackground
   } finally {
-    // Remove temporary copies
-    for (const copy of temporaryCopies) {
-      canvas.remove(copy)
-    }
+    canonicalObjects.forEach((obj) => (obj.excludeFromExport = false))
+    restoreColors()
 
     // Restore visibility
     objectsToHide.forEach(obj => obj.set({ visible: true }))
@@ -128,6 +211,76 @@ export async function generateCenterTileSVG(
   }
 }
 
+/**
+ * The objects and their copies as one <g> per layer, in layer order, nested in a <g> per
+ * layer folder. Layer opacity and blend modes are set on the groups, so each layer is
+ * composited as a whole. Clipped entities, entity groups and layers get a clip-path
+ * referring to the clip path ids of their masks; the masks themselves are left out.
+ */
+export function generateLayerGroupsSVG(
+  canonicalObjects: ExtendedFabricObject[],
+  copiesByCanonical: Map<FabricObject, FabricObject[]>,
+  layers: Layer[],
+  clipMaskManager: ClipMaskManager | null = null,
+  clipPathIds: Map<string, string> = new Map()
+): string {
+  const layerMap = new Map(layers.map((layer) => [layer.id, layer]))
+  const getParentId = (layer: Layer) => (layer.parentId && layerMap.get(layer.parentId)?.isFolder ? layer.parentId : null)
+  const getClipPath = (maskId: string | undefined) => {
+    const id = maskId && clipPathIds.get(maskId)
+    return id ? ` clip-path="url(#${id})"` : ''
+  }
+
+  // Markup per layer, keeping the canvas order within each layer
+  const markupByLayer = new Map<string | null, string[]>()
+  for (const obj of canonicalObjects) {
+    const { mirrorGroupId = '', entityGroupId } = obj.tiledMetadata ?? {}
+    // Masks only clip
+    if (clipPathIds.has(mirrorGroupId)) continue
+
+    const layerId = obj.layerId && layerMap.has(obj.layerId) ? obj.layerId : null
+    const markup = markupByLayer.get(layerId) ?? []
+    let objectMarkup = [obj, ...(copiesByCanonical.get(obj) ?? [])].map((instance) => instance.toSVG()).join('')
+
+    // The entity's own mask inside the mask of its entity group
+    for (const clipPath of [
+      getClipPath(clipMaskManager?.getClipMask('entity', mirrorGroupId)),
+      getClipPath(entityGroupId && clipMaskManager?.getClipMask('entityGroup', entityGroupId)),
+    ]) {
+      if (clipPath) objectMarkup = `<g${clipPath}>\n${objectMarkup}</g>\n`
+    }
+    markup.push(objectMarkup)
+    markupByLayer.set(layerId, markup)
+  }
+
+  const renderChildren = (parentId: string | null): string =>
+    layers
+      .filter((layer) => getParentId(layer) === parentId)
+      .sort((a, b) => a.order - b.order)
+      .map((layer) => {
+        if (layer.isFolder) {
+          const children = renderChildren(layer.id)
+          return children && `<g>\n${children}</g>\n`
+        }
+
+        const markup = markupByLayer.get(layer.id)
+        if (!markup) return ''
+        const opacity = layer.opacity ?? 1
+        const blendMode = layer.blendMode ?? 'normal'
+        const attributes = [
+          opacity < 1 ? ` opacity="${opacity}"` : '',
+          blendMode !== 'normal' ? ` style="mix-blend-mode: ${blendMode}"` : '',
+          getClipPath(clipMaskManager?.getClipMask('layer', layer.id)),
+        ].join('')
+        return `<g${attributes}>\n${markup.join('')}</g>\n`
+      })
+      .join('')
+
+  // Objects without a (known) layer go below all layers
+  const unlayered = markupByLayer.get(null)
+  return (unlayered ? `<g>\n${unlayered.join('')}</g>\n` : '') + renderChildren(null)
+}
+
 /**
  * Rasterize an SVG string to a PNG data URL at the specified resolution
  */
@@ -229,21 +382,22 @@ export async function convertFormat(
 }
 
 /**
- * Download a file from a data URL or text content
+ * Download a file from a data URL, text or binary content
  */
 export function downloadFile(
-  content: string,
+  content: string | ArrayBuffer,
   filename: string,
   mimeType: string = 'application/octet-stream'
 ): void {
   const link = document.createElement('a')
   link.download = filename
+  const isDataURL = typeof content === 'string' && content.startsWith('data:')
 
   // If content is already a data URL, use it directly
-  if (content.startsWith('data:')) {
+  if (isDataURL) {
     link.href = content
   } else {
-    // Create blob for text content (e.g., SVG strings)
+    // Create blob for text or binary content (e.g., SVG strings)
     const blob = new Blob([content], { type: mimeType })
     link.href = URL.createObjectURL(blob)
   }
@@ -251,7 +405,7 @@ export function downloadFile(
   link.click()
 
   // Clean up blob URL if we created one
-  if (!content.startsWith('data:')) {
+  if (!isDataURL) {
     URL.revokeObjectURL(link.href)
   }
 }